@@ -11,10 +11,11 @@
  */
 
 import {add, addTime, addZoned, constrain, constrainTime, cycleDate, cycleTime, cycleZoned, set, setTime, setZoned, subtract, subtractTime, subtractZoned} from './manipulation';
-import {AnyCalendarDate, AnyTime, Calendar, CycleOptions, CycleTimeOptions, DateDuration, DateField, DateFields, DateTimeDuration, Disambiguation, TimeDuration, TimeField, TimeFields} from './types';
+import {AnyCalendarDate, AnyTime, Calendar, CycleOptions, CycleTimeOptions, DateDuration, DateField, DateFields, DateTimeDuration, DifferenceOptions, Disambiguation, TimeDuration, TimeField, TimeFields} from './types';
 import {compareDate, compareTime} from './queries';
 import {dateTimeToString, dateToString, timeToString, zonedDateTimeToString} from './string';
 import {GregorianCalendar} from './calendars/GregorianCalendar';
+import {since, until} from './duration';
 import {toCalendarDateTime, toDate, toZoned, zonedToDate} from './conversion';
 
 function shiftArgs(args: any[]) {
@@ -93,6 +94,19 @@ export class CalendarDate {
     return subtract(this, duration);
   }
 
+  /**
+   * Returns the duration from this date until the given date, balanced up to the `largestUnit` option.
+   * Adding the result to this date returns the given date.
+   */
+  until(b: CalendarDate, options?: DifferenceOptions): Required<DateDuration> {
+    return until(this, b, options);
+  }
+
+  /** Returns the duration from the given date until this date, balanced up to the `largestUnit` option. */
+  since(b: CalendarDate, options?: DifferenceOptions): Required<DateDuration> {
+    return since(this, b, options);
+  }
+
   /** Returns a new `CalendarDate` with the given fields set to the provided values. Other fields will be constrained accordingly. */
   set(fields: DateFields): CalendarDate {
     return set(this, fields);
@@ -254,6 +268,19 @@ export class CalendarDateTime {
     return subtract(this, duration);
   }
 
+  /**
+   * Returns the duration from this date until the given date, balanced up to the `largestUnit` option.
+   * Adding the result to this date returns the given date.
+   */
+  until(b: CalendarDateTime, options?: DifferenceOptions): Required<DateTimeDuration> {
+    return until(this, b, options);
+  }
+
+  /** Returns the duration from the given date until this date, balanced up to the `largestUnit` option. */
+  since(b: CalendarDateTime, options?: DifferenceOptions): Required<DateTimeDuration> {
+    return since(this, b, options);
+  }
+
   /** Returns a new `CalendarDateTime` with the given fields set to the provided values. Other fields will be constrained accordingly. */
   set(fields: DateFields & TimeFields): CalendarDateTime {
     return set(setTime(this, fields), fields);
@@ -370,6 +397,19 @@ export class ZonedDateTime {
     return subtractZoned(this, duration);
   }
 
+  /**
+   * Returns the duration from this date until the given date, balanced up to the `largestUnit` option.
+   * Adding the result to this date returns the given date.
+   */
+  until(b: ZonedDateTime, options?: DifferenceOptions): Required<DateTimeDuration> {
+    return until(this, b, options);
+  }
+
+  /** Returns the duration from the given date until this date, balanced up to the `largestUnit` option. */
+  since(b: ZonedDateTime, options?: DifferenceOptions): Required<DateTimeDuration> {
+    return since(this, b, options);
+  }
+
   /** Returns a new `ZonedDateTime` with the given fields set to the provided values. Other fields will be constrained accordingly. */
   set(fields: DateFields & TimeFields, disambiguation?: Disambiguation): ZonedDateTime {
     return setZoned(this, fields, disambiguation);
@@ -0,0 +1,577 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {AnyCalendarDate, Calendar} from './types';
+import {CalendarDate, CalendarDateTime, Time} from './CalendarDate';
+import {DateFormatter} from './DateFormatter';
+import {getLocalTimeZone, getMinimumDayInMonth, getMinimumMonthInYear, today} from './queries';
+import {GregorianCalendar} from './calendars/GregorianCalendar';
+import {parseDate, parseDateTime} from './string';
+import {toCalendar, toCalendarDate, toCalendarDateTime} from './conversion';
+
+export interface DateParserOptions {
+  /**
+   * The calendar system that dates are entered in. Years, eras, and month names in the input
+   * are interpreted according to this calendar, and parsed dates are returned in it.
+   * @default GregorianCalendar
+   */
+  calendar?: Calendar
+}
+
+export interface ParsedDateRange {
+  start: CalendarDate | CalendarDateTime,
+  end: CalendarDate | CalendarDateTime
+}
+
+type DateField = 'year' | 'month' | 'day';
+type PhraseType = 'month' | 'era' | 'dayPeriod' | 'relative';
+
+interface Phrase {
+  text: string,
+  type: PhraseType,
+  value: string | number
+}
+
+interface Token {
+  type: 'number' | 'word' | 'separator' | PhraseType,
+  text: string,
+  value: string | number,
+  start: number,
+  end: number
+}
+
+// Numbering systems whose digits are converted to latin digits before parsing.
+// Full width digits are handled by unicode normalization.
+const NUMBERING_SYSTEMS = ['arab', 'arabext', 'deva', 'beng'];
+const BIDI_REGEX = /[\u200e\u200f\u061c\u2066-\u2069]/g;
+const LETTER_REGEX = /[\p{L}\p{M}]/u;
+const ISO_REGEX = /^\d{4}-\d{2}-\d{2}(T|$)/;
+const RANGE_SEPARATORS = ['–', '—', '~', ' - '];
+
+let digitMap: Map<string, string> | null = null;
+
+/**
+ * A DateParser can be used to perform locale-aware parsing of free-form date strings entered by a user,
+ * such as "March 5, 2024", "05/03/24", or "tomorrow". The order of the date fields, month names, eras,
+ * and day periods are determined according to the locale.
+ */
+export class DateParser {
+  private locale: string;
+  private calendar: Calendar;
+
+  constructor(locale: string, options: DateParserOptions = {}) {
+    this.locale = locale;
+    this.calendar = options.calendar ?? new GregorianCalendar();
+  }
+
+  /**
+   * Parses the given string to a date, or a date and time if the string includes a time.
+   * Returns null if a valid date could not be parsed. The reference date is used to resolve
+   * relative dates such as "tomorrow", and to fill in fields that are omitted such as the year.
+   * It defaults to today's date in the user's time zone.
+   */
+  parse(value: string, referenceDate?: AnyCalendarDate): CalendarDate | CalendarDateTime | null {
+    return getDateParserImpl(this.locale, this.calendar).parse(value, this.getReferenceDate(referenceDate));
+  }
+
+  /**
+   * Parses the given string to a date range, e.g. "March 5 – March 8, 2024". Returns null if a valid
+   * range could not be parsed. Fields omitted from the start date are filled in from the end date.
+   */
+  parseRange(value: string, referenceDate?: AnyCalendarDate): ParsedDateRange | null {
+    return getDateParserImpl(this.locale, this.calendar).parseRange(value, this.getReferenceDate(referenceDate));
+  }
+
+  private getReferenceDate(referenceDate?: AnyCalendarDate): CalendarDate {
+    let date = referenceDate ? toCalendarDate(referenceDate) : today(getLocalTimeZone());
+    return toCalendar(date, this.calendar);
+  }
+}
+
+const dateParserCache = new Map<string, DateParserImpl>();
+function getDateParserImpl(locale: string, calendar: Calendar) {
+  let cacheKey = locale + calendar.identifier;
+  let parser = dateParserCache.get(cacheKey);
+  if (!parser || parser.calendar !== calendar) {
+    parser = new DateParserImpl(locale, calendar);
+    dateParserCache.set(cacheKey, parser);
+  }
+
+  return parser;
+}
+
+// The actual date parser implementation. Instances of this class are cached based on the locale and calendar,
+// since determining the patterns and names for a locale requires formatting many dates.
+class DateParserImpl {
+  locale: string;
+  calendar: Calendar;
+  phrases: Phrase[];
+  literals: Set<string>;
+  numericOrder: DateField[];
+  namedMonthOrder: DateField[];
+  timeSeparators: string[];
+  rangeSeparators: string[];
+  monthNames = new Map<string, Map<string, number>>();
+
+  constructor(locale: string, calendar: Calendar) {
+    this.locale = locale;
+    this.calendar = calendar;
+
+    // Sample dates within the calendar's current range of years, e.g. a leap year and a common year.
+    let samples = [new CalendarDate(2024, 6, 15), new CalendarDate(2025, 6, 15)].map(date => toCalendar(date, calendar));
+    let numericParts = this.getFormatter({year: 'numeric', month: 'numeric', day: 'numeric'}).formatToParts(samples[0].toDate('UTC'));
+    this.numericOrder = getFieldOrder(numericParts);
+    this.namedMonthOrder = getFieldOrder(this.getFormatter({year: 'numeric', month: 'long', day: 'numeric'}).formatToParts(samples[0].toDate('UTC')));
+
+    this.phrases = [];
+    for (let sample of samples) {
+      for (let name of this.getMonthNames(sample).keys()) {
+        this.addPhrase(name, 'month', name);
+      }
+    }
+
+    for (let era of calendar.getEras()) {
+      let date = new CalendarDate(calendar, era, 1, 1, 1);
+      for (let style of ['long', 'short', 'narrow'] as const) {
+        let part = this.getFormatter({era: style, year: 'numeric'}).formatToParts(date.toDate('UTC')).find(part => part.type === 'era');
+        if (part) {
+          this.addPhrase(part.value, 'era', era);
+        }
+      }
+    }
+
+    let dayPeriodFormatter = this.getFormatter({hour: 'numeric', hour12: true});
+    for (let hour of [0, 12]) {
+      let part = dayPeriodFormatter.formatToParts(new Date(Date.UTC(2024, 0, 1, hour))).find(part => part.type === 'dayPeriod');
+      if (part) {
+        this.addPhrase(part.value, 'dayPeriod', hour === 0 ? 'am' : 'pm');
+      }
+    }
+    this.addPhrase('am', 'dayPeriod', 'am');
+    this.addPhrase('pm', 'dayPeriod', 'pm');
+
+    // Relative days such as "yesterday", "today", and "tomorrow", excluding languages where these include a number.
+    let relativeFormatter = new Intl.RelativeTimeFormat(locale, {numeric: 'auto'});
+    for (let days = -2; days <= 2; days++) {
+      let text = relativeFormatter.format(days, 'day');
+      if (!/\d/.test(normalize(text, locale))) {
+        this.addPhrase(text, 'relative', days);
+      }
+    }
+
+    this.phrases.sort((a, b) => b.text.length - a.text.length);
+
+    // Collect the words that appear in formatted dates and may be ignored, e.g. "de" in "5 de marzo de 2024",
+    // as well as the names of the days of the week.
+    this.literals = new Set();
+    let literalFormats: Intl.DateTimeFormatOptions[] = [
+      {dateStyle: 'full', timeStyle: 'short'},
+      {dateStyle: 'long', timeStyle: 'short'},
+      {dateStyle: 'medium'},
+      {year: 'numeric', month: 'long', day: 'numeric'},
+      {weekday: 'long'},
+      {weekday: 'short'}
+    ];
+    for (let options of literalFormats) {
+      let formatter = this.getFormatter(options);
+      for (let i = 0; i < 7; i++) {
+        let date = samples[0].add({days: i});
+        for (let word of getLiteralWords(formatter.formatToParts(date.toDate('UTC')), locale)) {
+          this.literals.add(word);
+        }
+      }
+    }
+
+    // Use the locale's time separator in addition to a colon, as long as it is not also used to separate dates.
+    let timeParts = this.getFormatter({hour: 'numeric', minute: '2-digit', hourCycle: 'h23'}).formatToParts(new Date(Date.UTC(2024, 0, 1, 12, 30)));
+    let timeSeparator = normalize(timeParts.find(part => part.type === 'literal')?.value ?? ':', locale).trim();
+    this.timeSeparators = [':'];
+    if (timeSeparator && timeSeparator !== ':' && !numericParts.some(part => part.type === 'literal' && part.value.includes(timeSeparator))) {
+      this.timeSeparators.push(timeSeparator);
+    }
+
+    // Find the separator between the start and end of a formatted range, e.g. "–".
+    this.rangeSeparators = [...RANGE_SEPARATORS];
+    let rangeParts = this.getFormatter({year: 'numeric', month: 'numeric', day: 'numeric'}).formatRangeToParts(samples[0].toDate('UTC'), samples[1].toDate('UTC'));
+    let separator = rangeParts.find(part => part.source === 'shared' && part.type === 'literal');
+    if (separator && separator.value.trim()) {
+      this.rangeSeparators.unshift(normalize(separator.value, locale).trim());
+    }
+  }
+
+  parse(value: string, referenceDate: CalendarDate, yearReference = referenceDate): CalendarDate | CalendarDateTime | null {
+    let text = normalize(value, this.locale).trim();
+    if (!text) {
+      return null;
+    }
+
+    // ISO 8601 strings are accepted in any locale.
+    if (ISO_REGEX.test(text)) {
+      try {
+        let iso = text.includes('t') ? parseDateTime(text.toUpperCase()) : parseDate(text);
+        return toCalendar(iso, this.calendar);
+      } catch {
+        return null;
+      }
+    }
+
+    let tokens = this.tokenize(text);
+    let numbers: Token[] = [];
+    let month: string | null = null;
+    let era: string | null = null;
+    let dayPeriod: Token | null = null;
+    let relative: number | null = null;
+    let time: number[] | null = null;
+
+    for (let i = 0; i < tokens.length; i++) {
+      let token = tokens[i];
+      switch (token.type) {
+        case 'number': {
+          // A number followed by a time separator and another number begins a time, e.g. 10:30:15.
+          if (tokens[i + 1]?.type === 'separator' && tokens[i + 2]?.type === 'number') {
+            if (time) {
+              return null;
+            }
+
+            time = [Number(token.value), Number(tokens[i + 2].value)];
+            i += 2;
+            if (tokens[i + 1]?.type === 'separator' && tokens[i + 2]?.type === 'number') {
+              time.push(Number(tokens[i + 2].value));
+              i += 2;
+            }
+          } else {
+            numbers.push(token);
+          }
+          break;
+        }
+        case 'month':
+          if (month != null) {
+            return null;
+          }
+          month = token.value as string;
+          break;
+        case 'era':
+          if (era != null) {
+            return null;
+          }
+          era = token.value as string;
+          break;
+        case 'relative':
+          if (relative != null) {
+            return null;
+          }
+          relative = token.value as number;
+          break;
+        case 'dayPeriod':
+          if (dayPeriod) {
+            return null;
+          }
+          dayPeriod = token;
+          break;
+        case 'word': {
+          if (this.literals.has(token.text)) {
+            break;
+          }
+
+          // Ignore short suffixes attached to a number, e.g. ordinals such as "5th".
+          let previous = tokens[i - 1];
+          if (previous?.type === 'number' && previous.end === token.start && token.text.length <= 3) {
+            break;
+          }
+
+          // Allow abbreviated month names, e.g. "sept".
+          let matches = token.text.length >= 3 ? this.phrases.filter(phrase => phrase.type === 'month' && phrase.text.startsWith(token.text)) : [];
+          if (month == null && matches.length > 0 && matches.every(match => match.value === matches[0].value)) {
+            month = matches[0].value as string;
+            break;
+          }
+
+          return null;
+        }
+      }
+    }
+
+    // A day period without a time applies to an adjacent number, e.g. "3pm".
+    if (dayPeriod && !time) {
+      let index = tokens.indexOf(dayPeriod);
+      let hour = [tokens[index - 1], tokens[index + 1]].find(token => token?.type === 'number' && numbers.includes(token));
+      if (!hour) {
+        return null;
+      }
+
+      numbers.splice(numbers.indexOf(hour), 1);
+      time = [Number(hour.value), 0];
+    }
+
+    let date: CalendarDate | null;
+    if (relative != null) {
+      date = numbers.length === 0 && month == null && era == null ? referenceDate.add({days: relative}) : null;
+    } else if (numbers.length === 0 && month == null && era == null) {
+      date = time ? referenceDate : null;
+    } else {
+      date = this.resolveDate(numbers, month, era, yearReference);
+    }
+
+    if (!date) {
+      return null;
+    }
+
+    if (!time) {
+      return date;
+    }
+
+    let [hour, minute, second = 0] = time;
+    if (dayPeriod) {
+      if (hour < 1 || hour > 12) {
+        return null;
+      }
+
+      hour = dayPeriod.value === 'pm' ? hour % 12 + 12 : hour % 12;
+    }
+
+    if (hour > 23 || minute > 59 || second > 59) {
+      return null;
+    }
+
+    return toCalendarDateTime(date, new Time(hour, minute, second));
+  }
+
+  parseRange(value: string, referenceDate: CalendarDate): ParsedDateRange | null {
+    let text = normalize(value, this.locale);
+    for (let separator of this.rangeSeparators) {
+      for (let index = text.indexOf(separator); index >= 0; index = text.indexOf(separator, index + 1)) {
+        let end = this.parse(text.slice(index + separator.length), referenceDate);
+        let start = end ? this.parse(text.slice(0, index), referenceDate, toCalendarDate(end)) : null;
+        if (start && end && start.compare(end) <= 0) {
+          return {start, end};
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private resolveDate(numbers: Token[], monthName: string | null, era: string | null, referenceDate: CalendarDate): CalendarDate | null {
+    let order = (monthName ? this.namedMonthOrder : this.numericOrder).filter(field => field !== 'month' || !monthName);
+    let fields: Partial<Record<DateField, Token>> = {};
+
+    // A number with more than two digits, or that is larger than any day or month, must be the year.
+    // When the year comes first, the month and day follow in that order regardless of the locale, as in ISO 8601.
+    let yearIndex = numbers.findIndex(n => n.text.length > 2 || Number(n.value) > 31);
+    if (yearIndex >= 0) {
+      fields.year = numbers[yearIndex];
+      if (yearIndex === 0 && order[0] !== 'year' && !monthName) {
+        order = ['month', 'day'];
+      }
+      numbers = numbers.filter((_, i) => i !== yearIndex);
+      order = order.filter(field => field !== 'year');
+    } else if (numbers.length < order.length) {
+      // Omit the year if not enough fields were provided.
+      order = order.filter(field => field !== 'year');
+    }
+
+    if (numbers.length > order.length) {
+      return null;
+    }
+
+    // A month name and year without a day resolves to the first day of the month, e.g. "March 2024".
+    if (numbers.length < order.length && !(monthName && fields.year && numbers.length === 0)) {
+      return null;
+    }
+
+    for (let i = 0; i < numbers.length; i++) {
+      fields[order[i]] = numbers[i];
+    }
+
+    let year = fields.year ? Number(fields.year.value) : referenceDate.year;
+    era ??= referenceDate.era;
+
+    // Expand two digit years to the century closest to the reference date.
+    if (fields.year && fields.year.text.length <= 2 && referenceDate.year >= 100) {
+      year += referenceDate.year - referenceDate.year % 100;
+      if (year > referenceDate.year + 50) {
+        year -= 100;
+      } else if (year <= referenceDate.year - 50) {
+        year += 100;
+      }
+    }
+
+    if (year < 1) {
+      return null;
+    }
+
+    let date = new CalendarDate(this.calendar, era, year, 1, 1);
+    if (date.year !== year || date.era !== era) {
+      return null;
+    }
+
+    let month = monthName ? this.getMonthNames(date).get(monthName) : Number(fields.month?.value);
+    if (month == null || month < getMinimumMonthInYear(date) || month > this.calendar.getMonthsInYear(date)) {
+      return null;
+    }
+
+    date = date.set({month});
+    let day = fields.day ? Number(fields.day.value) : getMinimumDayInMonth(date);
+    if (day < getMinimumDayInMonth(date) || day > this.calendar.getDaysInMonth(date)) {
+      return null;
+    }
+
+    return date.set({day});
+  }
+
+  private tokenize(text: string): Token[] {
+    let tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+      let char = text[i];
+
+      // Match known phrases such as month names at word boundaries. Some languages attach a prefix to
+      // the month name, e.g. "באדר" in Hebrew, so also allow a phrase to follow a literal word.
+      if (i === 0 || !LETTER_REGEX.test(text[i - 1])) {
+        let phrase = this.matchPhrase(text, i);
+        let prefix = phrase ? '' : [...this.literals].find(literal => text.startsWith(literal, i) && this.matchPhrase(text, i + literal.length));
+        if (prefix) {
+          tokens.push({type: 'word', text: prefix, value: prefix, start: i, end: i + prefix.length});
+          i += prefix.length;
+          phrase = this.matchPhrase(text, i);
+        }
+
+        if (phrase) {
+          tokens.push({type: phrase.type, text: phrase.text, value: phrase.value, start: i, end: i + phrase.text.length});
+          i += phrase.text.length;
+          continue;
+        }
+      }
+
+      let match: RegExpMatchArray | null;
+      if (/\d/.test(char)) {
+        match = text.slice(i).match(/^\d+/)!;
+        tokens.push({type: 'number', text: match[0], value: Number(match[0]), start: i, end: i + match[0].length});
+      } else if (LETTER_REGEX.test(char)) {
+        match = text.slice(i).match(/^[\p{L}\p{M}]+/u)!;
+        tokens.push({type: 'word', text: match[0], value: match[0], start: i, end: i + match[0].length});
+      } else {
+        let separator = this.timeSeparators.find(separator => text.startsWith(separator, i));
+        match = [separator ?? char];
+        if (separator) {
+          tokens.push({type: 'separator', text: separator, value: separator, start: i, end: i + separator.length});
+        }
+      }
+
+      i += match[0].length;
+    }
+
+    return tokens;
+  }
+
+  private matchPhrase(text: string, index: number): Phrase | undefined {
+    return this.phrases.find(phrase => {
+      let end = index + phrase.text.length;
+      return text.startsWith(phrase.text, index) && (end >= text.length || !LETTER_REGEX.test(text[end]) || !LETTER_REGEX.test(text[end - 1]));
+    });
+  }
+
+  private getMonthNames(date: AnyCalendarDate): Map<string, number> {
+    let start = new CalendarDate(this.calendar, date.era, date.year, 1, 1);
+    let monthsInYear = this.calendar.getMonthsInYear(start);
+    let cacheKey = start.era + start.year;
+    let names = this.monthNames.get(cacheKey);
+    if (names) {
+      return names;
+    }
+
+    names = new Map();
+    let formats: Intl.DateTimeFormatOptions[] = [
+      {month: 'long'},
+      {month: 'short'},
+      {month: 'long', day: 'numeric'},
+      {month: 'short', day: 'numeric'}
+    ];
+    for (let options of formats) {
+      let formatter = this.getFormatter(options);
+      for (let month = getMinimumMonthInYear(start); month <= monthsInYear; month++) {
+        let monthDate = new CalendarDate(this.calendar, start.era, start.year, month, 15);
+        let part = formatter.formatToParts(monthDate.toDate('UTC')).find(part => part.type === 'month');
+        let name = part ? normalize(part.value, this.locale).trim() : '';
+
+        // Skip numeric month names, e.g. "3月" in Japanese, which are parsed as numbers.
+        if (!name || /\d/.test(name)) {
+          continue;
+        }
+
+        for (let variant of getVariants(name)) {
+          if (!names.has(variant)) {
+            names.set(variant, month);
+          }
+        }
+      }
+    }
+
+    this.monthNames.set(cacheKey, names);
+    return names;
+  }
+
+  private addPhrase(text: string, type: PhraseType, value: string | number) {
+    for (let variant of getVariants(normalize(text, this.locale).trim())) {
+      if (variant && !this.phrases.some(phrase => phrase.text === variant && phrase.type === type)) {
+        this.phrases.push({text: variant, type, value});
+      }
+    }
+  }
+
+  private getFormatter(options: Intl.DateTimeFormatOptions) {
+    return new DateFormatter(this.locale, {...options, calendar: this.calendar.identifier, timeZone: 'UTC'});
+  }
+}
+
+function getFieldOrder(parts: Intl.DateTimeFormatPart[]): DateField[] {
+  let order: DateField[] = [];
+  for (let part of parts) {
+    let type = (part.type as string) === 'relatedYear' ? 'year' : part.type;
+    if ((type === 'year' || type === 'month' || type === 'day') && !order.includes(type)) {
+      order.push(type);
+    }
+  }
+
+  return order;
+}
+
+// Returns the words within the literal and weekday parts of a formatted date.
+function getLiteralWords(parts: Intl.DateTimeFormatPart[], locale: string): string[] {
+  return parts
+    .filter(part => part.type === 'literal' || part.type === 'weekday')
+    .flatMap(part => normalize(part.value, locale).match(/[\p{L}\p{M}]+/gu) ?? []);
+}
+
+// Names may be entered with or without periods and spaces, e.g. "p.m.", "pm", and "sept." or "sept".
+function getVariants(text: string): string[] {
+  return [...new Set([text, text.replace(/\./g, '').trim(), text.replace(/[.\s]/g, '')])];
+}
+
+function normalize(text: string, locale: string): string {
+  if (!digitMap) {
+    digitMap = new Map();
+    for (let numberingSystem of NUMBERING_SYSTEMS) {
+      let formatter = new Intl.NumberFormat('en-u-nu-' + numberingSystem, {useGrouping: false});
+      for (let i = 0; i < 10; i++) {
+        digitMap.set(formatter.format(i), String(i));
+      }
+    }
+  }
+
+  return text
+    .normalize('NFKC')
+    .replace(BIDI_REGEX, '')
+    .replace(/\s+/g, ' ')
+    .toLocaleLowerCase(locale)
+    .replace(/./g, char => digitMap!.get(char) ?? char);
+}
@@ -0,0 +1,197 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {DateTimeDuration} from './types';
+
+export interface DurationFormatOptions {
+  /**
+   * The formatting style. The `digital` style formats hours, minutes, and seconds like a clock, e.g. "1:20:00".
+   * @default 'short'
+   */
+  style?: 'long' | 'short' | 'narrow' | 'digital',
+  /** The number of fractional digits to display for seconds in the `digital` style. */
+  fractionalDigits?: number,
+  /** The numbering system to use, e.g. "arab". */
+  numberingSystem?: string
+}
+
+export interface DurationFormatPart {
+  type: string,
+  value: string,
+  /** The unit that the part belongs to, if any. */
+  unit?: string
+}
+
+export interface ResolvedDurationFormatOptions {
+  locale: string,
+  numberingSystem: string,
+  style: 'long' | 'short' | 'narrow' | 'digital',
+  fractionalDigits?: number
+}
+
+interface IntlDurationFormat {
+  format(duration: DateTimeDuration): string,
+  formatToParts(duration: DateTimeDuration): DurationFormatPart[],
+  resolvedOptions(): ResolvedDurationFormatOptions
+}
+
+// Intl.DurationFormat is not yet included in TypeScript's lib, and is missing in some browsers.
+type IntlWithDurationFormat = typeof Intl & {
+  DurationFormat?: new (locale: string, options: DurationFormatOptions) => IntlDurationFormat
+};
+
+type DurationUnit = keyof DateTimeDuration;
+
+const UNITS: DurationUnit[] = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'];
+const DATE_UNITS: DurationUnit[] = ['years', 'months', 'weeks', 'days'];
+
+/**
+ * A wrapper around Intl.DurationFormat, which formats durations such as "1 hr, 20 min".
+ * A polyfill based on Intl.NumberFormat and Intl.ListFormat is used in browsers that do not support it.
+ */
+export class DurationFormatter {
+  private formatter: IntlDurationFormat | null;
+  private locale: string;
+  private options: DurationFormatOptions;
+  private numberFormatters = new Map<string, Intl.NumberFormat>();
+
+  constructor(locale: string, options: DurationFormatOptions = {}) {
+    let IntlDurationFormat = (Intl as IntlWithDurationFormat).DurationFormat;
+    this.formatter = typeof IntlDurationFormat === 'function' ? new IntlDurationFormat(locale, options) : null;
+    this.locale = locale;
+    this.options = options;
+  }
+
+  /** Formats a duration as a string according to the locale and format options passed to the constructor. */
+  format(duration: DateTimeDuration): string {
+    if (this.formatter) {
+      return this.formatter.format(duration);
+    }
+
+    return this.formatToParts(duration).map(part => part.value).join('');
+  }
+
+  /** Formats a duration to an array of parts such as numbers, units, and separators. */
+  formatToParts(duration: DateTimeDuration): DurationFormatPart[] {
+    if (this.formatter) {
+      return this.formatter.formatToParts(duration);
+    }
+
+    let sign = getSign(duration);
+    let style = this.options.style ?? 'short';
+    let elements: DurationFormatPart[][] = [];
+    // Units other than hours, minutes, and seconds are displayed in the short style in the digital style.
+    let unitStyle = style === 'digital' ? 'short' : style;
+    let units = style === 'digital' ? DATE_UNITS : UNITS;
+    for (let unit of units) {
+      let value = duration[unit] || 0;
+      if (value !== 0) {
+        // Only the first unit displays the sign.
+        elements.push(this.formatUnit(elements.length === 0 ? value : Math.abs(value), unit, unitStyle));
+      }
+    }
+
+    if (style === 'digital') {
+      elements.push(this.formatDigital(duration, elements.length === 0 ? sign : 1));
+    } else if (elements.length === 0) {
+      // Display zero in the smallest unit provided when there is nothing else to display.
+      let unit = [...UNITS].reverse().find(unit => duration[unit] != null) ?? 'seconds';
+      elements.push(this.formatUnit(0, unit, style));
+    }
+
+    // Join the units using a list format, replacing the placeholder elements with the formatted units.
+    let listFormat = new Intl.ListFormat(this.locale, {type: 'unit', style: unitStyle});
+    let index = 0;
+    return listFormat.formatToParts(elements.map(parts => parts.map(part => part.value).join(''))).flatMap(part => part.type === 'element' ? elements[index++] : [{type: 'literal', value: part.value}]);
+  }
+
+  /** Returns the resolved formatting options based on the values passed to the constructor. */
+  resolvedOptions(): ResolvedDurationFormatOptions {
+    if (this.formatter) {
+      return this.formatter.resolvedOptions();
+    }
+
+    let {locale, numberingSystem} = this.getNumberFormatter('', {}).resolvedOptions();
+    return {
+      locale,
+      numberingSystem,
+      style: this.options.style ?? 'short',
+      fractionalDigits: this.options.fractionalDigits
+    };
+  }
+
+  private formatUnit(value: number, unit: DurationUnit, style: 'long' | 'short' | 'narrow'): DurationFormatPart[] {
+    // Intl.NumberFormat units are singular, e.g. "hour".
+    let singularUnit = unit.slice(0, -1);
+    let formatter = this.getNumberFormatter(singularUnit + style, {style: 'unit', unit: singularUnit, unitDisplay: style});
+    return formatter.formatToParts(value).map(part => ({type: part.type, value: part.value, unit: singularUnit}));
+  }
+
+  private formatDigital(duration: DateTimeDuration, sign: number): DurationFormatPart[] {
+    let hours = Math.abs(duration.hours || 0);
+    let minutes = Math.abs(duration.minutes || 0);
+    let seconds = Math.abs(duration.seconds || 0) + Math.abs(duration.milliseconds || 0) / 1000;
+    let fractionalDigits = this.options.fractionalDigits;
+    let separator = this.getTimeSeparator();
+
+    let hourFormatter = this.getNumberFormatter('digital-hour', {});
+    let minuteFormatter = this.getNumberFormatter('digital-minute', {minimumIntegerDigits: 2});
+    let secondFormatter = this.getNumberFormatter('digital-second' + fractionalDigits, {
+      minimumIntegerDigits: 2,
+      minimumFractionDigits: fractionalDigits ?? 0,
+      maximumFractionDigits: fractionalDigits ?? 9,
+      roundingMode: 'trunc'
+    } as Intl.NumberFormatOptions);
+
+    // Display the sign before the hours, even when they are zero.
+    let signParts = sign < 0 ? hourFormatter.formatToParts(-1).filter(part => part.type === 'minusSign') : [];
+    return [
+      ...signParts.map(part => ({type: part.type, value: part.value, unit: 'hour'})),
+      ...hourFormatter.formatToParts(hours).map(part => ({type: part.type, value: part.value, unit: 'hour'})),
+      {type: 'literal', value: separator},
+      ...minuteFormatter.formatToParts(minutes).map(part => ({type: part.type, value: part.value, unit: 'minute'})),
+      {type: 'literal', value: separator},
+      ...secondFormatter.formatToParts(seconds).map(part => ({type: part.type, value: part.value, unit: 'second'}))
+    ];
+  }
+
+  private getTimeSeparator(): string {
+    let parts = new Intl.DateTimeFormat(this.locale, {hour: 'numeric', minute: '2-digit', hourCycle: 'h23'}).formatToParts(new Date(2020, 2, 3, 12, 30));
+    return parts.find(part => part.type === 'literal')?.value ?? ':';
+  }
+
+  private getNumberFormatter(key: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+    let formatter = this.numberFormatters.get(key);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(this.locale, {...options, numberingSystem: this.options.numberingSystem} as Intl.NumberFormatOptions);
+      this.numberFormatters.set(key, formatter);
+    }
+
+    return formatter;
+  }
+}
+
+function getSign(duration: DateTimeDuration): number {
+  let sign = 0;
+  for (let unit of UNITS) {
+    let value = Math.sign(duration[unit] || 0);
+    if (value !== 0) {
+      if (sign !== 0 && value !== sign) {
+        throw new RangeError('Duration fields must all have the same sign');
+      }
+
+      sign = value;
+    }
+  }
+
+  return sign || 1;
+}
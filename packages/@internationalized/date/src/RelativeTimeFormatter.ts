@@ -0,0 +1,120 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
+import {DateTimeDuration} from './types';
+import {getLocalTimeZone, now} from './queries';
+import {toCalendarDate, toCalendarDateTime, toZoned} from './conversion';
+import {until} from './duration';
+
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+type RelativeTimeUnit = 'years' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds';
+
+let formatterCache = new Map<string, Intl.RelativeTimeFormat>();
+
+const UNITS: RelativeTimeUnit[] = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds'];
+
+// When a rounded value reaches this amount, the next larger unit is used instead (e.g. 60 minutes is an hour).
+const UNIT_THRESHOLDS: {[unit in RelativeTimeUnit]?: number} = {
+  months: 12,
+  days: 7,
+  hours: 24,
+  minutes: 60,
+  seconds: 60
+};
+
+/**
+ * A wrapper around Intl.RelativeTimeFormat that supports formatting the time between two dates,
+ * automatically selecting an appropriate unit.
+ */
+export class RelativeTimeFormatter implements Intl.RelativeTimeFormat {
+  private formatter: Intl.RelativeTimeFormat;
+
+  constructor(locale: string, options: Intl.RelativeTimeFormatOptions = {}) {
+    this.formatter = getCachedRelativeTimeFormatter(locale, options);
+  }
+
+  /** Formats a value and unit as a string according to the locale and format options passed to the constructor. */
+  format(value: number, unit: Intl.RelativeTimeFormatUnit): string {
+    return this.formatter.format(value, unit);
+  }
+
+  /** Formats a value and unit to an array of parts such as literals and numbers. */
+  formatToParts(value: number, unit: Intl.RelativeTimeFormatUnit): Intl.RelativeTimeFormatPart[] {
+    return this.formatter.formatToParts(value, unit);
+  }
+
+  /**
+   * Formats the time between two dates as a string, e.g. "3 hours ago" or "in 2 days". The largest unit
+   * with a non-zero value is selected, and the value is rounded to the nearest whole unit. If no date
+   * to compare to is provided, the current time is used.
+   */
+  formatRelative(date: DateValue, relativeTo?: DateValue): string {
+    let {value, unit} = selectUnit(date, relativeTo);
+    return this.formatter.format(value, unit);
+  }
+
+  /** Formats the time between two dates to an array of parts such as literals and numbers. */
+  formatRelativeToParts(date: DateValue, relativeTo?: DateValue): Intl.RelativeTimeFormatPart[] {
+    let {value, unit} = selectUnit(date, relativeTo);
+    return this.formatter.formatToParts(value, unit);
+  }
+
+  /** Returns the resolved formatting options based on the values passed to the constructor. */
+  resolvedOptions(): Intl.ResolvedRelativeTimeFormatOptions {
+    return this.formatter.resolvedOptions();
+  }
+}
+
+function getCachedRelativeTimeFormatter(locale: string, options: Intl.RelativeTimeFormatOptions): Intl.RelativeTimeFormat {
+  let cacheKey = locale + Object.entries(options).sort((a, b) => a[0] < b[0] ? -1 : 1).join();
+  let formatter = formatterCache.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.RelativeTimeFormat(locale, options);
+    formatterCache.set(cacheKey, formatter);
+  }
+
+  return formatter;
+}
+
+function selectUnit(date: DateValue, relativeTo?: DateValue): {value: number, unit: Intl.RelativeTimeFormatUnit} {
+  // Compare in the same representation as the date, so that dates without a time are compared by calendar day.
+  let start: DateValue;
+  if ('timeZone' in date) {
+    start = relativeTo ? toZoned(relativeTo, date.timeZone) : now(date.timeZone);
+  } else if ('hour' in date) {
+    start = toCalendarDateTime(relativeTo ?? now(getLocalTimeZone()));
+  } else {
+    start = toCalendarDate(relativeTo ?? now(getLocalTimeZone()));
+  }
+
+  let smallestUnit: RelativeTimeUnit = 'hour' in date ? 'seconds' : 'days';
+  let duration = until(start, date, {largestUnit: 'years', smallestUnit}) as Required<DateTimeDuration>;
+  let unit = UNITS.find(unit => duration[unit]) ?? smallestUnit;
+  if (unit === 'days' && Math.abs(duration.days) >= 7) {
+    unit = 'weeks';
+  }
+
+  // Round to the selected unit. If that results in a whole larger unit, use the larger unit instead.
+  let index = UNITS.indexOf(unit);
+  for (;;) {
+    unit = UNITS[index];
+    let rounded = until(start, date, {largestUnit: unit, smallestUnit: unit, roundingMode: 'halfExpand'}) as Required<DateTimeDuration>;
+    let value = rounded[unit];
+    if (index > 0 && Math.abs(value) >= (UNIT_THRESHOLDS[unit] ?? Infinity)) {
+      index--;
+      continue;
+    }
+
+    return {value, unit};
+  }
+}
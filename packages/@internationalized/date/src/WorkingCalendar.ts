@@ -0,0 +1,151 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {AnyCalendarDate, DayOfWeek} from './types';
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
+import {getDayOfWeek, getWeekendDays} from './queries';
+
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+/**
+ * A set of holidays that are not business days. Holiday sets may be created from a list
+ * of dates using `createHolidaySet`, or implemented manually to compute holidays according
+ * to custom rules.
+ */
+export interface HolidaySet {
+  /** Returns whether the given date is a holiday. */
+  isHoliday(date: AnyCalendarDate): boolean
+}
+
+export interface WorkingCalendarOptions {
+  /**
+   * The days of the week that are not business days.
+   * Defaults to the weekend days in the region of the locale, e.g. Saturday and Sunday in the United States.
+   */
+  weekendDays?: DayOfWeek[],
+  /** Sets of holidays that are not business days, in addition to the weekend. */
+  holidays?: HolidaySet[]
+}
+
+const DAYS: DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// The maximum number of consecutive days that are not business days, after which
+// business day arithmetic is aborted to avoid looping forever.
+const MAX_NON_BUSINESS_DAYS = 366;
+
+/**
+ * Creates a holiday set from a list of dates. Dates may be in any calendar system, and are
+ * compared by day regardless of the time or calendar. Recurring holidays may be included
+ * by expanding a recurrence rule with `getOccurrences`.
+ */
+export function createHolidaySet(dates: Iterable<AnyCalendarDate>): HolidaySet {
+  let days = new Set<number>();
+  for (let date of dates) {
+    days.add(date.calendar.toJulianDay(date));
+  }
+
+  return {
+    isHoliday(date) {
+      return days.has(date.calendar.toJulianDay(date));
+    }
+  };
+}
+
+/**
+ * A WorkingCalendar determines which dates are business days according to the weekend in a locale
+ * and a set of holidays, and performs date arithmetic in business days. For example, it can be used
+ * to compute the date five business days from today.
+ */
+export class WorkingCalendar {
+  private weekendDays: Set<number>;
+  private holidays: HolidaySet[];
+
+  constructor(locale: string, options: WorkingCalendarOptions = {}) {
+    this.weekendDays = new Set(options.weekendDays ? options.weekendDays.map(day => DAYS.indexOf(day)) : getWeekendDays(locale));
+    this.holidays = options.holidays ?? [];
+
+    if (this.weekendDays.size === DAYS.length) {
+      throw new RangeError('A working calendar must have at least one business day per week.');
+    }
+  }
+
+  /** Returns the days of the week that are not business days. */
+  getWeekendDays(): DayOfWeek[] {
+    return DAYS.filter((_, index) => this.weekendDays.has(index));
+  }
+
+  /** Returns whether the given date is on a weekend according to the working calendar. */
+  isWeekend(date: DateValue): boolean {
+    return this.weekendDays.has(getDayOfWeek(date, 'en-US', 'sun'));
+  }
+
+  /** Returns whether the given date is a holiday in any of the working calendar's holiday sets. */
+  isHoliday(date: DateValue): boolean {
+    return this.holidays.some(holidays => holidays.isHoliday(date));
+  }
+
+  /** Returns whether the given date is a business day, i.e. it is not on a weekend or a holiday. */
+  isBusinessDay(date: DateValue): boolean {
+    return !this.isWeekend(date) && !this.isHoliday(date);
+  }
+
+  /**
+   * Adds the given number of business days to a date. Weekends and holidays are skipped, so the
+   * result is always a business day unless the amount is zero, in which case the date is returned
+   * unchanged. Negative amounts subtract business days.
+   */
+  addBusinessDays<T extends DateValue>(date: T, amount: number): T {
+    if (!Number.isInteger(amount)) {
+      throw new RangeError('Invalid number of business days: ' + amount);
+    }
+
+    let step = amount < 0 ? -1 : 1;
+    let remaining = Math.abs(amount);
+    let skipped = 0;
+    let result: DateValue = date;
+    while (remaining > 0) {
+      result = result.add({days: step});
+      if (this.isBusinessDay(result)) {
+        remaining--;
+        skipped = 0;
+      } else if (++skipped > MAX_NON_BUSINESS_DAYS) {
+        throw new RangeError('No business days found within a year of ' + result.toString());
+      }
+    }
+
+    return result as T;
+  }
+
+  /**
+   * Returns the number of business days from the start date until the end date. The start date is
+   * excluded and the end date is included, so that adding the result to the start date with
+   * `addBusinessDays` returns the end date when it is a business day. The result is negative
+   * if the end date is before the start date.
+   */
+  getBusinessDaysBetween(start: DateValue, end: DateValue): number {
+    let startDay = start.calendar.toJulianDay(start);
+    let endDay = end.calendar.toJulianDay(end);
+    let step = endDay < startDay ? -1 : 1;
+    let date = start;
+    let count = 0;
+
+    // Counts business days in (start, end] when moving forward, and [end, start) when moving backward.
+    for (let i = 0; i < Math.abs(endDay - startDay); i++) {
+      date = date.add({days: step});
+      if (this.isBusinessDay(date)) {
+        count += step;
+      }
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,400 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+// Portions of the code in this file are based on code from ICU.
+// Original licensing can be found in the NOTICE file in the root directory of this source tree.
+
+import {AnyCalendarDate, Calendar, CalendarIdentifier} from '../types';
+import {CalendarDate} from '../CalendarDate';
+import {getExtendedYear, GregorianCalendar, gregorianToJulianDay} from './GregorianCalendar';
+import {mod, Mutable} from '../utils';
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const MINUTE_MS = 60000;
+
+// Julian day of 1970-01-01. Astronomical calculations are performed in terms of days since this epoch.
+const UNIX_EPOCH = 2440588;
+
+// The orbital parameters used below are relative to 1990-01-01, and are taken from
+// "Practical Astronomy With Your Calculator" by Peter Duffett-Smith.
+const JULIAN_EPOCH_MS = -210866760000000;
+const JD_EPOCH = 2447891.5;
+const TROPICAL_YEAR = 365.242191;
+const SYNODIC_MONTH = 29.530588853;
+const DEG = Math.PI / 180;
+const SUN_ETA_G = 279.403303 * DEG; // Ecliptic longitude at epoch.
+const SUN_OMEGA_G = 282.768422 * DEG; // Ecliptic longitude of perigee.
+const SUN_E = 0.016713; // Eccentricity of orbit.
+const MOON_L0 = 318.351648 * DEG; // Mean longitude at epoch.
+const MOON_P0 = 36.340410 * DEG; // Mean longitude of perigee.
+const MOON_N0 = 318.510107 * DEG; // Mean longitude of node.
+const MOON_I = 5.145366 * DEG; // Inclination of orbit.
+const WINTER_SOLSTICE = Math.PI * 3 / 2;
+
+// The number of days to skip ahead to reliably find the next new moon.
+const SYNODIC_GAP = 25;
+
+// The Gregorian year of the start of the first sexagenary cycle (2637 BCE).
+const CYCLE_EPOCH_YEAR = -2636;
+const YEARS_IN_CYCLE = 60;
+
+// 9999-12-31 gregorian is in the year that begins in 9998. The last full year, beginning
+// in 9997, is the 34th year of the 211th cycle.
+const MAX_CYCLE = 211;
+const MAX_YEAR_IN_LAST_CYCLE = 34;
+
+// Eras are the sexagenary cycles, numbered from 1.
+const ERA_NAMES = Array.from({length: MAX_CYCLE}, (_, i) => String(i + 1));
+
+function norm2PI(angle: number) {
+  return mod(angle, Math.PI * 2);
+}
+
+function normPI(angle: number) {
+  return norm2PI(angle + Math.PI) - Math.PI;
+}
+
+function getSunPosition(time: number) {
+  let day = (time - JULIAN_EPOCH_MS) / DAY_MS - JD_EPOCH;
+
+  // Find the angular distance the sun in a fictitious circular orbit has travelled since the epoch,
+  // and from that the distance since perigee, which is called the "mean anomaly".
+  let epochAngle = norm2PI(Math.PI * 2 / TROPICAL_YEAR * day);
+  let meanAnomaly = norm2PI(epochAngle + SUN_ETA_G - SUN_OMEGA_G);
+
+  // Solve Kepler's equation to find the "true anomaly" for an elliptical orbit.
+  let delta: number;
+  let E = meanAnomaly;
+  do {
+    delta = E - SUN_E * Math.sin(E) - meanAnomaly;
+    E = E - delta / (1 - SUN_E * Math.cos(E));
+  } while (Math.abs(delta) > 1e-5);
+
+  let trueAnomaly = 2 * Math.atan(Math.tan(E / 2) * Math.sqrt((1 + SUN_E) / (1 - SUN_E)));
+  return {longitude: norm2PI(trueAnomaly + SUN_OMEGA_G), meanAnomaly};
+}
+
+function getSunLongitude(time: number) {
+  return getSunPosition(time).longitude;
+}
+
+// Returns the angle between the moon and the sun, which is zero at new moon.
+function getMoonAge(time: number) {
+  let sun = getSunPosition(time);
+  let day = (time - JULIAN_EPOCH_MS) / DAY_MS - JD_EPOCH;
+
+  // Mean longitude and anomaly of the moon, based on a circular orbit.
+  let meanLongitude = norm2PI(13.1763966 * DEG * day + MOON_L0);
+  let meanAnomaly = norm2PI(meanLongitude - 0.1114041 * DEG * day - MOON_P0);
+
+  // Corrections for evection, the annual equation, and the equation of the center.
+  let evection = 1.2739 * DEG * Math.sin(2 * (meanLongitude - sun.longitude) - meanAnomaly);
+  let annual = 0.1858 * DEG * Math.sin(sun.meanAnomaly);
+  let a3 = 0.3700 * DEG * Math.sin(sun.meanAnomaly);
+  meanAnomaly += evection - annual - a3;
+
+  let center = 6.2886 * DEG * Math.sin(meanAnomaly);
+  let a4 = 0.2140 * DEG * Math.sin(2 * meanAnomaly);
+  let longitude = meanLongitude + evection + center - annual + a4;
+
+  // The variation, caused by the sun's pull on the moon varying depending on which side of the earth it is on.
+  longitude += 0.6583 * DEG * Math.sin(2 * (longitude - sun.longitude));
+
+  // Map the longitude in the plane of the moon's orbit to the ecliptic, using the longitude of the ascending node.
+  let nodeLongitude = norm2PI(MOON_N0 - 0.0529539 * DEG * day) - 0.16 * DEG * Math.sin(sun.meanAnomaly);
+  let eclipticLongitude = Math.atan2(Math.sin(longitude - nodeLongitude) * Math.cos(MOON_I), Math.cos(longitude - nodeLongitude)) + nodeLongitude;
+
+  return norm2PI(eclipticLongitude - sun.longitude);
+}
+
+// Finds the next (or previous) time at which the given function reaches the desired angle, to within a minute.
+function timeOfAngle(time: number, fn: (time: number) => number, desired: number, periodDays: number, next: boolean): number {
+  let startTime = time;
+  let lastAngle = fn(time);
+  let deltaAngle = norm2PI(desired - lastAngle);
+  let deltaT = (deltaAngle + (next ? 0 : -Math.PI * 2)) * (periodDays * DAY_MS) / (Math.PI * 2);
+  let lastDeltaT = deltaT;
+  time += Math.ceil(deltaT);
+
+  do {
+    let angle = fn(time);
+    let factor = Math.abs(deltaT / normPI(angle - lastAngle));
+    deltaT = normPI(desired - angle) * factor;
+
+    // If the estimate begins to diverge, start over from a point closer to the desired angle.
+    if (Math.abs(deltaT) > Math.abs(lastDeltaT)) {
+      let delta = Math.ceil(periodDays * DAY_MS / 8);
+      return timeOfAngle(startTime + (next ? delta : -delta), fn, desired, periodDays, next);
+    }
+
+    lastDeltaT = deltaT;
+    lastAngle = angle;
+    time += Math.ceil(deltaT);
+  } while (Math.abs(deltaT) > MINUTE_MS);
+
+  return time;
+}
+
+interface ChineseYear {
+  /** The first day of each month, plus the first day of the following year, in days since 1970-01-01. */
+  monthStarts: number[],
+  /** The ordinal number of the leap month in the year, or 0 if there is none. */
+  leapMonth: number
+}
+
+// Calendar computations are expensive, so cache them for each year.
+const yearCache = new Map<string, ChineseYear>();
+
+// Returns the Gregorian year in which the year of the given date begins.
+function getRelatedYear(era: string, year: number) {
+  return (Number(era) - 1) * YEARS_IN_CYCLE + year + CYCLE_EPOCH_YEAR - 1;
+}
+
+function fromRelatedYear(relatedYear: number): [string, number] {
+  let cycleYear = relatedYear - CYCLE_EPOCH_YEAR;
+  return [String(Math.floor(cycleYear / YEARS_IN_CYCLE) + 1), mod(cycleYear, YEARS_IN_CYCLE) + 1];
+}
+
+// Returns the UTC offset used for astronomical calculations at the given time, in milliseconds.
+function getAstronomicalOffset(calendar: CalendarIdentifier, time: number) {
+  if (calendar !== 'dangi') {
+    // Beijing time.
+    return 8 * HOUR_MS;
+  }
+
+  // Korea used UTC+7 in 1897, UTC+8 before that and until 1911, and UTC+9 since 1912.
+  // Only the approximate date of the transitions matters.
+  let year = 1970 + Math.floor(time / (365 * DAY_MS));
+  if (year >= 1912) {
+    return 9 * HOUR_MS;
+  }
+
+  return year === 1897 ? 7 * HOUR_MS : 8 * HOUR_MS;
+}
+
+/**
+ * The Chinese calendar is a lunisolar calendar used in China and throughout East Asia to determine traditional holidays.
+ * Months begin on the day of a new moon, and years include either 12 or 13 months. In years with 13 months, a leap month
+ * is inserted after the first month that does not contain a major solar term. Month numbers are ordinal, so months after
+ * a leap month are numbered one greater than their name, and the `getMonthCode` method can be used to identify them.
+ * Years are counted within the 60 year sexagenary cycle, and each cycle is an era, numbered from 1 starting in 2637 BCE.
+ * `Intl.DateTimeFormat` displays years by the Gregorian year in which they begin.
+ */
+export class ChineseCalendar implements Calendar {
+  identifier: CalendarIdentifier = 'chinese';
+
+  fromJulianDay(jd: number): CalendarDate {
+    let days = jd - UNIX_EPOCH;
+    let gregorian = new GregorianCalendar().fromJulianDay(jd);
+    let year = getExtendedYear(gregorian.era, gregorian.year);
+    let info = this.getYear(year);
+    if (days < info.monthStarts[0]) {
+      year--;
+      info = this.getYear(year);
+    }
+
+    let month = 1;
+    while (days >= info.monthStarts[month]) {
+      month++;
+    }
+
+    let [era, yearInCycle] = fromRelatedYear(year);
+    return new CalendarDate(this, era, yearInCycle, month, days - info.monthStarts[month - 1] + 1);
+  }
+
+  toJulianDay(date: AnyCalendarDate): number {
+    let info = this.getYearOfDate(date);
+    return info.monthStarts[date.month - 1] + date.day - 1 + UNIX_EPOCH;
+  }
+
+  getDaysInMonth(date: AnyCalendarDate): number {
+    let {monthStarts} = this.getYearOfDate(date);
+    return monthStarts[date.month] - monthStarts[date.month - 1];
+  }
+
+  getMonthsInYear(date: AnyCalendarDate): number {
+    return this.getYearOfDate(date).monthStarts.length - 1;
+  }
+
+  getDaysInYear(date: AnyCalendarDate): number {
+    let {monthStarts} = this.getYearOfDate(date);
+    return monthStarts[monthStarts.length - 1] - monthStarts[0];
+  }
+
+  getYearsInEra(date: AnyCalendarDate): number {
+    return date.era === ERA_NAMES[MAX_CYCLE - 1] ? MAX_YEAR_IN_LAST_CYCLE : YEARS_IN_CYCLE;
+  }
+
+  getEras(): string[] {
+    return ERA_NAMES;
+  }
+
+  balanceDate(date: Mutable<AnyCalendarDate>): void {
+    // Move years before or after the current cycle into the previous or next era.
+    [date.era, date.year] = fromRelatedYear(getRelatedYear(date.era, date.year));
+    if (Number(date.era) < 1) {
+      date.era = ERA_NAMES[0];
+      date.year = 1;
+    } else if (Number(date.era) > MAX_CYCLE) {
+      date.era = ERA_NAMES[MAX_CYCLE - 1];
+      date.year = MAX_YEAR_IN_LAST_CYCLE;
+    }
+  }
+
+  /**
+   * Returns a code identifying the month of the given date independently of whether the year has a leap month,
+   * e.g. "M05" for the fifth month, and "M05L" for the leap month following it.
+   */
+  getMonthCode(date: AnyCalendarDate): string {
+    let {leapMonth} = this.getYearOfDate(date);
+    let month = leapMonth && date.month >= leapMonth ? date.month - 1 : date.month;
+    return 'M' + String(month).padStart(2, '0') + (date.month === leapMonth ? 'L' : '');
+  }
+
+  /** Returns whether the month of the given date is a leap month. */
+  isLeapMonth(date: AnyCalendarDate): boolean {
+    return this.getYearOfDate(date).leapMonth === date.month;
+  }
+
+  balanceYearMonth(date: Mutable<AnyCalendarDate>, previousDate: AnyCalendarDate): void {
+    // Keep the date in the same named month when switching between years with and without a leap month.
+    // If the new year does not have the same leap month, use the regular month with the same name.
+    if (previousDate.era !== date.era || previousDate.year !== date.year) {
+      let code = this.getMonthCode(previousDate);
+      let month = parseInt(code.slice(1, 3), 10);
+      let {leapMonth} = this.getYearOfDate(date);
+      if (leapMonth && (month >= leapMonth || (month === leapMonth - 1 && code.endsWith('L')))) {
+        month++;
+      }
+
+      date.month = month;
+    }
+  }
+
+  private daysToMillis(days: number) {
+    let ms = days * DAY_MS;
+    return ms - getAstronomicalOffset(this.identifier, ms);
+  }
+
+  private millisToDays(ms: number) {
+    return Math.floor((ms + getAstronomicalOffset(this.identifier, ms)) / DAY_MS);
+  }
+
+  // Returns the day of the winter solstice in the given Gregorian year.
+  private winterSolstice(gregorianYear: number) {
+    let dec1 = gregorianToJulianDay('AD', gregorianYear, 12, 1) - UNIX_EPOCH;
+    return this.millisToDays(timeOfAngle(this.daysToMillis(dec1), getSunLongitude, WINTER_SOLSTICE, TROPICAL_YEAR, true));
+  }
+
+  // Returns the day of the new moon after (or before) the given day.
+  private newMoonNear(days: number, after: boolean) {
+    return this.millisToDays(timeOfAngle(this.daysToMillis(days), getMoonAge, 0, SYNODIC_MONTH, after));
+  }
+
+  // Returns the major solar term (zhongqi) in effect on the given day, from 1 to 12.
+  private majorSolarTerm(days: number) {
+    let longitude = getSunLongitude(this.daysToMillis(days));
+    let term = (Math.floor(6 * longitude / Math.PI) + 2) % 12;
+    return term < 1 ? term + 12 : term;
+  }
+
+  private hasNoMajorSolarTerm(newMoon: number) {
+    return this.majorSolarTerm(newMoon) === this.majorSolarTerm(this.newMoonNear(newMoon + SYNODIC_GAP, true));
+  }
+
+  private isLeapMonthBetween(newMoon1: number, newMoon2: number): boolean {
+    while (newMoon2 >= newMoon1) {
+      if (this.hasNoMajorSolarTerm(newMoon2)) {
+        return true;
+      }
+
+      newMoon2 = this.newMoonNear(newMoon2 - SYNODIC_GAP, false);
+    }
+
+    return false;
+  }
+
+  private isLeapMonthStart(newMoon: number) {
+    // The 11th month always contains the winter solstice. If there are 13 months between the
+    // 11th months of two years, the first month without a major solar term is the leap month.
+    let gregorian = new GregorianCalendar().fromJulianDay(newMoon + UNIX_EPOCH);
+    let year = getExtendedYear(gregorian.era, gregorian.year);
+    let solsticeBefore = this.winterSolstice(year - 1);
+    let solsticeAfter = this.winterSolstice(year);
+    if (newMoon >= solsticeAfter) {
+      solsticeBefore = solsticeAfter;
+      solsticeAfter = this.winterSolstice(year + 1);
+    }
+
+    let firstMoon = this.newMoonNear(solsticeBefore + 1, true);
+    let lastMoon = this.newMoonNear(solsticeAfter + 1, false);
+    return Math.round((lastMoon - firstMoon) / SYNODIC_MONTH) === 12
+      && this.hasNoMajorSolarTerm(newMoon)
+      && !this.isLeapMonthBetween(firstMoon, this.newMoonNear(newMoon - SYNODIC_GAP, false));
+  }
+
+  // Returns the day of the new year that begins in the given Gregorian year.
+  private newYear(gregorianYear: number) {
+    let solsticeBefore = this.winterSolstice(gregorianYear - 1);
+    let solsticeAfter = this.winterSolstice(gregorianYear);
+    let newMoon1 = this.newMoonNear(solsticeBefore + 1, true);
+    let newMoon2 = this.newMoonNear(newMoon1 + SYNODIC_GAP, true);
+    let newMoon11 = this.newMoonNear(solsticeAfter + 1, false);
+
+    // The new year is the second new moon after the winter solstice, unless there is a leap 11th or 12th month.
+    if (Math.round((newMoon11 - newMoon1) / SYNODIC_MONTH) === 12 && (this.hasNoMajorSolarTerm(newMoon1) || this.hasNoMajorSolarTerm(newMoon2))) {
+      return this.newMoonNear(newMoon2 + SYNODIC_GAP, true);
+    }
+
+    return newMoon2;
+  }
+
+  private getYearOfDate(date: AnyCalendarDate): ChineseYear {
+    return this.getYear(getRelatedYear(date.era, date.year));
+  }
+
+  // Returns the months of the year that begins in the given Gregorian year.
+  private getYear(year: number): ChineseYear {
+    let key = this.identifier + year;
+    let info = yearCache.get(key);
+    if (!info) {
+      let monthStarts = [this.newYear(year)];
+      let nextYear = this.newYear(year + 1);
+      let newMoon = monthStarts[0];
+      while ((newMoon = this.newMoonNear(newMoon + SYNODIC_GAP, true)) < nextYear) {
+        monthStarts.push(newMoon);
+      }
+
+      monthStarts.push(nextYear);
+
+      let leapMonth = 0;
+      if (monthStarts.length > 13) {
+        leapMonth = monthStarts.findIndex((start, i) => i > 0 && i < 13 && this.isLeapMonthStart(start)) + 1;
+      }
+
+      info = {monthStarts, leapMonth};
+      yearCache.set(key, info);
+    }
+
+    return info;
+  }
+}
+
+/**
+ * The Dangi calendar is the traditional Korean calendar. It follows the same rules as the Chinese calendar,
+ * but astronomical calculations are based on the time in Korea, so months and years occasionally begin a day
+ * earlier or later than in the Chinese calendar.
+ */
+export class DangiCalendar extends ChineseCalendar {
+  identifier: CalendarIdentifier = 'dangi';
+}
@@ -35,6 +35,10 @@ function epochFromParts(year: number, month: number, day: number, hour: number,
   return date.getTime();
 }
 
+/**
+ * Returns the offset from UTC of the given time zone at the given time, in milliseconds.
+ * For example, `America/New_York` returns `-18000000` (-5 hours) during standard time.
+ */
 export function getTimeZoneOffset(ms: number, timeZone: string): number {
   // Fast path for UTC.
   if (timeZone === 'UTC') {
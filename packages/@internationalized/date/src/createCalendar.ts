@@ -12,6 +12,7 @@
 
 import {BuddhistCalendar} from './calendars/BuddhistCalendar';
 import {Calendar, CalendarIdentifier} from './types';
+import {ChineseCalendar, DangiCalendar} from './calendars/ChineseCalendar';
 import {CopticCalendar, EthiopicAmeteAlemCalendar, EthiopicCalendar} from './calendars/EthiopicCalendar';
 import {GregorianCalendar} from './calendars/GregorianCalendar';
 import {HebrewCalendar} from './calendars/HebrewCalendar';
@@ -26,6 +27,10 @@ export function createCalendar(name: CalendarIdentifier): Calendar {
   switch (name) {
     case 'buddhist':
       return new BuddhistCalendar();
+    case 'chinese':
+      return new ChineseCalendar();
+    case 'dangi':
+      return new DangiCalendar();
     case 'ethiopic':
       return new EthiopicCalendar();
     case 'ethioaa':
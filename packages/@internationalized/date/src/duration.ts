@@ -0,0 +1,340 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
+import {compareDate} from './queries';
+import {DateDuration, DateTimeDuration, DifferenceOptions, DurationUnit, NormalizeDurationOptions, RoundingMode} from './types';
+import {epochFromDate, toAbsolute, toCalendar, toCalendarDate, toCalendarDateTime, toTimeZone} from './conversion';
+import {Mutable} from './utils';
+
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNITS: DurationUnit[] = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'];
+const UNIT_MS = {
+  weeks: 7 * DAY_MS,
+  days: DAY_MS,
+  hours: 60 * 60 * 1000,
+  minutes: 60 * 1000,
+  seconds: 1000,
+  milliseconds: 1
+};
+
+// Every year in the supported calendar systems is shorter than this, and every month is at most 31 days.
+// These are used to estimate a lower bound for the number of years or months between two dates.
+const MAX_DAYS_IN_YEAR = 390;
+const MAX_DAYS_IN_MONTH = 31;
+
+const OPPOSITE_ROUNDING_MODE: Partial<Record<RoundingMode, RoundingMode>> = {
+  ceil: 'floor',
+  floor: 'ceil'
+};
+
+export function until(a: CalendarDate, b: CalendarDate, options?: DifferenceOptions): Required<DateDuration>;
+export function until(a: CalendarDateTime, b: CalendarDateTime, options?: DifferenceOptions): Required<DateTimeDuration>;
+export function until(a: ZonedDateTime, b: ZonedDateTime, options?: DifferenceOptions): Required<DateTimeDuration>;
+export function until(a: DateValue, b: DateValue, options?: DifferenceOptions): Required<DateDuration> | Required<DateTimeDuration>;
+export function until(a: DateValue, b: DateValue, options: DifferenceOptions = {}): Required<DateDuration> | Required<DateTimeDuration> {
+  let hasTime = 'hour' in a;
+  let smallestUnit = options.smallestUnit ?? (hasTime ? 'milliseconds' : 'days');
+  let largestUnit = options.largestUnit ?? largerUnit('timeZone' in a ? 'hours' : 'days', smallestUnit);
+  let roundingIncrement = options.roundingIncrement ?? 1;
+  if (UNITS.indexOf(largestUnit) > UNITS.indexOf(smallestUnit)) {
+    throw new RangeError(`largestUnit ${largestUnit} is smaller than smallestUnit ${smallestUnit}`);
+  }
+
+  if (!hasTime && isTimeUnit(smallestUnit)) {
+    throw new RangeError(`Unsupported unit ${smallestUnit} for CalendarDate`);
+  }
+
+  if (!Number.isInteger(roundingIncrement) || roundingIncrement < 1) {
+    throw new RangeError(`Invalid rounding increment ${roundingIncrement}`);
+  }
+
+  // Perform arithmetic in the calendar system and time zone of the first date.
+  if ('timeZone' in a) {
+    b = toTimeZone(b as ZonedDateTime, a.timeZone);
+  }
+  b = toCalendar(b, a.calendar);
+
+  let duration = difference(a, b, largestUnit, smallestUnit === 'weeks');
+  if (smallestUnit !== 'milliseconds' || roundingIncrement !== 1) {
+    duration = round(a, b, duration, largestUnit, smallestUnit, roundingIncrement, options.roundingMode ?? 'trunc');
+  }
+
+  for (let unit of UNITS) {
+    // Avoid negative zero.
+    duration[unit] = duration[unit] || 0;
+  }
+
+  if (!hasTime) {
+    let {years, months, weeks, days} = duration;
+    return {years, months, weeks, days};
+  }
+
+  return duration;
+}
+
+export function since(a: CalendarDate, b: CalendarDate, options?: DifferenceOptions): Required<DateDuration>;
+export function since(a: CalendarDateTime, b: CalendarDateTime, options?: DifferenceOptions): Required<DateTimeDuration>;
+export function since(a: ZonedDateTime, b: ZonedDateTime, options?: DifferenceOptions): Required<DateTimeDuration>;
+export function since(a: DateValue, b: DateValue, options: DifferenceOptions = {}): Required<DateDuration> | Required<DateTimeDuration> {
+  // The duration since another date is the inverse of the duration until it, rounded in the opposite direction.
+  let roundingMode = options.roundingMode && (OPPOSITE_ROUNDING_MODE[options.roundingMode] ?? options.roundingMode);
+  let duration: Mutable<Required<DateTimeDuration>> = until(a, b, {...options, roundingMode}) as Required<DateTimeDuration>;
+  for (let key in duration) {
+    duration[key] = -duration[key] || 0;
+  }
+
+  return duration;
+}
+
+function difference(a: DateValue, b: DateValue, largestUnit: DurationUnit, includeWeeks: boolean): Mutable<Required<DateTimeDuration>> {
+  let duration = createDuration();
+  let ms = toMs(b) - toMs(a);
+  let sign = Math.sign(ms);
+  if (sign === 0) {
+    return duration;
+  }
+
+  // Time units represent exact elapsed time, regardless of calendar days or daylight saving time.
+  if (isTimeUnit(largestUnit)) {
+    balanceTime(duration, ms, largestUnit);
+    return duration;
+  }
+
+  // Otherwise, find the last date before the end date (in the direction of the difference) where
+  // the start time has not passed the end time. The time difference is the remainder after that date.
+  let endDate = toCalendarDate(b);
+  let time = 0;
+  if ('timeZone' in a) {
+    let plainDateTime = toCalendarDateTime(a);
+    let endMs = toMs(b);
+    for (;;) {
+      time = endMs - toAbsolute(toCalendarDateTime(endDate, plainDateTime), a.timeZone);
+      if (Math.sign(time) !== -sign) {
+        break;
+      }
+
+      endDate = endDate.subtract({days: sign});
+    }
+  } else if ('hour' in a) {
+    time = timeToMs(b as CalendarDateTime) - timeToMs(a);
+    if (Math.sign(time) === -sign) {
+      endDate = endDate.subtract({days: sign});
+      time += sign * DAY_MS;
+    }
+  }
+
+  dateDifference(duration, toCalendarDate(a), endDate, largestUnit, includeWeeks);
+  balanceTime(duration, time, 'hours');
+  return duration;
+}
+
+function dateDifference(duration: Mutable<DateDuration>, a: CalendarDate, b: CalendarDate, largestUnit: DurationUnit, includeWeeks: boolean) {
+  let days = compareDate(b, a);
+  let sign = Math.sign(days);
+  let years = 0;
+  let months = 0;
+  if (largestUnit === 'years') {
+    years = countUnits(a, b, sign * Math.floor(Math.abs(days) / MAX_DAYS_IN_YEAR), n => a.add({years: n}));
+  }
+
+  if (largestUnit === 'years' || largestUnit === 'months') {
+    let start = a.add({years});
+    months = countUnits(a, b, sign * Math.floor(Math.abs(compareDate(b, start)) / MAX_DAYS_IN_MONTH), n => a.add({years, months: n}));
+    days = compareDate(b, a.add({years, months}));
+  }
+
+  duration.years = years;
+  duration.months = months;
+  if (includeWeeks || largestUnit === 'weeks') {
+    duration.weeks = Math.trunc(days / 7);
+    days -= duration.weeks * 7;
+  }
+
+  duration.days = days;
+}
+
+// Returns the largest number of units that can be added to the start date without passing the end date.
+// Adding is done relative to the start date each time so that constrained days (e.g. Jan 31 + 1 month) don't accumulate.
+function countUnits(a: CalendarDate, b: CalendarDate, estimate: number, addUnits: (n: number) => CalendarDate): number {
+  let sign = Math.sign(compareDate(b, a));
+  let n = estimate;
+  let current = addUnits(n);
+  for (;;) {
+    let next = addUnits(n + sign);
+    // Stop if the date did not change, which happens when reaching the limits of the calendar.
+    if (compareDate(b, next) * sign < 0 || compareDate(next, current) === 0) {
+      return n;
+    }
+
+    n += sign;
+    current = next;
+  }
+}
+
+function round(
+  a: DateValue,
+  b: DateValue,
+  duration: Mutable<Required<DateTimeDuration>>,
+  largestUnit: DurationUnit,
+  smallestUnit: DurationUnit,
+  increment: number,
+  roundingMode: RoundingMode
+): Mutable<Required<DateTimeDuration>> {
+  if (isTimeUnit(smallestUnit)) {
+    // Round the total time, which is exact elapsed time after the date components.
+    let unitMs = UNIT_MS[smallestUnit] * increment;
+    let time = durationToMs({hours: duration.hours, minutes: duration.minutes, seconds: duration.seconds, milliseconds: duration.milliseconds});
+    let rounded = roundNumber(time / unitMs, roundingMode) * unitMs;
+    if (isTimeUnit(largestUnit)) {
+      balanceTime(duration, rounded, largestUnit);
+      return duration;
+    }
+
+    // Rounding may result in more than a day of time, so balance by computing the difference to the rounded end date.
+    let end = a.add({years: duration.years, months: duration.months, weeks: duration.weeks, days: duration.days, milliseconds: rounded});
+    return difference(a, end, largestUnit, false);
+  }
+
+  // Find the dates before and after the end date at the rounding increment, and round based on the
+  // fraction of time elapsed between them. This accounts for the varying lengths of months and years.
+  let sign = Math.sign(toMs(b) - toMs(a));
+  let truncated = createDuration();
+  for (let unit of UNITS) {
+    if (unit === smallestUnit) {
+      truncated[unit] = Math.trunc(duration[unit] / increment) * increment;
+      break;
+    }
+
+    truncated[unit] = duration[unit];
+  }
+
+  let start = toMs(a.add(truncated));
+  let end = toMs(a.add({...truncated, [smallestUnit]: truncated[smallestUnit] + sign * increment}));
+  let progress = end === start ? 0 : (toMs(b) - start) / (end - start);
+  let rounded = roundNumber(truncated[smallestUnit] / increment + sign * progress, roundingMode) * increment;
+  if (rounded === truncated[smallestUnit]) {
+    return truncated;
+  }
+
+  // Balance in case rounding resulted in a whole unit of a larger field.
+  return difference(a, a.add({...truncated, [smallestUnit]: rounded}), largestUnit, smallestUnit === 'weeks');
+}
+
+function roundNumber(value: number, roundingMode: RoundingMode) {
+  switch (roundingMode) {
+    case 'ceil':
+      return Math.ceil(value);
+    case 'floor':
+      return Math.floor(value);
+    case 'expand':
+      return value < 0 ? Math.floor(value) : Math.ceil(value);
+    case 'halfExpand':
+      return Math.sign(value) * Math.round(Math.abs(value));
+    default:
+      return Math.trunc(value);
+  }
+}
+
+/**
+ * Balances a duration so that each field is within its normal range, e.g. 90 minutes becomes 1 hour and 30 minutes.
+ * Fractional values, as returned by `parseDuration`, are balanced into smaller units. Without a `relativeTo` date,
+ * days are assumed to be 24 hours and years and months are not balanced, since their length varies.
+ */
+export function normalizeDuration(duration: DateTimeDuration, options: NormalizeDurationOptions = {}): Required<DateTimeDuration> {
+  let largestUnit = options.largestUnit ?? largerUnit('hours', UNITS.find(unit => duration[unit]) ?? 'hours');
+  let {relativeTo} = options;
+  if (relativeTo) {
+    // Include time fields by converting dates to a date time.
+    let start = 'hour' in relativeTo ? relativeTo : toCalendarDateTime(relativeTo);
+    return until(start, start.add(duration), {largestUnit}) as Required<DateTimeDuration>;
+  }
+
+  let result = createDuration();
+  result.years = duration.years || 0;
+  result.months = duration.months || 0;
+
+  // Round to the nearest millisecond to avoid floating point errors from fractional values.
+  let ms = Math.round(durationToMs({...duration, years: 0, months: 0}));
+  balanceTime(result, ms, largestUnit === 'years' || largestUnit === 'months' ? 'days' : largestUnit);
+  for (let unit of UNITS) {
+    result[unit] = result[unit] || 0;
+  }
+
+  return result;
+}
+
+/**
+ * Compares two durations. A negative result indicates that the first duration is shorter than the second,
+ * and a positive result indicates that it is longer. A `relativeTo` date is required to compare durations
+ * with years or months, and accounts for daylight saving time when a ZonedDateTime is provided.
+ */
+export function compareDuration(a: DateTimeDuration, b: DateTimeDuration, relativeTo?: CalendarDate | CalendarDateTime | ZonedDateTime): number {
+  if (relativeTo) {
+    let start = 'hour' in relativeTo ? relativeTo : toCalendarDateTime(relativeTo);
+    return toMs(start.add(a)) - toMs(start.add(b));
+  }
+
+  if (a.years || a.months || b.years || b.months) {
+    throw new RangeError('A relativeTo date is required to compare durations with years or months');
+  }
+
+  return durationToMs(a) - durationToMs(b);
+}
+
+function createDuration(): Mutable<Required<DateTimeDuration>> {
+  return {years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0};
+}
+
+function balanceTime(duration: Mutable<DateTimeDuration>, ms: number, largestUnit: DurationUnit) {
+  for (let unit of UNITS.slice(UNITS.indexOf(largestUnit))) {
+    // Weeks are only included when they are the largest unit.
+    if (unit === 'weeks' && largestUnit !== 'weeks') {
+      continue;
+    }
+
+    let value = Math.trunc(ms / UNIT_MS[unit]);
+    duration[unit] = value;
+    ms -= value * UNIT_MS[unit];
+  }
+}
+
+function durationToMs(duration: DateTimeDuration): number {
+  let ms = 0;
+  for (let unit in UNIT_MS) {
+    ms += (duration[unit] || 0) * UNIT_MS[unit];
+  }
+
+  return ms;
+}
+
+function toMs(date: DateValue): number {
+  if ('timeZone' in date) {
+    return epochFromDate(date) - date.offset;
+  }
+
+  return epochFromDate('hour' in date ? date : toCalendarDateTime(date));
+}
+
+function timeToMs(date: CalendarDateTime): number {
+  return date.hour * 60 * 60 * 1000 + date.minute * 60 * 1000 + date.second * 1000 + date.millisecond;
+}
+
+function isTimeUnit(unit: DurationUnit): boolean {
+  return UNITS.indexOf(unit) > UNITS.indexOf('days');
+}
+
+function largerUnit(a: DurationUnit, b: DurationUnit): DurationUnit {
+  return UNITS.indexOf(a) < UNITS.indexOf(b) ? a : b;
+}
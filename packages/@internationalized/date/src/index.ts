@@ -25,8 +25,20 @@ export type {
   TimeField,
   Disambiguation,
   CycleOptions,
-  CycleTimeOptions
+  CycleTimeOptions,
+  DurationUnit,
+  RoundingMode,
+  DifferenceOptions,
+  NormalizeDurationOptions,
+  DayOfWeek,
+  RecurrenceFrequency,
+  RecurrenceWeekday,
+  RecurrenceRule,
+  RecurrenceOptions
 } from './types';
+export type {DurationFormatOptions, DurationFormatPart, ResolvedDurationFormatOptions} from './DurationFormatter';
+export type {DateParserOptions, ParsedDateRange} from './DateParser';
+export type {HolidaySet, WorkingCalendarOptions} from './WorkingCalendar';
 
 export {CalendarDate, CalendarDateTime, Time, ZonedDateTime} from './CalendarDate';
 export {GregorianCalendar} from './calendars/GregorianCalendar';
@@ -38,6 +50,7 @@ export {IndianCalendar} from './calendars/IndianCalendar';
 export {IslamicCivilCalendar, IslamicTabularCalendar, IslamicUmalquraCalendar} from './calendars/IslamicCalendar';
 export {HebrewCalendar} from './calendars/HebrewCalendar';
 export {EthiopicCalendar, EthiopicAmeteAlemCalendar, CopticCalendar} from './calendars/EthiopicCalendar';
+export {ChineseCalendar, DangiCalendar} from './calendars/ChineseCalendar';
 export {createCalendar} from './createCalendar';
 export {
   toCalendarDate,
@@ -48,7 +61,8 @@ export {
   toTimeZone,
   toLocalTimeZone,
   fromDate,
-  fromAbsolute
+  fromAbsolute,
+  getTimeZoneOffset
 } from './conversion';
 export {
   isSameDay,
@@ -65,6 +79,7 @@ export {
   getLocalTimeZone,
   setLocalTimeZone,
   resetLocalTimeZone,
+  getSupportedTimeZones,
   startOfMonth,
   startOfWeek,
   startOfYear,
@@ -74,6 +89,7 @@ export {
   getMinimumMonthInYear,
   getMinimumDayInMonth,
   getWeeksInMonth,
+  getWeekOfYear,
   minDate,
   maxDate,
   isWeekend,
@@ -87,6 +103,13 @@ export {
   parseAbsolute,
   parseAbsoluteToLocal,
   parseZonedDateTime,
-  parseDuration
+  parseDuration,
+  durationToString
 } from './string';
+export {normalizeDuration, compareDuration} from './duration';
+export {parseRecurrenceRule, recurrenceRuleToString, getOccurrences} from './recurrence';
 export {DateFormatter} from './DateFormatter';
+export {RelativeTimeFormatter} from './RelativeTimeFormatter';
+export {DurationFormatter} from './DurationFormatter';
+export {DateParser} from './DateParser';
+export {WorkingCalendar, createHolidaySet} from './WorkingCalendar';
@@ -10,10 +10,10 @@
  * governing permissions and limitations under the License.
  */
 
-import {AnyCalendarDate, AnyTime, Calendar} from './types';
+import {AnyCalendarDate, AnyTime, Calendar, DayOfWeek} from './types';
 import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
 import {fromAbsolute, toAbsolute, toCalendar, toCalendarDate} from './conversion';
-import {weekStartData} from './weekStartData';
+import {minimalDaysData, weekendData, weekStartData} from './weekStartData';
 
 type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
 
@@ -75,8 +75,6 @@ const DAY_MAP = {
   sat: 6
 };
 
-type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
-
 /**
  * Returns the day of week for the given date and locale. Days are numbered from zero to six,
  * where zero is the first day of the week in the given locale. For example, in the United States,
@@ -150,6 +148,19 @@ export function resetLocalTimeZone(): void {
   localTimeZone = null;
 }
 
+/**
+ * Returns the IANA time zone identifiers supported by the current environment, using `Intl.supportedValuesOf`.
+ * In environments that do not support it, only the user's local time zone and UTC are returned.
+ */
+export function getSupportedTimeZones(): string[] {
+  if (typeof Intl.supportedValuesOf === 'function') {
+    return Intl.supportedValuesOf('timeZone');
+  }
+
+  let timeZone = getLocalTimeZone();
+  return timeZone === 'UTC' ? ['UTC'] : [timeZone, 'UTC'];
+}
+
 /** Returns the first date of the month for the given date. */
 export function startOfMonth(date: ZonedDateTime): ZonedDateTime;
 export function startOfMonth(date: CalendarDateTime): CalendarDateTime;
@@ -261,6 +272,46 @@ export function getWeeksInMonth(date: DateValue, locale: string, firstDayOfWeek?
   return Math.ceil((getDayOfWeek(startOfMonth(date), locale, firstDayOfWeek) + days) / 7);
 }
 
+/**
+ * Returns the week number of the given date within its year, according to the week numbering rules of the given locale.
+ * For example, most European locales use ISO 8601 week numbers, where the first week of the year is the first week with
+ * at least four days in the new year, and the United States uses the week containing January 1st.
+ */
+export function getWeekOfYear(date: DateValue, locale: string, firstDayOfWeek?: DayOfWeek): number {
+  let julian = date.calendar.toJulianDay(date);
+  let minimalDays = getMinimalDaysInFirstWeek(locale);
+  let firstWeekStart = getFirstWeekStart(startOfYear(date), locale, minimalDays, firstDayOfWeek);
+
+  // Dates before the first week of the year belong to the last week of the previous year.
+  if (julian < firstWeekStart) {
+    let lastDayOfPreviousYear = startOfYear(date).subtract({days: 1});
+    if (lastDayOfPreviousYear.compare(date) === 0) {
+      return 1;
+    }
+
+    return getWeekOfYear(lastDayOfPreviousYear, locale, firstDayOfWeek);
+  }
+
+  // Dates at the end of the year may belong to the first week of the next year.
+  let nextYear = endOfYear(date).add({days: 1});
+  if (nextYear.compare(date) > 0 && julian >= getFirstWeekStart(nextYear, locale, minimalDays, firstDayOfWeek)) {
+    return 1;
+  }
+
+  return Math.floor((julian - firstWeekStart) / 7) + 1;
+}
+
+function getFirstWeekStart(yearStart: DateValue, locale: string, minimalDays: number, firstDayOfWeek?: DayOfWeek): number {
+  let julian = yearStart.calendar.toJulianDay(yearStart);
+  let dayOfWeek = getDayOfWeek(yearStart, locale, firstDayOfWeek);
+  return 7 - dayOfWeek >= minimalDays ? julian - dayOfWeek : julian + 7 - dayOfWeek;
+}
+
+function getMinimalDaysInFirstWeek(locale: string): number {
+  let region = getRegion(locale);
+  return region ? minimalDaysData[region] || 1 : 1;
+}
+
 /** Returns the lesser of the two provider dates. */
 export function minDate<A extends DateValue, B extends DateValue>(a?: A | null, b?: B | null): A | B | null | undefined {
   if (a && b) {
@@ -279,25 +330,23 @@ export function maxDate<A extends DateValue, B extends DateValue>(a?: A | null,
   return a || b;
 }
 
-const WEEKEND_DATA = {
-  AF: [4, 5],
-  AE: [5, 6],
-  BH: [5, 6],
-  DZ: [5, 6],
-  EG: [5, 6],
-  IL: [5, 6],
-  IQ: [5, 6],
-  IR: [5, 5],
-  JO: [5, 6],
-  KW: [5, 6],
-  LY: [5, 6],
-  OM: [5, 6],
-  QA: [5, 6],
-  SA: [5, 6],
-  SD: [5, 6],
-  SY: [5, 6],
-  YE: [5, 6]
-};
+/**
+ * Returns the days of the week that are weekend days in the given locale,
+ * numbered from zero to six where zero is Sunday.
+ */
+export function getWeekendDays(locale: string): number[] {
+  let region = getRegion(locale);
+  // Use Intl.Locale for this once weekInfo is supported.
+  // https://github.com/tc39/proposal-intl-locale-info
+  let [start, end] = weekendData[region!] || [6, 0];
+  let days = [start];
+  while (start !== end) {
+    start = (start + 1) % 7;
+    days.push(start);
+  }
+
+  return days;
+}
 
 /** Returns whether the given date is on a weekend in the given locale. */
 export function isWeekend(date: DateValue, locale: string): boolean {
@@ -310,11 +359,7 @@ export function isWeekend(date: DateValue, locale: string): boolean {
     dayOfWeek += 7;
   }
 
-  let region = getRegion(locale);
-  // Use Intl.Locale for this once weekInfo is supported.
-  // https://github.com/tc39/proposal-intl-locale-info
-  let [start, end] = WEEKEND_DATA[region!] || [6, 0];
-  return dayOfWeek === start || dayOfWeek === end;
+  return getWeekendDays(locale).includes(dayOfWeek);
 }
 
 /** Returns whether the given date is on a weekday in the given locale. */
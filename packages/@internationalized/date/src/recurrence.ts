@@ -0,0 +1,416 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, CalendarDateTime, Time, ZonedDateTime} from './CalendarDate';
+import {compareDate, endOfMonth, getDayOfWeek} from './queries';
+import {DayOfWeek, RecurrenceFrequency, RecurrenceOptions, RecurrenceRule, RecurrenceWeekday} from './types';
+import {epochFromDate, toCalendar, toCalendarDate, toCalendarDateTime, toTime, toTimeZone, toZoned} from './conversion';
+import {getExtendedYear, GregorianCalendar} from './calendars/GregorianCalendar';
+import {parseAbsolute} from './string';
+
+type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
+
+const RRULE_WEEKDAYS: DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const RRULE_BYDAY_RE = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const RRULE_UNTIL_RE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const FREQUENCIES: RecurrenceFrequency[] = ['yearly', 'monthly', 'weekly', 'daily', 'hourly', 'minutely', 'secondly'];
+const TIME_FREQUENCY_MS = {
+  hourly: 60 * 60 * 1000,
+  minutely: 60 * 1000,
+  secondly: 1000
+};
+
+// The last date supported by the Gregorian calendar implementation.
+const MAX_DATE = new CalendarDate(9999, 12, 31);
+
+/**
+ * Parses an RFC 5545 recurrence rule string (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE").
+ * The string may optionally be prefixed with "RRULE:".
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  let rule: Partial<RecurrenceRule> = {};
+  for (let part of value.replace(/^RRULE:/i, '').split(';')) {
+    let [key, val] = part.split('=');
+    if (!val) {
+      throw new Error('Invalid RRULE string: ' + value);
+    }
+
+    switch (key.toUpperCase()) {
+      case 'FREQ': {
+        let frequency = val.toLowerCase() as RecurrenceFrequency;
+        if (!FREQUENCIES.includes(frequency)) {
+          throw new Error('Invalid RRULE frequency: ' + val);
+        }
+        rule.frequency = frequency;
+        break;
+      }
+      case 'INTERVAL':
+        rule.interval = parseInteger(val, 1, Infinity);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(val, 1, Infinity);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(val);
+        break;
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = val.split(',').map(v => parseInteger(v, -31, 31));
+        break;
+      case 'BYMONTH':
+        rule.byMonth = val.split(',').map(v => parseInteger(v, 1, 12));
+        break;
+      case 'WKST':
+        rule.weekStart = parseWeekday(val).day;
+        break;
+      default:
+        throw new Error('Unsupported RRULE part: ' + key);
+    }
+  }
+
+  if (!rule.frequency) {
+    throw new Error('Invalid RRULE string: ' + value + ' - FREQ is required');
+  }
+
+  validateRule(rule as RecurrenceRule);
+  return rule as RecurrenceRule;
+}
+
+/** Converts a recurrence rule to an RFC 5545 RRULE string, without the "RRULE:" prefix. */
+export function recurrenceRuleToString(rule: RecurrenceRule): string {
+  validateRule(rule);
+  let parts = ['FREQ=' + rule.frequency.toUpperCase()];
+  if (rule.interval != null && rule.interval !== 1) {
+    parts.push('INTERVAL=' + rule.interval);
+  }
+
+  if (rule.count != null) {
+    parts.push('COUNT=' + rule.count);
+  }
+
+  if (rule.until) {
+    parts.push('UNTIL=' + untilToString(rule.until));
+  }
+
+  if (rule.byMonth?.length) {
+    parts.push('BYMONTH=' + rule.byMonth.join(','));
+  }
+
+  if (rule.byMonthDay?.length) {
+    parts.push('BYMONTHDAY=' + rule.byMonthDay.join(','));
+  }
+
+  if (rule.byDay?.length) {
+    parts.push('BYDAY=' + rule.byDay.map(weekday => (weekday.n ?? '') + weekday.day.slice(0, 2).toUpperCase()).join(','));
+  }
+
+  if (rule.weekStart) {
+    parts.push('WKST=' + rule.weekStart.slice(0, 2).toUpperCase());
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Returns an iterator of the occurrences of a recurrence rule, starting from the given date. The start date is
+ * included if it matches the rule. Occurrences have the same type, calendar, time, and time zone as the start date.
+ * For a ZonedDateTime, occurrences are computed in local time, and times that are ambiguous or do not exist due
+ * to daylight saving time transitions are resolved according to the `disambiguation` option.
+ */
+export function getOccurrences(start: CalendarDate, rule: RecurrenceRule, options?: RecurrenceOptions): IterableIterator<CalendarDate>;
+export function getOccurrences(start: CalendarDateTime, rule: RecurrenceRule, options?: RecurrenceOptions): IterableIterator<CalendarDateTime>;
+export function getOccurrences(start: ZonedDateTime, rule: RecurrenceRule, options?: RecurrenceOptions): IterableIterator<ZonedDateTime>;
+export function* getOccurrences(start: DateValue, rule: RecurrenceRule, options: RecurrenceOptions = {}): IterableIterator<DateValue> {
+  validateRule(rule);
+  let isTimeFrequency = rule.frequency in TIME_FREQUENCY_MS;
+  if (isTimeFrequency && !('hour' in start)) {
+    throw new Error(`Unsupported frequency ${rule.frequency} for CalendarDate`);
+  }
+
+  // Recurrence rules are defined in terms of the Gregorian calendar.
+  let gregorian = new GregorianCalendar();
+  let startDate = toCalendar(toCalendarDate(start), gregorian);
+  let time = 'hour' in start ? toTime(start) : null;
+  let toValue = (date: CalendarDate): DateValue => {
+    if (!time) {
+      return toCalendar(date, start.calendar);
+    }
+
+    let dateTime = toCalendarDateTime(date, time);
+    if ('timeZone' in start) {
+      return toCalendar(toZoned(dateTime, start.timeZone, options.disambiguation), start.calendar);
+    }
+
+    return toCalendar(dateTime, start.calendar);
+  };
+
+  let count = 0;
+  let periods = isTimeFrequency ? getTimePeriods(start as CalendarDateTime | ZonedDateTime, rule) : getDatePeriods(startDate, rule, toValue);
+  for (let occurrences of periods) {
+    for (let occurrence of occurrences) {
+      if (compareValues(occurrence, start) < 0) {
+        continue;
+      }
+
+      if (rule.until && compareValues(occurrence, rule.until) > 0) {
+        return;
+      }
+
+      count++;
+      if (!options.exclude?.some(date => compareValues(occurrence, date) === 0)) {
+        yield occurrence;
+      }
+
+      if (rule.count != null && count >= rule.count) {
+        return;
+      }
+    }
+  }
+}
+
+// Yields the sorted occurrences within each period (e.g. year or month) of the rule, in order.
+function* getDatePeriods(start: CalendarDate, rule: RecurrenceRule, toValue: (date: CalendarDate) => DateValue): IterableIterator<DateValue[]> {
+  let interval = rule.interval ?? 1;
+  let weekStart = RRULE_WEEKDAYS.indexOf(rule.weekStart ?? 'mon');
+  let yearStart = start.set({month: 1, day: 1});
+  let monthStart = start.set({day: 1});
+  let weekStartDate = start.subtract({days: (dayOfWeek(start) - weekStart + 7) % 7});
+  let maxDays = compareDate(MAX_DATE, start);
+  for (let i = 0; ; i++) {
+    let dates: CalendarDate[];
+    switch (rule.frequency) {
+      case 'yearly': {
+        if (getExtendedYear(start.era, start.year) + i * interval > MAX_DATE.year) {
+          return;
+        }
+        dates = expandYear(yearStart.add({years: i * interval}), start, rule);
+        break;
+      }
+      case 'monthly': {
+        let months = start.month - 1 + i * interval;
+        if (getExtendedYear(start.era, start.year) + Math.floor(months / 12) > MAX_DATE.year) {
+          return;
+        }
+        let month = monthStart.add({months: i * interval});
+        dates = !rule.byMonth || rule.byMonth.includes(month.month) ? expandMonth(month, start, rule) : [];
+        break;
+      }
+      case 'weekly': {
+        if (i * interval * 7 - (dayOfWeek(start) - weekStart + 7) % 7 > maxDays) {
+          return;
+        }
+        let week = weekStartDate.add({weeks: i * interval});
+        let days = rule.byDay ? rule.byDay.map(weekday => RRULE_WEEKDAYS.indexOf(weekday.day)) : [dayOfWeek(start)];
+        dates = days
+          .map(day => week.add({days: (day - weekStart + 7) % 7}))
+          .filter(date => matchesLimits(date, {...rule, byDay: undefined}));
+        break;
+      }
+      case 'daily': {
+        if (i * interval > maxDays) {
+          return;
+        }
+        let date = start.add({days: i * interval});
+        dates = matchesLimits(date, rule) ? [date] : [];
+        break;
+      }
+      default:
+        throw new Error('Unsupported frequency ' + rule.frequency);
+    }
+
+    yield dates.sort(compareDate).map(toValue);
+  }
+}
+
+function* getTimePeriods(start: CalendarDateTime | ZonedDateTime, rule: RecurrenceRule): IterableIterator<DateValue[]> {
+  // Time frequencies add exact amounts of time, so that occurrences are evenly spaced across daylight saving time transitions.
+  let interval = (rule.interval ?? 1) * TIME_FREQUENCY_MS[rule.frequency];
+  let maxMs = epochFromDate(toCalendarDateTime(MAX_DATE, new Time(23, 59, 59, 999))) - epochFromDate(toCalendar(start, new GregorianCalendar()));
+  for (let i = 0; i * interval <= maxMs; i++) {
+    let value = start.add({milliseconds: i * interval});
+    yield matchesLimits(toCalendar(toCalendarDate(value), new GregorianCalendar()), rule) ? [value] : [];
+  }
+}
+
+function expandYear(yearStart: CalendarDate, start: CalendarDate, rule: RecurrenceRule): CalendarDate[] {
+  if (rule.byMonth || rule.byMonthDay) {
+    let months = rule.byMonth ?? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+    return months.flatMap(month => expandMonth(yearStart.set({month}), start, rule));
+  }
+
+  // Without months, the nth weekday is relative to the year rather than the month.
+  if (rule.byDay) {
+    return expandWeekdays(yearStart, yearStart.set({month: 12, day: 31}), rule.byDay);
+  }
+
+  return getDay(yearStart.set({month: start.month}), start.day);
+}
+
+function expandMonth(monthStart: CalendarDate, start: CalendarDate, rule: RecurrenceRule): CalendarDate[] {
+  let daysInMonth = monthStart.calendar.getDaysInMonth(monthStart);
+  let dates = rule.byDay ? expandWeekdays(monthStart, endOfMonth(monthStart), rule.byDay) : null;
+  if (rule.byMonthDay) {
+    let days = rule.byMonthDay.map(day => day < 0 ? daysInMonth + day + 1 : day);
+    return dates
+      ? dates.filter(date => days.includes(date.day))
+      : days.flatMap(day => getDay(monthStart, day));
+  }
+
+  return dates ?? getDay(monthStart, start.day);
+}
+
+// Returns the given day of the month, or nothing if it does not exist, e.g. February 30th.
+// Per RFC 5545, invalid dates are skipped rather than constrained.
+function getDay(monthStart: CalendarDate, day: number): CalendarDate[] {
+  return day >= 1 && day <= monthStart.calendar.getDaysInMonth(monthStart) ? [monthStart.set({day})] : [];
+}
+
+function expandWeekdays(rangeStart: CalendarDate, rangeEnd: CalendarDate, weekdays: RecurrenceWeekday[]): CalendarDate[] {
+  let dates: CalendarDate[] = [];
+  for (let {day, n} of weekdays) {
+    let weekday = RRULE_WEEKDAYS.indexOf(day);
+    let first = rangeStart.add({days: (weekday - dayOfWeek(rangeStart) + 7) % 7});
+    let last = rangeEnd.subtract({days: (dayOfWeek(rangeEnd) - weekday + 7) % 7});
+    if (n == null) {
+      for (let date = first; date.compare(rangeEnd) <= 0; date = date.add({weeks: 1})) {
+        dates.push(date);
+      }
+    } else {
+      let date = n > 0 ? first.add({weeks: n - 1}) : last.subtract({weeks: -n - 1});
+      if (date.compare(rangeStart) >= 0 && date.compare(rangeEnd) <= 0) {
+        dates.push(date);
+      }
+    }
+  }
+
+  // Remove duplicates, e.g. from both MO and 1MO.
+  return dates.filter((date, index) => dates.findIndex(d => d.compare(date) === 0) === index);
+}
+
+// BYMONTH, BYMONTHDAY, and BYDAY limit the occurrences of rules with a frequency smaller than they represent.
+function matchesLimits(date: CalendarDate, rule: RecurrenceRule): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(date.month)) {
+    return false;
+  }
+
+  if (rule.byMonthDay) {
+    let daysInMonth = date.calendar.getDaysInMonth(date);
+    if (!rule.byMonthDay.some(day => day === date.day || daysInMonth + day + 1 === date.day)) {
+      return false;
+    }
+  }
+
+  if (rule.byDay && !rule.byDay.some(weekday => RRULE_WEEKDAYS.indexOf(weekday.day) === dayOfWeek(date))) {
+    return false;
+  }
+
+  return true;
+}
+
+function dayOfWeek(date: CalendarDate): number {
+  return getDayOfWeek(date, 'en-US', 'sun');
+}
+
+// Compares an occurrence with a date, which may be of a different type. Dates without a time
+// are compared by day, and floating date times are compared with the local time of a ZonedDateTime.
+function compareValues(a: DateValue, b: DateValue): number {
+  if (!('hour' in a) || !('hour' in b)) {
+    return compareDate(a, b);
+  }
+
+  if ('timeZone' in a) {
+    return a.compare(b);
+  }
+
+  return a.compare(toCalendarDateTime(b));
+}
+
+function validateRule(rule: RecurrenceRule) {
+  if (!FREQUENCIES.includes(rule.frequency)) {
+    throw new Error('Invalid recurrence frequency: ' + rule.frequency);
+  }
+
+  if (rule.interval != null && (!Number.isInteger(rule.interval) || rule.interval < 1)) {
+    throw new RangeError('Invalid recurrence interval: ' + rule.interval);
+  }
+
+  if (rule.count != null && rule.until != null) {
+    throw new Error('A recurrence rule cannot have both count and until');
+  }
+
+  for (let weekday of rule.byDay ?? []) {
+    if (weekday.n != null && rule.frequency !== 'yearly' && rule.frequency !== 'monthly') {
+      throw new Error('Numeric weekdays are only supported for yearly and monthly recurrence rules');
+    }
+  }
+}
+
+function parseInteger(value: string, min: number, max: number) {
+  let val = Number(value);
+  if (!Number.isInteger(val) || val < min || val > max || val === 0) {
+    throw new RangeError(`Value out of range: ${min} <= ${value} <= ${max}`);
+  }
+
+  return val;
+}
+
+function parseWeekday(value: string): RecurrenceWeekday {
+  let m = value.toUpperCase().match(RRULE_BYDAY_RE);
+  if (!m) {
+    throw new Error('Invalid RRULE weekday: ' + value);
+  }
+
+  let day = RRULE_WEEKDAYS.find(day => day.slice(0, 2).toUpperCase() === m[2])!;
+  return m[1] ? {day, n: parseInteger(m[1], -53, 53)} : {day};
+}
+
+function parseUntil(value: string): DateValue {
+  let m = value.match(RRULE_UNTIL_RE);
+  if (!m) {
+    throw new Error('Invalid RRULE UNTIL value: ' + value);
+  }
+
+  let [, year, month, day, hour, minute, second, utc] = m;
+  if (hour == null) {
+    return new CalendarDate(Number(year), Number(month), Number(day));
+  }
+
+  // A UTC time is represented as a ZonedDateTime. Otherwise, it is a floating time in the same time zone as the start date.
+  if (utc) {
+    return parseAbsolute(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`, 'UTC');
+  }
+
+  return new CalendarDateTime(Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second));
+}
+
+function untilToString(until: DateValue): string {
+  if ('timeZone' in until) {
+    until = toTimeZone(until, 'UTC');
+  }
+
+  let date = toCalendar(until, new GregorianCalendar());
+  let result = String(getExtendedYear(date.era, date.year)).padStart(4, '0') + pad(date.month) + pad(date.day);
+  if ('hour' in date) {
+    result += 'T' + pad(date.hour) + pad(date.minute) + pad(date.second);
+    if ('timeZone' in date) {
+      result += 'Z';
+    }
+  }
+
+  return result;
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
@@ -284,3 +284,48 @@ export function parseDuration(value: string): Required<DateTimeDuration> {
 
   return duration as Required<DateTimeDuration>;
 }
+
+/**
+ * Converts a duration to an ISO 8601 duration string (e.g. "P2DT4H30M"), which can be parsed with `parseDuration`.
+ * Milliseconds are included as fractional seconds. Durations with mixed signs cannot be represented and throw an error.
+ * @param duration The duration to convert.
+ */
+export function durationToString(duration: DateTimeDuration): string {
+  let values = Object.values(duration).filter(Boolean) as number[];
+  let isNegative = values.some(value => value < 0);
+  if (isNegative && values.some(value => value > 0)) {
+    throw new RangeError('Durations with mixed signs cannot be converted to an ISO 8601 string');
+  }
+
+  let abs = (value: number | undefined) => Math.abs(value || 0);
+  let date = '';
+  if (duration.years) {
+    date += `${abs(duration.years)}Y`;
+  }
+  if (duration.months) {
+    date += `${abs(duration.months)}M`;
+  }
+  if (duration.weeks) {
+    date += `${abs(duration.weeks)}W`;
+  }
+  if (duration.days) {
+    date += `${abs(duration.days)}D`;
+  }
+
+  let time = '';
+  if (duration.hours) {
+    time += `${abs(duration.hours)}H`;
+  }
+  if (duration.minutes) {
+    time += `${abs(duration.minutes)}M`;
+  }
+
+  // Round to the nearest millisecond to avoid floating point errors when combining seconds and milliseconds.
+  let ms = Math.round(abs(duration.seconds) * 1000 + abs(duration.milliseconds));
+  if (ms || (!date && !time)) {
+    let fraction = String(ms % 1000).padStart(3, '0').replace(/0+$/, '');
+    time += `${Math.floor(ms / 1000)}${fraction ? '.' + fraction : ''}S`;
+  }
+
+  return `${isNegative ? '-' : ''}P${date}${time ? 'T' + time : ''}`;
+}
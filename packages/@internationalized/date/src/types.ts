@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-import {CalendarDate} from './CalendarDate';
+import {CalendarDate, CalendarDateTime, ZonedDateTime} from './CalendarDate';
 
 /** An interface that is compatible with any object with date fields. */
 export interface AnyCalendarDate {
@@ -155,3 +155,98 @@ export interface CycleTimeOptions extends CycleOptions {
    */
   hourCycle?: 12 | 24
 }
+
+export type DurationUnit = 'years' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds' | 'milliseconds';
+
+/**
+ * How to round a value. `ceil` and `floor` round towards positive and negative infinity,
+ * `expand` and `trunc` round away from and towards zero, and `halfExpand` rounds to the
+ * nearest value, with ties rounding away from zero.
+ */
+export type RoundingMode = 'ceil' | 'floor' | 'expand' | 'trunc' | 'halfExpand';
+
+export interface DifferenceOptions {
+  /**
+   * The largest unit to include in the resulting duration. Differences in larger units are balanced into this unit.
+   * @default 'days', or 'hours' for ZonedDateTime
+   */
+  largestUnit?: DurationUnit,
+  /**
+   * The smallest unit to include in the resulting duration. The remainder is rounded according to the `roundingMode`.
+   * @default 'days' for CalendarDate, otherwise 'milliseconds'
+   */
+  smallestUnit?: DurationUnit,
+  /**
+   * The increment of the smallest unit to round to, e.g. 15 with a `smallestUnit` of `minutes` rounds to the nearest quarter hour.
+   * @default 1
+   */
+  roundingIncrement?: number,
+  /**
+   * How to round the smallest unit.
+   * @default 'trunc'
+   */
+  roundingMode?: RoundingMode
+}
+
+export interface NormalizeDurationOptions {
+  /**
+   * The largest unit to include in the resulting duration.
+   * Defaults to the largest unit in the duration, or hours, whichever is larger.
+   */
+  largestUnit?: DurationUnit,
+  /**
+   * A date to interpret the duration relative to. This is required to balance days into months and years,
+   * which vary in length, and accounts for daylight saving time when a ZonedDateTime is provided.
+   */
+  relativeTo?: CalendarDate | CalendarDateTime | ZonedDateTime
+}
+
+export type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export type RecurrenceFrequency = 'yearly' | 'monthly' | 'weekly' | 'daily' | 'hourly' | 'minutely' | 'secondly';
+
+export interface RecurrenceWeekday {
+  /** The day of the week. */
+  day: DayOfWeek,
+  /**
+   * The occurrence of the day within the month or year, e.g. 1 for the first Monday, or -1 for the last.
+   * If not provided, every occurrence of the day is included.
+   */
+  n?: number
+}
+
+/** A recurrence rule, as defined by the RRULE property in [RFC 5545](https://datatracker.ietf.org/doc/html/rfc5545#section-3.3.10). */
+export interface RecurrenceRule {
+  /** How often the rule repeats. */
+  frequency: RecurrenceFrequency,
+  /**
+   * The number of frequency units between each repetition, e.g. 2 with a `weekly` frequency repeats every other week.
+   * @default 1
+   */
+  interval?: number,
+  /** The maximum number of occurrences. Cannot be combined with `until`. */
+  count?: number,
+  /** The last date that an occurrence may be on, inclusive. Cannot be combined with `count`. */
+  until?: CalendarDate | CalendarDateTime | ZonedDateTime,
+  /** The days of the week that occurrences are on. */
+  byDay?: RecurrenceWeekday[],
+  /** The days of the month that occurrences are on. Negative values count from the end of the month, e.g. -1 is the last day. */
+  byMonthDay?: number[],
+  /** The months that occurrences are in, from 1 to 12. */
+  byMonth?: number[],
+  /**
+   * The first day of the week, used to determine which week a date is in for `weekly` rules with an interval.
+   * @default 'mon'
+   */
+  weekStart?: DayOfWeek
+}
+
+export interface RecurrenceOptions {
+  /** Dates to exclude from the occurrences, as defined by the EXDATE property in RFC 5545. */
+  exclude?: (CalendarDate | CalendarDateTime | ZonedDateTime)[],
+  /**
+   * How to resolve times that are ambiguous or do not exist in the time zone due to daylight saving time transitions.
+   * @default 'compatible'
+   */
+  disambiguation?: Disambiguation
+}
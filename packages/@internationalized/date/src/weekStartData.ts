@@ -109,3 +109,74 @@ export const weekStartData = {
   VN: 1,
   XK: 1
 };
+
+// Regions where the first week of the year must contain at least 4 days (ISO 8601 style week numbering).
+// All other regions consider the week containing January 1st to be the first week of the year.
+export const minimalDaysData = {
+  AD: 4,
+  AN: 4,
+  AT: 4,
+  AX: 4,
+  BE: 4,
+  BG: 4,
+  CH: 4,
+  CZ: 4,
+  DE: 4,
+  DK: 4,
+  EE: 4,
+  ES: 4,
+  FI: 4,
+  FJ: 4,
+  FO: 4,
+  FR: 4,
+  GB: 4,
+  GF: 4,
+  GG: 4,
+  GI: 4,
+  GP: 4,
+  GR: 4,
+  HU: 4,
+  IE: 4,
+  IM: 4,
+  IS: 4,
+  IT: 4,
+  JE: 4,
+  LI: 4,
+  LT: 4,
+  LU: 4,
+  MC: 4,
+  MQ: 4,
+  NL: 4,
+  NO: 4,
+  PL: 4,
+  PT: 4,
+  RE: 4,
+  RU: 4,
+  SE: 4,
+  SJ: 4,
+  SK: 4,
+  SM: 4,
+  VA: 4
+};
+
+// The first and last days of the weekend in each region, where 0 is Sunday.
+// Regions with a Saturday and Sunday weekend have been removed for compression.
+export const weekendData = {
+  AF: [4, 5],
+  AE: [5, 6],
+  BH: [5, 6],
+  DZ: [5, 6],
+  EG: [5, 6],
+  IL: [5, 6],
+  IQ: [5, 6],
+  IR: [5, 5],
+  JO: [5, 6],
+  KW: [5, 6],
+  LY: [5, 6],
+  OM: [5, 6],
+  QA: [5, 6],
+  SA: [5, 6],
+  SD: [5, 6],
+  SY: [5, 6],
+  YE: [5, 6]
+};
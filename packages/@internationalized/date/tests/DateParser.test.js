@@ -0,0 +1,125 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, CalendarDateTime, DateParser, HebrewCalendar, JapaneseCalendar} from '..';
+
+let reference = new CalendarDate(2024, 6, 15);
+
+function parse(locale, value, options) {
+  return new DateParser(locale, options).parse(value, reference);
+}
+
+describe('DateParser', function () {
+  describe('parse', function () {
+    it('should parse dates with month names', function () {
+      expect(parse('en-US', 'March 5, 2024')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('en-US', 'Tue, Mar 5, 2024')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('en-US', 'sept 9 2023')).toEqual(new CalendarDate(2023, 9, 9));
+      expect(parse('en-US', 'March 5th')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('en-US', 'March 2024')).toEqual(new CalendarDate(2024, 3, 1));
+    });
+
+    it('should parse numeric dates in the locale order', function () {
+      expect(parse('en-US', '05/03/24')).toEqual(new CalendarDate(2024, 5, 3));
+      expect(parse('en-GB', '05/03/24')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('de-DE', '5.3.2024')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('ko-KR', '2024. 3. 5.')).toEqual(new CalendarDate(2024, 3, 5));
+    });
+
+    it('should parse the year first regardless of locale', function () {
+      expect(parse('en-US', '2024/03/05')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('en-GB', '2024-03-05')).toEqual(new CalendarDate(2024, 3, 5));
+    });
+
+    it('should fill in the year from the reference date', function () {
+      expect(parse('en-US', '3/5')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('en-GB', '5 March')).toEqual(new CalendarDate(2024, 3, 5));
+    });
+
+    it('should expand two digit years to the closest century', function () {
+      expect(parse('en-US', '1/1/30')).toEqual(new CalendarDate(2030, 1, 1));
+      expect(parse('en-US', '1/1/80')).toEqual(new CalendarDate(1980, 1, 1));
+    });
+
+    it('should parse relative dates', function () {
+      expect(parse('en-US', 'today')).toEqual(new CalendarDate(2024, 6, 15));
+      expect(parse('en-US', 'Tomorrow')).toEqual(new CalendarDate(2024, 6, 16));
+      expect(parse('en-US', 'yesterday')).toEqual(new CalendarDate(2024, 6, 14));
+      expect(parse('de-DE', 'übermorgen')).toEqual(new CalendarDate(2024, 6, 17));
+      expect(parse('fr-FR', 'demain')).toEqual(new CalendarDate(2024, 6, 16));
+    });
+
+    it('should parse times', function () {
+      expect(parse('en-US', 'Mar 5, 2024, 3:30 PM')).toEqual(new CalendarDateTime(2024, 3, 5, 15, 30));
+      expect(parse('en-US', 'march 5 3pm')).toEqual(new CalendarDateTime(2024, 3, 5, 15));
+      expect(parse('en-US', '12:15:30 am')).toEqual(new CalendarDateTime(2024, 6, 15, 0, 15, 30));
+      expect(parse('en-US', 'tomorrow 13:45')).toEqual(new CalendarDateTime(2024, 6, 16, 13, 45));
+      expect(parse('zh-CN', '2024年3月5日 下午3:30')).toEqual(new CalendarDateTime(2024, 3, 5, 15, 30));
+    });
+
+    it('should parse dates in other languages', function () {
+      expect(parse('de-DE', '5. März 2024')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('fr-FR', '5 mars 2024')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('es-ES', '5 de marzo de 2024')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('ru-RU', '5 марта 2024 г.')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('ja-JP', '2024年3月5日')).toEqual(new CalendarDate(2024, 3, 5));
+    });
+
+    it('should parse other numbering systems', function () {
+      expect(parse('ar-EG', '٥/٣/٢٠٢٤')).toEqual(new CalendarDate(2024, 3, 5));
+      expect(parse('en-US', '１２/２５/２０２４')).toEqual(new CalendarDate(2024, 12, 25));
+    });
+
+    it('should parse dates in other calendars', function () {
+      let date = parse('ja-JP-u-ca-japanese', '令和6年3月5日', {calendar: new JapaneseCalendar()});
+      expect(date.calendar.identifier).toBe('japanese');
+      expect(date.era).toBe('reiwa');
+      expect(date.year).toBe(6);
+      expect(date.month).toBe(3);
+      expect(date.day).toBe(5);
+
+      date = parse('he-IL-u-ca-hebrew', '5 באדר ב׳ 5784', {calendar: new HebrewCalendar()});
+      expect(date.calendar.identifier).toBe('hebrew');
+      expect(date.year).toBe(5784);
+      expect(date.month).toBe(7);
+      expect(date.day).toBe(5);
+    });
+
+    it('should return null for invalid dates', function () {
+      expect(parse('en-US', '')).toBe(null);
+      expect(parse('en-US', 'foo 5')).toBe(null);
+      expect(parse('en-US', '5')).toBe(null);
+      expect(parse('en-US', '2/30/2024')).toBe(null);
+      expect(parse('en-US', '13/1/2024')).toBe(null);
+      expect(parse('en-US', '1/2/3/4')).toBe(null);
+      expect(parse('en-US', 'March April 5')).toBe(null);
+      expect(parse('en-US', '25:00')).toBe(null);
+      expect(parse('en-US', '2024-02-30')).toBe(null);
+    });
+  });
+
+  describe('parseRange', function () {
+    it('should parse date ranges', function () {
+      let parser = new DateParser('en-US');
+      expect(parser.parseRange('Mar 5 – Mar 8, 2024', reference)).toEqual({start: new CalendarDate(2024, 3, 5), end: new CalendarDate(2024, 3, 8)});
+      expect(parser.parseRange('3/5/2024 - 3/8/2024', reference)).toEqual({start: new CalendarDate(2024, 3, 5), end: new CalendarDate(2024, 3, 8)});
+      expect(parser.parseRange('today – tomorrow', reference)).toEqual({start: new CalendarDate(2024, 6, 15), end: new CalendarDate(2024, 6, 16)});
+    });
+
+    it('should return null for invalid ranges', function () {
+      let parser = new DateParser('en-US');
+      expect(parser.parseRange('3/8/2024 - 3/5/2024', reference)).toBe(null);
+      expect(parser.parseRange('3/5/2024', reference)).toBe(null);
+      expect(parser.parseRange('foo - bar', reference)).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {DurationFormatter} from '..';
+
+describe('DurationFormatter', function () {
+  // Test the fallback, since Intl.DurationFormat is not available in all environments.
+  let createFormatter = (locale, options) => {
+    let formatter = new DurationFormatter(locale, options);
+    formatter.formatter = null;
+    return formatter;
+  };
+
+  it('should format a duration', function () {
+    expect(createFormatter('en-US').format({hours: 1, minutes: 20})).toBe('1 hr, 20 min');
+    expect(createFormatter('en-US', {style: 'long'}).format({hours: 1, minutes: 20})).toBe('1 hour, 20 minutes');
+    expect(createFormatter('en-US', {style: 'narrow'}).format({hours: 1, minutes: 20})).toBe('1h 20m');
+    expect(createFormatter('en-US').format({years: 1, months: 2, weeks: 3, days: 4, hours: 0, seconds: 5, milliseconds: 6})).toBe('1 yr, 2 mths, 3 wks, 4 days, 5 sec, 6 ms');
+  });
+
+  it('should format negative durations', function () {
+    expect(createFormatter('en-US').format({hours: -1, minutes: -20})).toBe('-1 hr, 20 min');
+    expect(() => createFormatter('en-US').format({hours: -1, minutes: 20})).toThrow();
+  });
+
+  it('should format an empty duration', function () {
+    expect(createFormatter('en-US').format({hours: 0, minutes: 0})).toBe('0 min');
+    expect(createFormatter('en-US').format({})).toBe('0 sec');
+  });
+
+  it('should format the digital style', function () {
+    expect(createFormatter('en-US', {style: 'digital'}).format({hours: 1, minutes: 20})).toBe('1:20:00');
+    expect(createFormatter('en-US', {style: 'digital'}).format({minutes: -5})).toBe('-0:05:00');
+    expect(createFormatter('en-US', {style: 'digital'}).format({days: 2, hours: 1, seconds: 5, milliseconds: 500})).toBe('2 days, 1:00:05.5');
+    expect(createFormatter('en-US', {style: 'digital', fractionalDigits: 2}).format({seconds: 5, milliseconds: 126})).toBe('0:00:05.12');
+    expect(createFormatter('fi-FI', {style: 'digital'}).format({hours: 1, minutes: 20})).toBe('1.20.00');
+  });
+
+  it('should format in other locales', function () {
+    expect(createFormatter('de-DE').format({hours: 1, minutes: 20})).toBe('1 Std., 20 Min.');
+    expect(createFormatter('ar-EG', {numberingSystem: 'latn'}).resolvedOptions().numberingSystem).toBe('latn');
+  });
+
+  it('should format to parts', function () {
+    expect(createFormatter('en-US').formatToParts({hours: 1, minutes: 20})).toEqual([
+      {type: 'integer', value: '1', unit: 'hour'},
+      {type: 'literal', value: ' ', unit: 'hour'},
+      {type: 'unit', value: 'hr', unit: 'hour'},
+      {type: 'literal', value: ', '},
+      {type: 'integer', value: '20', unit: 'minute'},
+      {type: 'literal', value: ' ', unit: 'minute'},
+      {type: 'unit', value: 'min', unit: 'minute'}
+    ]);
+  });
+});
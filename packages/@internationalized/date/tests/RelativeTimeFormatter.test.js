@@ -0,0 +1,70 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, CalendarDateTime, HebrewCalendar, parseZonedDateTime, RelativeTimeFormatter} from '..';
+
+describe('RelativeTimeFormatter', function () {
+  let relativeTo = parseZonedDateTime('2024-05-10T12:00[America/New_York]');
+  let format = (formatter, value) => formatter.formatRelative(parseZonedDateTime(value + '[America/New_York]'), relativeTo);
+
+  it('should format a value and unit', function () {
+    let formatter = new RelativeTimeFormatter('en-US');
+    expect(formatter.format(-3, 'hour')).toBe('3 hours ago');
+    expect(formatter.format(2, 'days')).toBe('in 2 days');
+  });
+
+  it('should select the largest unit', function () {
+    let formatter = new RelativeTimeFormatter('en-US');
+    expect(format(formatter, '2024-05-10T09:00')).toBe('3 hours ago');
+    expect(format(formatter, '2024-05-10T11:59:30')).toBe('30 seconds ago');
+    expect(format(formatter, '2024-05-12T08:00')).toBe('in 2 days');
+    expect(format(formatter, '2024-04-25T12:00')).toBe('2 weeks ago');
+    expect(format(formatter, '2023-05-15T12:00')).toBe('1 year ago');
+    expect(format(formatter, '2025-04-25T00:00')).toBe('in 11 months');
+  });
+
+  it('should round to the selected unit', function () {
+    let formatter = new RelativeTimeFormatter('en-US');
+    expect(format(formatter, '2024-05-10T10:25')).toBe('2 hours ago');
+    expect(format(formatter, '2024-05-10T13:45')).toBe('in 2 hours');
+    expect(format(formatter, '2024-05-10T12:59:40')).toBe('in 1 hour');
+    expect(format(formatter, '2024-05-16T23:00')).toBe('in 6 days');
+    expect(format(formatter, '2024-05-17T00:00')).toBe('in 1 week');
+  });
+
+  it('should support numeric auto', function () {
+    let formatter = new RelativeTimeFormatter('en-US', {numeric: 'auto'});
+    expect(format(formatter, '2024-05-10T12:00')).toBe('now');
+    expect(formatter.formatRelative(new CalendarDate(2024, 5, 9), new CalendarDate(2024, 5, 10))).toBe('yesterday');
+    expect(formatter.formatRelative(new CalendarDate(2024, 5, 10), relativeTo)).toBe('today');
+    expect(formatter.formatRelative(new CalendarDate(2024, 6, 10), relativeTo)).toBe('next month');
+  });
+
+  it('should compare dates without a time zone', function () {
+    let formatter = new RelativeTimeFormatter('en-US');
+    expect(formatter.formatRelative(new CalendarDateTime(2024, 5, 10, 10), new CalendarDateTime(2024, 5, 10, 12))).toBe('2 hours ago');
+    expect(formatter.formatRelative(new CalendarDate(new HebrewCalendar(), 5784, 9, 9), new CalendarDate(2024, 5, 10))).toBe('in 1 week');
+  });
+
+  it('should format to parts', function () {
+    let formatter = new RelativeTimeFormatter('en-US');
+    expect(formatter.formatRelativeToParts(parseZonedDateTime('2024-05-10T09:00[America/New_York]'), relativeTo)).toEqual([
+      {type: 'integer', value: '3', unit: 'hour'},
+      {type: 'literal', value: ' hours ago'}
+    ]);
+  });
+
+  it('should format in other locales', function () {
+    let formatter = new RelativeTimeFormatter('fr-FR');
+    expect(format(formatter, '2024-05-10T09:00')).toBe('il y a 3 heures');
+  });
+});
@@ -0,0 +1,118 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, CalendarDateTime, createHolidaySet, getDayOfWeek, getOccurrences, HebrewCalendar, toCalendar, WorkingCalendar} from '..';
+
+// Christmas and New Year's Day.
+let holidays = createHolidaySet([new CalendarDate(2024, 12, 25), new CalendarDate(2025, 1, 1)]);
+
+describe('WorkingCalendar', function () {
+  describe('isBusinessDay', function () {
+    it('should use the weekend of the locale', function () {
+      let us = new WorkingCalendar('en-US');
+      expect(us.getWeekendDays()).toEqual(['sun', 'sat']);
+      expect(us.isBusinessDay(new CalendarDate(2024, 6, 14))).toBe(true); // Friday
+      expect(us.isBusinessDay(new CalendarDate(2024, 6, 15))).toBe(false); // Saturday
+      expect(us.isBusinessDay(new CalendarDate(2024, 6, 16))).toBe(false); // Sunday
+
+      let il = new WorkingCalendar('he-IL');
+      expect(il.getWeekendDays()).toEqual(['fri', 'sat']);
+      expect(il.isBusinessDay(new CalendarDate(2024, 6, 14))).toBe(false);
+      expect(il.isBusinessDay(new CalendarDate(2024, 6, 16))).toBe(true);
+
+      let ir = new WorkingCalendar('fa-IR');
+      expect(ir.getWeekendDays()).toEqual(['fri']);
+    });
+
+    it('should support custom weekend days', function () {
+      let calendar = new WorkingCalendar('en-US', {weekendDays: ['sun']});
+      expect(calendar.isBusinessDay(new CalendarDate(2024, 6, 15))).toBe(true);
+      expect(calendar.isBusinessDay(new CalendarDate(2024, 6, 16))).toBe(false);
+      expect(() => new WorkingCalendar('en-US', {weekendDays: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']})).toThrow(RangeError);
+    });
+
+    it('should exclude holidays in any calendar system', function () {
+      let calendar = new WorkingCalendar('en-US', {holidays: [holidays]});
+      expect(calendar.isHoliday(new CalendarDate(2024, 12, 25))).toBe(true);
+      expect(calendar.isBusinessDay(new CalendarDate(2024, 12, 25))).toBe(false);
+      expect(calendar.isBusinessDay(new CalendarDateTime(2024, 12, 25, 9, 30))).toBe(false);
+      expect(calendar.isBusinessDay(toCalendar(new CalendarDate(2024, 12, 25), new HebrewCalendar()))).toBe(false);
+      expect(calendar.isBusinessDay(new CalendarDate(2024, 12, 24))).toBe(true);
+    });
+
+    it('should support custom holiday sets', function () {
+      // The last Monday in May.
+      let memorialDay = {
+        isHoliday: date => date.month === 5 && date.day > 24 && getDayOfWeek(date, 'en-US') === 1
+      };
+      let calendar = new WorkingCalendar('en-US', {holidays: [memorialDay]});
+      expect(calendar.isBusinessDay(new CalendarDate(2024, 5, 27))).toBe(false);
+      expect(calendar.isBusinessDay(new CalendarDate(2024, 5, 28))).toBe(true);
+    });
+
+    it('should support recurring holidays from recurrence rules', function () {
+      let occurrences = getOccurrences(new CalendarDate(2024, 1, 1), {frequency: 'yearly', byMonth: [7], byMonthDay: [4], count: 3});
+      let calendar = new WorkingCalendar('en-US', {holidays: [createHolidaySet(occurrences)]});
+      expect(calendar.isBusinessDay(new CalendarDate(2024, 7, 4))).toBe(false);
+      expect(calendar.isBusinessDay(new CalendarDate(2026, 7, 3))).toBe(true);
+      expect(calendar.isHoliday(new CalendarDate(2026, 7, 4))).toBe(true);
+    });
+  });
+
+  describe('addBusinessDays', function () {
+    it('should skip weekends', function () {
+      let calendar = new WorkingCalendar('en-US');
+      expect(calendar.addBusinessDays(new CalendarDate(2024, 6, 12), 5)).toEqual(new CalendarDate(2024, 6, 19));
+      expect(calendar.addBusinessDays(new CalendarDate(2024, 6, 15), 1)).toEqual(new CalendarDate(2024, 6, 17));
+      expect(calendar.addBusinessDays(new CalendarDate(2024, 6, 17), -1)).toEqual(new CalendarDate(2024, 6, 14));
+      expect(calendar.addBusinessDays(new CalendarDate(2024, 6, 15), 0)).toEqual(new CalendarDate(2024, 6, 15));
+    });
+
+    it('should skip holidays', function () {
+      let calendar = new WorkingCalendar('en-US', {holidays: [holidays]});
+      expect(calendar.addBusinessDays(new CalendarDate(2024, 12, 23), 6)).toEqual(new CalendarDate(2025, 1, 2));
+      expect(calendar.addBusinessDays(new CalendarDate(2025, 1, 2), -6)).toEqual(new CalendarDate(2024, 12, 23));
+    });
+
+    it('should preserve the type and time of the date', function () {
+      let calendar = new WorkingCalendar('en-US');
+      expect(calendar.addBusinessDays(new CalendarDateTime(2024, 6, 14, 17, 30), 1)).toEqual(new CalendarDateTime(2024, 6, 17, 17, 30));
+    });
+
+    it('should throw for invalid amounts or calendars without business days', function () {
+      let calendar = new WorkingCalendar('en-US');
+      expect(() => calendar.addBusinessDays(new CalendarDate(2024, 6, 14), 1.5)).toThrow(RangeError);
+
+      let closed = new WorkingCalendar('en-US', {holidays: [{isHoliday: () => true}]});
+      expect(() => closed.addBusinessDays(new CalendarDate(2024, 6, 14), 1)).toThrow(RangeError);
+    });
+  });
+
+  describe('getBusinessDaysBetween', function () {
+    it('should count business days between two dates', function () {
+      let calendar = new WorkingCalendar('en-US', {holidays: [holidays]});
+      expect(calendar.getBusinessDaysBetween(new CalendarDate(2024, 6, 12), new CalendarDate(2024, 6, 19))).toBe(5);
+      expect(calendar.getBusinessDaysBetween(new CalendarDate(2024, 6, 19), new CalendarDate(2024, 6, 12))).toBe(-5);
+      expect(calendar.getBusinessDaysBetween(new CalendarDate(2024, 6, 14), new CalendarDate(2024, 6, 14))).toBe(0);
+      expect(calendar.getBusinessDaysBetween(new CalendarDate(2024, 6, 14), new CalendarDate(2024, 6, 16))).toBe(0);
+      expect(calendar.getBusinessDaysBetween(new CalendarDate(2024, 12, 23), new CalendarDate(2025, 1, 2))).toBe(6);
+    });
+
+    it('should be the inverse of addBusinessDays', function () {
+      let calendar = new WorkingCalendar('ar-SA', {holidays: [holidays]});
+      let start = new CalendarDate(2024, 12, 20);
+      for (let amount = -15; amount <= 15; amount++) {
+        expect(calendar.getBusinessDaysBetween(start, calendar.addBusinessDays(start, amount))).toBe(amount);
+      }
+    });
+  });
+});
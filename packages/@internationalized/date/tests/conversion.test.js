@@ -10,9 +10,9 @@
  * governing permissions and limitations under the License.
  */
 
-import {BuddhistCalendar, CalendarDate, CalendarDateTime, EthiopicAmeteAlemCalendar, EthiopicCalendar, GregorianCalendar, HebrewCalendar, IndianCalendar, IslamicCivilCalendar, IslamicTabularCalendar, IslamicUmalquraCalendar, JapaneseCalendar, PersianCalendar, TaiwanCalendar, Time, toCalendar, toCalendarDate, toCalendarDateTime, toTime, ZonedDateTime} from '..';
+import {BuddhistCalendar, CalendarDate, CalendarDateTime, ChineseCalendar, DangiCalendar, EthiopicAmeteAlemCalendar, EthiopicCalendar, GregorianCalendar, HebrewCalendar, IndianCalendar, IslamicCivilCalendar, IslamicTabularCalendar, IslamicUmalquraCalendar, JapaneseCalendar, PersianCalendar, TaiwanCalendar, Time, toCalendar, toCalendarDate, toCalendarDateTime, toTime, ZonedDateTime} from '..';
 import {Custom454Calendar} from './customCalendarImpl';
-import {fromAbsolute, possibleAbsolutes, toAbsolute, toDate} from '../src/conversion';
+import {fromAbsolute, getTimeZoneOffset, possibleAbsolutes, toAbsolute, toDate} from '../src/conversion';
 
 describe('CalendarDate conversion', function () {
   describe('toAbsolute', function () {
@@ -160,6 +160,15 @@ describe('CalendarDate conversion', function () {
     });
   });
 
+  describe('getTimeZoneOffset', function () {
+    it('should return the offset in milliseconds', function () {
+      expect(getTimeZoneOffset(new Date('2020-02-03T10:00Z').getTime(), 'America/Los_Angeles')).toBe(-8 * 60 * 60 * 1000);
+      expect(getTimeZoneOffset(new Date('2020-07-03T10:00Z').getTime(), 'America/Los_Angeles')).toBe(-7 * 60 * 60 * 1000);
+      expect(getTimeZoneOffset(new Date('2020-02-03T10:00Z').getTime(), 'Asia/Kolkata')).toBe(5.5 * 60 * 60 * 1000);
+      expect(getTimeZoneOffset(new Date('2020-02-03T10:00Z').getTime(), 'UTC')).toBe(0);
+    });
+  });
+
   describe('toCalendar', function () {
     it('should support converting a CalendarDateTime between calendars', function () {
       let date = new CalendarDateTime(new JapaneseCalendar(), 'heisei', 31, 4, 30, 8, 20, 30, 80);
@@ -413,6 +422,63 @@ describe('CalendarDate conversion', function () {
       });
     });
 
+    describe('chinese', function () {
+      it('chinese to gregorian', function () {
+        let date = new CalendarDate(new ChineseCalendar(), '78', 40, 1, 1);
+        expect(toCalendar(date, new GregorianCalendar())).toEqual(new CalendarDate(2023, 1, 22));
+
+        date = new CalendarDate(new ChineseCalendar(), '78', 40, 13, 30);
+        expect(toCalendar(date, new GregorianCalendar())).toEqual(new CalendarDate(2024, 2, 9));
+      });
+
+      it('chinese to gregorian in a leap month', function () {
+        let date = new CalendarDate(new ChineseCalendar(), '78', 40, 3, 1);
+        expect(date.calendar.getMonthCode(date)).toBe('M02L');
+        expect(toCalendar(date, new GregorianCalendar())).toEqual(new CalendarDate(2023, 3, 22));
+      });
+
+      it('gregorian to chinese', function () {
+        let date = new CalendarDate(2024, 2, 10);
+        expect(toCalendar(date, new ChineseCalendar())).toEqual(new CalendarDate(new ChineseCalendar(), '78', 41, 1, 1));
+
+        date = new CalendarDate(2023, 4, 20);
+        let chinese = toCalendar(date, new ChineseCalendar());
+        expect(chinese).toEqual(new CalendarDate(new ChineseCalendar(), '78', 40, 4, 1));
+        expect(chinese.calendar.getMonthCode(chinese)).toBe('M03');
+      });
+
+      it('should match Intl.DateTimeFormat', function () {
+        let formatter = new Intl.DateTimeFormat('en-u-ca-chinese', {year: 'numeric', month: 'numeric', day: 'numeric', timeZone: 'UTC'});
+        for (let date = new CalendarDate(1900, 1, 1); date.year < 2100; date = date.add({days: 17})) {
+          let chinese = toCalendar(date, new ChineseCalendar());
+          let parts = Object.fromEntries(formatter.formatToParts(new Date(Date.UTC(date.year, date.month - 1, date.day))).map(part => [part.type, part.value]));
+          let monthCode = 'M' + String(parseInt(parts.month, 10)).padStart(2, '0') + (parts.month.endsWith('bis') ? 'L' : '');
+          let relatedYear = (Number(chinese.era) - 1) * 60 + chinese.year - 2637;
+          expect(`${relatedYear}-${chinese.calendar.getMonthCode(chinese)}-${chinese.day}`).toBe(`${parts.relatedYear}-${monthCode}-${parts.day}`);
+          expect(toCalendar(chinese, new GregorianCalendar())).toEqual(date);
+        }
+      });
+    });
+
+    describe('dangi', function () {
+      it('dangi to gregorian', function () {
+        let date = new CalendarDate(new DangiCalendar(), '78', 40, 5, 1);
+        expect(toCalendar(date, new GregorianCalendar())).toEqual(new CalendarDate(2023, 5, 20));
+      });
+
+      it('gregorian to dangi', function () {
+        // New moons are calculated in Korean time, so months may begin on a different day than in the Chinese calendar.
+        let date = new CalendarDate(2023, 5, 19);
+        expect(toCalendar(date, new ChineseCalendar())).toEqual(new CalendarDate(new ChineseCalendar(), '78', 40, 5, 1));
+        expect(toCalendar(date, new DangiCalendar())).toEqual(new CalendarDate(new DangiCalendar(), '78', 40, 4, 30));
+
+        date = new CalendarDate(2052, 10, 22);
+        let dangi = toCalendar(date, new DangiCalendar());
+        expect(dangi).toEqual(new CalendarDate(new DangiCalendar(), '79', 9, 9, 30));
+        expect(dangi.calendar.getMonthCode(dangi)).toBe('M08L');
+      });
+    });
+
     describe('ethiopic', function () {
       it('ethiopic to gregorian', function () {
         let date = new CalendarDate(new EthiopicCalendar(), 'AA', 9999, 13, 5);
@@ -0,0 +1,227 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {
+  CalendarDate,
+  CalendarDateTime,
+  ChineseCalendar,
+  compareDuration,
+  HebrewCalendar,
+  JapaneseCalendar,
+  normalizeDuration,
+  parseDuration,
+  parseZonedDateTime,
+  ZonedDateTime
+} from '..';
+
+describe('Duration', function () {
+  describe('CalendarDate', function () {
+    it('should default to days', function () {
+      expect(new CalendarDate(2020, 1, 1).until(new CalendarDate(2021, 3, 15))).toEqual({years: 0, months: 0, weeks: 0, days: 439});
+      expect(new CalendarDate(2021, 3, 15).until(new CalendarDate(2020, 1, 1))).toEqual({years: 0, months: 0, weeks: 0, days: -439});
+    });
+
+    it('should balance to the largest unit', function () {
+      let a = new CalendarDate(2020, 1, 1);
+      let b = new CalendarDate(2021, 3, 15);
+      expect(a.until(b, {largestUnit: 'years'})).toEqual({years: 1, months: 2, weeks: 0, days: 14});
+      expect(a.until(b, {largestUnit: 'months'})).toEqual({years: 0, months: 14, weeks: 0, days: 14});
+      expect(a.until(b, {largestUnit: 'weeks'})).toEqual({years: 0, months: 0, weeks: 62, days: 5});
+      expect(b.until(a, {largestUnit: 'years'})).toEqual({years: -1, months: -2, weeks: 0, days: -14});
+    });
+
+    it('should return a duration that can be added to the start date', function () {
+      let a = new CalendarDate(2020, 1, 31);
+      for (let b of [new CalendarDate(2020, 2, 29), new CalendarDate(2020, 3, 1), new CalendarDate(2021, 2, 28), new CalendarDate(2019, 11, 30)]) {
+        let duration = a.until(b, {largestUnit: 'years'});
+        expect(a.add(duration)).toEqual(b);
+      }
+
+      expect(a.until(new CalendarDate(2020, 2, 29), {largestUnit: 'months'})).toEqual({years: 0, months: 1, weeks: 0, days: 0});
+      expect(a.until(new CalendarDate(2020, 3, 1), {largestUnit: 'months'})).toEqual({years: 0, months: 1, weeks: 0, days: 1});
+    });
+
+    it('should compute the duration since another date', function () {
+      let a = new CalendarDate(2020, 1, 1);
+      let b = new CalendarDate(2021, 3, 15);
+      expect(b.since(a, {largestUnit: 'years'})).toEqual({years: 1, months: 2, weeks: 0, days: 14});
+      expect(a.since(b, {largestUnit: 'years'})).toEqual({years: -1, months: -2, weeks: 0, days: -14});
+    });
+
+    it('should round to the smallest unit', function () {
+      let a = new CalendarDate(2020, 1, 1);
+      let b = new CalendarDate(2021, 3, 15);
+      expect(a.until(b, {largestUnit: 'years', smallestUnit: 'months'})).toEqual({years: 1, months: 2, weeks: 0, days: 0});
+      expect(a.until(b, {largestUnit: 'years', smallestUnit: 'months', roundingMode: 'halfExpand'})).toEqual({years: 1, months: 2, weeks: 0, days: 0});
+      expect(a.until(new CalendarDate(2021, 3, 17), {largestUnit: 'years', smallestUnit: 'months', roundingMode: 'halfExpand'})).toEqual({years: 1, months: 3, weeks: 0, days: 0});
+      expect(a.until(b, {smallestUnit: 'years', roundingMode: 'ceil'})).toEqual({years: 2, months: 0, weeks: 0, days: 0});
+      expect(a.until(b, {largestUnit: 'years', smallestUnit: 'months', roundingIncrement: 6, roundingMode: 'expand'})).toEqual({years: 1, months: 6, weeks: 0, days: 0});
+      expect(b.until(a, {largestUnit: 'years', smallestUnit: 'months', roundingMode: 'floor'})).toEqual({years: -1, months: -3, weeks: 0, days: 0});
+      expect(b.until(a, {largestUnit: 'years', smallestUnit: 'months', roundingMode: 'ceil'})).toEqual({years: -1, months: -2, weeks: 0, days: 0});
+    });
+
+    it('should balance when rounding results in a larger unit', function () {
+      let a = new CalendarDate(2020, 1, 1);
+      expect(a.until(new CalendarDate(2020, 12, 20), {largestUnit: 'years', smallestUnit: 'months', roundingMode: 'halfExpand'})).toEqual({years: 1, months: 0, weeks: 0, days: 0});
+    });
+
+    it('should round in the opposite direction for since', function () {
+      let a = new CalendarDate(2020, 1, 1);
+      let b = new CalendarDate(2020, 3, 15);
+      expect(b.since(a, {largestUnit: 'months', smallestUnit: 'months', roundingMode: 'floor'})).toEqual({years: 0, months: 2, weeks: 0, days: 0});
+      expect(b.since(a, {largestUnit: 'months', smallestUnit: 'months', roundingMode: 'ceil'})).toEqual({years: 0, months: 3, weeks: 0, days: 0});
+    });
+
+    it('should throw for invalid options', function () {
+      let a = new CalendarDate(2020, 1, 1);
+      let b = new CalendarDate(2021, 3, 15);
+      expect(() => a.until(b, {largestUnit: 'days', smallestUnit: 'months'})).toThrow();
+      expect(() => a.until(b, {smallestUnit: 'hours'})).toThrow();
+      expect(() => a.until(b, {smallestUnit: 'days', roundingIncrement: 0})).toThrow();
+    });
+
+    it('should support non-gregorian calendars', function () {
+      let hebrew = new HebrewCalendar();
+      let a = new CalendarDate(hebrew, 5784, 5, 15);
+      let b = new CalendarDate(hebrew, 5785, 5, 15);
+      expect(a.until(b, {largestUnit: 'years'})).toEqual({years: 1, months: 0, weeks: 0, days: 0});
+      expect(a.until(b, {largestUnit: 'months'})).toEqual({years: 0, months: 13, weeks: 0, days: 0});
+
+      let chinese = new ChineseCalendar();
+      let c = new CalendarDate(chinese, '78', 40, 1, 1);
+      let d = new CalendarDate(chinese, '78', 41, 1, 1);
+      expect(c.until(d, {largestUnit: 'months'})).toEqual({years: 0, months: 13, weeks: 0, days: 0});
+      expect(c.until(d, {largestUnit: 'years'})).toEqual({years: 1, months: 0, weeks: 0, days: 0});
+    });
+
+    it('should convert the other date to the same calendar', function () {
+      let a = new CalendarDate(new HebrewCalendar(), 5784, 5, 15);
+      let b = new CalendarDate(2025, 2, 13);
+      expect(a.until(b, {largestUnit: 'months'})).toEqual({years: 0, months: 13, weeks: 0, days: 0});
+    });
+
+    it('should support eras', function () {
+      let japanese = new JapaneseCalendar();
+      let a = new CalendarDate(japanese, 'heisei', 30, 4, 30);
+      let b = new CalendarDate(japanese, 'reiwa', 2, 5, 1);
+      expect(a.until(b, {largestUnit: 'years'})).toEqual({years: 2, months: 0, weeks: 0, days: 1});
+      expect(new CalendarDate('BC', 1, 6, 1).until(new CalendarDate('AD', 1, 6, 1), {largestUnit: 'years'})).toEqual({years: 1, months: 0, weeks: 0, days: 0});
+    });
+  });
+
+  describe('CalendarDateTime', function () {
+    it('should compute time differences', function () {
+      let a = new CalendarDateTime(2020, 1, 1, 22, 0);
+      let b = new CalendarDateTime(2020, 1, 3, 1, 30);
+      expect(a.until(b)).toEqual({years: 0, months: 0, weeks: 0, days: 1, hours: 3, minutes: 30, seconds: 0, milliseconds: 0});
+      expect(b.until(a)).toEqual({years: 0, months: 0, weeks: 0, days: -1, hours: -3, minutes: -30, seconds: 0, milliseconds: 0});
+      expect(a.until(b, {largestUnit: 'hours'})).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 27, minutes: 30, seconds: 0, milliseconds: 0});
+      expect(a.until(b, {largestUnit: 'minutes'})).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 1650, seconds: 0, milliseconds: 0});
+      expect(a.add(a.until(b))).toEqual(b);
+      expect(b.add(b.until(a))).toEqual(a);
+    });
+
+    it('should round time units', function () {
+      let a = new CalendarDateTime(2020, 1, 1, 22, 0);
+      let b = new CalendarDateTime(2020, 1, 3, 1, 38, 20);
+      expect(a.until(b, {smallestUnit: 'minutes', roundingIncrement: 15, roundingMode: 'halfExpand'})).toEqual({years: 0, months: 0, weeks: 0, days: 1, hours: 3, minutes: 45, seconds: 0, milliseconds: 0});
+      expect(a.until(b, {smallestUnit: 'hours'})).toEqual({years: 0, months: 0, weeks: 0, days: 1, hours: 3, minutes: 0, seconds: 0, milliseconds: 0});
+      expect(a.until(b, {smallestUnit: 'days', roundingMode: 'expand'})).toEqual({years: 0, months: 0, weeks: 0, days: 2, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+
+    it('should balance when rounding time results in a whole day', function () {
+      let a = new CalendarDateTime(2020, 1, 1, 0, 0);
+      let b = new CalendarDateTime(2020, 1, 1, 23, 50);
+      expect(a.until(b, {smallestUnit: 'hours', roundingMode: 'halfExpand'})).toEqual({years: 0, months: 0, weeks: 0, days: 1, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+  });
+
+  describe('ZonedDateTime', function () {
+    it('should default to hours', function () {
+      let a = parseZonedDateTime('2020-03-07T12:00[America/Los_Angeles]');
+      let b = parseZonedDateTime('2020-03-08T12:00[America/Los_Angeles]');
+      expect(a.until(b)).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 23, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+
+    it('should account for daylight saving time', function () {
+      let a = parseZonedDateTime('2020-03-07T12:00[America/Los_Angeles]');
+      let b = parseZonedDateTime('2020-03-08T12:00[America/Los_Angeles]');
+      expect(a.until(b, {largestUnit: 'days'})).toEqual({years: 0, months: 0, weeks: 0, days: 1, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+      expect(b.until(a, {largestUnit: 'days'})).toEqual({years: 0, months: 0, weeks: 0, days: -1, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+
+      let c = parseZonedDateTime('2020-03-08T11:30[America/Los_Angeles]');
+      expect(a.until(c, {largestUnit: 'days'})).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 22, minutes: 30, seconds: 0, milliseconds: 0});
+      expect(a.add(a.until(c, {largestUnit: 'days'}))).toEqual(c);
+
+      let d = parseZonedDateTime('2020-11-01T01:30-07:00[America/Los_Angeles]');
+      let e = parseZonedDateTime('2020-11-01T01:30-08:00[America/Los_Angeles]');
+      expect(d.until(e, {largestUnit: 'days'})).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 1, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+
+    it('should round days based on the length of the day', function () {
+      // March 8th is 23 hours long, so 11.5 hours is half of the day.
+      let a = parseZonedDateTime('2020-03-08T00:00[America/Los_Angeles]');
+      let b = parseZonedDateTime('2020-03-08T12:30[America/Los_Angeles]');
+      expect(a.until(b, {smallestUnit: 'days', roundingMode: 'halfExpand'})).toEqual({years: 0, months: 0, weeks: 0, days: 1, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+
+    it('should convert the other date to the same time zone', function () {
+      let a = new ZonedDateTime(2020, 1, 1, 'America/New_York', -5 * 60 * 60 * 1000, 12);
+      let b = new ZonedDateTime(2020, 2, 1, 'America/Los_Angeles', -8 * 60 * 60 * 1000, 9);
+      expect(a.until(b, {largestUnit: 'months'})).toEqual({years: 0, months: 1, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+  });
+
+  describe('normalizeDuration', function () {
+    it('should balance time units', function () {
+      expect(normalizeDuration({minutes: 90})).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 1, minutes: 30, seconds: 0, milliseconds: 0});
+      expect(normalizeDuration({hours: 36})).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 36, minutes: 0, seconds: 0, milliseconds: 0});
+      expect(normalizeDuration({days: 1, hours: 36})).toEqual({years: 0, months: 0, weeks: 0, days: 2, hours: 12, minutes: 0, seconds: 0, milliseconds: 0});
+      expect(normalizeDuration({hours: 1, minutes: -90})).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: -30, seconds: 0, milliseconds: 0});
+      expect(normalizeDuration({days: 10}, {largestUnit: 'weeks'})).toEqual({years: 0, months: 0, weeks: 1, days: 3, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+
+    it('should balance fractional values from parseDuration', function () {
+      expect(normalizeDuration(parseDuration('PT1.5H'))).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 1, minutes: 30, seconds: 0, milliseconds: 0});
+      expect(normalizeDuration(parseDuration('-PT0.1S'))).toEqual({years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: -100});
+    });
+
+    it('should not balance months without a relative date', function () {
+      expect(normalizeDuration({months: 14, days: 40})).toEqual({years: 0, months: 14, weeks: 0, days: 40, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+
+    it('should balance relative to a date', function () {
+      expect(normalizeDuration({months: 14, days: 40}, {relativeTo: new CalendarDate(2020, 1, 1)})).toEqual({years: 0, months: 15, weeks: 0, days: 9, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+      expect(normalizeDuration({months: 14, days: 40}, {largestUnit: 'years', relativeTo: new CalendarDate(2020, 1, 1)})).toEqual({years: 1, months: 3, weeks: 0, days: 9, hours: 0, minutes: 0, seconds: 0, milliseconds: 0});
+      expect(normalizeDuration({hours: 24}, {largestUnit: 'days', relativeTo: parseZonedDateTime('2020-03-07T12:00[America/Los_Angeles]')})).toEqual({years: 0, months: 0, weeks: 0, days: 1, hours: 1, minutes: 0, seconds: 0, milliseconds: 0});
+    });
+  });
+
+  describe('compareDuration', function () {
+    it('should compare durations', function () {
+      expect(compareDuration({hours: 1}, {minutes: 60})).toBe(0);
+      expect(compareDuration({hours: 1}, {minutes: 61}) < 0).toBe(true);
+      expect(compareDuration({days: 2}, {hours: 47}) > 0).toBe(true);
+    });
+
+    it('should require a relative date for years and months', function () {
+      expect(() => compareDuration({months: 1}, {days: 30})).toThrow();
+      expect(compareDuration({months: 1}, {days: 30}, new CalendarDate(2020, 2, 1)) < 0).toBe(true);
+      expect(compareDuration({months: 1}, {days: 30}, new CalendarDate(2020, 1, 1)) > 0).toBe(true);
+    });
+
+    it('should account for daylight saving time', function () {
+      let date = parseZonedDateTime('2020-03-07T12:00[America/Los_Angeles]');
+      expect(compareDuration({days: 1}, {hours: 24}, date) < 0).toBe(true);
+    });
+  });
+});
@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-import {BuddhistCalendar, CalendarDate, CalendarDateTime, CopticCalendar, EthiopicAmeteAlemCalendar, EthiopicCalendar, GregorianCalendar, HebrewCalendar, IndianCalendar, IslamicCivilCalendar, IslamicTabularCalendar, IslamicUmalquraCalendar, JapaneseCalendar, PersianCalendar, TaiwanCalendar, toCalendar, ZonedDateTime} from '..';
+import {BuddhistCalendar, CalendarDate, CalendarDateTime, ChineseCalendar, CopticCalendar, EthiopicAmeteAlemCalendar, EthiopicCalendar, GregorianCalendar, HebrewCalendar, IndianCalendar, IslamicCivilCalendar, IslamicTabularCalendar, IslamicUmalquraCalendar, JapaneseCalendar, PersianCalendar, TaiwanCalendar, toCalendar, ZonedDateTime} from '..';
 import {Custom454Calendar} from './customCalendarImpl';
 
 describe('CalendarDate manipulation', function () {
@@ -209,6 +209,44 @@ describe('CalendarDate manipulation', function () {
       });
     });
 
+    describe('Chinese calendar', function () {
+      it('should add months in a leap year', function () {
+        let date = new CalendarDate(new ChineseCalendar(), '78', 40, 2, 1);
+        expect(date.add({months: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '78', 40, 3, 1));
+
+        date = new CalendarDate(new ChineseCalendar(), '78', 40, 13, 30);
+        expect(date.add({months: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '78', 41, 1, 29));
+      });
+
+      it('should add days across the new year', function () {
+        let date = new CalendarDate(new ChineseCalendar(), '78', 40, 13, 30);
+        expect(date.add({days: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '78', 41, 1, 1));
+      });
+
+      it('should add years and keep the same month', function () {
+        let date = new CalendarDate(new ChineseCalendar(), '78', 40, 4, 1);
+        expect(date.add({years: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '78', 41, 3, 1));
+
+        date = new CalendarDate(new ChineseCalendar(), '78', 39, 4, 1);
+        expect(date.add({years: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '78', 40, 5, 1));
+      });
+
+      it('should add years from a leap month', function () {
+        let date = new CalendarDate(new ChineseCalendar(), '78', 40, 3, 1);
+        expect(date.add({years: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '78', 41, 2, 1));
+      });
+
+      it('should add years across sexagenary cycles', function () {
+        let date = new CalendarDate(new ChineseCalendar(), '78', 60, 1, 1);
+        expect(date.add({years: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '79', 1, 1, 1));
+        expect(date.add({years: 61})).toEqual(new CalendarDate(new ChineseCalendar(), '80', 1, 1, 1));
+
+        date = new CalendarDate(new ChineseCalendar(), '79', 1, 1, 1);
+        expect(date.subtract({days: 1})).toEqual(new CalendarDate(new ChineseCalendar(), '78', 60, 12, 30));
+        expect(date.cycle('year', -1)).toEqual(new CalendarDate(new ChineseCalendar(), '78', 60, 1, 1));
+      });
+    });
+
     describe('IndianCalendar', function () {
       it('should constrain when reaching year 1', function () {
         let date = new CalendarDate(new IndianCalendar(), 1, 1, 10);
@@ -629,6 +667,12 @@ describe('CalendarDate manipulation', function () {
 
         date = new CalendarDate(new HebrewCalendar(), 5783, 12, 1);
         expect(date.cycle('year', -1)).toEqual(new CalendarDate(new HebrewCalendar(), 5782, 13, 1));
+
+        date = new CalendarDate(new ChineseCalendar(), '78', 40, 13, 1);
+        expect(date.cycle('year', 1)).toEqual(new CalendarDate(new ChineseCalendar(), '78', 41, 12, 1));
+
+        date = new CalendarDate(new ChineseCalendar(), '78', 41, 12, 1);
+        expect(date.cycle('year', -1)).toEqual(new CalendarDate(new ChineseCalendar(), '78', 40, 13, 1));
       });
 
       it('should cycle the year with rounding', function () {
@@ -20,6 +20,8 @@ import {
   getLocalTimeZone,
   getMinimumDayInMonth,
   getMinimumMonthInYear,
+  getSupportedTimeZones,
+  getWeekOfYear,
   getWeeksInMonth,
   isEqualDay,
   isEqualMonth,
@@ -312,6 +314,28 @@ describe('queries', function () {
     });
   });
 
+  describe('getWeekOfYear', function () {
+    it('should use ISO week numbers in europe', function () {
+      expect(getWeekOfYear(new CalendarDate(2024, 3, 5), 'de-DE')).toBe(10);
+      expect(getWeekOfYear(new CalendarDate(2021, 1, 1), 'de-DE')).toBe(53);
+      expect(getWeekOfYear(new CalendarDate(2021, 1, 4), 'de-DE')).toBe(1);
+      expect(getWeekOfYear(new CalendarDate(2024, 12, 30), 'en-GB')).toBe(1);
+    });
+
+    it('should use the week containing january 1st in the US', function () {
+      expect(getWeekOfYear(new CalendarDate(2024, 3, 5), 'en-US')).toBe(10);
+      expect(getWeekOfYear(new CalendarDate(2021, 1, 1), 'en-US')).toBe(1);
+      expect(getWeekOfYear(new CalendarDate(2020, 12, 26), 'en-US')).toBe(52);
+      expect(getWeekOfYear(new CalendarDate(2024, 12, 29), 'en-US')).toBe(1);
+    });
+
+    it('should support custom firstDayOfWeek', function () {
+      expect(getWeekOfYear(new CalendarDate(2021, 1, 3), 'en-US')).toBe(2);
+      expect(getWeekOfYear(new CalendarDate(2021, 1, 3), 'en-US', 'mon')).toBe(1);
+      expect(getWeekOfYear(new CalendarDate(2021, 1, 3), 'de-DE', 'mon')).toBe(53);
+    });
+  });
+
   describe('getMinimumMonthInYear', function () {
     it('returns the minimum month of the year', function () {
       expect(getMinimumMonthInYear(new CalendarDate(2020, 2, 3))).toBe(1);
@@ -357,4 +381,13 @@ describe('queries', function () {
       expect(getLocalTimeZone()).toBe(systemTimeZone);
     });
   });
+
+  describe('getSupportedTimeZones', function () {
+    it('returns the supported IANA time zones', function () {
+      let timeZones = getSupportedTimeZones();
+      expect(timeZones).toContain('America/Los_Angeles');
+      expect(timeZones).toContain('Europe/London');
+      expect(timeZones).toContain('Asia/Tokyo');
+    });
+  });
 });
@@ -0,0 +1,233 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {
+  CalendarDate,
+  CalendarDateTime,
+  getOccurrences,
+  JapaneseCalendar,
+  parseRecurrenceRule,
+  parseZonedDateTime,
+  recurrenceRuleToString
+} from '..';
+
+function take(iterator, n = Infinity) {
+  let result = [];
+  for (let value of iterator) {
+    if (result.length >= n) {
+      break;
+    }
+    result.push(value.toString());
+  }
+  return result;
+}
+
+describe('recurrence', function () {
+  describe('parseRecurrenceRule', function () {
+    it('should parse a rule', function () {
+      expect(parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4;WKST=SU')).toEqual({
+        frequency: 'weekly',
+        interval: 2,
+        byDay: [{day: 'mon'}, {day: 'wed'}],
+        count: 4,
+        weekStart: 'sun'
+      });
+    });
+
+    it('should parse numeric weekdays and month days', function () {
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR,2MO;BYMONTHDAY=1,-1;BYMONTH=3')).toEqual({
+        frequency: 'monthly',
+        byDay: [{day: 'fri', n: -1}, {day: 'mon', n: 2}],
+        byMonthDay: [1, -1],
+        byMonth: [3]
+      });
+    });
+
+    it('should parse until values', function () {
+      let rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250131');
+      expect(rule.until).toBeInstanceOf(CalendarDate);
+      expect(rule.until.toString()).toBe('2025-01-31');
+
+      rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250131T100000');
+      expect(rule.until).toBeInstanceOf(CalendarDateTime);
+      expect(rule.until.toString()).toBe('2025-01-31T10:00:00');
+
+      rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250131T100000Z');
+      expect(rule.until.toString()).toBe('2025-01-31T10:00:00+00:00[UTC]');
+    });
+
+    it('should throw on invalid rules', function () {
+      expect(() => parseRecurrenceRule('INTERVAL=2')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=FORTNIGHTLY')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=2;UNTIL=20250101')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;BYSETPOS=1')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32')).toThrow();
+    });
+  });
+
+  describe('recurrenceRuleToString', function () {
+    it('should serialize a rule', function () {
+      expect(recurrenceRuleToString({frequency: 'weekly', interval: 2, byDay: [{day: 'mon'}, {day: 'wed'}], count: 4})).toBe('FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=MO,WE');
+      expect(recurrenceRuleToString({frequency: 'monthly', byDay: [{day: 'fri', n: -1}], until: new CalendarDate(2025, 12, 31)})).toBe('FREQ=MONTHLY;UNTIL=20251231;BYDAY=-1FR');
+    });
+
+    it('should serialize zoned until values in UTC', function () {
+      let until = parseZonedDateTime('2025-01-31T10:00[America/New_York]');
+      expect(recurrenceRuleToString({frequency: 'daily', until})).toBe('FREQ=DAILY;UNTIL=20250131T150000Z');
+    });
+
+    it('should round trip', function () {
+      let value = 'FREQ=YEARLY;INTERVAL=2;UNTIL=20300101T000000;BYMONTH=1,7;BYMONTHDAY=1,-1;WKST=SU';
+      expect(recurrenceRuleToString(parseRecurrenceRule(value))).toBe(value);
+    });
+  });
+
+  describe('getOccurrences', function () {
+    it('should expand daily rules', function () {
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 30), {frequency: 'daily', count: 3}))).toEqual(['2025-01-30', '2025-01-31', '2025-02-01']);
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), {frequency: 'daily', interval: 10}), 3)).toEqual(['2025-01-01', '2025-01-11', '2025-01-21']);
+    });
+
+    it('should limit daily rules by weekday and month', function () {
+      let rule = parseRecurrenceRule('FREQ=DAILY;BYDAY=SA,SU;BYMONTH=2;COUNT=3');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), rule))).toEqual(['2025-02-01', '2025-02-02', '2025-02-08']);
+    });
+
+    it('should expand weekly rules', function () {
+      let rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), rule))).toEqual(['2025-01-01', '2025-01-13', '2025-01-15', '2025-01-27']);
+    });
+
+    it('should use the week start for weekly rules', function () {
+      // With a Monday week start, Tuesday and Sunday are in the same week.
+      let rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,SU;COUNT=4');
+      expect(take(getOccurrences(new CalendarDate(1997, 8, 5), rule))).toEqual(['1997-08-05', '1997-08-10', '1997-08-19', '1997-08-24']);
+
+      rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,SU;COUNT=4;WKST=SU');
+      expect(take(getOccurrences(new CalendarDate(1997, 8, 5), rule))).toEqual(['1997-08-05', '1997-08-17', '1997-08-19', '1997-08-31']);
+    });
+
+    it('should skip invalid days in monthly rules', function () {
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 31), {frequency: 'monthly', count: 4}))).toEqual(['2025-01-31', '2025-03-31', '2025-05-31', '2025-07-31']);
+    });
+
+    it('should expand monthly rules by weekday', function () {
+      let rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), rule))).toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+
+      // Friday the 13th.
+      rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13;COUNT=3');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), rule))).toEqual(['2025-06-13', '2026-02-13', '2026-03-13']);
+    });
+
+    it('should expand monthly rules by month day', function () {
+      let rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1,-1;COUNT=4');
+      expect(take(getOccurrences(new CalendarDate(2024, 2, 1), rule))).toEqual(['2024-02-01', '2024-02-29', '2024-03-01', '2024-03-31']);
+    });
+
+    it('should expand yearly rules', function () {
+      expect(take(getOccurrences(new CalendarDate(2024, 2, 29), {frequency: 'yearly', count: 2}))).toEqual(['2024-02-29', '2028-02-29']);
+
+      // Thanksgiving in the US.
+      let rule = parseRecurrenceRule('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=2');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), rule))).toEqual(['2025-11-27', '2026-11-26']);
+
+      // The 20th Monday of the year.
+      rule = parseRecurrenceRule('FREQ=YEARLY;BYDAY=20MO;COUNT=2');
+      expect(take(getOccurrences(new CalendarDate(1997, 5, 19), rule))).toEqual(['1997-05-19', '1998-05-18']);
+    });
+
+    it('should stop at until inclusive', function () {
+      let rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250103');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), rule))).toEqual(['2025-01-01', '2025-01-02', '2025-01-03']);
+      expect(take(getOccurrences(new CalendarDateTime(2025, 1, 1, 9), rule))).toEqual(['2025-01-01T09:00:00', '2025-01-02T09:00:00', '2025-01-03T09:00:00']);
+
+      rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20250103T130000Z');
+      let start = parseZonedDateTime('2025-01-01T09:00[America/New_York]');
+      expect(take(getOccurrences(start, rule))).toEqual([
+        '2025-01-01T09:00:00-05:00[America/New_York]',
+        '2025-01-02T09:00:00-05:00[America/New_York]'
+      ]);
+    });
+
+    it('should exclude dates', function () {
+      let occurrences = getOccurrences(new CalendarDate(2025, 1, 1), {frequency: 'daily', count: 3}, {exclude: [new CalendarDate(2025, 1, 2)]});
+      expect(take(occurrences)).toEqual(['2025-01-01', '2025-01-03']);
+    });
+
+    it('should not include occurrences before the start date', function () {
+      let rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=2');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 10), rule))).toEqual(['2025-01-15', '2025-02-01']);
+    });
+
+    it('should keep the local time across daylight saving time transitions', function () {
+      let start = parseZonedDateTime('2025-03-08T09:00[America/New_York]');
+      expect(take(getOccurrences(start, {frequency: 'daily', count: 3}))).toEqual([
+        '2025-03-08T09:00:00-05:00[America/New_York]',
+        '2025-03-09T09:00:00-04:00[America/New_York]',
+        '2025-03-10T09:00:00-04:00[America/New_York]'
+      ]);
+    });
+
+    it('should disambiguate times that do not exist', function () {
+      let start = parseZonedDateTime('2025-03-08T02:30[America/New_York]');
+      expect(take(getOccurrences(start, {frequency: 'daily', count: 3}))).toEqual([
+        '2025-03-08T02:30:00-05:00[America/New_York]',
+        '2025-03-09T03:30:00-04:00[America/New_York]',
+        '2025-03-10T02:30:00-04:00[America/New_York]'
+      ]);
+
+      expect(take(getOccurrences(start, {frequency: 'daily', count: 3}, {disambiguation: 'earlier'}))).toEqual([
+        '2025-03-08T02:30:00-05:00[America/New_York]',
+        '2025-03-09T01:30:00-05:00[America/New_York]',
+        '2025-03-10T02:30:00-04:00[America/New_York]'
+      ]);
+
+      expect(() => take(getOccurrences(start, {frequency: 'daily', count: 3}, {disambiguation: 'reject'}))).toThrow();
+    });
+
+    it('should add exact time for time frequencies', function () {
+      let start = parseZonedDateTime('2025-03-09T00:30[America/New_York]');
+      expect(take(getOccurrences(start, {frequency: 'hourly', count: 3}))).toEqual([
+        '2025-03-09T00:30:00-05:00[America/New_York]',
+        '2025-03-09T01:30:00-05:00[America/New_York]',
+        '2025-03-09T03:30:00-04:00[America/New_York]'
+      ]);
+
+      expect(take(getOccurrences(new CalendarDateTime(2025, 1, 1, 23, 30), {frequency: 'minutely', interval: 15, count: 3}))).toEqual([
+        '2025-01-01T23:30:00',
+        '2025-01-01T23:45:00',
+        '2025-01-02T00:00:00'
+      ]);
+    });
+
+    it('should throw for time frequencies with a CalendarDate', function () {
+      expect(() => take(getOccurrences(new CalendarDate(2025, 1, 1), {frequency: 'hourly'}))).toThrow();
+    });
+
+    it('should return occurrences in the calendar of the start date', function () {
+      let start = new CalendarDate(new JapaneseCalendar(), 'heisei', 31, 4, 15);
+      expect(take(getOccurrences(start, {frequency: 'monthly', count: 2}))).toEqual(['2019-04-15', '2019-05-15']);
+      let [, second] = getOccurrences(start, {frequency: 'monthly', count: 2});
+      expect(second.calendar.identifier).toBe('japanese');
+      expect(second.era).toBe('reiwa');
+      expect(second.year).toBe(1);
+    });
+
+    it('should end at the maximum supported date', function () {
+      let rule = parseRecurrenceRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30');
+      expect(take(getOccurrences(new CalendarDate(2025, 1, 1), rule))).toEqual([]);
+    });
+  });
+});
@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-import {CalendarDate, CalendarDateTime, parseAbsolute, parseDate, parseDateTime, parseDuration, parseTime, parseZonedDateTime, Time, ZonedDateTime} from '../';
+import {CalendarDate, CalendarDateTime, durationToString, parseAbsolute, parseDate, parseDateTime, parseDuration, parseTime, parseZonedDateTime, Time, ZonedDateTime} from '../';
 
 describe('string conversion', function () {
   describe('parseTime', function () {
@@ -682,4 +682,35 @@ describe('string conversion', function () {
       }).toThrow('Invalid ISO 8601 Duration string: P1Y-1M');
     });
   });
+
+  describe('durationToString', function () {
+    it('should convert a duration to an ISO 8601 string', function () {
+      expect(durationToString({years: 3, months: 6, weeks: 6, days: 4, hours: 12, minutes: 30, seconds: 5})).toBe('P3Y6M6W4DT12H30M5S');
+      expect(durationToString({days: 2, hours: 4, minutes: 30})).toBe('P2DT4H30M');
+      expect(durationToString({hours: 0, minutes: 45})).toBe('PT45M');
+      expect(durationToString({months: 1})).toBe('P1M');
+    });
+
+    it('should include milliseconds as fractional seconds', function () {
+      expect(durationToString({seconds: 5, milliseconds: 500})).toBe('PT5.5S');
+      expect(durationToString({milliseconds: 20})).toBe('PT0.02S');
+      expect(durationToString({seconds: 1.25})).toBe('PT1.25S');
+    });
+
+    it('should convert empty and negative durations', function () {
+      expect(durationToString({})).toBe('PT0S');
+      expect(durationToString({years: 0, hours: 0})).toBe('PT0S');
+      expect(durationToString({days: -1, hours: -2})).toBe('-P1DT2H');
+    });
+
+    it('should round trip through parseDuration', function () {
+      for (let value of ['P3Y6M6W4DT12H30M5S', 'P2DT4H30M', 'PT45M', '-P1DT2H', 'PT5.5S']) {
+        expect(durationToString(parseDuration(value))).toBe(value);
+      }
+    });
+
+    it('should throw for durations with mixed signs', function () {
+      expect(() => durationToString({hours: 1, minutes: -30})).toThrow(RangeError);
+    });
+  });
 });
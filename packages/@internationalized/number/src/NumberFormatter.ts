@@ -61,13 +61,16 @@ export class NumberFormatter implements Intl.NumberFormat {
     this.options = options;
   }
 
-  /** Formats a number value as a string, according to the locale and options provided to the constructor. */
-  format(value: number): string {
+  /**
+   * Formats a number value as a string, according to the locale and options provided to the constructor.
+   * Decimal strings such as "12345678901234567.89" are formatted exactly, without converting to a JavaScript number.
+   */
+  format(value: number | bigint | string): string {
     let res = '';
     if (!supportsSignDisplay && this.options.signDisplay != null) {
-      res = numberFormatSignDisplayPolyfill(this.numberFormatter, this.options.signDisplay, value);
+      res = numberFormatSignDisplayPolyfill(this.numberFormatter, this.options.signDisplay, Number(value));
     } else {
-      res = this.numberFormatter.format(value);
+      res = this.numberFormatter.format(value as number | bigint | Intl.StringNumericLiteral);
     }
 
     if (this.options.style === 'unit' && !supportsUnit) {
@@ -10,6 +10,8 @@
  * governing permissions and limitations under the License.
  */
 
+import {getConvertibleUnits} from './units';
+import {isDecimalString, subtractDecimals, toDecimalString} from './decimal';
 import {NumberFormatter} from './NumberFormatter';
 
 interface Symbols {
@@ -19,10 +21,26 @@ interface Symbols {
   group?: string,
   literals: RegExp,
   numeral: RegExp,
-  index: (v: string) => string
+  index: (v: string) => string,
+  /** Compact notation labels such as "K" or "Mio.", mapped to their power of ten. */
+  compact?: Labels,
+  /** Exponent separators for scientific notation, such as "E". */
+  exponentSeparators?: string[],
+  exponentMinusSign?: string,
+  /** Unit labels such as "km", mapped to the factor to convert them to the unit being parsed. */
+  units?: Labels
+}
+
+interface Labels {
+  /** Labels mapped to values, ordered from longest to shortest so that the longest matching label is found first. */
+  exact: Map<string, number>,
+  /** Lowercase labels mapped to values, excluding labels that are ambiguous when case is ignored, e.g. "Mb" and "MB". */
+  lowercase: Map<string, number>,
+  locale: string
 }
 
 const CURRENCY_SIGN_REGEX = new RegExp('^.*\\(.*\\).*$');
+const BIDI_REGEX = /[\u200e\u200f\u061c]/g;
 const NUMBERING_SYSTEMS = ['latn', 'arab', 'hanidec', 'deva', 'beng', 'fullwide'];
 
 /**
@@ -47,6 +65,15 @@ export class NumberParser {
     return getNumberParserImpl(this.locale, this.options, value).parse(value);
   }
 
+  /**
+   * Parses the given string to an exact decimal string, e.g. "12345678901234567.89", without
+   * the loss of precision that occurs when converting to a JavaScript number.
+   * Returns null if a valid number could not be parsed.
+   */
+  parseDecimal(value: string): string | null {
+    return getNumberParserImpl(this.locale, this.options, value).parseDecimal(value);
+  }
+
   /**
    * Returns whether the given string could potentially be a valid number. This should be used to
    * validate user input as the user types. If a `minValue` or `maxValue` is provided, the validity
@@ -129,10 +156,39 @@ class NumberParserImpl {
     }
   }
 
-  parse(value: string) {
+  // Converts a localized number string to an unformatted ASCII numeric string, e.g. '-1,234.5 USD' to '-1234.5'.
+  // Compact and scientific notation is converted to an exponent, e.g. '1.2K' to '1.2e3'. Also returns the factor
+  // to multiply the value by when it was entered in a different unit than the one being parsed, e.g. 'km' rather than 'm'.
+  toNumericString(value: string): [string, number] {
+    let unitFactor = 1;
+    let exponent = 0;
+    if (this.symbols.units) {
+      let match = extractLabel(value, this.symbols.units);
+      if (match) {
+        [value, unitFactor] = match;
+      }
+    }
+
+    if (this.symbols.compact) {
+      // Compact labels may be followed by other literals such as a currency symbol, e.g. '1,5 Mio. €'.
+      let match = extractLabel(value, this.symbols.compact) ?? extractLabel(value.replace(this.symbols.literals, ''), this.symbols.compact);
+      if (match) {
+        [value, exponent] = match;
+      }
+    }
+
     // to parse the number, we need to remove anything that isn't actually part of the number, for example we want '-10.40' not '-10.40 USD'
     let fullySanitizedValue = this.sanitize(value);
 
+    if (this.symbols.exponentSeparators) {
+      let match = this.extractExponent(fullySanitizedValue);
+      if (match) {
+        let [mantissa, scientificExponent] = match;
+        fullySanitizedValue = mantissa;
+        exponent += scientificExponent;
+      }
+    }
+
     if (this.symbols.group) {
       // Remove group characters, and replace decimal points and numerals with ASCII values.
       fullySanitizedValue = replaceAll(fullySanitizedValue, this.symbols.group, '');
@@ -169,11 +225,64 @@ class NumberParserImpl {
       }
     }
 
+    if (isNaN(exponent)) {
+      return ['', unitFactor];
+    }
+
+    if (exponent !== 0 && fullySanitizedValue) {
+      fullySanitizedValue += `e${exponent}`;
+    }
+
+    return [fullySanitizedValue, unitFactor];
+  }
+
+  // Splits a sanitized value in scientific notation into its mantissa and exponent, e.g. '1.2E-3' to ['1.2', -3].
+  // Returns null if the value does not contain a valid exponent. The exponent is NaN if it is only partially entered, e.g. '1.2E-'.
+  extractExponent(value: string): [string, number] | null {
+    for (let separator of this.symbols.exponentSeparators!) {
+      let index = value.lastIndexOf(separator);
+      if (index <= 0) {
+        continue;
+      }
+
+      let exponent = value.slice(index + separator.length);
+      let sign = 1;
+      for (let minusSign of [this.symbols.exponentMinusSign, this.symbols.minusSign, '-']) {
+        if (minusSign && exponent.startsWith(minusSign)) {
+          exponent = exponent.slice(minusSign.length);
+          sign = -1;
+          break;
+        }
+      }
+
+      if (sign === 1 && exponent.startsWith(this.symbols.plusSign ?? '+')) {
+        exponent = exponent.slice((this.symbols.plusSign ?? '+').length);
+      }
+
+      exponent = exponent.replace(this.symbols.numeral, this.symbols.index);
+      if (!/^\d*$/.test(exponent)) {
+        return null;
+      }
+
+      return [value.slice(0, index), exponent ? sign * Number(exponent) : NaN];
+    }
+
+    return null;
+  }
+
+  parse(value: string) {
+    let [fullySanitizedValue, unitFactor] = this.toNumericString(value);
     let newValue = fullySanitizedValue ? +fullySanitizedValue : NaN;
     if (isNaN(newValue)) {
       return NaN;
     }
 
+    if (unitFactor !== 1) {
+      // round converted units to what our formatter would output
+      let options = {...this.options, style: 'decimal' as const, notation: 'standard' as const};
+      return (new NumberParser(this.locale, options)).parse(new NumberFormatter(this.locale, options).format(newValue * unitFactor));
+    }
+
     if (this.options.style === 'percent') {
       // extra step for rounding percents to what our formatter would output
       let options = {
@@ -193,6 +302,37 @@ class NumberParserImpl {
     return newValue;
   }
 
+  parseDecimal(value: string): string | null {
+    let [numericString, unitFactor] = this.toNumericString(value);
+    if (!isDecimalString(numericString)) {
+      return null;
+    }
+
+    let decimal = toDecimalString(numericString);
+    if (unitFactor !== 1) {
+      // Unit conversions are not exact, so convert using numbers and round to what our formatter would output.
+      let options = {...this.options, style: 'decimal' as const, notation: 'standard' as const};
+      return (new NumberParser(this.locale, options)).parseDecimal(new NumberFormatter(this.locale, options).format(Number(decimal) * unitFactor));
+    }
+
+    if (this.options.style === 'percent') {
+      // Round percents to what our formatter would output. Formatting a string preserves its precision.
+      let options = {
+        ...this.options,
+        style: 'decimal' as const,
+        minimumFractionDigits: Math.min((this.options.minimumFractionDigits ?? 0) + 2, 20),
+        maximumFractionDigits: Math.min((this.options.maximumFractionDigits ?? 0) + 2, 20)
+      };
+      return (new NumberParser(this.locale, options)).parseDecimal(new NumberFormatter(this.locale, options).format(decimal));
+    }
+
+    if (this.options.currencySign === 'accounting' && CURRENCY_SIGN_REGEX.test(value)) {
+      decimal = subtractDecimals(0, decimal);
+    }
+
+    return decimal;
+  }
+
   sanitize(value: string) {
     // Remove literals and whitespace, which are allowed anywhere in the string
     value = value.replace(this.symbols.literals, '');
@@ -232,6 +372,17 @@ class NumberParserImpl {
   }
 
   isValidPartialNumber(value: string, minValue: number = -Infinity, maxValue: number = Infinity): boolean {
+    // Remove units that can be converted to the unit being parsed. Like the unit itself, these must be complete.
+    // Compact notation labels may be partially entered at the end of the string.
+    if (this.symbols.units) {
+      value = extractLabel(value, this.symbols.units)?.[0] ?? value;
+    }
+    if (this.symbols.compact) {
+      value = removePartialLabel(value, this.symbols.compact, this.symbols.numeral)
+        ?? removePartialLabel(value.replace(this.symbols.literals, ''), this.symbols.compact, this.symbols.numeral)
+        ?? value;
+    }
+
     value = this.sanitize(value);
 
     // Remove minus or plus sign, which must be at the start of the string.
@@ -241,13 +392,28 @@ class NumberParserImpl {
       value = value.slice(this.symbols.plusSign.length);
     }
 
+    // Remove the exponent in scientific notation, which must be an integer.
+    if (this.symbols.exponentSeparators) {
+      if (this.symbols.exponentSeparators.some(separator => value.startsWith(separator))) {
+        return false;
+      }
+
+      let match = this.extractExponent(value);
+      if (match) {
+        value = match[0];
+      } else if (this.symbols.exponentSeparators.some(separator => value.includes(separator))) {
+        return false;
+      }
+    }
+
     // Numbers cannot start with a group separator
     if (this.symbols.group && value.startsWith(this.symbols.group)) {
       return false;
     }
 
-    // Numbers that can't have any decimal values fail if a decimal character is typed
-    if (this.symbols.decimal && value.indexOf(this.symbols.decimal) > -1 && this.options.maximumFractionDigits === 0) {
+    // Numbers that can't have any decimal values fail if a decimal character is typed.
+    // In compact and scientific notation, the fraction digits only apply to the scaled value.
+    if (this.symbols.decimal && value.indexOf(this.symbols.decimal) > -1 && this.options.maximumFractionDigits === 0 && (this.options.notation ?? 'standard') === 'standard') {
       return false;
     }
 
@@ -265,7 +431,7 @@ class NumberParserImpl {
   }
 }
 
-const nonLiteralParts = new Set(['decimal', 'fraction', 'integer', 'minusSign', 'plusSign', 'group']);
+const nonLiteralParts = new Set(['decimal', 'fraction', 'integer', 'minusSign', 'plusSign', 'group', 'compact', 'exponentSeparator', 'exponentMinusSign', 'exponentInteger']);
 
 // This list is derived from https://www.unicode.org/cldr/charts/43/supplemental/language_plural_rules.html#comparison and includes
 // all unique numbers which we need to check in order to determine all the plural forms for a given locale.
@@ -303,7 +469,10 @@ function getSymbols(locale: string, formatter: Intl.NumberFormat, intlOptions: I
   let decimalParts = new Intl.NumberFormat(locale, {...intlOptions, minimumFractionDigits: 2, maximumFractionDigits: 2}).formatToParts(0.001);
 
   let decimal = decimalParts.find(p => p.type === 'decimal')?.value;
-  let group = allParts.find(p => p.type === 'group')?.value;
+
+  // Compact and scientific notation don't include group separators, but users may still enter them.
+  let groupParts = (intlOptions.notation ?? 'standard') === 'standard' ? allParts : new Intl.NumberFormat(locale, {...intlOptions, notation: 'standard'}).formatToParts(-10000.111);
+  let group = groupParts.find(p => p.type === 'group')?.value;
 
   // this set is also for a regex, it's all literals that might be in the string we want to eventually parse that
   // don't contribute to the numerical value
@@ -321,7 +490,147 @@ function getSymbols(locale: string, formatter: Intl.NumberFormat, intlOptions: I
   let numeral = new RegExp(`[${numerals.join('')}]`, 'g');
   let index = d => String(indexes.get(d));
 
-  return {minusSign, plusSign, decimal, group, literals, numeral, index};
+  let symbols: Symbols = {minusSign, plusSign, decimal, group, literals, numeral, index};
+
+  // Numbers entered in compact or scientific notation are accepted by fields in either notation.
+  if (intlOptions.notation != null && intlOptions.notation !== 'standard') {
+    symbols.compact = getCompactLabels(locale);
+    let scientificParts = new Intl.NumberFormat(locale, {notation: 'scientific'}).formatToParts(-0.001);
+    let exponentSeparator = scientificParts.find(p => p.type === 'exponentSeparator')?.value;
+    symbols.exponentSeparators = [...new Set([exponentSeparator, 'E', 'e'].filter(Boolean) as string[])];
+    symbols.exponentMinusSign = scientificParts.find(p => p.type === 'exponentMinusSign')?.value;
+  }
+
+  // Values may also be entered in other units that can be converted to the unit being parsed, e.g. "km" rather than "m".
+  let units = intlOptions.style === 'unit' && intlOptions.unit ? getConvertibleUnits(intlOptions.unit) : null;
+  if (units) {
+    symbols.units = getUnitLabels(locale, units, intlOptions.unit!, intlOptions.unitDisplay ?? 'short');
+  }
+
+  return symbols;
+}
+
+function getCompactLabels(locale: string): Labels {
+  let labels: [string, number][] = [];
+  for (let compactDisplay of ['short', 'long'] as const) {
+    // Format numbers in the latn numbering system so that the magnitude of each label can be determined.
+    let formatter = new Intl.NumberFormat(locale, {notation: 'compact', compactDisplay, numberingSystem: 'latn', useGrouping: false});
+    for (let exponent = 3; exponent <= 15; exponent++) {
+      for (let n of pluralNumbers.filter(n => n >= 1)) {
+        let value = n * Math.pow(10, exponent);
+        let parts = formatter.formatToParts(value);
+        let label = parts.find(p => p.type === 'compact')?.value;
+        // Some locales omit the number entirely, e.g. "mille" rather than "1 mille" in French.
+        let mantissa = Number(parts.filter(p => p.type === 'integer' || p.type === 'fraction').map(p => p.value).join('.'));
+        if (label && mantissa > 0) {
+          labels.push([label, Math.round(Math.log10(value / mantissa))]);
+        }
+      }
+    }
+  }
+
+  return createLabels(labels, locale);
+}
+
+function getUnitLabels(locale: string, units: Map<string, number>, currentUnit: string, currentUnitDisplay: Intl.NumberFormatOptions['unitDisplay']): Labels {
+  let labels: [string, number][] = [];
+  for (let [unit, factor] of units) {
+    // The unit being parsed is included so that it is matched rather than a shorter label for another unit, e.g. "km" rather than "m".
+    // Other display formats are not accepted for consistency with the literals used for the current unit.
+    let displays = unit === currentUnit ? [currentUnitDisplay] : ['short', 'long', 'narrow'] as const;
+    for (let unitDisplay of displays) {
+      let formatter = new Intl.NumberFormat(locale, {style: 'unit', unit, unitDisplay});
+      for (let n of pluralNumbers) {
+        let label = formatter.formatToParts(n).filter(p => p.type === 'unit').map(p => p.value).join('');
+        if (label) {
+          labels.push([label, factor]);
+        }
+      }
+    }
+  }
+
+  return createLabels(labels, locale);
+}
+
+function createLabels(labels: [string, number][], locale: string): Labels {
+  let entries = labels
+    .map(([label, value]) => [label.replace(BIDI_REGEX, '').trim(), value] as [string, number])
+    .filter(([label]) => label.length > 0);
+
+  // Allow abbreviations to be entered without a trailing period, e.g. "Mio" rather than "Mio.".
+  for (let [label, value] of [...entries]) {
+    if (label.length > 2 && label.endsWith('.')) {
+      entries.push([label.slice(0, -1), value]);
+    }
+  }
+
+  return {
+    exact: createLabelMap(entries),
+    lowercase: createLabelMap(entries.map(([label, value]) => [label.toLocaleLowerCase(locale), value])),
+    locale
+  };
+}
+
+function createLabelMap(entries: [string, number][]): Map<string, number> {
+  let map = new Map<string, number>();
+  let ambiguous = new Set<string>();
+  for (let [label, value] of entries) {
+    if (map.has(label) && map.get(label) !== value) {
+      ambiguous.add(label);
+    }
+    map.set(label, value);
+  }
+
+  return new Map([...map].filter(([label]) => !ambiguous.has(label)).sort((a, b) => b[0].length - a[0].length));
+}
+
+// Removes a complete label from the start or end of the value, and returns the remaining value along with the label's value.
+function extractLabel(value: string, labels: Labels): [string, number] | null {
+  value = value.replace(BIDI_REGEX, '').trim();
+  let lowercaseValue = value.toLocaleLowerCase(labels.locale);
+  for (let [map, v] of [[labels.exact, value], [labels.lowercase, lowercaseValue]] as const) {
+    for (let [label, labelValue] of map) {
+      if (v.length > label.length && v.endsWith(label)) {
+        return [value.slice(0, -label.length), labelValue];
+      }
+
+      if (v.length > label.length && v.startsWith(label)) {
+        return [value.slice(label.length), labelValue];
+      }
+    }
+  }
+
+  return null;
+}
+
+// Removes a complete label from the start of the value, and a label that may be partially entered from the end of the value.
+// Returns null if the value does not contain a label.
+function removePartialLabel(value: string, labels: Labels, numeral: RegExp): string | null {
+  value = value.replace(BIDI_REGEX, '').trim();
+  let found = false;
+  let lowercaseValue = value.toLocaleLowerCase(labels.locale);
+  for (let label of labels.lowercase.keys()) {
+    if (lowercaseValue.length > label.length && lowercaseValue.startsWith(label)) {
+      value = value.slice(label.length);
+      found = true;
+      break;
+    }
+  }
+
+  // Find the longest suffix without any digits that is the start of a label.
+  for (let i = 0; i < value.length; i++) {
+    let suffix = value.slice(i).trimStart();
+    if (!suffix || /\d/.test(suffix) || suffix.search(numeral) >= 0) {
+      continue;
+    }
+
+    let lowercaseSuffix = suffix.toLocaleLowerCase(labels.locale);
+    if ([...labels.exact.keys()].some(label => label.startsWith(suffix)) || [...labels.lowercase.keys()].some(label => label.startsWith(lowercaseSuffix))) {
+      return value.slice(0, i);
+    }
+  }
+
+  return found ? value : null;
 }
 
 function replaceAll(str: string, find: string | RegExp, replace: string) {
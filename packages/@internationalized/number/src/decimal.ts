@@ -0,0 +1,158 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+// Decimal strings are represented internally as a BigInt of all digits, scaled by a power of ten.
+// For example, "-12.345" is represented as {value: -12345n, scale: 3}.
+interface ScaledDecimal {
+  value: bigint,
+  scale: number
+}
+
+const DECIMAL_REGEX = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function parseScaled(value: string): ScaledDecimal | null {
+  let match = value.trim().match(DECIMAL_REGEX);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+
+  let [, sign, integer, fraction = '', exponent = '0'] = match;
+  let scale = fraction.length - Number(exponent);
+  let digits = BigInt(sign + (integer + fraction || '0'));
+  if (scale < 0) {
+    return {value: digits * pow10(-scale), scale: 0};
+  }
+
+  return {value: digits, scale};
+}
+
+function toScaled(value: string | number): ScaledDecimal {
+  let scaled = parseScaled(typeof value === 'number' ? numberToString(value) : value);
+  if (!scaled) {
+    throw new RangeError('Invalid decimal string: ' + value);
+  }
+
+  return scaled;
+}
+
+function numberToString(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new RangeError('Invalid decimal number: ' + value);
+  }
+
+  // String() uses the shortest representation that round trips, which may be in exponential notation.
+  return String(value);
+}
+
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
+
+function rescale(decimal: ScaledDecimal, scale: number): bigint {
+  return decimal.value * pow10(scale - decimal.scale);
+}
+
+function fromScaled(value: bigint, scale: number): string {
+  let isNegative = value < BigInt(0);
+  let digits = (isNegative ? -value : value).toString().padStart(scale + 1, '0');
+  let integer = digits.slice(0, digits.length - scale);
+  let fraction = digits.slice(digits.length - scale).replace(/0+$/, '');
+  return (isNegative ? '-' : '') + integer + (fraction ? '.' + fraction : '');
+}
+
+/** Returns whether the given string is a valid decimal number, e.g. "-1234.5678" or "1.5e-7". */
+export function isDecimalString(value: string): boolean {
+  return parseScaled(value) != null;
+}
+
+/**
+ * Converts a number or numeric string to a normalized decimal string without exponential notation,
+ * leading zeros, or trailing fractional zeros, e.g. 1e-7 is converted to "0.0000001".
+ */
+export function toDecimalString(value: number | string): string {
+  let {value: digits, scale} = toScaled(value);
+  return fromScaled(digits, scale);
+}
+
+/** Compares two decimal strings. Returns a negative number if `a` is less than `b`, zero if they are equal, and a positive number otherwise. */
+export function compareDecimals(a: number | string, b: number | string): number {
+  let x = toScaled(a);
+  let y = toScaled(b);
+  let scale = Math.max(x.scale, y.scale);
+  let diff = rescale(x, scale) - rescale(y, scale);
+  if (diff < BigInt(0)) {
+    return -1;
+  }
+
+  return diff > BigInt(0) ? 1 : 0;
+}
+
+/** Adds two decimal strings exactly, without floating point rounding errors. */
+export function addDecimals(a: number | string, b: number | string): string {
+  let x = toScaled(a);
+  let y = toScaled(b);
+  let scale = Math.max(x.scale, y.scale);
+  return fromScaled(rescale(x, scale) + rescale(y, scale), scale);
+}
+
+/** Subtracts the decimal string `b` from `a` exactly, without floating point rounding errors. */
+export function subtractDecimals(a: number | string, b: number | string): string {
+  let x = toScaled(a);
+  let y = toScaled(b);
+  let scale = Math.max(x.scale, y.scale);
+  return fromScaled(rescale(x, scale) - rescale(y, scale), scale);
+}
+
+/**
+ * Rounds a decimal string to the nearest multiple of `step` from `min` (or zero if there is no minimum),
+ * and clamps it between the minimum and maximum. This is the exact equivalent of `snapValueToStep`
+ * from `@react-stately/utils` for decimal strings.
+ */
+export function snapDecimalToStep(value: number | string, min: number | string | null | undefined, max: number | string | null | undefined, step: number | string): string {
+  let x = toScaled(value);
+  let s = toScaled(step);
+  let lo = min != null ? toScaled(min) : null;
+  let hi = max != null ? toScaled(max) : null;
+  let scale = Math.max(x.scale, s.scale, lo?.scale ?? 0, hi?.scale ?? 0);
+  let zero = BigInt(0);
+  let stepValue = rescale(s, scale);
+  if (stepValue <= zero) {
+    throw new RangeError('Step must be positive: ' + step);
+  }
+
+  let base = lo ? rescale(lo, scale) : zero;
+  let offset = rescale(x, scale) - base;
+
+  // Round half away from zero, matching snapValueToStep.
+  let remainder = offset % stepValue;
+  let snapped = offset - remainder;
+  if ((remainder < zero ? -remainder : remainder) * BigInt(2) >= stepValue) {
+    snapped += remainder < zero ? -stepValue : stepValue;
+  }
+  snapped += base;
+
+  if (lo && snapped < base) {
+    snapped = base;
+  } else if (hi) {
+    let maxValue = rescale(hi, scale);
+    if (snapped > maxValue) {
+      // Find the largest step value that is less than or equal to the maximum.
+      let steps = (maxValue - base) / stepValue;
+      if ((maxValue - base) % stepValue < zero) {
+        steps -= BigInt(1);
+      }
+      snapped = base + steps * stepValue;
+    }
+  }
+
+  return fromScaled(snapped, scale);
+}
@@ -14,3 +14,4 @@ export type {NumberFormatOptions} from './NumberFormatter';
 
 export {NumberFormatter} from './NumberFormatter';
 export {NumberParser} from './NumberParser';
+export {toDecimalString, compareDecimals, addDecimals, subtractDecimals, snapDecimalToStep} from './decimal';
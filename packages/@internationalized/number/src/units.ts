@@ -0,0 +1,94 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+// Families of units that can be converted between each other, with the size of each unit relative to a base unit.
+// Units are limited to those supported by Intl.NumberFormat, and those with a fixed size (e.g. not months or years).
+// Temperatures are not included because they cannot be converted with a factor alone.
+// Conversion factors are from https://github.com/unicode-org/cldr/blob/main/common/supplemental/units.xml.
+const UNIT_FAMILIES: Record<string, number>[] = [
+  // Length, in meters.
+  {
+    millimeter: 0.001,
+    centimeter: 0.01,
+    meter: 1,
+    kilometer: 1000,
+    inch: 0.0254,
+    foot: 0.3048,
+    yard: 0.9144,
+    mile: 1609.344,
+    'mile-scandinavian': 10000
+  },
+  // Mass, in grams.
+  {
+    gram: 1,
+    kilogram: 1000,
+    ounce: 28.349523125,
+    pound: 453.59237,
+    stone: 6350.29318
+  },
+  // Volume, in liters.
+  {
+    milliliter: 0.001,
+    liter: 1,
+    'fluid-ounce': 0.0295735295625,
+    gallon: 3.785411784
+  },
+  // Area, in square meters.
+  {
+    acre: 4046.8564224,
+    hectare: 10000
+  },
+  // Duration, in seconds.
+  {
+    nanosecond: 1e-9,
+    microsecond: 1e-6,
+    millisecond: 0.001,
+    second: 1,
+    minute: 60,
+    hour: 3600,
+    day: 86400,
+    week: 604800
+  },
+  // Digital information, in bits.
+  {
+    bit: 1,
+    byte: 8,
+    kilobit: 1e3,
+    kilobyte: 8e3,
+    megabit: 1e6,
+    megabyte: 8e6,
+    gigabit: 1e9,
+    gigabyte: 8e9,
+    terabit: 1e12,
+    terabyte: 8e12,
+    petabyte: 8e15
+  },
+  // Speed, in meters per second.
+  {
+    'meter-per-second': 1,
+    'kilometer-per-hour': 1 / 3.6,
+    'mile-per-hour': 0.44704
+  }
+];
+
+/**
+ * Returns the units that the given unit can be converted to, mapped to the factor that a value in each
+ * unit must be multiplied by to convert it to the given unit. Returns null if the unit cannot be converted.
+ */
+export function getConvertibleUnits(unit: string): Map<string, number> | null {
+  let family = UNIT_FAMILIES.find(family => unit in family);
+  if (!family) {
+    return null;
+  }
+
+  return new Map(Object.entries(family).map(([other, size]) => [other, other === unit ? 1 : size / family[unit]]));
+}
@@ -12,6 +12,7 @@
 
 import fc from 'fast-check';
 import messages from '../../../@react-aria/numberfield/intl/*.json';
+import {NumberFormatter} from '../src/NumberFormatter';
 import {NumberParser} from '../src/NumberParser';
 
 // for some reason hu-HU isn't supported in jsdom/node
@@ -128,7 +129,24 @@ describe('NumberParser', function () {
       });
 
       it('should return NaN for unknown units', function () {
-        expect(new NumberParser('en-US', {style: 'unit', unit: 'inch'}).parse('23.5 ft')).toBe(NaN);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'inch'}).parse('23.5 kg')).toBe(NaN);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'year'}).parse('2 months')).toBe(NaN);
+      });
+
+      it('should convert alternate units in the same family', function () {
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'inch'}).parse('23.5 ft')).toBe(282);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'meter'}).parse('1.1 km')).toBe(1100);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'meter'}).parse('5 KM')).toBe(5000);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'meter'}).parse('12 in')).toBe(0.305);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'hour', unitDisplay: 'long'}).parse('90 minutes')).toBe(1.5);
+        expect(new NumberParser('de-DE', {style: 'unit', unit: 'kilogram'}).parse('1.500 g')).toBe(1.5);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'kilometer-per-hour', maximumFractionDigits: 1}).parse('60 mph')).toBe(96.6);
+      });
+
+      it('should distinguish units that differ only by case', function () {
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'megabyte'}).parse('5 GB')).toBe(5000);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'megabyte'}).parse('5 Gb')).toBe(625);
+        expect(new NumberParser('en-US', {style: 'unit', unit: 'megabyte'}).parse('5 gb')).toBe(NaN);
       });
 
       it('should return NaN for partial units', function () {
@@ -154,6 +172,56 @@ describe('NumberParser', function () {
       });
     });
 
+    describe('compact notation', function () {
+      it('should parse compact notation', function () {
+        expect(new NumberParser('en-US', {notation: 'compact'}).parse('1.2K')).toBe(1200);
+        expect(new NumberParser('en-US', {notation: 'compact'}).parse('1.2k')).toBe(1200);
+        expect(new NumberParser('en-US', {notation: 'compact'}).parse('-3.5M')).toBe(-3500000);
+        expect(new NumberParser('en-US', {notation: 'compact'}).parse('1.5 million')).toBe(1500000);
+        expect(new NumberParser('en-US', {notation: 'compact'}).parse('1,200')).toBe(1200);
+        expect(new NumberParser('en-US', {notation: 'compact'}).parse('1.5 mil')).toBe(NaN);
+      });
+
+      it('should parse locale specific compact notation', function () {
+        expect(new NumberParser('de-DE', {notation: 'compact'}).parse('2,5 Mio.')).toBe(2500000);
+        expect(new NumberParser('de-DE', {notation: 'compact'}).parse('2,5 Mio')).toBe(2500000);
+        expect(new NumberParser('de-DE', {notation: 'compact', compactDisplay: 'long'}).parse('3 Tausend')).toBe(3000);
+        expect(new NumberParser('ja-JP', {notation: 'compact'}).parse('150万')).toBe(1500000);
+        expect(new NumberParser('sw', {notation: 'compact'}).parse('elfu 2')).toBe(2000);
+        expect(new NumberParser('de-DE', {style: 'currency', currency: 'EUR', notation: 'compact'}).parse('1,5 Mio. €')).toBe(1500000);
+      });
+
+      it('should parse exact decimals in compact notation', function () {
+        expect(new NumberParser('en-US', {notation: 'compact'}).parseDecimal('12345678901234.567K')).toBe('12345678901234567');
+      });
+
+      it('should only parse compact notation when the notation is not standard', function () {
+        expect(new NumberParser('en-US').parse('1.2K')).toBe(NaN);
+      });
+    });
+
+    describe('scientific notation', function () {
+      it('should parse scientific notation', function () {
+        expect(new NumberParser('en-US', {notation: 'scientific'}).parse('3e5')).toBe(300000);
+        expect(new NumberParser('en-US', {notation: 'scientific'}).parse('-1.5E-7')).toBe(-1.5e-7);
+        expect(new NumberParser('en-US', {notation: 'engineering'}).parse('12.5E3')).toBe(12500);
+        expect(new NumberParser('de-DE', {notation: 'scientific'}).parse('1,5E-3')).toBe(0.0015);
+        expect(new NumberParser('sv-SE', {notation: 'scientific'}).parse('1,5×10^3')).toBe(1500);
+        expect(new NumberParser('fi-FI', {notation: 'scientific'}).parse('−1,5E−3')).toBe(-0.0015);
+        expect(new NumberParser('en-US', {notation: 'scientific'}).parse('1.2E')).toBe(NaN);
+        expect(new NumberParser('en-US', {notation: 'scientific'}).parse('E5')).toBe(NaN);
+      });
+
+      it('should accept compact and scientific notation interchangeably', function () {
+        expect(new NumberParser('en-US', {notation: 'compact'}).parse('3e5')).toBe(300000);
+        expect(new NumberParser('en-US', {notation: 'scientific'}).parse('1.2K')).toBe(1200);
+      });
+
+      it('should parse exact decimals in scientific notation', function () {
+        expect(new NumberParser('en-US', {notation: 'scientific'}).parseDecimal('1.2345678901234567E-20')).toBe('0.000000000000000000012345678901234567');
+      });
+    });
+
     describe('percents', function () {
       it('should parse a percent', function () {
         expect(new NumberParser('en-US', {style: 'percent'}).parse('10%')).toBe(0.1);
@@ -304,6 +372,30 @@ describe('NumberParser', function () {
     });
   });
 
+  describe('parseDecimal', function () {
+    it('should parse to exact decimal strings', function () {
+      expect(new NumberParser('en-US').parseDecimal('12,345,678,901,234,567.89')).toBe('12345678901234567.89');
+      expect(new NumberParser('de-DE').parseDecimal('-12.345.678.901.234.567,89')).toBe('-12345678901234567.89');
+      expect(new NumberParser('en-US').parseDecimal('0.10')).toBe('0.1');
+      expect(new NumberParser('ar-EG').parseDecimal('١٢٣٫٤٥')).toBe('123.45');
+      expect(new NumberParser('en-US').parseDecimal('abc')).toBe(null);
+      expect(new NumberParser('en-US').parseDecimal('')).toBe(null);
+    });
+
+    it('should support currencies and percents', function () {
+      expect(new NumberParser('en-US', {style: 'currency', currency: 'USD'}).parseDecimal('$1,000,000,000,000,000.01')).toBe('1000000000000000.01');
+      expect(new NumberParser('en-US', {style: 'currency', currency: 'USD', currencySign: 'accounting'}).parseDecimal('($3.50)')).toBe('-3.5');
+      expect(new NumberParser('en-US', {style: 'percent', maximumFractionDigits: 2}).parseDecimal('12.345%')).toBe('0.1235');
+    });
+
+    it('should round trip through NumberFormatter', function () {
+      let formatter = new NumberFormatter('en-US', {maximumFractionDigits: 20});
+      let parser = new NumberParser('en-US', {maximumFractionDigits: 20});
+      expect(formatter.format('12345678901234567.89')).toBe('12,345,678,901,234,567.89');
+      expect(parser.parseDecimal(formatter.format('0.30000000000000000001'))).toBe('0.30000000000000000001');
+    });
+  });
+
   describe('isValidPartialNumber', function () {
     it('should support basic numbers', function () {
       expect(new NumberParser('en-US', {style: 'decimal'}).isValidPartialNumber('10')).toBe(true);
@@ -410,6 +502,31 @@ describe('NumberParser', function () {
       expect(new NumberParser('en-US', {style: 'unit', unit: 'inch'}).isValidPartialNumber('10.5 i')).toBe(false);
     });
 
+    it('should support alternate units', function () {
+      expect(new NumberParser('en-US', {style: 'unit', unit: 'inch'}).isValidPartialNumber('10 ft')).toBe(true);
+      expect(new NumberParser('en-US', {style: 'unit', unit: 'inch'}).isValidPartialNumber('10 f')).toBe(false);
+      expect(new NumberParser('en-US', {style: 'unit', unit: 'inch'}).isValidPartialNumber('10 kg')).toBe(false);
+    });
+
+    it('should support compact notation', function () {
+      expect(new NumberParser('en-US', {notation: 'compact'}).isValidPartialNumber('1.2')).toBe(true);
+      expect(new NumberParser('en-US', {notation: 'compact'}).isValidPartialNumber('1.2K')).toBe(true);
+      expect(new NumberParser('en-US', {notation: 'compact'}).isValidPartialNumber('1.2 mil')).toBe(true);
+      expect(new NumberParser('en-US', {notation: 'compact'}).isValidPartialNumber('1.2 X')).toBe(false);
+      expect(new NumberParser('de-DE', {notation: 'compact'}).isValidPartialNumber('2,5 Mi')).toBe(true);
+      expect(new NumberParser('sw', {notation: 'compact'}).isValidPartialNumber('elf')).toBe(true);
+      expect(new NumberParser('en-US').isValidPartialNumber('1.2K')).toBe(false);
+    });
+
+    it('should support scientific notation', function () {
+      expect(new NumberParser('en-US', {notation: 'scientific'}).isValidPartialNumber('3e')).toBe(true);
+      expect(new NumberParser('en-US', {notation: 'scientific'}).isValidPartialNumber('3e-')).toBe(true);
+      expect(new NumberParser('en-US', {notation: 'scientific'}).isValidPartialNumber('3e-5')).toBe(true);
+      expect(new NumberParser('en-US', {notation: 'scientific'}).isValidPartialNumber('e5')).toBe(false);
+      expect(new NumberParser('en-US', {notation: 'scientific'}).isValidPartialNumber('3e5.5')).toBe(false);
+      expect(new NumberParser('en-US').isValidPartialNumber('3e5')).toBe(false);
+    });
+
     it('should support percents', function () {
       expect(new NumberParser('en-US', {style: 'percent'}).isValidPartialNumber('10')).toBe(true);
       expect(new NumberParser('en-US', {style: 'percent'}).isValidPartialNumber('10.5')).toBe(false);
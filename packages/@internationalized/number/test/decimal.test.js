@@ -0,0 +1,64 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {addDecimals, compareDecimals, snapDecimalToStep, subtractDecimals, toDecimalString} from '../src/decimal';
+
+describe('decimal', function () {
+  it('should normalize decimal strings', function () {
+    expect(toDecimalString('0012.3400')).toBe('12.34');
+    expect(toDecimalString('-0.0')).toBe('0');
+    expect(toDecimalString('+.5')).toBe('0.5');
+    expect(toDecimalString('1.5e-7')).toBe('0.00000015');
+    expect(toDecimalString('1.5E3')).toBe('1500');
+    expect(toDecimalString(1e21)).toBe('1000000000000000000000');
+    expect(toDecimalString(0.1)).toBe('0.1');
+    expect(() => toDecimalString('abc')).toThrow(RangeError);
+    expect(() => toDecimalString(NaN)).toThrow(RangeError);
+  });
+
+  it('should compare decimal strings', function () {
+    expect(compareDecimals('12345678901234567.89', '12345678901234567.88')).toBe(1);
+    expect(compareDecimals('-1.5', '-1.50')).toBe(0);
+    expect(compareDecimals('-2', 1)).toBe(-1);
+  });
+
+  it('should add and subtract exactly', function () {
+    expect(addDecimals('0.1', '0.2')).toBe('0.3');
+    expect(addDecimals('12345678901234567.89', '0.01')).toBe('12345678901234567.9');
+    expect(subtractDecimals('0.3', '0.1')).toBe('0.2');
+    expect(subtractDecimals('1', '1.000001')).toBe('-0.000001');
+    expect(subtractDecimals(0, '-5')).toBe('5');
+  });
+
+  describe('snapDecimalToStep', function () {
+    it('should snap to the nearest step', function () {
+      expect(snapDecimalToStep('12345678901234567.886', null, null, '0.01')).toBe('12345678901234567.89');
+      expect(snapDecimalToStep('1.25', null, null, '0.1')).toBe('1.3');
+      expect(snapDecimalToStep('-1.25', null, null, '0.1')).toBe('-1.3');
+      expect(snapDecimalToStep('7', '2', null, '3')).toBe('8');
+    });
+
+    it('should clamp to the minimum and maximum', function () {
+      expect(snapDecimalToStep('1', '2', '10', '3')).toBe('2');
+      expect(snapDecimalToStep('20', '2', '10', '3')).toBe('8');
+      expect(snapDecimalToStep('20', null, '10', '3')).toBe('9');
+      expect(snapDecimalToStep('-20', null, '-10', '3')).toBe('-21');
+    });
+
+    it('should accept numbers', function () {
+      expect(snapDecimalToStep(1.26, 0, 10, 0.05)).toBe('1.25');
+      expect(snapDecimalToStep(-3.3, -10, 10, 0.25)).toBe('-3.25');
+      expect(snapDecimalToStep(0.7, undefined, 0.5, 0.2)).toBe('0.4');
+      expect(snapDecimalToStep(4.4, 1.1, undefined, 1.1)).toBe('4.4');
+    });
+  });
+});
@@ -0,0 +1,397 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+// A compiler for ICU MessageFormat 2 messages. See https://unicode.org/reports/tr35/tr35-messageFormat.html.
+// Messages are compiled to functions that call the LocalizedStringFormatter at runtime to resolve,
+// format, and select values, so no parser is needed at runtime.
+
+const FUNCTIONS = new Set(['number', 'integer', 'percent', 'currency', 'date', 'time', 'datetime', 'string']);
+const WHITESPACE = /[\s\u061c\u200e\u200f]/;
+const NAME_START = /[\p{L}_]/u;
+const NAME_CHAR = /[\p{L}\p{N}_.-]/u;
+
+function compileMessageFormat2(message) {
+  let parser = new Parser(message);
+  return compileMessage(parser.parseMessage());
+}
+
+exports.compileMessageFormat2 = compileMessageFormat2;
+
+class Parser {
+  constructor(source) {
+    this.source = source;
+    this.pos = 0;
+  }
+
+  parseMessage() {
+    let start = this.pos;
+    this.skipWhitespace();
+    if (!this.source.startsWith('.', this.pos) && !this.source.startsWith('{{', this.pos)) {
+      // Simple messages include any leading whitespace in the pattern.
+      this.pos = start;
+      let pattern = this.parsePattern();
+      this.expectEnd();
+      return {declarations: [], selectors: [], variants: [{keys: [], pattern}]};
+    }
+
+    let declarations = [];
+    while (this.source.startsWith('.input', this.pos) || this.source.startsWith('.local', this.pos)) {
+      declarations.push(this.parseDeclaration());
+      this.skipWhitespace();
+    }
+
+    let selectors = [];
+    let variants = [];
+    if (this.source.startsWith('.match', this.pos)) {
+      this.pos += 6;
+      while (this.skipWhitespace() && (this.peek() === '$' || this.peek() === '{')) {
+        // Earlier drafts of the specification allowed expressions as selectors, e.g. `.match {$count :number}`.
+        selectors.push(this.peek() === '$' ? {type: 'variable', name: this.parseVariable()} : this.parseExpression());
+      }
+
+      if (!selectors.length) {
+        this.error('Expected a selector');
+      }
+
+      while (this.pos < this.source.length) {
+        let keys = [];
+        while (this.peek() !== '{') {
+          keys.push(this.peek() === '*' ? (this.pos++, '*') : this.parseLiteral());
+          this.skipWhitespace();
+        }
+
+        if (keys.length !== selectors.length) {
+          this.error(`Expected ${selectors.length} variant keys`);
+        }
+
+        variants.push({keys, pattern: this.parseQuotedPattern()});
+        this.skipWhitespace();
+      }
+
+      if (!variants.some(variant => variant.keys.every(key => key === '*'))) {
+        this.error('Expected a fallback variant with only * keys');
+      }
+    } else {
+      variants.push({keys: [], pattern: this.parseQuotedPattern()});
+      this.skipWhitespace();
+    }
+
+    this.expectEnd();
+    return {declarations, selectors, variants};
+  }
+
+  parseDeclaration() {
+    if (this.source.startsWith('.input', this.pos)) {
+      this.pos += 6;
+      this.skipWhitespace();
+      let expression = this.parseExpression();
+      if (expression.operand?.type !== 'variable') {
+        this.error('Expected a variable in .input declaration');
+      }
+
+      return {name: expression.operand.name, expression};
+    }
+
+    this.pos += 6;
+    if (!this.skipWhitespace()) {
+      this.error('Expected whitespace');
+    }
+
+    let name = this.parseVariable();
+    this.skipWhitespace();
+    this.expect('=');
+    this.skipWhitespace();
+    return {name, expression: this.parseExpression()};
+  }
+
+  parseQuotedPattern() {
+    this.expect('{{');
+    let pattern = this.parsePattern();
+    this.expect('}}');
+    return pattern;
+  }
+
+  parsePattern() {
+    let parts = [];
+    let text = '';
+    while (this.pos < this.source.length) {
+      let char = this.peek();
+      if (char === '\\') {
+        text += this.parseEscape();
+      } else if (char === '{') {
+        if (this.source.startsWith('{{', this.pos)) {
+          this.error('Unexpected {{');
+        }
+
+        if (text) {
+          parts.push(text);
+          text = '';
+        }
+
+        let placeholder = this.parsePlaceholder();
+        if (placeholder) {
+          parts.push(placeholder);
+        }
+      } else if (char === '}') {
+        break;
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+
+    if (text) {
+      parts.push(text);
+    }
+
+    return parts;
+  }
+
+  parsePlaceholder() {
+    let start = this.pos;
+    this.expect('{');
+    this.skipWhitespace();
+    if (this.peek() === '#' || this.peek() === '/') {
+      // Markup is not supported when formatting to a string, so it formats as an empty string.
+      while (this.pos < this.source.length && this.peek() !== '}') {
+        if (this.peek() === '|') {
+          this.parseLiteral();
+        } else {
+          this.pos++;
+        }
+      }
+      this.expect('}');
+      return null;
+    }
+
+    this.pos = start;
+    return this.parseExpression();
+  }
+
+  parseExpression() {
+    this.expect('{');
+    this.skipWhitespace();
+
+    let operand = null;
+    if (this.peek() === '$') {
+      operand = {type: 'variable', name: this.parseVariable()};
+    } else if (this.peek() !== ':') {
+      operand = {type: 'literal', value: this.parseLiteral()};
+    }
+
+    let fn = null;
+    let options = {};
+    let hasWhitespace = operand ? this.skipWhitespace() : true;
+    if (this.peek() === ':') {
+      if (!hasWhitespace) {
+        this.error('Expected whitespace');
+      }
+
+      this.pos++;
+      fn = this.parseIdentifier();
+      if (!FUNCTIONS.has(fn)) {
+        this.error(`Unsupported function :${fn}`);
+      }
+
+      while (this.skipWhitespace() && this.peek() !== '@' && this.peek() !== '}') {
+        let name = this.parseIdentifier();
+        this.skipWhitespace();
+        this.expect('=');
+        this.skipWhitespace();
+        options[name] = this.peek() === '$' ? {type: 'variable', name: this.parseVariable()} : {type: 'literal', value: this.parseLiteral()};
+      }
+    }
+
+    if (!operand) {
+      this.error(`Function :${fn} requires an operand`);
+    }
+
+    // Attributes do not affect formatting, so they are ignored.
+    while (this.peek() === '@') {
+      this.pos++;
+      this.parseIdentifier();
+      this.skipWhitespace();
+      if (this.peek() === '=') {
+        this.pos++;
+        this.skipWhitespace();
+        this.parseLiteral();
+      }
+      this.skipWhitespace();
+    }
+
+    this.expect('}');
+    return {type: 'expression', operand, fn, options};
+  }
+
+  parseVariable() {
+    this.expect('$');
+    return this.parseName();
+  }
+
+  parseLiteral() {
+    if (this.peek() !== '|') {
+      let start = this.pos;
+      while (NAME_CHAR.test(this.peek()) || this.peek() === '+') {
+        this.pos++;
+      }
+
+      if (start === this.pos) {
+        this.error('Expected a literal');
+      }
+
+      return this.source.slice(start, this.pos);
+    }
+
+    this.pos++;
+    let value = '';
+    while (this.peek() !== '|') {
+      if (this.pos >= this.source.length) {
+        this.error('Unterminated literal');
+      }
+
+      value += this.peek() === '\\' ? this.parseEscape() : this.source[this.pos++];
+    }
+
+    this.pos++;
+    return value;
+  }
+
+  parseIdentifier() {
+    let name = this.parseName();
+    if (this.peek() === ':') {
+      this.pos++;
+      name += ':' + this.parseName();
+    }
+
+    return name;
+  }
+
+  parseName() {
+    let start = this.pos;
+    if (!NAME_START.test(this.peek())) {
+      this.error('Expected a name');
+    }
+
+    while (this.pos < this.source.length && NAME_CHAR.test(this.peek())) {
+      this.pos++;
+    }
+
+    return this.source.slice(start, this.pos);
+  }
+
+  parseEscape() {
+    let char = this.source[this.pos + 1];
+    if (char !== '\\' && char !== '{' && char !== '|' && char !== '}') {
+      this.error('Invalid escape sequence');
+    }
+
+    this.pos += 2;
+    return char;
+  }
+
+  skipWhitespace() {
+    let start = this.pos;
+    while (this.pos < this.source.length && WHITESPACE.test(this.peek())) {
+      this.pos++;
+    }
+
+    return this.pos > start;
+  }
+
+  peek() {
+    return this.source[this.pos] || '';
+  }
+
+  expect(string) {
+    if (!this.source.startsWith(string, this.pos)) {
+      this.error(`Expected ${string}`);
+    }
+
+    this.pos += string.length;
+  }
+
+  expectEnd() {
+    if (this.pos < this.source.length) {
+      this.error(`Unexpected ${this.peek()}`);
+    }
+  }
+
+  error(message) {
+    throw new SyntaxError(`${message} at position ${this.pos} in message: ${this.source}`);
+  }
+}
+
+function compileMessage({declarations, selectors, variants}) {
+  if (!declarations.length && !selectors.length) {
+    let {code, isStatic} = compilePattern(variants[0].pattern, 'args');
+    return isStatic ? code : '(args, formatter) => ' + code;
+  }
+
+  // Declared variables are stored in a copy of the arguments so they shadow the arguments of the same name.
+  let res = '(args, formatter) => {\n    let $ = {...args};\n';
+  for (let {name, expression} of declarations) {
+    res += '    ' + compileVariable(name, '$') + ' = ' + compileExpression(expression, '$') + ';\n';
+  }
+
+  if (selectors.length) {
+    let compiledSelectors = selectors.map(selector => selector.type === 'variable' ? compileVariable(selector.name, '$') : compileExpression(selector, '$'));
+    let compiledVariants = variants.map(({keys, pattern}) => {
+      let {code, isStatic} = compilePattern(pattern, '$');
+      return '[' + JSON.stringify(keys) + ', ' + (isStatic ? code : '() => ' + code) + ']';
+    });
+    res += '    return formatter.match([' + compiledSelectors.join(', ') + '], [' + compiledVariants.join(', ') + ']);\n';
+  } else {
+    res += '    return ' + compilePattern(variants[0].pattern, '$').code + ';\n';
+  }
+
+  res += '  }';
+  return res;
+}
+
+function compilePattern(parts, scope) {
+  let isStatic = true;
+  let res = '`';
+  for (let part of parts) {
+    if (typeof part === 'string') {
+      res += escape(part);
+    } else if (part.operand.type === 'literal' && !part.fn) {
+      res += escape(part.operand.value);
+    } else {
+      res += '${formatter.formatValue(' + compileExpression(part, scope) + ')}';
+      isStatic = false;
+    }
+  }
+
+  res += '`';
+  return {code: res, isStatic};
+}
+
+function compileExpression({operand, fn, options}, scope) {
+  let value = operand.type === 'variable' ? compileVariable(operand.name, scope) : JSON.stringify(operand.value);
+  if (!fn) {
+    return value;
+  }
+
+  let compiledOptions = Object.entries(options).map(([name, option]) => {
+    return JSON.stringify(name) + ': ' + (option.type === 'variable' ? compileVariable(option.name, scope) : JSON.stringify(option.value));
+  });
+
+  return 'formatter.value(' + value + ', ' + JSON.stringify(fn) + ', {' + compiledOptions.join(', ') + '})';
+}
+
+function compileVariable(name, scope) {
+  return scope + '[' + JSON.stringify(name) + ']';
+}
+
+function escape(string) {
+  return string.replace(/([\\$`])/g, '\\$1');
+}
@@ -10,8 +10,16 @@
  * governing permissions and limitations under the License.
  */
 
+export interface CompileOptions {
+  /**
+   * The syntax of the messages, either ICU MessageFormat 1 or MessageFormat 2.
+   * @default 1
+   */
+  messageFormatVersion?: 1 | 2
+}
+
 /** Compiles an object containing ICU message strings to a JavaScript module. */
-export function compileStrings(messages: Record<string, string>): string;
+export function compileStrings(messages: Record<string, string>, options?: CompileOptions): string;
 
 /** Compiles a single ICU message string to JavaScript source code. */
-export function compileString(message: string): string;
+export function compileString(message: string, options?: CompileOptions): string;
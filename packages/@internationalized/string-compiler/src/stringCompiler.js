@@ -10,12 +10,13 @@
  * governing permissions and limitations under the License.
  */
 
+const {compileMessageFormat2} = require('./messageFormat2');
 const {parse, TYPE} = require('@formatjs/icu-messageformat-parser');
 
-function compileStrings(messages) {
+function compileStrings(messages, options) {
   let res = 'module.exports = {';
   for (let key in messages) {
-    res += '  ' + JSON.stringify(key) + ': ' + compileString(messages[key]) + ',\n';
+    res += '  ' + JSON.stringify(key) + ': ' + compileString(messages[key], options) + ',\n';
   }
 
   res += '}';
@@ -24,7 +25,11 @@ function compileStrings(messages) {
 
 exports.compileStrings = compileStrings;
 
-function compileString(message) {
+function compileString(message, options = {}) {
+  if (options.messageFormatVersion === 2) {
+    return compileMessageFormat2(message);
+  }
+
   let parts = parse(message);
   return compileParts(parts);
 }
@@ -16,24 +16,46 @@ export type LocalizedStrings<K extends string, T extends LocalizedString> = {
   [lang: string]: Record<K, T>
 };
 
+/**
+ * Asynchronously loads the strings for a locale, e.g. `() => import('./intl/fr-FR.json')`.
+ * The promise may resolve with the strings, or a module with the strings as its default export.
+ */
+export type LocalizedStringLoader<K extends string, T extends LocalizedString> = () => Promise<Record<K, T> | {default: Record<K, T>}>;
+
+/** A mapping of languages to localized strings, or functions to load them on demand. */
+export type LocalizedStringLoaders<K extends string, T extends LocalizedString> = {
+  [lang: string]: Record<K, T> | LocalizedStringLoader<K, T>
+};
+
 const localeSymbol = Symbol.for('react-aria.i18n.locale');
 const stringsSymbol = Symbol.for('react-aria.i18n.strings');
 let cachedGlobalStrings: {[packageName: string]: LocalizedStringDictionary<any, any>} | null | undefined = undefined;
 
 /**
  * Stores a mapping of localized strings. Can be used to find the
- * closest available string for a given locale.
+ * closest available string for a given locale. The strings for each locale
+ * may also be loaded on demand, in which case `loadLocale` must be called
+ * before strings for that locale are accessed.
  */
 export class LocalizedStringDictionary<K extends string = string, T extends LocalizedString = string> {
   private strings: LocalizedStrings<K, T>;
+  private loaders: {[lang: string]: LocalizedStringLoader<K, T>};
+  private promises: Map<string, Promise<void>> = new Map();
+  private errors: Map<string, unknown> = new Map();
   private defaultLocale: string;
 
-  constructor(messages: LocalizedStrings<K, T>, defaultLocale: string = 'en-US') {
+  constructor(messages: LocalizedStrings<K, T> | LocalizedStringLoaders<K, T>, defaultLocale: string = 'en-US') {
     // Clone messages so we don't modify the original object.
     // Filter out entries with falsy values which may have been caused by applying optimize-locales-plugin.
-    this.strings = Object.fromEntries(
-      Object.entries(messages).filter(([, v]) => v)
-    );
+    this.strings = {};
+    this.loaders = {};
+    for (let [lang, v] of Object.entries(messages)) {
+      if (typeof v === 'function') {
+        this.loaders[lang] = v;
+      } else if (v) {
+        this.strings[lang] = v;
+      }
+    }
     this.defaultLocale = defaultLocale;
   }
 
@@ -52,13 +74,67 @@ export class LocalizedStringDictionary<K extends string = string, T extends Loca
   getStringsForLocale(locale: string): Record<K, T> {
     let strings = this.strings[locale];
     if (!strings) {
-      strings = getStringsForLocale(locale, this.strings, this.defaultLocale);
+      let lang = this.findLocale(locale);
+      strings = this.strings[lang];
+      if (!strings && this.loaders[lang]) {
+        throw new Error(`Strings for the ${locale} locale have not been loaded. Call loadLocale before accessing them.`);
+      }
+
       this.strings[locale] = strings;
     }
 
     return strings;
   }
 
+  /** Returns whether the strings for the given locale are available, i.e. they were provided up front or have finished loading. */
+  isLocaleLoaded(locale: string): boolean {
+    if (this.strings[locale]) {
+      return true;
+    }
+
+    let lang = this.findLocale(locale);
+    return !this.loaders[lang] || !!this.strings[lang];
+  }
+
+  /** Returns the error from the last attempt to load the strings for the given locale, if it failed. */
+  getLoadError(locale: string): unknown {
+    return this.errors.get(this.findLocale(locale));
+  }
+
+  /**
+   * Loads the strings for the given locale, or the closest available locale, if they are not already loaded.
+   * Concurrent calls for the same locale share a single request. If loading fails, the returned promise rejects,
+   * and the next call starts a new request.
+   */
+  loadLocale(locale: string): Promise<void> {
+    let lang = this.findLocale(locale);
+    let loader = this.loaders[lang];
+    if (!loader || this.strings[lang]) {
+      return Promise.resolve();
+    }
+
+    let promise = this.promises.get(lang);
+    if (!promise) {
+      this.errors.delete(lang);
+      promise = loader().then(res => {
+        // Strings never contain objects, so an object default export must be a module.
+        this.strings[lang] = 'default' in res && typeof res.default === 'object' ? res.default : res as Record<K, T>;
+      }, err => {
+        // Allow loading to be retried after a failure.
+        this.promises.delete(lang);
+        this.errors.set(lang, err);
+        throw err;
+      });
+      this.promises.set(lang, promise);
+    }
+
+    return promise;
+  }
+
+  private findLocale(locale: string): string {
+    return findLocale(locale, [...Object.keys(this.strings), ...Object.keys(this.loaders)], this.defaultLocale);
+  }
+
   static getGlobalDictionaryForPackage<K extends string = string, T extends LocalizedString = string>(packageName: string): LocalizedStringDictionary<K, T> | null {
     if (typeof window === 'undefined') {
       return null;
@@ -86,10 +162,10 @@ export class LocalizedStringDictionary<K extends string = string, T extends Loca
   }
 }
 
-function getStringsForLocale<K extends string, T extends LocalizedString>(locale: string, strings: LocalizedStrings<K, T>, defaultLocale = 'en-US') {
+function findLocale(locale: string, locales: string[], defaultLocale = 'en-US'): string {
   // If there is an exact match, use it.
-  if (strings[locale]) {
-    return strings[locale];
+  if (locales.includes(locale)) {
+    return locale;
   }
 
   // Attempt to find the closest match by language.
@@ -98,18 +174,18 @@ function getStringsForLocale<K extends string, T extends LocalizedString>(locale
   // This could be replaced with Intl.LocaleMatcher once it is supported.
   // https://github.com/tc39/proposal-intl-localematcher
   let language = getLanguage(locale);
-  if (strings[language]) {
-    return strings[language];
+  if (locales.includes(language)) {
+    return language;
   }
 
-  for (let key in strings) {
+  for (let key of locales) {
     if (key.startsWith(language + '-')) {
-      return strings[key];
+      return key;
     }
   }
 
   // Nothing close, use english.
-  return strings[defaultLocale];
+  return defaultLocale;
 }
 
 function getLanguage(locale: string) {
@@ -12,16 +12,38 @@
 
 import type {LocalizedStringDictionary} from './LocalizedStringDictionary';
 
-export type Variables = Record<string, string | number | boolean> | undefined;
+export type Variables = Record<string, string | number | boolean | Date> | undefined;
 export type LocalizedString = string | ((args: Variables, formatter?: LocalizedStringFormatter<any, any>) => string);
 type InternalString = string | (() => string);
 
 const pluralRulesCache = new Map<string, Intl.PluralRules>();
 const numberFormatCache = new Map<string, Intl.NumberFormat>();
+const dateFormatCache = new Map<string, Intl.DateTimeFormat>();
+
+const NUMBER_KEY_REGEX = /^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/;
+const DATE_FIELDS = ['weekday', 'era', 'year', 'month', 'day', 'dayPeriod', 'hour', 'minute', 'second', 'fractionalSecondDigits', 'timeZoneName'];
+const DIGITS_OPTIONS = ['minimumIntegerDigits', 'minimumFractionDigits', 'maximumFractionDigits', 'minimumSignificantDigits', 'maximumSignificantDigits'] as const;
+const DATE_ONLY_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+type DateTimeStyle = Intl.DateTimeFormatOptions['dateStyle'];
+
+/** A value annotated with a function in a MessageFormat 2 message, e.g. `{$count :number}`. */
+export class MessageValue {
+  value: unknown;
+  fn: string;
+  options: Record<string, unknown>;
+
+  constructor(value: unknown, fn: string, options: Record<string, unknown>) {
+    this.value = value;
+    this.fn = fn;
+    this.options = options;
+  }
+}
 
 /**
  * Formats localized strings from a LocalizedStringDictionary. Supports interpolating variables,
- * selecting the correct pluralization, and formatting numbers for the locale.
+ * selecting the correct pluralization, and formatting numbers and dates for the locale.
+ * Strings are compiled from ICU MessageFormat 1 or MessageFormat 2 messages by `@internationalized/string-compiler`.
  */
 export class LocalizedStringFormatter<K extends string = string, T extends LocalizedString = string> {
   private locale: string;
@@ -44,29 +66,219 @@ export class LocalizedStringFormatter<K extends string = string, T extends Local
       return typeof opt === 'function' ? opt() : opt;
     }
 
-    let key = this.locale + ':' + type;
-    let pluralRules = pluralRulesCache.get(key);
-    if (!pluralRules) {
-      pluralRules = new Intl.PluralRules(this.locale, {type});
-      pluralRulesCache.set(key, pluralRules);
-    }
-
-    let selected = pluralRules.select(count);
+    let selected = this.getPluralRules({type}).select(count);
     opt = options[selected] || options.other;
     return typeof opt === 'function' ? opt() : opt;
   }
 
-  protected number(value: number): string {
-    let numberFormat = numberFormatCache.get(this.locale);
+  protected number(value: number, options?: Intl.NumberFormatOptions): string {
+    let key = this.locale + (options ? JSON.stringify(options) : '');
+    let numberFormat = numberFormatCache.get(key);
     if (!numberFormat) {
-      numberFormat = new Intl.NumberFormat(this.locale);
-      numberFormatCache.set(this.locale, numberFormat);
+      numberFormat = new Intl.NumberFormat(this.locale, options);
+      numberFormatCache.set(key, numberFormat);
     }
     return numberFormat.format(value);
   }
 
+  protected dateTime(value: Date, options: Intl.DateTimeFormatOptions): string {
+    let key = this.locale + JSON.stringify(options);
+    let dateFormat = dateFormatCache.get(key);
+    if (!dateFormat) {
+      dateFormat = new Intl.DateTimeFormat(this.locale, options);
+      dateFormatCache.set(key, dateFormat);
+    }
+    return dateFormat.format(value);
+  }
+
   protected select(options: Record<string, InternalString>, value: string): string {
     let opt = options[value] || options.other;
     return typeof opt === 'function' ? opt() : opt;
   }
+
+  /**
+   * Resolves the operand of a MessageFormat 2 expression with a function annotation. Options are inherited
+   * from a variable declared with the same function, e.g. `.local $x = {$count :number}`.
+   */
+  protected value(operand: unknown, fn: string, options: Record<string, unknown>): MessageValue {
+    let resolvedOptions: Record<string, unknown> = {};
+    if (operand instanceof MessageValue) {
+      if (operand.fn === fn) {
+        resolvedOptions = {...operand.options};
+      }
+      operand = operand.value;
+    }
+
+    for (let key in options) {
+      let option = options[key];
+      resolvedOptions[key] = option instanceof MessageValue ? option.value : option;
+    }
+
+    return new MessageValue(operand, fn, resolvedOptions);
+  }
+
+  /** Formats a MessageFormat 2 placeholder according to its function annotation, if any. */
+  protected formatValue(value: unknown): string {
+    if (!(value instanceof MessageValue)) {
+      if (typeof value === 'number') {
+        return this.number(value);
+      }
+
+      if (value instanceof Date) {
+        return this.dateTime(value, {dateStyle: 'medium', timeStyle: 'short'});
+      }
+
+      return String(value);
+    }
+
+    switch (value.fn) {
+      case 'number':
+      case 'integer':
+      case 'percent':
+      case 'currency':
+        return this.number(Number(value.value), getNumberFormatOptions(value.fn, value.options));
+      case 'date':
+      case 'time':
+      case 'datetime':
+        return this.dateTime(toDate(value.value), getDateTimeFormatOptions(value.fn, value.options));
+      default:
+        return String(value.value);
+    }
+  }
+
+  /**
+   * Selects a variant of a MessageFormat 2 `.match` statement. Each variant has a key per selector, which may
+   * match exactly, match the plural category of a number, or be the `*` catch-all key. The variant with the best
+   * matching keys is chosen, with earlier selectors taking priority over later ones.
+   */
+  protected match(selectors: unknown[], variants: [string[], InternalString][]): string {
+    let selected: InternalString = '';
+    let selectedRanks: number[] | null = null;
+    for (let [keys, pattern] of variants) {
+      let ranks = keys.map((key, i) => this.matchKey(selectors[i], key));
+      if (ranks.some(rank => rank < 0)) {
+        continue;
+      }
+
+      let index = selectedRanks ? ranks.findIndex((rank, i) => rank !== selectedRanks![i]) : 0;
+      if (!selectedRanks || (index >= 0 && ranks[index] < selectedRanks[index])) {
+        selected = pattern;
+        selectedRanks = ranks;
+      }
+    }
+
+    return typeof selected === 'function' ? selected() : selected;
+  }
+
+  // Returns 0 for an exact match, 1 for a plural category match, 2 for the catch-all key, and -1 if the key does not match.
+  private matchKey(selector: unknown, key: string): number {
+    if (key === '*') {
+      return 2;
+    }
+
+    if (selector instanceof MessageValue && (selector.fn === 'number' || selector.fn === 'integer')) {
+      let value = Number(selector.value);
+      if (selector.fn === 'integer') {
+        value = Math.sign(value) * Math.round(Math.abs(value));
+      }
+
+      if (NUMBER_KEY_REGEX.test(key) && Number(key) === value) {
+        return 0;
+      }
+
+      let select = selector.options.select || 'plural';
+      if (select === 'exact') {
+        return -1;
+      }
+
+      let {minimumIntegerDigits, minimumFractionDigits, maximumFractionDigits, minimumSignificantDigits, maximumSignificantDigits} = getNumberFormatOptions(selector.fn, selector.options);
+      let pluralRules = this.getPluralRules({
+        type: select === 'ordinal' ? 'ordinal' : 'cardinal',
+        minimumIntegerDigits,
+        minimumFractionDigits,
+        maximumFractionDigits,
+        minimumSignificantDigits,
+        maximumSignificantDigits
+      });
+
+      return pluralRules.select(value) === key ? 1 : -1;
+    }
+
+    let value = selector instanceof MessageValue ? selector.value : selector;
+    return String(value) === key ? 0 : -1;
+  }
+
+  private getPluralRules(options: Intl.PluralRulesOptions): Intl.PluralRules {
+    let key = this.locale + JSON.stringify(options);
+    let pluralRules = pluralRulesCache.get(key);
+    if (!pluralRules) {
+      pluralRules = new Intl.PluralRules(this.locale, options);
+      pluralRulesCache.set(key, pluralRules);
+    }
+
+    return pluralRules;
+  }
+}
+
+function getNumberFormatOptions(fn: string, options: Record<string, unknown>): Intl.NumberFormatOptions {
+  // The select option only affects selection, and option values from literals are strings.
+  let formatOptions: Intl.NumberFormatOptions = Object.fromEntries(Object.entries(options).filter(([key]) => key !== 'select'));
+  for (let key of DIGITS_OPTIONS) {
+    if (formatOptions[key] != null) {
+      formatOptions[key] = Number(formatOptions[key]);
+    }
+  }
+
+  if (formatOptions.roundingIncrement != null) {
+    formatOptions.roundingIncrement = Number(formatOptions.roundingIncrement) as Intl.NumberFormatOptions['roundingIncrement'];
+  }
+
+  if (options.useGrouping === 'never' || options.useGrouping === 'false') {
+    formatOptions.useGrouping = false;
+  }
+
+  if (fn === 'integer') {
+    formatOptions.minimumFractionDigits = 0;
+    formatOptions.maximumFractionDigits = 0;
+  } else if (fn === 'percent' || fn === 'currency') {
+    formatOptions.style = fn;
+  }
+
+  return formatOptions;
+}
+
+function getDateTimeFormatOptions(fn: string, options: Record<string, unknown>): Intl.DateTimeFormatOptions {
+  let {style, dateStyle, timeStyle, ...fields}: Intl.DateTimeFormatOptions & {style?: DateTimeStyle} = options;
+  let formatOptions: Intl.DateTimeFormatOptions = fields;
+  if (DATE_FIELDS.some(field => field in formatOptions)) {
+    return formatOptions;
+  }
+
+  if (fn === 'date') {
+    formatOptions.dateStyle = style || dateStyle || 'medium';
+  } else if (fn === 'time') {
+    formatOptions.timeStyle = style || timeStyle || 'short';
+  } else if (dateStyle || timeStyle) {
+    formatOptions.dateStyle = dateStyle;
+    formatOptions.timeStyle = timeStyle;
+  } else {
+    formatOptions.dateStyle = style || 'medium';
+    formatOptions.timeStyle = style || 'short';
+  }
+
+  return formatOptions;
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  // Date-only strings are parsed as UTC by the Date constructor, which may shift them to the previous day.
+  let match = typeof value === 'string' ? value.match(DATE_ONLY_REGEX) : null;
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+
+  return new Date(value as string | number);
 }
@@ -11,6 +11,6 @@
  */
 
 export type {Variables, LocalizedString} from './LocalizedStringFormatter';
-export type {LocalizedStrings} from './LocalizedStringDictionary';
+export type {LocalizedStrings, LocalizedStringLoader, LocalizedStringLoaders} from './LocalizedStringDictionary';
 export {LocalizedStringDictionary} from './LocalizedStringDictionary';
 export {LocalizedStringFormatter} from './LocalizedStringFormatter';
@@ -53,4 +53,88 @@ describe('LocalizedStringDictionary', function () {
       expect(localizedStringDictionary.getStringForLocale('hello', 'ja-JP')).toBe('Hola');
     });
   });
+
+  describe('loadLocale', function () {
+    let loadSpanish, messages;
+    beforeEach(function () {
+      loadSpanish = jest.fn(() => Promise.resolve({default: {'hello': 'Hola', 'goodbye': 'Adiós'}}));
+      messages = {
+        'en-US': {
+          'hello': 'Hello',
+          'goodbye': 'Good bye'
+        },
+        'es-ES': loadSpanish,
+        'it-IT': () => Promise.resolve({'hello': 'Ciao', 'goodbye': 'Arrivederci'})
+      };
+    });
+
+    it('throws when strings for a locale are accessed before they are loaded', function () {
+      const localizedStringDictionary = new LocalizedStringDictionary(messages);
+      expect(localizedStringDictionary.isLocaleLoaded('es-ES')).toBe(false);
+      expect(() => localizedStringDictionary.getStringForLocale('hello', 'es-ES')).toThrow(/have not been loaded/);
+      expect(loadSpanish).not.toHaveBeenCalled();
+    });
+
+    it('loads strings for a locale on demand', async function () {
+      const localizedStringDictionary = new LocalizedStringDictionary(messages);
+      await localizedStringDictionary.loadLocale('es-ES');
+      expect(localizedStringDictionary.isLocaleLoaded('es-ES')).toBe(true);
+      expect(localizedStringDictionary.getStringForLocale('goodbye', 'es-ES')).toBe('Adiós');
+
+      await localizedStringDictionary.loadLocale('it-IT');
+      expect(localizedStringDictionary.getStringForLocale('hello', 'it-IT')).toBe('Ciao');
+    });
+
+    it('uses closest match by language when loading a locale', async function () {
+      const localizedStringDictionary = new LocalizedStringDictionary(messages);
+      expect(localizedStringDictionary.isLocaleLoaded('es-MX')).toBe(false);
+      await localizedStringDictionary.loadLocale('es-MX');
+      expect(localizedStringDictionary.isLocaleLoaded('es-ES')).toBe(true);
+      expect(localizedStringDictionary.getStringForLocale('hello', 'es-MX')).toBe('Hola');
+    });
+
+    it('shares a single request between concurrent loads', async function () {
+      const localizedStringDictionary = new LocalizedStringDictionary(messages);
+      await Promise.all([
+        localizedStringDictionary.loadLocale('es-ES'),
+        localizedStringDictionary.loadLocale('es-MX')
+      ]);
+      await localizedStringDictionary.loadLocale('es-ES');
+      expect(loadSpanish).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not load strings that were provided up front', async function () {
+      const localizedStringDictionary = new LocalizedStringDictionary(messages);
+      expect(localizedStringDictionary.isLocaleLoaded('en-US')).toBe(true);
+      expect(localizedStringDictionary.isLocaleLoaded('hy-AM')).toBe(true);
+      await localizedStringDictionary.loadLocale('hy-AM');
+      expect(localizedStringDictionary.getStringForLocale('hello', 'hy-AM')).toBe('Hello');
+      expect(loadSpanish).not.toHaveBeenCalled();
+    });
+
+    it('rejects when loading fails', async function () {
+      const localizedStringDictionary = new LocalizedStringDictionary({
+        'en-US': {'hello': 'Hello'},
+        'fr-FR': () => Promise.reject(new Error('Network error'))
+      });
+      await expect(localizedStringDictionary.loadLocale('fr-FR')).rejects.toThrow('Network error');
+      expect(localizedStringDictionary.isLocaleLoaded('fr-FR')).toBe(false);
+    });
+
+    it('retries loading after a failure', async function () {
+      let loadFrench = jest.fn()
+        .mockImplementationOnce(() => Promise.reject(new Error('Network error')))
+        .mockImplementationOnce(() => Promise.resolve({'hello': 'Bonjour'}));
+      const localizedStringDictionary = new LocalizedStringDictionary({
+        'en-US': {'hello': 'Hello'},
+        'fr-FR': loadFrench
+      });
+      await expect(localizedStringDictionary.loadLocale('fr-FR')).rejects.toThrow('Network error');
+      expect(localizedStringDictionary.getLoadError('fr-FR')).toEqual(new Error('Network error'));
+      await localizedStringDictionary.loadLocale('fr-FR');
+      expect(localizedStringDictionary.getLoadError('fr-FR')).toBeUndefined();
+      expect(loadFrench).toHaveBeenCalledTimes(2);
+      expect(localizedStringDictionary.getStringForLocale('hello', 'fr-FR')).toBe('Bonjour');
+    });
+  });
 });
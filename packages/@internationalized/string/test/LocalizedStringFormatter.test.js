@@ -0,0 +1,115 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the 'License');
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {compileString} from '@internationalized/string-compiler';
+import {LocalizedStringDictionary, LocalizedStringFormatter} from '..';
+
+const MF2 = {messageFormatVersion: 2};
+
+function format(locale, message, variables, options) {
+  let string = new Function('return ' + compileString(message, options))();
+  let formatter = new LocalizedStringFormatter(locale, new LocalizedStringDictionary({[locale]: {message: string}}, locale));
+  return formatter.format('message', variables);
+}
+
+describe('LocalizedStringFormatter', function () {
+  describe('MessageFormat 1', function () {
+    it('should format plurals', function () {
+      let message = '{count, plural, =0 {No items} one {# item} other {# items}}';
+      expect(format('en-US', message, {count: 0})).toBe('No items');
+      expect(format('en-US', message, {count: 1})).toBe('1 item');
+      expect(format('en-US', message, {count: 1234})).toBe('1,234 items');
+    });
+
+    it('should not treat messages as MessageFormat 2 unless requested', function () {
+      let message = '{gender, select, female {|she|} other {|they|}}';
+      expect(format('en-US', message, {gender: 'female'})).toBe('|she|');
+      expect(format('en-US', message, {gender: 'male'})).toBe('|they|');
+    });
+  });
+
+  describe('MessageFormat 2', function () {
+    it('should format simple messages', function () {
+      expect(format('en-US', 'Hello {$name}!', {name: 'Devon'}, MF2)).toBe('Hello Devon!');
+      expect(format('en-US', '{{Hello {$name}!}}', {name: 'Devon'}, MF2)).toBe('Hello Devon!');
+      expect(format('en-US', 'Literal {|a \\| b|}, \\{braces\\}, and `$` signs', {}, MF2)).toBe('Literal a | b, {braces}, and `$` signs');
+      expect(format('en-US', 'Click {#link}here{/link} {$x :number @translate=no}', {x: 1000}, MF2)).toBe('Click here 1,000');
+    });
+
+    it('should format numbers', function () {
+      expect(format('en-US', '{$n :number}', {n: 1234.5}, MF2)).toBe('1,234.5');
+      expect(format('de-DE', '{$n :number minimumFractionDigits=2}', {n: 1234.5}, MF2)).toBe('1.234,50');
+      expect(format('en-US', '{$n :number minimumFractionDigits=$digits}', {n: 2, digits: 3}, MF2)).toBe('2.000');
+      expect(format('en-US', '{$n :integer}', {n: 4.7}, MF2)).toBe('5');
+      expect(format('en-US', '{$n :percent}', {n: 0.25}, MF2)).toBe('25%');
+      expect(format('en-US', '{$n :currency currency=EUR}', {n: 5}, MF2)).toBe('€5.00');
+      expect(format('en-US', '{|1234| :number}', {}, MF2)).toBe('1,234');
+    });
+
+    it('should format dates and times', function () {
+      let date = new Date(2024, 6, 4, 15, 30);
+      expect(format('en-US', '{$d :date}', {d: date}, MF2)).toBe('Jul 4, 2024');
+      expect(format('en-US', '{$d :date style=long}', {d: date}, MF2)).toBe('July 4, 2024');
+      expect(format('en-US', '{$d :date weekday=long}', {d: date}, MF2)).toBe('Thursday');
+      expect(format('en-US', '{$d :time}', {d: date}, MF2)).toBe('3:30 PM');
+      expect(format('en-US', '{$d :datetime dateStyle=short}', {d: date}, MF2)).toBe('7/4/24');
+      expect(format('en-US', '{$d :date}', {d: '2024-07-04'}, MF2)).toBe('Jul 4, 2024');
+    });
+
+    it('should support declarations', function () {
+      let message = '.input {$amount :number minimumFractionDigits=2}\n.local $total = {$amount :number signDisplay=always}\n{{{$amount} ({$total})}}';
+      expect(format('en-US', message, {amount: 5}, MF2)).toBe('5.00 (+5.00)');
+    });
+
+    it('should select plural variants', function () {
+      let message = '.input {$count :number}\n.match $count\n0 {{No items}}\none {{One item}}\n* {{{$count} items}}';
+      expect(format('en-US', message, {count: 0}, MF2)).toBe('No items');
+      expect(format('en-US', message, {count: 1}, MF2)).toBe('One item');
+      expect(format('en-US', message, {count: 1500}, MF2)).toBe('1,500 items');
+      expect(format('fr-FR', message, {count: 1.5}, MF2)).toBe('One item');
+
+      let ordinal = '.input {$n :number select=ordinal}\n.match $n\none {{{$n}st}}\ntwo {{{$n}nd}}\nfew {{{$n}rd}}\n* {{{$n}th}}';
+      expect(format('en-US', ordinal, {n: 22}, MF2)).toBe('22nd');
+      expect(format('en-US', ordinal, {n: 11}, MF2)).toBe('11th');
+
+      let exact = '.input {$n :number select=exact}\n.match $n\none {{one}}\n* {{other}}';
+      expect(format('en-US', exact, {n: 1}, MF2)).toBe('other');
+    });
+
+    it('should select variants with multiple selectors', function () {
+      let message = `.input {$photos :number}
+.input {$gender :string}
+.match $gender $photos
+female 1 {{She added a photo}}
+female * {{She added {$photos} photos}}
+* one {{They added a photo}}
+* * {{They added {$photos} photos}}`;
+      expect(format('en-US', message, {gender: 'female', photos: 1}, MF2)).toBe('She added a photo');
+      expect(format('en-US', message, {gender: 'female', photos: 5}, MF2)).toBe('She added 5 photos');
+      expect(format('en-US', message, {gender: 'male', photos: 1}, MF2)).toBe('They added a photo');
+      expect(format('en-US', message, {gender: 'male', photos: 5}, MF2)).toBe('They added 5 photos');
+    });
+
+    it('should support expressions as selectors', function () {
+      let message = '.match {$count :number}\none {{One}}\n* {{Other}}';
+      expect(format('en-US', message, {count: 1}, MF2)).toBe('One');
+      expect(format('en-US', message, {count: 2}, MF2)).toBe('Other');
+    });
+
+    it('should throw on invalid messages', function () {
+      expect(() => compileString('.input {$x :number}\n.match $x\none {{One}}', MF2)).toThrow(/fallback variant/);
+      expect(() => compileString('.input {$x :number}\n.match $x\none two {{One}}\n* {{Other}}', MF2)).toThrow(/Expected 1 variant keys/);
+      expect(() => compileString('{$x :unknown}', MF2)).toThrow(/Unsupported function/);
+      expect(() => compileString('{{Unterminated {$x}', MF2)).toThrow(/Expected }}/);
+    });
+  });
+});
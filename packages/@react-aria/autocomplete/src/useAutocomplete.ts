@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-import {AriaLabelingProps, BaseEvent, DOMProps, FocusableElement, FocusEvents, KeyboardEvents, Node, RefObject, ValueBase} from '@react-types/shared';
+import {AriaLabelingProps, BaseEvent, DOMProps, FilterResult, FocusableElement, FocusEvents, KeyboardEvents, Node, RefObject, ValueBase} from '@react-types/shared';
 import {AriaTextFieldProps} from '@react-aria/textfield';
 import {AutocompleteProps, AutocompleteState} from '@react-stately/autocomplete';
 import {CLEAR_FOCUS_EVENT, FOCUS_EVENT, getActiveElement, getOwnerDocument, isAndroid, isCtrlKeyPressed, isIOS, mergeProps, mergeRefs, useEffectEvent, useEvent, useLabels, useObjectRef, useSlotId} from '@react-aria/utils';
@@ -38,8 +38,9 @@ export interface AriaAutocompleteProps<T> extends AutocompleteProps {
   /**
    * An optional filter function used to determine if a option should be included in the autocomplete list.
    * Include this if the items you are providing to your wrapped collection aren't filtered by default.
+   * If it returns a scored match, such as from `useFilter().fuzzy`, items are sorted by descending score.
    */
-  filter?: (textValue: string, inputValue: string, node: Node<T>) => boolean,
+  filter?: (textValue: string, inputValue: string, node: Node<T>) => FilterResult,
 
   /**
    * Whether or not to focus the first item in the collection after a filter is performed. Note this is only applicable
@@ -70,7 +71,7 @@ export interface AutocompleteAria<T> {
   /** Ref to attach to the wrapped collection. */
   collectionRef: RefObject<HTMLElement | null>,
   /** A filter function that returns if the provided collection node should be filtered out of the collection. */
-  filter?: (nodeTextValue: string, node: Node<T>) => boolean
+  filter?: (nodeTextValue: string, node: Node<T>) => FilterResult
 }
 
 /**
@@ -13,9 +13,13 @@
 export {useCalendar} from './useCalendar';
 export {useRangeCalendar} from './useRangeCalendar';
 export {useCalendarGrid} from './useCalendarGrid';
+export {useCalendarMonthGrid} from './useCalendarMonthGrid';
+export {useCalendarYearGrid} from './useCalendarYearGrid';
 export {useCalendarCell} from './useCalendarCell';
 
-export type {AriaCalendarProps, AriaRangeCalendarProps, CalendarProps, DateValue, RangeCalendarProps} from '@react-types/calendar';
+export type {AriaCalendarProps, AriaRangeCalendarProps, CalendarProps, CalendarSelectionGranularity, DateValue, RangeCalendarProps} from '@react-types/calendar';
 export type {CalendarAria} from './useCalendarBase';
 export type {AriaCalendarGridProps, CalendarGridAria} from './useCalendarGrid';
+export type {AriaCalendarMonthGridProps, CalendarMonthGridAria} from './useCalendarMonthGrid';
+export type {AriaCalendarYearGridProps, CalendarYearGridAria} from './useCalendarYearGrid';
 export type {AriaCalendarCellProps, CalendarCellAria} from './useCalendarCell';
@@ -15,8 +15,8 @@ import {AriaButtonProps} from '@react-types/button';
 import {AriaLabelingProps, DOMAttributes, DOMProps} from '@react-types/shared';
 import {CalendarPropsBase} from '@react-types/calendar';
 import {CalendarState, RangeCalendarState} from '@react-stately/calendar';
-import {filterDOMProps, mergeProps, useLabels, useSlotId, useUpdateEffect} from '@react-aria/utils';
-import {hookData, useSelectedDateDescription, useVisibleRangeDescription} from './utils';
+import {filterDOMProps, mergeProps, useDescription, useLabels, useSlotId, useUpdateEffect} from '@react-aria/utils';
+import {hasPeriodCells, hookData, useComparisonRangeDescription, useSelectedDateDescription, useVisibleRangeDescription} from './utils';
 // @ts-ignore
 import intlMessages from '../intl/*.json';
 import {useLocalizedStringFormatter} from '@react-aria/i18n';
@@ -39,8 +39,9 @@ export function useCalendarBase(props: CalendarPropsBase & DOMProps & AriaLabeli
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/calendar');
   let domProps = filterDOMProps(props);
 
-  let title = useVisibleRangeDescription(state.visibleRange.start, state.visibleRange.end, state.timeZone, false);
-  let visibleRangeDescription = useVisibleRangeDescription(state.visibleRange.start, state.visibleRange.end, state.timeZone, true);
+  let formatYears = hasPeriodCells(state);
+  let title = useVisibleRangeDescription(state.visibleRange.start, state.visibleRange.end, state.timeZone, false, formatYears);
+  let visibleRangeDescription = useVisibleRangeDescription(state.visibleRange.start, state.visibleRange.end, state.timeZone, true, formatYears);
 
   // Announce when the visible date range changes
   useUpdateEffect(() => {
@@ -59,6 +60,10 @@ export function useCalendarBase(props: CalendarPropsBase & DOMProps & AriaLabeli
     // handle an update to the caption that describes the currently selected range, to announce the new value
   }, [selectedDateDescription]);
 
+  // Describe the comparison range, if any, on the calendar itself so it is announced when focus enters.
+  let comparisonRangeDescription = useComparisonRangeDescription(state);
+  let comparisonDescriptionProps = useDescription(comparisonRangeDescription);
+
   let errorMessageId = useSlotId([Boolean(props.errorMessage), props.isInvalid, props.validationState]);
 
   // Pass the label to the child grid elements.
@@ -94,7 +99,7 @@ export function useCalendarBase(props: CalendarPropsBase & DOMProps & AriaLabeli
     calendarProps: mergeProps(domProps, labelProps, {
       role: 'application',
       'aria-details': props['aria-details'] || undefined,
-      'aria-describedby': props['aria-describedby'] || undefined
+      'aria-describedby': [props['aria-describedby'], comparisonDescriptionProps['aria-describedby']].filter(Boolean).join(' ') || undefined
     }),
     nextButtonProps: {
       onPress: () => state.focusNextPage(),
@@ -14,7 +14,7 @@ import {CalendarDate, isEqualDay, isSameDay, isToday} from '@internationalized/d
 import {CalendarState, RangeCalendarState} from '@react-stately/calendar';
 import {DOMAttributes, RefObject} from '@react-types/shared';
 import {focusWithoutScrolling, getScrollParent, mergeProps, scrollIntoViewport, useDeepMemo, useDescription} from '@react-aria/utils';
-import {getEraFormat, hookData} from './utils';
+import {getCellRange, getEraFormat, hasPeriodCells, hookData} from './utils';
 import {getInteractionModality, usePress} from '@react-aria/interactions';
 // @ts-ignore
 import intlMessages from '../intl/*.json';
@@ -69,7 +69,12 @@ export interface CalendarCellAria {
   isOutsideVisibleRange: boolean,
   /** Whether the cell is part of an invalid selection. */
   isInvalid: boolean,
-  /** The day number formatted according to the current locale. */
+  /** Whether the cell is within the comparison range of a range calendar. */
+  isInComparisonRange: boolean,
+  /**
+   * The day number formatted according to the current locale. In month, quarter, and year grids,
+   * this is the month name, range of month names, or year number instead.
+   */
   formattedDate: string
 }
 
@@ -81,10 +86,12 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
   let {date, isDisabled} = props;
   let {errorMessageId, selectedDateDescription} = hookData.get(state)!;
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/calendar');
+  let isPeriodCell = hasPeriodCells(state);
+  let cellRange = getCellRange(state, date);
   let dateFormatter = useDateFormatter({
-    weekday: 'long',
-    day: 'numeric',
-    month: 'long',
+    weekday: isPeriodCell ? undefined : 'long',
+    day: isPeriodCell ? undefined : 'numeric',
+    month: state.selectionGranularity === 'year' ? undefined : 'long',
     year: 'numeric',
     era: getEraFormat(date),
     timeZone: state.timeZone
@@ -97,20 +104,25 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
   let isInvalid = state.isValueInvalid && Boolean(
     'highlightedRange' in state
       ? !state.anchorDate && state.highlightedRange && date.compare(state.highlightedRange.start) >= 0 && date.compare(state.highlightedRange.end) <= 0
-      : state.value && isSameDay(state.value, date)
+      : state.value && isSameDay(state.getSelectionPeriod(state.value).start, state.getSelectionPeriod(date).start)
   );
 
   if (isInvalid) {
     isSelected = true;
   }
 
+  let isInComparisonRange = 'isInComparisonRange' in state && state.isInComparisonRange(date);
+
   // For performance, reuse the same date object as before if the new date prop is the same.
   // This allows subsequent useMemo results to be reused.
   date = useDeepMemo<CalendarDate>(date, isEqualDay);
   let nativeDate = useMemo(() => date.toDate(state.timeZone), [date, state.timeZone]);
+  let cellEnd = useDeepMemo<CalendarDate>(cellRange.end, isEqualDay);
+  let nativeEndDate = useMemo(() => cellEnd.toDate(state.timeZone), [cellEnd, state.timeZone]);
 
   // aria-label should be localize Day of week, Month, Day and Year without Time.
-  let isDateToday = isToday(date, state.timeZone);
+  // Month, quarter, and year cells are labeled with the range of dates they represent instead.
+  let isDateToday = !isPeriodCell && isToday(date, state.timeZone);
   let label = useMemo(() => {
     let label = '';
 
@@ -120,12 +132,12 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
       'highlightedRange' in state &&
       state.value &&
       !state.anchorDate &&
-      (isSameDay(date, state.value.start) || isSameDay(date, state.value.end))
+      (isSameDay(date, state.value.start) || isSameDay(cellEnd, state.value.end))
     ) {
       label = selectedDateDescription + ', ';
     }
 
-    label += dateFormatter.format(nativeDate);
+    label += isPeriodCell ? dateFormatter.formatRange(nativeDate, nativeEndDate) : dateFormatter.format(nativeDate);
     if (isDateToday) {
       // If date is today, set appropriate string depending on selected state:
       label = stringFormatter.format(isSelected ? 'todayDateSelected' : 'todayDate', {
@@ -144,8 +156,12 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
       label += ', ' + stringFormatter.format('maximumDate');
     }
 
+    if (isInComparisonRange) {
+      label += ', ' + stringFormatter.format('comparisonRangeDate');
+    }
+
     return label;
-  }, [dateFormatter, nativeDate, stringFormatter, isSelected, isDateToday, date, state, selectedDateDescription]);
+  }, [dateFormatter, nativeDate, nativeEndDate, isPeriodCell, cellEnd, stringFormatter, isSelected, isDateToday, date, state, selectedDateDescription, isInComparisonRange]);
 
   // When a cell is focused and this is a range calendar, add a prompt to help
   // screenreader users know that they are in a range selection mode.
@@ -189,7 +205,7 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
             state.setDragging(true);
             isRangeBoundaryPressed.current = true;
             return;
-          } else if (isSameDay(date, state.highlightedRange.end)) {
+          } else if (isSameDay(cellRange.end, state.highlightedRange.end)) {
             state.setAnchorDate(state.highlightedRange.start);
             state.setFocusedDate(date);
             state.setDragging(true);
@@ -258,7 +274,7 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
           // For mouse, this is unnecessary because users will see the indication on hover. For screen readers,
           // there will be an announcement to "click to finish selecting range" (above).
           state.selectDate(date);
-          let nextDay = date.add({days: 1});
+          let nextDay = cellRange.end.add({days: 1});
           if (state.isInvalid(nextDay)) {
             nextDay = date.subtract({days: 1});
           }
@@ -276,7 +292,7 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
 
   let tabIndex: number | undefined = undefined;
   if (!isDisabled) {
-    tabIndex = isSameDay(date, state.focusedDate) ? 0 : -1;
+    tabIndex = state.focusedDate.compare(date) >= 0 && state.focusedDate.compare(cellRange.end) <= 0 ? 0 : -1;
   }
 
   // Focus the button in the DOM when the state updates.
@@ -298,12 +314,18 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
   }, [isFocused, ref]);
 
   let cellDateFormatter = useDateFormatter({
-    day: 'numeric',
+    day: isPeriodCell ? undefined : 'numeric',
+    month: isPeriodCell && state.selectionGranularity !== 'year' ? 'short' : undefined,
+    year: state.selectionGranularity === 'year' ? 'numeric' : undefined,
     timeZone: state.timeZone,
     calendar: date.calendar.identifier
   });
 
-  let formattedDate = useMemo(() => cellDateFormatter.formatToParts(nativeDate).find(part => part.type === 'day')!.value, [cellDateFormatter, nativeDate]);
+  let formattedDate = useMemo(() => (
+    isPeriodCell
+      ? cellDateFormatter.formatRange(nativeDate, nativeEndDate)
+      : cellDateFormatter.formatToParts(nativeDate).find(part => part.type === 'day')!.value
+  ), [cellDateFormatter, nativeDate, nativeEndDate, isPeriodCell]);
 
   return {
     cellProps: {
@@ -353,6 +375,7 @@ export function useCalendarCell(props: AriaCalendarCellProps, state: CalendarSta
     isUnavailable,
     isOutsideVisibleRange: date.compare(state.visibleRange.start) < 0 || date.compare(state.visibleRange.end) > 0,
     isInvalid,
+    isInComparisonRange,
     formattedDate
   };
 }
@@ -10,10 +10,10 @@
  * governing permissions and limitations under the License.
  */
 
-import {CalendarDate, getWeeksInMonth, startOfWeek, today} from '@internationalized/date';
+import {CalendarDate, getWeekOfYear, getWeeksInMonth, startOfWeek, today} from '@internationalized/date';
 import {CalendarState, RangeCalendarState} from '@react-stately/calendar';
 import {DOMAttributes} from '@react-types/shared';
-import {hookData, useVisibleRangeDescription} from './utils';
+import {hasPeriodCells, hookData, useVisibleRangeDescription} from './utils';
 import {KeyboardEvent, useMemo} from 'react';
 import {mergeProps, useLabels} from '@react-aria/utils';
 import {useDateFormatter, useLocale} from '@react-aria/i18n';
@@ -51,7 +51,9 @@ export interface CalendarGridAria {
   /** A list of week day abbreviations formatted for the current locale, typically used in column headers. */
   weekDays: string[],
   /** The number of weeks in the month. */
-  weeksInMonth: number
+  weeksInMonth: number,
+  /** The week number of each week in the month, according to the week numbering rules of the current locale. */
+  weekNumbers: number[]
 }
 
 /**
@@ -66,6 +68,41 @@ export function useCalendarGrid(props: AriaCalendarGridProps, state: CalendarSta
     firstDayOfWeek
   } = props;
 
+  let gridProps = useCalendarGridProps(startDate, endDate, state);
+
+  let dayFormatter = useDateFormatter({weekday: props.weekdayStyle || 'narrow', timeZone: state.timeZone});
+  let {locale} = useLocale();
+  let weekDays = useMemo(() => {
+    let weekStart = startOfWeek(today(state.timeZone), locale, firstDayOfWeek);
+    return [...new Array(7).keys()].map((index) => {
+      let date = weekStart.add({days: index});
+      let dateDay = date.toDate(state.timeZone);
+      return dayFormatter.format(dateDay);
+    });
+  }, [locale, state.timeZone, dayFormatter, firstDayOfWeek]);
+  let weeksInMonth = getWeeksInMonth(startDate, locale, firstDayOfWeek);
+  let weekNumbers = [...new Array(weeksInMonth).keys()].map(weekIndex => {
+    let date = state.getDatesInWeek(weekIndex, startDate).find(Boolean)!;
+    return getWeekOfYear(date, locale, firstDayOfWeek);
+  });
+
+  return {
+    gridProps,
+    headerProps: {
+      // Column headers are hidden to screen readers to make navigating with a touch screen reader easier.
+      // The day names are already included in the label of each cell, so there's no need to announce them twice.
+      'aria-hidden': true
+    },
+    weekDays,
+    weeksInMonth,
+    weekNumbers
+  };
+}
+
+/**
+ * Provides the keyboard navigation and labeling shared by day, month, and year grids.
+ */
+export function useCalendarGridProps(startDate: CalendarDate, endDate: CalendarDate, state: CalendarState | RangeCalendarState): DOMAttributes {
   let {direction} = useLocale();
 
   let onKeyDown = (e: KeyboardEvent) => {
@@ -133,7 +170,7 @@ export function useCalendarGrid(props: AriaCalendarGridProps, state: CalendarSta
     }
   };
 
-  let visibleRangeDescription = useVisibleRangeDescription(startDate, endDate, state.timeZone, true);
+  let visibleRangeDescription = useVisibleRangeDescription(startDate, endDate, state.timeZone, true, hasPeriodCells(state));
 
   let {ariaLabel, ariaLabelledBy} = hookData.get(state)!;
   let labelProps = useLabels({
@@ -141,34 +178,14 @@ export function useCalendarGrid(props: AriaCalendarGridProps, state: CalendarSta
     'aria-labelledby': ariaLabelledBy
   });
 
-  let dayFormatter = useDateFormatter({weekday: props.weekdayStyle || 'narrow', timeZone: state.timeZone});
-  let {locale} = useLocale();
-  let weekDays = useMemo(() => {
-    let weekStart = startOfWeek(today(state.timeZone), locale, firstDayOfWeek);
-    return [...new Array(7).keys()].map((index) => {
-      let date = weekStart.add({days: index});
-      let dateDay = date.toDate(state.timeZone);
-      return dayFormatter.format(dateDay);
-    });
-  }, [locale, state.timeZone, dayFormatter, firstDayOfWeek]);
-  let weeksInMonth = getWeeksInMonth(startDate, locale, firstDayOfWeek);
 
-  return {
-    gridProps: mergeProps(labelProps, {
-      role: 'grid',
-      'aria-readonly': state.isReadOnly || undefined,
-      'aria-disabled': state.isDisabled || undefined,
-      'aria-multiselectable': ('highlightedRange' in state) || undefined,
-      onKeyDown,
-      onFocus: () => state.setFocused(true),
-      onBlur: () => state.setFocused(false)
-    }),
-    headerProps: {
-      // Column headers are hidden to screen readers to make navigating with a touch screen reader easier.
-      // The day names are already included in the label of each cell, so there's no need to announce them twice.
-      'aria-hidden': true
-    },
-    weekDays,
-    weeksInMonth
-  };
+  return mergeProps(labelProps, {
+    role: 'grid',
+    'aria-readonly': state.isReadOnly || undefined,
+    'aria-disabled': state.isDisabled || undefined,
+    'aria-multiselectable': ('highlightedRange' in state) || undefined,
+    onKeyDown,
+    onFocus: () => state.setFocused(true),
+    onBlur: () => state.setFocused(false)
+  });
 }
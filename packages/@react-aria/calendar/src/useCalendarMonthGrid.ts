@@ -0,0 +1,52 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, endOfYear, startOfYear} from '@internationalized/date';
+import {CalendarState, RangeCalendarState} from '@react-stately/calendar';
+import {DOMAttributes} from '@react-types/shared';
+import {useCalendarGridProps} from './useCalendarGrid';
+
+export interface AriaCalendarMonthGridProps {
+  /**
+   * A date within the year displayed in the month grid.
+   * Defaults to the first visible date in the calendar.
+   * Override this to display multiple years in a calendar.
+   */
+  startDate?: CalendarDate
+}
+
+export interface CalendarMonthGridAria {
+  /** Props for the month grid element (e.g. `<table>`). */
+  gridProps: DOMAttributes,
+  /** The number of rows in the grid. */
+  rowsInGrid: number
+}
+
+/**
+ * Provides the behavior and accessibility implementation for a calendar month grid component.
+ * A month grid displays the months or quarters of a single year within a calendar or range calendar
+ * whose `selectionGranularity` is `month` or `quarter`.
+ */
+export function useCalendarMonthGrid(props: AriaCalendarMonthGridProps, state: CalendarState | RangeCalendarState): CalendarMonthGridAria {
+  let startDate = startOfYear(props.startDate ?? state.visibleRange.start);
+  let endDate = endOfYear(startDate);
+  let gridProps = useCalendarGridProps(startDate, endDate, state);
+
+  let monthsPerCell = state.selectionGranularity === 'quarter' ? 3 : 1;
+  let cellsInGrid = Math.ceil(startDate.calendar.getMonthsInYear(startDate) / monthsPerCell);
+  let columns = state.getDatesInRow(0, startDate).length;
+
+  return {
+    gridProps,
+    rowsInGrid: Math.ceil(cellsInGrid / columns)
+  };
+}
@@ -0,0 +1,66 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {CalendarDate, startOfYear} from '@internationalized/date';
+import {CalendarState, RangeCalendarState} from '@react-stately/calendar';
+import {DOMAttributes} from '@react-types/shared';
+import {useCalendarGridProps} from './useCalendarGrid';
+
+export interface AriaCalendarYearGridProps {
+  /**
+   * The first date displayed in the year grid.
+   * Defaults to the first visible date in the calendar.
+   */
+  startDate?: CalendarDate,
+  /**
+   * The last date displayed in the year grid.
+   * Defaults to the last visible date in the calendar.
+   */
+  endDate?: CalendarDate
+}
+
+export interface CalendarYearGridAria {
+  /** Props for the year grid element (e.g. `<table>`). */
+  gridProps: DOMAttributes,
+  /** The number of rows in the grid. */
+  rowsInGrid: number
+}
+
+/**
+ * Provides the behavior and accessibility implementation for a calendar year grid component.
+ * A year grid displays a range of years within a calendar or range calendar
+ * whose `selectionGranularity` is `year`.
+ */
+export function useCalendarYearGrid(props: AriaCalendarYearGridProps, state: CalendarState | RangeCalendarState): CalendarYearGridAria {
+  let {
+    startDate = state.visibleRange.start,
+    endDate = state.visibleRange.end
+  } = props;
+
+  let gridProps = useCalendarGridProps(startDate, endDate, state);
+
+  // Count the years by walking forward, since years may not be numbered continuously across eras.
+  let cellsInGrid = 0;
+  for (let date = startOfYear(startDate); date.compare(endDate) <= 0; date = date.add({years: 1})) {
+    cellsInGrid++;
+    if (date.compare(date.add({years: 1})) === 0) {
+      break;
+    }
+  }
+
+  let columns = state.getDatesInRow(0, startDate).length;
+
+  return {
+    gridProps,
+    rowsInGrid: Math.ceil(cellsInGrid / columns)
+  };
+}
@@ -10,11 +10,12 @@
  * governing permissions and limitations under the License.
  */
 
-import {CalendarDate, DateFormatter, endOfMonth, isSameDay, startOfMonth} from '@internationalized/date';
+import {CalendarDate, DateFormatter, endOfMonth, endOfYear, isSameDay, startOfMonth, startOfYear} from '@internationalized/date';
 import {CalendarState, RangeCalendarState} from '@react-stately/calendar';
 // @ts-ignore
 import intlMessages from '../intl/*.json';
 import type {LocalizedStringFormatter} from '@internationalized/string';
+import {RangeValue} from '@react-types/shared';
 import {useDateFormatter, useLocalizedStringFormatter} from '@react-aria/i18n';
 import {useMemo} from 'react';
 
@@ -31,14 +32,24 @@ export function getEraFormat(date: CalendarDate | undefined): 'short' | undefine
   return date?.calendar.identifier === 'gregory' && date.era === 'BC' ? 'short' : undefined;
 }
 
+/** Whether the calendar displays a grid of months, quarters, or years rather than days. */
+export function hasPeriodCells(state: CalendarState | RangeCalendarState): boolean {
+  return state.selectionGranularity === 'month' || state.selectionGranularity === 'quarter' || state.selectionGranularity === 'year';
+}
+
+/** Returns the range of dates represented by a cell in the calendar grid. */
+export function getCellRange(state: CalendarState | RangeCalendarState, date: CalendarDate): RangeValue<CalendarDate> {
+  return hasPeriodCells(state) ? state.getSelectionPeriod(date) : {start: date, end: date};
+}
+
 export function useSelectedDateDescription(state: CalendarState | RangeCalendarState): string {
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/calendar');
 
   let start: CalendarDate | undefined, end: CalendarDate | undefined;
   if ('highlightedRange' in state) {
     ({start, end} = state.highlightedRange || {});
-  } else {
-    start = end = state.value ?? undefined;
+  } else if (state.value) {
+    ({start, end} = state.getSelectionPeriod(state.value));
   }
 
   let dateFormatter = useDateFormatter({
@@ -69,9 +80,40 @@ export function useSelectedDateDescription(state: CalendarState | RangeCalendarS
   }, [start, end, anchorDate, state.timeZone, stringFormatter, dateFormatter]);
 }
 
-export function useVisibleRangeDescription(startDate: CalendarDate, endDate: CalendarDate, timeZone: string, isAria: boolean): string {
+export function useComparisonRangeDescription(state: CalendarState | RangeCalendarState): string {
+  let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/calendar');
+  let comparisonRange = 'comparisonRange' in state ? state.comparisonRange : null;
+  let dateFormatter = useDateFormatter({
+    weekday: 'long',
+    month: 'long',
+    year: 'numeric',
+    day: 'numeric',
+    era: getEraFormat(comparisonRange?.start) || getEraFormat(comparisonRange?.end),
+    timeZone: state.timeZone
+  });
+
+  return useMemo(() => {
+    if (!comparisonRange) {
+      return '';
+    }
+
+    let dateRange = isSameDay(comparisonRange.start, comparisonRange.end)
+      ? dateFormatter.format(comparisonRange.start.toDate(state.timeZone))
+      : formatRange(dateFormatter, stringFormatter, comparisonRange.start, comparisonRange.end, state.timeZone);
+    return stringFormatter.format('comparisonRangeDescription', {dateRange});
+  }, [comparisonRange, state.timeZone, stringFormatter, dateFormatter]);
+}
+
+export function useVisibleRangeDescription(startDate: CalendarDate, endDate: CalendarDate, timeZone: string, isAria: boolean, formatYears = false): string {
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/calendar');
   let era: any = getEraFormat(startDate) || getEraFormat(endDate);
+  let yearFormatter = useDateFormatter({
+    year: 'numeric',
+    era,
+    calendar: startDate.calendar.identifier,
+    timeZone
+  });
+
   let monthFormatter = useDateFormatter({
     month: 'long',
     year: 'numeric',
@@ -90,6 +132,17 @@ export function useVisibleRangeDescription(startDate: CalendarDate, endDate: Cal
   });
 
   return useMemo(() => {
+    // When displaying a grid of months or years, format as a single year or a range of years.
+    if (formatYears && isSameDay(startDate, startOfYear(startDate)) && isSameDay(endDate, endOfYear(endDate))) {
+      if (isSameDay(endDate, endOfYear(startDate))) {
+        return yearFormatter.format(startDate.toDate(timeZone));
+      }
+
+      return isAria
+        ? formatRange(yearFormatter, stringFormatter, startDate, endDate, timeZone)
+        : yearFormatter.formatRange(startDate.toDate(timeZone), endDate.toDate(timeZone));
+    }
+
     // Special case for month granularity. Format as a single month if only a
     // single month is visible, otherwise format as a range of months.
     if (isSameDay(startDate, startOfMonth(startDate))) {
@@ -114,7 +167,7 @@ export function useVisibleRangeDescription(startDate: CalendarDate, endDate: Cal
     return isAria
       ? formatRange(dateFormatter, stringFormatter, startDate, endDate, timeZone)
       : dateFormatter.formatRange(startDate.toDate(timeZone), endDate.toDate(timeZone));
-  }, [startDate, endDate, monthFormatter, dateFormatter, stringFormatter, timeZone, isAria]);
+  }, [startDate, endDate, monthFormatter, dateFormatter, yearFormatter, stringFormatter, timeZone, isAria, formatYears]);
 }
 
 function formatRange(dateFormatter: DateFormatter, stringFormatter: LocalizedStringFormatter, start: CalendarDate, end: CalendarDate, timeZone: string) {
@@ -10,14 +10,15 @@
  * governing permissions and limitations under the License.
  */
 
-import {Collection as ICollection, Key, Node} from '@react-types/shared';
+import {FilterMatch, FilterResult, Collection as ICollection, Key, Node} from '@react-types/shared';
 import {ReactElement, ReactNode} from 'react';
+import {sortByScore} from '@react-stately/collections';
 
 export type Mutable<T> = {
   -readonly[P in keyof T]: T[P]
 }
 
-type FilterFn<T> = (textValue: string, node: Node<T>) => boolean;
+type FilterFn<T> = (textValue: string, node: Node<T>) => FilterResult;
 
 /** An immutable object representing a Node in a Collection. */
 export class CollectionNode<T> implements Node<T> {
@@ -40,6 +41,8 @@ export class CollectionNode<T> implements Node<T> {
   readonly render?: (node: Node<any>) => ReactElement;
   readonly colSpan: number | null = null;
   readonly colIndex: number | null = null;
+  /** The scored match for this node, if the collection was filtered with a function that returns one. */
+  readonly filterMatch: FilterMatch | null = null;
 
   constructor(key: Key) {
     this.type = (this.constructor as typeof CollectionNode).type;
@@ -68,6 +71,7 @@ export class CollectionNode<T> implements Node<T> {
     node.render = this.render;
     node.colSpan = this.colSpan;
     node.colIndex = this.colIndex;
+    node.filterMatch = this.filterMatch;
     return node;
   }
 
@@ -101,8 +105,10 @@ export class ItemNode<T> extends FilterableNode<T> {
   static readonly type = 'item';
 
   filter(collection: BaseCollection<T>, newCollection: BaseCollection<T>, filterFn: FilterFn<T>): ItemNode<T> | null {
-    if (filterFn(this.textValue, this)) {
-      let clone = this.clone();
+    let result = filterFn(this.textValue, this);
+    if (result) {
+      let clone: Mutable<ItemNode<T>> = this.clone();
+      clone.filterMatch = typeof result === 'object' ? result : null;
       newCollection.addDescendants(clone, collection);
       return clone;
     }
@@ -312,6 +318,7 @@ function filterChildren<T>(collection: BaseCollection<T>, newCollection: BaseCol
 
   let firstNode: Node<T> | null = null;
   let lastNode: Node<T> | null = null;
+  let newNodes: Mutable<CollectionNode<T>>[] = [];
   let currentNode = collection.getItem(firstChildKey);
 
   while (currentNode != null) {
@@ -328,6 +335,7 @@ function filterChildren<T>(collection: BaseCollection<T>, newCollection: BaseCol
       }
 
       newCollection.addNode(newNode);
+      newNodes.push(newNode);
       lastNode = newNode;
     }
 
@@ -340,6 +348,7 @@ function filterChildren<T>(collection: BaseCollection<T>, newCollection: BaseCol
   if (lastNode && lastNode.type === 'separator') {
     let prevKey = lastNode.prevKey;
     newCollection.removeNode(lastNode.key);
+    newNodes.pop();
 
     if (prevKey) {
       lastNode = newCollection.getItem(prevKey) as Mutable<CollectionNode<T>>;
@@ -349,5 +358,18 @@ function filterChildren<T>(collection: BaseCollection<T>, newCollection: BaseCol
     }
   }
 
+  // Nodes are added in their original order above so that separators can look up their previous sibling.
+  // Once filtering is complete, reorder the items by score and re-link the siblings.
+  if (newNodes.some(node => node.filterMatch != null)) {
+    sortByScore(newNodes);
+    for (let i = 0; i < newNodes.length; i++) {
+      newNodes[i].prevKey = i > 0 ? newNodes[i - 1].key : null;
+      newNodes[i].nextKey = i < newNodes.length - 1 ? newNodes[i + 1].key : null;
+    }
+
+    firstNode = newNodes[0] ?? null;
+    lastNode = newNodes[newNodes.length - 1] ?? null;
+  }
+
   return [firstNode?.key ?? null, lastNode?.key ?? null];
 }
@@ -16,4 +16,5 @@ export {useCachedChildren} from './useCachedChildren';
 export {BaseCollection, CollectionNode, ItemNode, SectionNode, FilterableNode, LoaderNode, HeaderNode} from './BaseCollection';
 
 export type {CollectionBuilderProps, CollectionProps} from './CollectionBuilder';
+export type {Mutable} from './BaseCollection';
 export type {CachedChildrenOptions} from './useCachedChildren';
@@ -44,7 +44,7 @@ export interface AriaColorAreaOptions extends AriaColorAreaProps {
 
 /**
  * Provides the behavior and accessibility implementation for a color area component.
- * Color area allows users to adjust two channels of an RGB, HSL or HSB color value against a two-dimensional gradient background.
+ * Color area allows users to adjust two channels of an RGB, HSL, HSB, OKLCH, OKLab or Display P3 color value against a two-dimensional gradient background.
  */
 export function useColorArea(props: AriaColorAreaOptions, state: ColorAreaState): ColorAreaAria {
   let {
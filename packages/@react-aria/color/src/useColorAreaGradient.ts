@@ -29,6 +29,32 @@ const hsbChannels = {
   brightness: () => 'black, transparent'
 };
 
+// The number of rows and color stops per row used to approximate a two dimensional gradient
+// in color spaces that cannot be composed from independent per-channel layers.
+const GRID_ROWS = 16;
+const GRID_STOPS = 8;
+
+function gridGradient(value: Color, xChannel: ColorChannel, yChannel: ColorChannel, end: string) {
+  let xRange = value.getChannelRange(xChannel);
+  let yRange = value.getChannelRange(yChannel);
+  let rows: string[] = [];
+  for (let row = 0; row < GRID_ROWS; row++) {
+    // The top row corresponds to the maximum value of the y channel.
+    let y = yRange.maxValue - (row / (GRID_ROWS - 1)) * (yRange.maxValue - yRange.minValue);
+    let rowColor = value.withChannelValue(yChannel, y);
+    let stops: string[] = [];
+    for (let stop = 0; stop < GRID_STOPS; stop++) {
+      let x = xRange.minValue + (stop / (GRID_STOPS - 1)) * (xRange.maxValue - xRange.minValue);
+      stops.push(rowColor.withChannelValue(xChannel, x).toString('css'));
+    }
+
+    let position = (row / (GRID_ROWS - 1)) * 100;
+    rows.push(`linear-gradient(to ${end}, ${stops.join(', ')}) 0 ${position}% / 100% ${100 / GRID_ROWS}% no-repeat`);
+  }
+
+  return rows.join(', ');
+}
+
 interface Gradients {
   colorAreaStyleProps: {
     style: CSSProperties
@@ -102,6 +128,18 @@ export function useColorAreaGradient({direction, state, zChannel, xChannel, yCha
         };
         break;
       }
+      case 'oklch':
+      case 'oklab':
+      case 'display-p3': {
+        // Perceptual and wide gamut color spaces don't blend linearly in sRGB, so approximate the area
+        // with a stack of horizontal gradients, one per row. Using the color's own CSS syntax for each
+        // color stop allows colors outside of sRGB to be displayed on wide gamut screens.
+        let value = state.value.withChannelValue('alpha', 1);
+        colorAreaStyles = {
+          background: gridGradient(value, xChannel, yChannel, end)
+        };
+        break;
+      }
     }
 
     let {x, y} = state.getThumbPosition();
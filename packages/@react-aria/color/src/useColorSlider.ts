@@ -75,6 +75,16 @@ export function useColorSlider(props: AriaColorSliderOptions, state: ColorSlider
     } else {
       to = 'left';
     }
+    let colorSpace = value.getColorSpace();
+    if ((colorSpace === 'oklch' || colorSpace === 'oklab' || colorSpace === 'display-p3') && channel !== 'alpha') {
+      // Sample the channel at regular intervals, since these color spaces don't
+      // interpolate linearly in sRGB, and may contain colors outside of it.
+      let min = state.getThumbMinValue(0);
+      let max = state.getThumbMaxValue(0);
+      let stops = [0, 1, 2, 3, 4, 5, 6].map(i => value.withChannelValue(channel, min + (max - min) * i / 6).toString('css')).join(', ');
+      return `linear-gradient(to ${to}, ${stops})`;
+    }
+
     switch (channel) {
       case 'hue': {
         let stops = [0, 60, 120, 180, 240, 300, 360].map(hue => value.withChannelValue('hue', hue).toString('css')).join(', ');
@@ -13,12 +13,16 @@
 export {useDatePicker} from './useDatePicker';
 export {useDateSegment} from './useDateSegment';
 export {useDateField, useTimeField} from './useDateField';
+export {useDurationField} from './useDurationField';
 export {useDateRangePicker} from './useDateRangePicker';
 export {useDisplayNames} from './useDisplayNames';
+export {useTimeZoneOptions} from './useTimeZoneOptions';
 
-export type {AriaDateFieldProps, AriaDatePickerProps, AriaDateRangePickerProps, DateRange, DateValue, TimeValue} from '@react-types/datepicker';
+export type {AriaDateFieldProps, AriaDatePickerProps, AriaDateRangePickerProps, AriaDurationFieldProps, DateRange, DateRangePreset, DateValue, DurationGranularity, TimeValue} from '@react-types/datepicker';
 export type {AriaDateFieldOptions, DateFieldAria} from './useDateField';
 export type {DatePickerAria} from './useDatePicker';
 export type {DateRangePickerAria} from './useDateRangePicker';
 export type {DateSegmentAria} from './useDateSegment';
+export type {AriaDurationFieldOptions} from './useDurationField';
+export type {TimeZoneOption, TimeZoneOptionsProps, TimeZoneRegion} from './useTimeZoneOptions';
 export type {AriaTimeFieldProps} from '@react-types/datepicker';
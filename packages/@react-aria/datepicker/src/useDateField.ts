@@ -11,11 +11,11 @@
  */
 
 import {AriaDateFieldProps as AriaDateFieldPropsBase, AriaTimeFieldProps, DateValue, TimeValue} from '@react-types/datepicker';
+import {ClipboardEvent, InputHTMLAttributes, useEffect, useMemo, useRef} from 'react';
 import {createFocusManager, FocusManager} from '@react-aria/focus';
-import {DateFieldState, TimeFieldState} from '@react-stately/datepicker';
+import {DateFieldState, DurationFieldState, TimeFieldState} from '@react-stately/datepicker';
 import {DOMAttributes, GroupDOMAttributes, KeyboardEvent, RefObject, ValidationResult} from '@react-types/shared';
 import {filterDOMProps, mergeProps, useDescription, useFormReset} from '@react-aria/utils';
-import {InputHTMLAttributes, useEffect, useMemo, useRef} from 'react';
 // @ts-ignore
 import intlMessages from '../intl/*.json';
 import {useDatePickerGroup} from './useDatePickerGroup';
@@ -51,7 +51,7 @@ interface HookData {
   focusManager: FocusManager
 }
 
-export const hookData: WeakMap<DateFieldState, HookData> = new WeakMap<DateFieldState, HookData>();
+export const hookData: WeakMap<DateFieldState | DurationFieldState, HookData> = new WeakMap<DateFieldState | DurationFieldState, HookData>();
 
 // Private props that we pass from useDatePicker/useDateRangePicker.
 // Ideally we'd use a Symbol for this, but React doesn't support them: https://github.com/facebook/react/issues/7552
@@ -183,6 +183,14 @@ export function useDateField<T extends DateValue>(props: AriaDateFieldOptions<T>
           props.onKeyUp(e);
         }
       },
+      onPaste(e: ClipboardEvent) {
+        // Parse pasted text such as "March 5, 2024" as a complete date. If it cannot be parsed,
+        // let the event propagate, e.g. to a date range picker which may parse it as a range.
+        if (state.setTextValue(e.clipboardData.getData('text/plain'))) {
+          e.preventDefault();
+          e.stopPropagation();
+        }
+      },
       style: {
         unicodeBidi: 'isolate'
       }
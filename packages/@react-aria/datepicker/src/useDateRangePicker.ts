@@ -13,6 +13,7 @@
 import {AriaButtonProps} from '@react-types/button';
 import {AriaDatePickerProps, AriaDateRangePickerProps, DateValue} from '@react-types/datepicker';
 import {AriaDialogProps} from '@react-types/dialog';
+import {ClipboardEvent, useMemo, useRef} from 'react';
 import {createFocusManager} from '@react-aria/focus';
 import {DateRange, RangeCalendarProps} from '@react-types/calendar';
 import {DateRangePickerState} from '@react-stately/datepicker';
@@ -26,7 +27,6 @@ import {useDatePickerGroup} from './useDatePickerGroup';
 import {useField} from '@react-aria/label';
 import {useFocusWithin} from '@react-aria/interactions';
 import {useLocale, useLocalizedStringFormatter} from '@react-aria/i18n';
-import {useMemo, useRef} from 'react';
 
 export interface DateRangePickerAria extends ValidationResult {
   /** Props for the date range picker's visible label element, if any. */
@@ -156,6 +156,13 @@ export function useDateRangePicker<T extends DateValue>(props: AriaDateRangePick
         if (props.onKeyUp) {
           props.onKeyUp(e);
         }
+      },
+      onPaste(e: ClipboardEvent) {
+        // Parse pasted text such as "March 5 – March 8, 2024" as a complete range.
+        // Single dates are handled by the individual date fields.
+        if (state.setTextValue(locale, e.clipboardData.getData('text/plain'))) {
+          e.preventDefault();
+        }
       }
     }),
     labelProps: {
@@ -230,6 +237,7 @@ export function useDateRangePicker<T extends DateValue>(props: AriaDateRangePick
       isReadOnly: props.isReadOnly,
       isDateUnavailable: props.isDateUnavailable,
       allowsNonContiguousRanges: props.allowsNonContiguousRanges,
+      comparisonValue: props.comparisonValue,
       defaultFocusedValue: state.dateRange ? undefined : props.placeholderValue,
       isInvalid: state.isInvalid,
       errorMessage: typeof props.errorMessage === 'function' ? props.errorMessage(state.displayValidation) : (props.errorMessage || state.displayValidation.validationErrors.join(' ')),
@@ -11,7 +11,7 @@
  */
 
 import {CalendarDate, toCalendar} from '@internationalized/date';
-import {DateFieldState, DateSegment} from '@react-stately/datepicker';
+import {DateFieldState, DateSegment, DurationFieldState} from '@react-stately/datepicker';
 import {getScrollParent, isIOS, isMac, mergeProps, scrollIntoViewport, useEvent, useId, useLabels, useLayoutEffect} from '@react-aria/utils';
 import {hookData} from './useDateField';
 import {NumberParser} from '@internationalized/number';
@@ -26,30 +26,43 @@ export interface DateSegmentAria {
   segmentProps: React.HTMLAttributes<HTMLDivElement>
 }
 
+// Maps duration units to the corresponding field names used for segment labels.
+const DURATION_FIELDS = {
+  years: 'year',
+  months: 'month',
+  weeks: 'weekOfYear',
+  days: 'day',
+  hours: 'hour',
+  minutes: 'minute',
+  seconds: 'second'
+};
+
 /**
- * Provides the behavior and accessibility implementation for a segment in a date field.
+ * Provides the behavior and accessibility implementation for a segment in a date or duration field.
  * A date segment displays an individual unit of a date and time, and allows users to edit
  * the value by typing or using the arrow keys to increment and decrement.
  */
-export function useDateSegment(segment: DateSegment, state: DateFieldState, ref: RefObject<HTMLElement | null>): DateSegmentAria {
+export function useDateSegment(segment: DateSegment, state: DateFieldState | DurationFieldState, ref: RefObject<HTMLElement | null>): DateSegmentAria {
   let enteredKeys = useRef('');
   let {locale, direction} = useLocale();
   let displayNames = useDisplayNames();
   let {ariaLabel, ariaLabelledBy, ariaDescribedBy, focusManager} = hookData.get(state)!;
 
   let textValue = segment.isPlaceholder ? '' : segment.text;
-  let options = useMemo(() => state.dateFormatter.resolvedOptions(), [state.dateFormatter]);
-  let monthDateFormatter = useDateFormatter({month: 'long', timeZone: options.timeZone});
+  // Duration fields do not have a date formatter. Their segments are always numeric.
+  let dateFormatter = 'dateFormatter' in state ? state.dateFormatter : null;
+  let options = useMemo(() => dateFormatter?.resolvedOptions(), [dateFormatter]);
+  let monthDateFormatter = useDateFormatter({month: 'long', timeZone: options?.timeZone});
   let hourDateFormatter = useDateFormatter({
     hour: 'numeric',
-    hour12: options.hour12,
-    timeZone: options.timeZone
+    hour12: options?.hour12,
+    timeZone: options?.timeZone
   });
 
-  if (segment.type === 'month' && !segment.isPlaceholder) {
+  if (segment.type === 'month' && !segment.isPlaceholder && 'dateValue' in state) {
     let monthTextValue = monthDateFormatter.format(state.dateValue);
     textValue = monthTextValue !== textValue ? `${textValue} – ${monthTextValue}` : monthTextValue;
-  } else if (segment.type === 'hour' && !segment.isPlaceholder) {
+  } else if (segment.type === 'hour' && !segment.isPlaceholder && 'dateValue' in state) {
     textValue = hourDateFormatter.format(state.dateValue);
   }
 
@@ -155,13 +168,14 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
 
   // Get a list of formatted era names so users can type the first character to choose one.
   let eraFormatter = useDateFormatter({year: 'numeric', era: 'narrow', timeZone: 'UTC'});
+  let calendar = 'calendar' in state ? state.calendar : null;
   let eras = useMemo(() => {
-    if (segment.type !== 'era') {
+    if (segment.type !== 'era' || !calendar) {
       return [];
     }
 
-    let date = toCalendar(new CalendarDate(1, 1, 1), state.calendar);
-    let eras = state.calendar.getEras().map(era => {
+    let date = toCalendar(new CalendarDate(1, 1, 1), calendar);
+    let eras = calendar.getEras().map(era => {
       let eraDate = date.set({year: 1, month: 1, day: 1, era}).toDate('UTC');
       let parts = eraFormatter.formatToParts(eraDate);
       let formatted = parts.find(p => p.type === 'era')!.value;
@@ -179,7 +193,7 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
     }
 
     return eras;
-  }, [eraFormatter, state.calendar, segment.type]);
+  }, [eraFormatter, calendar, segment.type]);
 
   let onInput = (key: string) => {
     if (state.isDisabled || state.isReadOnly) {
@@ -201,7 +215,7 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
         break;
       case 'era': {
         let matched = eras.find(e => startsWith(e.formatted, key));
-        if (matched) {
+        if (matched && 'calendar' in state) {
           state.setSegment('era', matched.era);
           focusManager.focusNext();
         }
@@ -212,7 +226,14 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
       case 'minute':
       case 'second':
       case 'month':
-      case 'year': {
+      case 'year':
+      case 'years':
+      case 'months':
+      case 'weeks':
+      case 'days':
+      case 'hours':
+      case 'minutes':
+      case 'seconds': {
         if (!parser.isValidPartialNumber(newValue)) {
           return;
         }
@@ -220,8 +241,8 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
         let numberValue = parser.parse(newValue);
         let segmentValue = numberValue;
         let allowsZero = segment.minValue === 0;
-        if (segment.type === 'hour' && state.dateFormatter.resolvedOptions().hour12) {
-          switch (state.dateFormatter.resolvedOptions().hourCycle) {
+        if (segment.type === 'hour' && options?.hour12) {
+          switch (options.hourCycle) {
             case 'h11':
               if (numberValue > 11) {
                 segmentValue = parser.parse(key);
@@ -309,6 +330,15 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
         // eslint-disable-next-line no-self-assign
         ref.current.textContent = ref.current.textContent;
         break;
+      case 'insertFromPaste':
+      case 'insertReplacementText': {
+        // Pasted text, or text replaced all at once, e.g. via autofill, may be a complete date such as "March 5, 2024".
+        let text = e.data ?? e.dataTransfer?.getData('text/plain');
+        if (text && state.setTextValue(text)) {
+          break;
+        }
+      }
+        // fallthrough
       default:
         if (e.data != null) {
           onInput(e.data);
@@ -369,7 +399,7 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
 
   // Prepend the label passed from the field to each segment name.
   // This is needed because VoiceOver on iOS does not announce groups.
-  let name = segment.type === 'literal' ? '' : displayNames.of(segment.type);
+  let name = segment.type === 'literal' ? '' : displayNames.of(DURATION_FIELDS[segment.type] ?? segment.type);
   let labelProps = useLabels({
     'aria-label': `${name}${ariaLabel ? `, ${ariaLabel}` : ''}${ariaLabelledBy ? ', ' : ''}`,
     'aria-labelledby': ariaLabelledBy
@@ -391,7 +421,7 @@ export function useDateSegment(segment: DateSegment, state: DateFieldState, ref:
     // To ensure placeholder render in correct format, we apply the CSS equivalent of LRE (left-to-right embedding). See https://www.unicode.org/reports/tr9/#Explicit_Directional_Embeddings.
     // However, we apply this to both placeholders and date segments with an actual value because the date segments will shift around when deleting otherwise. 
     segmentStyle.unicodeBidi = 'embed';
-    let format = options[segment.type];
+    let format = options?.[segment.type];
     if (format === 'numeric' || format === '2-digit') {
       segmentStyle.direction = 'ltr';
     }
@@ -0,0 +1,158 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {AriaDurationFieldProps} from '@react-types/datepicker';
+import {ClipboardEvent, InputHTMLAttributes, useEffect, useMemo, useRef} from 'react';
+import {createFocusManager} from '@react-aria/focus';
+import {DateFieldAria, hookData} from './useDateField';
+import {DateTimeDuration, durationToString} from '@internationalized/date';
+import {DurationFieldState} from '@react-stately/datepicker';
+import {filterDOMProps, mergeProps, useDescription, useFormReset} from '@react-aria/utils';
+import {GroupDOMAttributes, KeyboardEvent, RefObject} from '@react-types/shared';
+// @ts-ignore
+import intlMessages from '../intl/*.json';
+import {useDatePickerGroup} from './useDatePickerGroup';
+import {useField} from '@react-aria/label';
+import {useFocusWithin} from '@react-aria/interactions';
+import {useFormValidation} from '@react-aria/form';
+import {useLocalizedStringFormatter} from '@react-aria/i18n';
+
+export interface AriaDurationFieldOptions extends Omit<AriaDurationFieldProps, 'value' | 'defaultValue' | 'onChange' | 'minValue' | 'maxValue' | 'validate'> {
+  /** A ref for the hidden input element for HTML form submission. */
+  inputRef?: RefObject<HTMLInputElement | null>
+}
+
+/**
+ * Provides the behavior and accessibility implementation for a duration field component.
+ * A duration field allows users to enter and edit an amount of time using a keyboard.
+ * Each unit of the duration is displayed in an individually editable segment.
+ */
+export function useDurationField(props: AriaDurationFieldOptions, state: DurationFieldState, ref: RefObject<Element | null>): DateFieldAria {
+  let {isInvalid, validationErrors, validationDetails} = state.displayValidation;
+  let {labelProps, fieldProps, descriptionProps, errorMessageProps} = useField({
+    ...props,
+    labelElementType: 'span',
+    isInvalid,
+    errorMessage: props.errorMessage || validationErrors
+  });
+
+  let valueOnFocus = useRef<DateTimeDuration | null>(null);
+  let {focusWithinProps} = useFocusWithin({
+    ...props,
+    onFocusWithin(e) {
+      valueOnFocus.current = state.value;
+      props.onFocus?.(e);
+    },
+    onBlurWithin: (e) => {
+      state.confirmPlaceholder();
+      if (state.value !== valueOnFocus.current) {
+        state.commitValidation();
+      }
+      props.onBlur?.(e);
+    },
+    onFocusWithinChange: props.onFocusChange
+  });
+
+  let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/datepicker');
+  let description = state.value ? stringFormatter.format('selectedDurationDescription', {duration: state.formatValue()}) : '';
+  let descProps = useDescription(description);
+  let describedBy = [descProps['aria-describedby'], fieldProps['aria-describedby']].filter(Boolean).join(' ') || undefined;
+  let focusManager = useMemo(() => createFocusManager(ref), [ref]);
+  let groupProps = useDatePickerGroup(state, ref);
+
+  // Pass labels and other information to segments.
+  hookData.set(state, {
+    ariaLabel: props['aria-label'],
+    ariaLabelledBy: [labelProps.id, props['aria-labelledby']].filter(Boolean).join(' ') || undefined,
+    ariaDescribedBy: describedBy,
+    focusManager
+  });
+
+  let autoFocusRef = useRef(props.autoFocus);
+  useEffect(() => {
+    if (autoFocusRef.current) {
+      focusManager.focusFirst();
+    }
+    autoFocusRef.current = false;
+  }, [focusManager]);
+
+  useFormReset(props.inputRef, state.defaultValue, state.setValue);
+  useFormValidation({
+    ...props,
+    focus() {
+      focusManager.focusFirst();
+    }
+  }, state, props.inputRef);
+
+  // The value is submitted as an ISO 8601 duration string, which can be parsed with parseDuration.
+  let inputProps: InputHTMLAttributes<HTMLInputElement> = {
+    type: 'hidden',
+    name: props.name,
+    form: props.form,
+    value: state.value ? durationToString(state.value) : '',
+    disabled: props.isDisabled
+  };
+
+  if (props.validationBehavior === 'native') {
+    // Use a hidden <input type="text"> rather than <input type="hidden">
+    // so that an empty value blocks HTML form submission when the field is required.
+    inputProps.type = 'text';
+    inputProps.hidden = true;
+    inputProps.required = props.isRequired;
+    // Ignore react warning.
+    inputProps.onChange = () => {};
+  }
+
+  let fieldDOMProps: GroupDOMAttributes = mergeProps(fieldProps, {
+    role: 'group' as const,
+    'aria-disabled': props.isDisabled || undefined,
+    'aria-describedby': describedBy
+  });
+
+  let domProps = filterDOMProps(props);
+  return {
+    labelProps: {
+      ...labelProps,
+      onClick: () => {
+        focusManager.focusFirst();
+      }
+    },
+    fieldProps: mergeProps(domProps, fieldDOMProps, groupProps, focusWithinProps, {
+      onKeyDown(e: KeyboardEvent) {
+        if (props.onKeyDown) {
+          props.onKeyDown(e);
+        }
+      },
+      onKeyUp(e: KeyboardEvent) {
+        if (props.onKeyUp) {
+          props.onKeyUp(e);
+        }
+      },
+      onPaste(e: ClipboardEvent) {
+        // Parse pasted text such as "2d 4h 30m" or "PT4H30M" as a complete duration.
+        if (state.setTextValue(e.clipboardData.getData('text/plain'))) {
+          e.preventDefault();
+          e.stopPropagation();
+        }
+      },
+      style: {
+        unicodeBidi: 'isolate'
+      }
+    }),
+    inputProps,
+    descriptionProps,
+    errorMessageProps,
+    isInvalid,
+    validationErrors,
+    validationDetails
+  };
+}
@@ -0,0 +1,152 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {getSupportedTimeZones, getTimeZoneOffset} from '@internationalized/date';
+import {useLocale} from '@react-aria/i18n';
+import {useMemo} from 'react';
+
+export interface TimeZoneOptionsProps {
+  /**
+   * The IANA time zone identifiers to include.
+   * Defaults to all time zones supported by the environment, plus UTC.
+   */
+  timeZones?: string[],
+  /**
+   * The time at which offsets and names are computed, which affects daylight saving time.
+   * Defaults to the current time.
+   */
+  referenceDate?: Date
+}
+
+export interface TimeZoneOption {
+  /** The IANA time zone identifier, e.g. `America/Los_Angeles`. */
+  id: string,
+  /** The city the time zone is named after, e.g. "Los Angeles". */
+  city: string,
+  /** The localized name of the time zone, e.g. "Pacific Time". */
+  name: string,
+  /** The offset from UTC at the reference date, in milliseconds. */
+  offset: number,
+  /** The offset from UTC formatted for display, e.g. "UTC-08:00". */
+  formattedOffset: string,
+  /** A textual representation of the time zone, used for searching and to display the selected time zone. */
+  textValue: string
+}
+
+export interface TimeZoneRegion {
+  /** An identifier for the region. */
+  id: string,
+  /** The localized name of the region, e.g. "Americas". */
+  name: string,
+  /** The time zones in the region, sorted by offset and city. */
+  timeZones: TimeZoneOption[]
+}
+
+// UN M49 codes used to get localized region names via Intl.DisplayNames.
+// Areas without a code, such as the Atlantic and Indian oceans, use the IANA area name.
+const REGION_CODES: Record<string, string> = {
+  Africa: '002',
+  America: '019',
+  Antarctica: 'AQ',
+  Asia: '142',
+  Australia: 'AU',
+  Europe: '150',
+  Pacific: '009'
+};
+
+const UTC_REGION = 'UTC';
+
+/**
+ * Returns a list of time zones grouped by region, with localized names and current offsets,
+ * for use in a time zone picker.
+ */
+export function useTimeZoneOptions(props: TimeZoneOptionsProps = {}): TimeZoneRegion[] {
+  let {locale} = useLocale();
+  let {timeZones} = props;
+  let time = props.referenceDate?.getTime();
+  return useMemo(() => getTimeZoneRegions(locale, timeZones, time ?? Date.now()), [locale, timeZones, time]);
+}
+
+function getTimeZoneRegions(locale: string, timeZones: string[] | undefined, ms: number): TimeZoneRegion[] {
+  if (!timeZones) {
+    timeZones = getSupportedTimeZones();
+    if (!timeZones.includes('UTC')) {
+      timeZones = ['UTC', ...timeZones];
+    }
+  }
+
+  let regionNames: Intl.DisplayNames | null = null;
+  try {
+    regionNames = new Intl.DisplayNames(locale, {type: 'region'});
+  } catch {
+    // Fall back to IANA area names.
+  }
+
+  let regions = new Map<string, TimeZoneRegion>();
+  for (let id of timeZones) {
+    let parts = id.split('/');
+    let area = parts.length > 1 && parts[0] !== 'Etc' ? parts[0] : UTC_REGION;
+    let code = REGION_CODES[area];
+    // Region ids are prefixed so that they are distinct from the time zone ids, e.g. UTC.
+    let regionId = `region:${code ?? area}`;
+    let region = regions.get(regionId);
+    if (!region) {
+      region = {
+        id: regionId,
+        name: (code && regionNames?.of(code)) || area,
+        timeZones: []
+      };
+      regions.set(regionId, region);
+    }
+
+    let offset = getTimeZoneOffset(ms, id);
+    let city = parts[parts.length - 1].replace(/_/g, ' ');
+    let name = getTimeZoneName(locale, id, ms);
+    region.timeZones.push({
+      id,
+      city,
+      name,
+      offset,
+      formattedOffset: formatOffset(offset),
+      textValue: city === name ? city : `${city} (${name})`
+    });
+  }
+
+  let collator = new Intl.Collator(locale);
+  for (let region of regions.values()) {
+    region.timeZones.sort((a, b) => a.offset - b.offset || collator.compare(a.city, b.city));
+  }
+
+  // UTC is listed first, followed by the other regions alphabetically.
+  let utc = regions.get(`region:${UTC_REGION}`);
+  regions.delete(`region:${UTC_REGION}`);
+  let result = [...regions.values()].sort((a, b) => collator.compare(a.name, b.name));
+  return utc ? [utc, ...result] : result;
+}
+
+function getTimeZoneName(locale: string, timeZone: string, ms: number): string {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat(locale, {timeZone, timeZoneName: 'longGeneric'});
+  } catch {
+    formatter = new Intl.DateTimeFormat(locale, {timeZone, timeZoneName: 'long'});
+  }
+
+  return formatter.formatToParts(ms).find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+function formatOffset(offset: number): string {
+  let sign = offset < 0 ? '-' : '+';
+  let minutes = Math.abs(offset) / 60000;
+  let hours = Math.floor(minutes / 60);
+  return `UTC${sign}${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -16,7 +16,7 @@ import {GridCollection} from '@react-types/grid';
 import {GridKeyboardDelegate} from './GridKeyboardDelegate';
 import {gridMap} from './utils';
 import {GridState} from '@react-stately/grid';
-import {useCallback, useMemo} from 'react';
+import {KeyboardEvent as ReactKeyboardEvent, useCallback, useMemo} from 'react';
 import {useCollator, useLocale} from '@react-aria/i18n';
 import {useGridSelectionAnnouncement} from './useGridSelectionAnnouncement';
 import {useHasTabbableChild} from '@react-aria/focus';
@@ -157,6 +157,50 @@ export function useGrid<T>(props: GridProps, state: GridState<T, GridCollection<
     onFocus
   }), [onFocus, collectionProps.onBlur]);
 
+  // Shift + arrow keys extend the cell selection rather than the row selection when cell selection is enabled.
+  let onKeyDownCapture = (e: ReactKeyboardEvent) => {
+    let focusedKey = manager.focusedKey;
+    if (!state.allowsCellSelection || state.isKeyboardNavigationDisabled || focusedKey == null || !isCell(state, focusedKey)) {
+      return;
+    }
+
+    let nextKey: Key | null | undefined;
+    switch (e.key) {
+      case 'ArrowDown':
+        nextKey = delegate.getKeyBelow?.(focusedKey);
+        break;
+      case 'ArrowUp':
+        nextKey = delegate.getKeyAbove?.(focusedKey);
+        break;
+      case 'ArrowLeft':
+        nextKey = delegate.getKeyLeftOf?.(focusedKey);
+        break;
+      case 'ArrowRight':
+        nextKey = delegate.getKeyRightOf?.(focusedKey);
+        break;
+      case 'Escape':
+        if (escapeKeyBehavior === 'clearSelection') {
+          state.setCellSelection?.(null);
+        }
+        return;
+      default:
+        return;
+    }
+
+    // Plain navigation clears the cell selection.
+    if (!e.shiftKey) {
+      state.setCellSelection?.(null);
+      return;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+    if (nextKey != null && isCell(state, nextKey)) {
+      state.setCellSelection?.({anchorKey: state.cellSelection?.anchorKey ?? focusedKey, focusKey: nextKey});
+      manager.setFocusedKey(nextKey);
+    }
+  };
+
   let hasTabbableChild = useHasTabbableChild(ref, {
     isDisabled: state.collection.size !== 0
   });
@@ -169,6 +213,7 @@ export function useGrid<T>(props: GridProps, state: GridState<T, GridCollection<
       'aria-multiselectable': manager.selectionMode === 'multiple' ? 'true' : undefined
     },
     state.isKeyboardNavigationDisabled ? navDisabledHandlers : collectionProps,
+    state.allowsCellSelection ? {onKeyDownCapture} : null,
     // If collection is empty, make sure the grid is tabbable unless there is a child tabbable element.
     (state.collection.size === 0 && {tabIndex: hasTabbableChild ? -1 : 0}) || undefined,
     descriptionProps
@@ -184,3 +229,9 @@ export function useGrid<T>(props: GridProps, state: GridState<T, GridCollection<
     gridProps
   };
 }
+
+function isCell<T>(state: GridState<T, GridCollection<T>>, key: Key) {
+  let node = state.collection.getItem(key);
+  let parent = node?.parentKey != null ? state.collection.getItem(node.parentKey) : null;
+  return parent?.type === 'item';
+}
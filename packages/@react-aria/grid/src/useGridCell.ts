@@ -17,7 +17,7 @@ import {getScrollParent, mergeProps, scrollIntoViewport} from '@react-aria/utils
 import {GridCollection, GridNode} from '@react-types/grid';
 import {gridMap} from './utils';
 import {GridState} from '@react-stately/grid';
-import {KeyboardEvent as ReactKeyboardEvent, useRef} from 'react';
+import {KeyboardEvent as ReactKeyboardEvent, PointerEvent as ReactPointerEvent, useRef} from 'react';
 import {useLocale} from '@react-aria/i18n';
 import {useSelectableItem} from '@react-aria/selection';
 
@@ -280,6 +280,27 @@ export function useGridCell<T, C extends GridCollection<T>>(props: GridCellProps
     };
   }
 
+  if (state.allowsCellSelection) {
+    gridCellProps = mergeProps(gridCellProps, {
+      'aria-selected': !!state.selectedCells?.has(node.key),
+      onPointerDown(e: ReactPointerEvent) {
+        if (e.pointerType !== 'mouse' || e.button !== 0) {
+          return;
+        }
+
+        // Shift + click extends the existing range, otherwise a new range is started from this cell.
+        let anchorKey = e.shiftKey ? state.cellSelection?.anchorKey : null;
+        state.setCellSelection?.({anchorKey: anchorKey ?? node.key, focusKey: node.key});
+      },
+      onPointerEnter(e: ReactPointerEvent) {
+        // Extend the range while dragging across cells with the primary mouse button pressed.
+        if (e.pointerType === 'mouse' && (e.buttons & 1) && state.cellSelection) {
+          state.setCellSelection?.({anchorKey: state.cellSelection.anchorKey, focusKey: node.key});
+        }
+      }
+    });
+  }
+
   return {
     gridCellProps,
     isPressed
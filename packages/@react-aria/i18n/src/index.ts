@@ -15,6 +15,8 @@ export {useMessageFormatter} from './useMessageFormatter';
 export {useLocalizedStringFormatter, useLocalizedStringDictionary} from './useLocalizedStringFormatter';
 export {useListFormatter} from './useListFormatter';
 export {useDateFormatter} from './useDateFormatter';
+export {useRelativeTimeFormatter} from './useRelativeTimeFormatter';
+export {useDurationFormatter} from './useDurationFormatter';
 export {useNumberFormatter} from './useNumberFormatter';
 export {useCollator} from './useCollator';
 export {useFilter} from './useFilter';
@@ -26,5 +28,5 @@ export type {I18nProviderProps} from './context';
 export type {Locale} from './useDefaultLocale';
 export type {LocalizedStrings} from '@internationalized/message';
 export type {DateFormatterOptions} from './useDateFormatter';
-export type {DateFormatter} from '@internationalized/date';
+export type {DateFormatter, RelativeTimeFormatter, DurationFormatter, DurationFormatOptions} from '@internationalized/date';
 export type {Filter} from './useFilter';
@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-import type {LocalizedString} from '@internationalized/string';
+import type {LocalizedString, LocalizedStringDictionary} from '@internationalized/string';
 import React, {JSX} from 'react';
 
 type PackageLocalizedStrings = {
@@ -19,13 +19,21 @@ type PackageLocalizedStrings = {
 
 interface PackageLocalizationProviderProps {
   locale: string,
-  strings: PackageLocalizedStrings,
+  /** The localized strings for each package in the given locale. */
+  strings?: PackageLocalizedStrings,
+  /**
+   * A dictionary of localized strings for each package by locale, as an alternative to `strings`.
+   * Locales may be loaded lazily, in which case only the given locale is loaded and included in the HTML.
+   */
+  dictionary?: LocalizedStringDictionary<string, any>,
   nonce?: string
 }
 
 /**
  * A PackageLocalizationProvider can be rendered on the server to inject the localized strings
- * needed by the client into the initial HTML.
+ * needed by the client into the initial HTML. When given a dictionary that loads locales lazily,
+ * it suspends until the strings for the locale are loaded, which requires a streaming renderer
+ * such as `renderToPipeableStream`.
  */
 export function PackageLocalizationProvider(props: PackageLocalizationProviderProps): JSX.Element | null {
   if (typeof document !== 'undefined') {
@@ -33,7 +41,12 @@ export function PackageLocalizationProvider(props: PackageLocalizationProviderPr
     return null;
   }
 
-  let {nonce, locale, strings} = props;
+  let {nonce, locale, dictionary} = props;
+  if (dictionary && !dictionary.isLocaleLoaded(locale)) {
+    throw dictionary.loadLocale(locale);
+  }
+
+  let strings = props.strings || dictionary?.getStringsForLocale(locale) || {};
   // suppressHydrationWarning is necessary because the browser
   // remove the nonce parameter from the DOM before hydration
   return <script nonce={typeof window === 'undefined' ? nonce : ''} suppressHydrationWarning dangerouslySetInnerHTML={{__html: getPackageLocalizationScript(locale, strings)}} />;
@@ -46,6 +59,15 @@ export function getPackageLocalizationScript(locale: string, strings: PackageLoc
   return `window[Symbol.for('react-aria.i18n.locale')]=${JSON.stringify(locale)};{${serialize(strings)}}`;
 }
 
+/**
+ * Loads the localized strings for the given locale from a dictionary, and returns the content for an
+ * inline `<script>` tag to inject them into initial HTML. Only the strings for the given locale are loaded.
+ */
+export async function loadPackageLocalizationScript(locale: string, dictionary: LocalizedStringDictionary<string, any>): Promise<string> {
+  await dictionary.loadLocale(locale);
+  return getPackageLocalizationScript(locale, dictionary.getStringsForLocale(locale));
+}
+
 const cache = new WeakMap<PackageLocalizedStrings, string>();
 
 function serialize(strings: PackageLocalizedStrings): string {
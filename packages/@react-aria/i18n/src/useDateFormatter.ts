@@ -11,6 +11,7 @@
  */
 
 import {DateFormatter} from '@internationalized/date';
+import {isShallowEqual} from './utils';
 import {useDeepMemo} from '@react-aria/utils';
 import {useLocale} from './context';
 import {useMemo} from 'react';
@@ -26,27 +27,7 @@ export interface DateFormatterOptions extends Intl.DateTimeFormatOptions {
  */
 export function useDateFormatter(options?: DateFormatterOptions): DateFormatter {
   // Reuse last options object if it is shallowly equal, which allows the useMemo result to also be reused.
-  options = useDeepMemo(options ?? {}, isEqual);
+  options = useDeepMemo(options ?? {}, isShallowEqual);
   let {locale} = useLocale();
   return useMemo(() => new DateFormatter(locale, options), [locale, options]);
 }
-
-function isEqual(a: DateFormatterOptions, b: DateFormatterOptions) {
-  if (a === b) {
-    return true;
-  }
-
-  let aKeys = Object.keys(a);
-  let bKeys = Object.keys(b);
-  if (aKeys.length !== bKeys.length) {
-    return false;
-  }
-
-  for (let key of aKeys) {
-    if (b[key] !== a[key]) {
-      return false;
-    }
-  }
-
-  return true;
-}
@@ -10,6 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
+import {FilterMatch, TextRange} from '@react-types/shared';
 import {useCallback, useMemo} from 'react';
 import {useCollator} from './useCollator';
 
@@ -19,9 +20,50 @@ export interface Filter {
   /** Returns whether a string ends with a given substring. */
   endsWith(string: string, substring: string): boolean,
   /** Returns whether a string contains a given substring. */
-  contains(string: string, substring: string): boolean
+  contains(string: string, substring: string): boolean,
+  /**
+   * Returns whether a string starts with a given substring. Returns a match with the range of the string
+   * that matched, or null if there is no match.
+   */
+  matchStartsWith?(string: string, substring: string): FilterMatch | null,
+  /**
+   * Returns whether a string ends with a given substring. Returns a match with the range of the string
+   * that matched, or null if there is no match.
+   */
+  matchEndsWith?(string: string, substring: string): FilterMatch | null,
+  /**
+   * Returns whether a string contains a given substring. Returns a match with the range of the string
+   * that matched, or null if there is no match.
+   */
+  matchContains?(string: string, substring: string): FilterMatch | null,
+  /**
+   * Returns whether a string fuzzily matches a given query. Characters of the query must appear in order,
+   * but not necessarily consecutively, and a small number of them may be missing to tolerate typos. Returns
+   * a score for ranking results along with the ranges of the string that matched, or null if there is no match.
+   */
+  fuzzy?(string: string, query: string): FilterMatch | null
 }
 
+// Scoring for fuzzy matches. Each matched character earns a base score, with bonuses for
+// runs of consecutive characters and for matching at the start of a word. Gaps between matched
+// characters are penalized, as are characters of the query that could not be matched at all.
+const SCORE_MATCH = 16;
+const BONUS_BOUNDARY = 8;
+const BONUS_CAMEL = 7;
+const BONUS_CONSECUTIVE = 6;
+const PENALTY_GAP_START = 3;
+const PENALTY_GAP_EXTENSION = 1;
+const PENALTY_LEADING = 1;
+const MAX_LEADING_PENALTY = 3;
+const PENALTY_SKIP = 32;
+
+// A character along with any combining marks that follow it, so that decomposed
+// diacritics are compared together with their base character.
+const CHARACTER_REGEX = /\P{M}\p{M}*|\p{M}+/gu;
+const BOUNDARY_REGEX = /[\s\p{P}\p{S}]/u;
+const LOWERCASE_REGEX = /\p{Ll}/u;
+const UPPERCASE_REGEX = /\p{Lu}/u;
+
 /**
  * Provides localized string search functionality that is useful for filtering or matching items
  * in a list. Options can be provided to adjust the sensitivity to case, diacritics, and other parameters.
@@ -32,8 +74,15 @@ export function useFilter(options?: Intl.CollatorOptions): Filter {
     ...options
   });
 
+  // Fuzzy matching ignores case and diacritics unless a sensitivity is explicitly provided.
+  let fuzzyCollator = useCollator({
+    usage: 'search',
+    sensitivity: 'base',
+    ...options
+  });
+
   // TODO(later): these methods don't currently support the ignorePunctuation option.
-  let startsWith = useCallback((string, substring) => {
+  let startsWith = useCallback((string: string, substring: string) => {
     if (substring.length === 0) {
       return true;
     }
@@ -45,7 +94,7 @@ export function useFilter(options?: Intl.CollatorOptions): Filter {
     return collator.compare(string.slice(0, substring.length), substring) === 0;
   }, [collator]);
 
-  let endsWith = useCallback((string, substring) => {
+  let endsWith = useCallback((string: string, substring: string) => {
     if (substring.length === 0) {
       return true;
     }
@@ -55,29 +104,281 @@ export function useFilter(options?: Intl.CollatorOptions): Filter {
     return collator.compare(string.slice(-substring.length), substring) === 0;
   }, [collator]);
 
-  let contains = useCallback((string, substring) => {
+  let contains = useCallback((string: string, substring: string) => {
     if (substring.length === 0) {
       return true;
     }
 
     string = string.normalize('NFC');
     substring = substring.normalize('NFC');
+    return findSubstring(collator, string, substring) >= 0;
+  }, [collator]);
 
-    let scan = 0;
-    let sliceLen = substring.length;
-    for (; scan + sliceLen <= string.length; scan++) {
-      let slice = string.slice(scan, scan + sliceLen);
-      if (collator.compare(substring, slice) === 0) {
-        return true;
-      }
+  let matchStartsWith = useCallback((string: string, substring: string) => {
+    if (substring.length === 0) {
+      return {score: 0, ranges: []};
+    }
+
+    let {normalized, offsets} = normalize(string);
+    substring = substring.normalize('NFC');
+    if (collator.compare(normalized.slice(0, substring.length), substring) === 0) {
+      return getMatch(offsets, 0, Math.min(substring.length, normalized.length));
+    }
+
+    return null;
+  }, [collator]);
+
+  let matchEndsWith = useCallback((string: string, substring: string) => {
+    if (substring.length === 0) {
+      return {score: 0, ranges: []};
+    }
+
+    let {normalized, offsets} = normalize(string);
+    substring = substring.normalize('NFC');
+    let start = Math.max(0, normalized.length - substring.length);
+    if (collator.compare(normalized.slice(start), substring) === 0) {
+      return getMatch(offsets, start, normalized.length);
+    }
+
+    return null;
+  }, [collator]);
+
+  let matchContains = useCallback((string: string, substring: string) => {
+    if (substring.length === 0) {
+      return {score: 0, ranges: []};
     }
 
-    return false;
+    let {normalized, offsets} = normalize(string);
+    substring = substring.normalize('NFC');
+    let start = findSubstring(collator, normalized, substring);
+    return start >= 0 ? getMatch(offsets, start, start + substring.length) : null;
   }, [collator]);
 
+  let fuzzy = useCallback((string: string, query: string) => fuzzyMatch(fuzzyCollator, string, query), [fuzzyCollator]);
+
   return useMemo(() => ({
     startsWith,
     endsWith,
-    contains
-  }), [startsWith, endsWith, contains]);
+    contains,
+    matchStartsWith,
+    matchEndsWith,
+    matchContains,
+    fuzzy
+  }), [startsWith, endsWith, contains, matchStartsWith, matchEndsWith, matchContains, fuzzy]);
+}
+
+// Returns the index of the first occurrence of the substring within the string, or -1 if there is none.
+function findSubstring(collator: Intl.Collator, string: string, substring: string): number {
+  let sliceLen = substring.length;
+  for (let scan = 0; scan + sliceLen <= string.length; scan++) {
+    if (collator.compare(substring, string.slice(scan, scan + sliceLen)) === 0) {
+      return scan;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Normalizes a string to NFC, along with the index in the original string of each code unit in the
+ * normalized string, so that matches can be reported as ranges of the original string.
+ */
+function normalize(string: string): {normalized: string, offsets: number[]} {
+  let normalized = '';
+  let offsets: number[] = [];
+  for (let match of string.matchAll(CHARACTER_REGEX)) {
+    let char = match[0].normalize('NFC');
+    for (let i = 0; i < char.length; i++) {
+      offsets.push(match.index!);
+    }
+    normalized += char;
+  }
+
+  offsets.push(string.length);
+  return {normalized, offsets};
+}
+
+function getMatch(offsets: number[], start: number, end: number): FilterMatch {
+  // Substring matches are all equally relevant, so they keep their original order when sorted by score.
+  return {score: 0, ranges: [{start: offsets[start], end: offsets[end]}]};
+}
+
+function fuzzyMatch(collator: Intl.Collator, string: string, query: string): FilterMatch | null {
+  let queryChars = [...query.matchAll(CHARACTER_REGEX)].map(m => m[0]);
+  let m = queryChars.length;
+  if (m === 0) {
+    return {score: 0, ranges: []};
+  }
+
+  let chars = [...string.matchAll(CHARACTER_REGEX)];
+  let n = chars.length;
+  if (n === 0) {
+    return null;
+  }
+
+  // Comparing through the collator is relatively expensive, so cache the result for each pair of characters.
+  let cache = new Map<string, boolean>();
+  let equals = (a: string, b: string) => {
+    let key = a + '\0' + b;
+    let result = cache.get(key);
+    if (result == null) {
+      result = collator.compare(a, b) === 0;
+      cache.set(key, result);
+    }
+    return result;
+  };
+
+  let bonuses = chars.map((char, j) => {
+    if (j === 0) {
+      return BONUS_BOUNDARY;
+    }
+
+    let prev = chars[j - 1][0];
+    if (BOUNDARY_REGEX.test(prev)) {
+      return BONUS_BOUNDARY;
+    }
+
+    if (LOWERCASE_REGEX.test(prev) && UPPERCASE_REGEX.test(char[0])) {
+      return BONUS_CAMEL;
+    }
+
+    return 0;
+  });
+
+  // Roughly one in four characters of the query may be missing from the string.
+  let maxSkips = Math.floor(m / 4);
+
+  // scores[s][i][p] is the best score after consuming i characters of the query with s of them skipped,
+  // where p - 1 is the index of the last matched character in the string (0 if nothing has matched yet).
+  // from[s][i][p] is the position of the previous match, or -1 if the last query character was skipped.
+  let size = (m + 1) * (n + 1);
+  let scores: Float64Array[] = [];
+  let from: Int32Array[] = [];
+  for (let s = 0; s <= maxSkips; s++) {
+    scores.push(new Float64Array(size).fill(-Infinity));
+    from.push(new Int32Array(size));
+  }
+
+  scores[0][0] = 0;
+  let isMatch = (i: number, j: number) => equals(queryChars[i], chars[j][0]);
+  for (let s = 0; s <= maxSkips; s++) {
+    for (let i = 0; i < m; i++) {
+      let offset = i * (n + 1);
+
+      // Skip this query character entirely.
+      if (s < maxSkips) {
+        skipQueryCharacter(scores[s], scores[s + 1], from[s + 1], offset, n);
+      }
+
+      matchQueryCharacter(scores[s], from[s], offset, n, j => isMatch(i, j), bonuses);
+    }
+  }
+
+  let bestScore = -Infinity;
+  let bestSkips = 0;
+  let bestPosition = 0;
+  for (let s = 0; s <= maxSkips; s++) {
+    for (let p = 1; p <= n; p++) {
+      let score = scores[s][m * (n + 1) + p];
+      if (score > bestScore) {
+        bestScore = score;
+        bestSkips = s;
+        bestPosition = p;
+      }
+    }
+  }
+
+  if (bestScore === -Infinity) {
+    return null;
+  }
+
+  // Walk back through the table to find which characters matched.
+  let matched: number[] = [];
+  let s = bestSkips;
+  let p = bestPosition;
+  for (let i = m; i > 0; i--) {
+    let prev = from[s][i * (n + 1) + p];
+    if (prev === -1) {
+      s--;
+    } else {
+      matched.unshift(p - 1);
+      p = prev;
+    }
+  }
+
+  let ranges: TextRange[] = [];
+  for (let j of matched) {
+    let start = chars[j].index!;
+    let end = start + chars[j][0].length;
+    let last = ranges[ranges.length - 1];
+    if (last && last.end === start) {
+      last.end = end;
+    } else {
+      ranges.push({start, end});
+    }
+  }
+
+  return {score: bestScore, ranges};
+}
+
+// Updates the scores for skipping the query character at the given offset, carrying each score over to the next row with a penalty.
+function skipQueryCharacter(row: Float64Array, nextRow: Float64Array, nextFrom: Int32Array, offset: number, n: number) {
+  let nextOffset = offset + n + 1;
+  for (let p = 0; p <= n; p++) {
+    let score = row[offset + p] - PENALTY_SKIP;
+    if (score > nextRow[nextOffset + p]) {
+      nextRow[nextOffset + p] = score;
+      nextFrom[nextOffset + p] = -1;
+    }
+  }
+}
+
+// Updates the scores for matching the query character at the given offset at each index j of the string.
+// bestGap tracks the best previous match before j - 1, adjusted so that the gap penalty can be applied in constant time.
+function matchQueryCharacter(row: Float64Array, from: Int32Array, offset: number, n: number, isMatch: (j: number) => boolean, bonuses: number[]) {
+  let nextOffset = offset + n + 1;
+  let bestGap = -Infinity;
+  let bestGapPosition = 0;
+  for (let j = 0; j < n; j++) {
+    if (j > 0) {
+      let prev = row[offset + j - 1] + PENALTY_GAP_EXTENSION * (j - 1);
+      if (j - 1 > 0 && prev > bestGap) {
+        bestGap = prev;
+        bestGapPosition = j - 1;
+      }
+    }
+
+    if (!isMatch(j)) {
+      continue;
+    }
+
+    let best = -Infinity;
+    let bestPosition = 0;
+
+    let leading = row[offset] - PENALTY_LEADING * Math.min(j, MAX_LEADING_PENALTY);
+    if (leading > best) {
+      best = leading;
+      bestPosition = 0;
+    }
+
+    if (j > 0) {
+      let consecutive = row[offset + j] + BONUS_CONSECUTIVE;
+      if (consecutive > best) {
+        best = consecutive;
+        bestPosition = j;
+      }
+    }
+
+    let gap = bestGap - PENALTY_GAP_START - PENALTY_GAP_EXTENSION * (j - 1);
+    if (gap > best) {
+      best = gap;
+      bestPosition = bestGapPosition;
+    }
+
+    let score = best + SCORE_MATCH + bonuses[j];
+    if (score > row[nextOffset + j + 1]) {
+      row[nextOffset + j + 1] = score;
+      from[nextOffset + j + 1] = bestPosition;
+    }
+  }
 }
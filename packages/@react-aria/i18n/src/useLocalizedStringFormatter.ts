@@ -10,35 +10,108 @@
  * governing permissions and limitations under the License.
  */
 
-import {LocalizedString, LocalizedStringDictionary, LocalizedStringFormatter, LocalizedStrings} from '@internationalized/string';
+import {LocalizedString, LocalizedStringDictionary, LocalizedStringFormatter, LocalizedStringLoaders, LocalizedStrings} from '@internationalized/string';
+import {useEffect, useMemo, useState} from 'react';
 import {useLocale} from './context';
-import {useMemo} from 'react';
+
+// Locale passed from server by PackageLocalizationProvider.
+const localeSymbol = Symbol.for('react-aria.i18n.locale');
 
 const cache = new WeakMap();
-function getCachedDictionary<K extends string, T extends LocalizedString>(strings: LocalizedStrings<K, T>): LocalizedStringDictionary<K, T> {
+function getCachedDictionary<K extends string, T extends LocalizedString>(strings: LocalizedStrings<K, T> | LocalizedStringLoaders<K, T>, packageName?: string): LocalizedStringDictionary<K, T> {
   let dictionary = cache.get(strings);
   if (!dictionary) {
-    dictionary = new LocalizedStringDictionary(strings);
+    // Seed lazily loaded strings with the strings for the initial locale injected by the server,
+    // so that hydration does not need to load them again.
+    let messages = strings;
+    let globalDictionary = packageName ? LocalizedStringDictionary.getGlobalDictionaryForPackage<K, T>(packageName) : null;
+    if (globalDictionary && isLazy(strings)) {
+      let locale = window[localeSymbol];
+      messages = {...strings, [locale]: globalDictionary.getStringsForLocale(locale)};
+    }
+
+    dictionary = new LocalizedStringDictionary(messages);
     cache.set(strings, dictionary);
   }
 
   return dictionary;
 }
 
+function isLazy<K extends string, T extends LocalizedString>(strings: LocalizedStrings<K, T> | LocalizedStringLoaders<K, T>): boolean {
+  for (let lang in strings) {
+    if (typeof strings[lang] === 'function') {
+      return true;
+    }
+  }
+
+  return false;
+}
+
 /**
  * Returns a cached LocalizedStringDictionary for the given strings.
  */
-export function useLocalizedStringDictionary<K extends string = string, T extends LocalizedString = string>(strings: LocalizedStrings<K, T>, packageName?: string): LocalizedStringDictionary<K, T> {
+export function useLocalizedStringDictionary<K extends string = string, T extends LocalizedString = string>(strings: LocalizedStrings<K, T> | LocalizedStringLoaders<K, T>, packageName?: string): LocalizedStringDictionary<K, T> {
+  // Strings injected by the server only include a single locale, so lazily loaded strings
+  // use their own dictionary in order to load other locales on demand.
+  if (isLazy(strings)) {
+    return getCachedDictionary(strings, packageName);
+  }
+
   return (packageName && LocalizedStringDictionary.getGlobalDictionaryForPackage(packageName)) || getCachedDictionary(strings);
 }
 
 /**
  * Provides localized string formatting for the current locale. Supports interpolating variables,
  * selecting the correct pluralization, and formatting numbers. Automatically updates when the locale changes.
- * @param strings - A mapping of languages to localized strings by key.
+ * When strings are loaded lazily, the component suspends until the strings for the initial locale have loaded,
+ * so it must be rendered within a `<Suspense>` boundary. When the locale changes, the strings for the previous
+ * locale are displayed while the strings for the new locale load. If loading fails, the error is thrown to the
+ * nearest error boundary.
+ * @param strings - A mapping of languages to localized strings by key, or functions to load them on demand.
  */
-export function useLocalizedStringFormatter<K extends string = string, T extends LocalizedString = string>(strings: LocalizedStrings<K, T>, packageName?: string): LocalizedStringFormatter<K, T> {
+export function useLocalizedStringFormatter<K extends string = string, T extends LocalizedString = string>(strings: LocalizedStrings<K, T> | LocalizedStringLoaders<K, T>, packageName?: string): LocalizedStringFormatter<K, T> {
   let {locale} = useLocale();
   let dictionary = useLocalizedStringDictionary(strings, packageName);
-  return useMemo(() => new LocalizedStringFormatter(locale, dictionary), [locale, dictionary]);
+  let isLoaded = dictionary.isLocaleLoaded(locale);
+  let [lastLoadedLocale, setLastLoadedLocale] = useState<string | null>(isLoaded ? locale : null);
+  let [loadError, setLoadError] = useState<{locale: string, error: unknown} | null>(null);
+
+  useEffect(() => {
+    if (isLoaded) {
+      setLastLoadedLocale(locale);
+      return;
+    }
+
+    let isCurrent = true;
+    dictionary.loadLocale(locale).then(() => {
+      if (isCurrent) {
+        setLastLoadedLocale(locale);
+      }
+    }, error => {
+      if (isCurrent) {
+        setLoadError({locale, error});
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [dictionary, locale, isLoaded]);
+
+  if (loadError && loadError.locale === locale) {
+    throw loadError.error;
+  }
+
+  // Effects do not run until the component has rendered, so it suspends while the strings for the initial locale load.
+  if (!isLoaded && lastLoadedLocale == null) {
+    let error = dictionary.getLoadError(locale);
+    if (error) {
+      throw error;
+    }
+
+    throw dictionary.loadLocale(locale);
+  }
+
+  let displayedLocale = isLoaded ? locale : lastLoadedLocale!;
+  return useMemo(() => new LocalizedStringFormatter(displayedLocale, dictionary), [displayedLocale, dictionary]);
 }
@@ -0,0 +1,29 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {isShallowEqual} from './utils';
+import {RelativeTimeFormatter} from '@internationalized/date';
+import {useDeepMemo} from '@react-aria/utils';
+import {useLocale} from './context';
+import {useMemo} from 'react';
+
+/**
+ * Provides localized relative time formatting for the current locale, e.g. "3 hours ago" or "in 2 days".
+ * Automatically updates when the locale changes, and handles caching of the formatter for performance.
+ * @param options - Formatting options.
+ */
+export function useRelativeTimeFormatter(options?: Intl.RelativeTimeFormatOptions): RelativeTimeFormatter {
+  // Reuse last options object if it is shallowly equal, which allows the useMemo result to also be reused.
+  options = useDeepMemo(options ?? {}, isShallowEqual);
+  let {locale} = useLocale();
+  return useMemo(() => new RelativeTimeFormatter(locale, options), [locale, options]);
+}
@@ -41,3 +41,24 @@ export function isRTL(localeString: string): boolean {
   let lang = localeString.split('-')[0];
   return RTL_LANGS.has(lang);
 }
+
+/** Returns whether two options objects have the same keys and values. */
+export function isShallowEqual<T extends object>(a: T, b: T): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  let aKeys = Object.keys(a);
+  let bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+
+  for (let key of aKeys) {
+    if (b[key] !== a[key]) {
+      return false;
+    }
+  }
+
+  return true;
+}
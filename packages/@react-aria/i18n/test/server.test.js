@@ -9,7 +9,8 @@
  * OF ANY KIND, either express or implied. See the License for the specific language
  * governing permissions and limitations under the License.
  */
-import {getPackageLocalizationScript} from '../src/server';
+import {getPackageLocalizationScript, loadPackageLocalizationScript} from '../src/server';
+import {LocalizedStringDictionary} from '@internationalized/string';
 
 describe('i18n server', () => {
   it('should generate a script with localized strings', () => {
@@ -24,4 +25,22 @@ describe('i18n server', () => {
 
     expect(res).toBe("window[Symbol.for('react-aria.i18n.locale')]=\"en-US\";{let A=\"foo\";window[Symbol.for('react-aria.i18n.strings')]={'@react-aria/button':{test:A},'@react-aria/checkbox':{test:A}};}");
   });
+
+  it('should load only the strings for the active locale', async () => {
+    let loadFrench = jest.fn(() => Promise.resolve({
+      '@react-aria/button': {
+        test: 'bar'
+      }
+    }));
+    let loadGerman = jest.fn();
+    let dictionary = new LocalizedStringDictionary({
+      'fr-FR': loadFrench,
+      'de-DE': loadGerman
+    });
+
+    let res = await loadPackageLocalizationScript('fr-FR', dictionary);
+    expect(res).toBe("window[Symbol.for('react-aria.i18n.locale')]=\"fr-FR\";{window[Symbol.for('react-aria.i18n.strings')]={'@react-aria/button':{test:\"bar\"}};}");
+    expect(loadFrench).toHaveBeenCalledTimes(1);
+    expect(loadGerman).not.toHaveBeenCalled();
+  });
 });
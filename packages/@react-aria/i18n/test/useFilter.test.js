@@ -0,0 +1,104 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {renderHook} from '@react-spectrum/test-utils-internal';
+import {useFilter} from '../';
+
+describe('useFilter', () => {
+  describe('fuzzy', () => {
+    let fuzzy;
+    beforeEach(() => {
+      fuzzy = renderHook(() => useFilter()).result.current.fuzzy;
+    });
+
+    it('should match subsequences and return the matched ranges', () => {
+      expect(fuzzy('Application', 'apl')).toEqual({score: expect.any(Number), ranges: [{start: 0, end: 1}, {start: 2, end: 4}]});
+      expect(fuzzy('FooBarBaz', 'fbb').ranges).toEqual([{start: 0, end: 1}, {start: 3, end: 4}, {start: 6, end: 7}]);
+      expect(fuzzy('hello', 'xyz')).toBeNull();
+    });
+
+    it('should match everything with an empty query', () => {
+      expect(fuzzy('hello', '')).toEqual({score: 0, ranges: []});
+    });
+
+    it('should ignore case and diacritics by default', () => {
+      expect(fuzzy('Crème Brûlée', 'creme brulee').ranges).toEqual([{start: 0, end: 12}]);
+      expect(fuzzy('Résumé', 'RESUME').ranges).toEqual([{start: 0, end: 6}]);
+    });
+
+    it('should return ranges in the original string for decomposed characters', () => {
+      expect(fuzzy('cafe\u0301 au lait', 'cafe').ranges).toEqual([{start: 0, end: 5}]);
+    });
+
+    it('should respect an explicit sensitivity', () => {
+      let {result} = renderHook(() => useFilter({sensitivity: 'accent'}));
+      expect(result.current.fuzzy('Café', 'caf').ranges).toEqual([{start: 0, end: 3}]);
+      expect(result.current.fuzzy('Café', 'CAFÉ').ranges).toEqual([{start: 0, end: 4}]);
+      expect(result.current.fuzzy('Cafe', 'afé')).toBeNull();
+    });
+
+    it('should rank prefix and consecutive matches higher', () => {
+      let apple = fuzzy('Apple', 'app');
+      let pineapple = fuzzy('Pineapple', 'app');
+      let alpaca = fuzzy('alpaca pup', 'app');
+      expect(apple.score).toBeGreaterThan(pineapple.score);
+      expect(pineapple.score).toBeGreaterThan(alpaca.score);
+    });
+
+    it('should rank word boundary matches higher', () => {
+      expect(fuzzy('FooBarBaz', 'bb').score).toBeGreaterThan(fuzzy('Foobarbaz', 'bb').score);
+      expect(fuzzy('foo bar', 'b').score).toBeGreaterThan(fuzzy('foobar', 'b').score);
+    });
+
+    it('should tolerate a missing character in longer queries', () => {
+      let match = fuzzy('hello world', 'hxllo');
+      expect(match.ranges).toEqual([{start: 0, end: 1}, {start: 2, end: 5}]);
+      expect(match.score).toBeLessThan(fuzzy('hello world', 'hello').score);
+      expect(fuzzy('hello', 'hxl')).toBeNull();
+    });
+  });
+
+  describe('substring matching', () => {
+    let filter;
+    beforeEach(() => {
+      filter = renderHook(() => useFilter({sensitivity: 'base'})).result.current;
+    });
+
+    it('should return booleans from the non-matching methods', () => {
+      expect(filter.startsWith('Pineapple', 'pine')).toBe(true);
+      expect(filter.endsWith('Pineapple', 'pine')).toBe(false);
+      expect(filter.contains('Pineapple', 'eap')).toBe(true);
+      expect(filter.contains('Pineapple', '')).toBe(true);
+    });
+
+    it('should return the matched range', () => {
+      expect(filter.matchStartsWith('Pineapple', 'pine')).toEqual({score: 0, ranges: [{start: 0, end: 4}]});
+      expect(filter.matchEndsWith('Pineapple', 'APPLE')).toEqual({score: 0, ranges: [{start: 4, end: 9}]});
+      expect(filter.matchContains('Pineapple', 'eap')).toEqual({score: 0, ranges: [{start: 3, end: 6}]});
+    });
+
+    it('should return null if there is no match', () => {
+      expect(filter.matchStartsWith('Pineapple', 'apple')).toBeNull();
+      expect(filter.matchEndsWith('Pineapple', 'pine')).toBeNull();
+      expect(filter.matchContains('Pineapple', 'xyz')).toBeNull();
+    });
+
+    it('should match everything with an empty query', () => {
+      expect(filter.matchContains('Pineapple', '')).toEqual({score: 0, ranges: []});
+    });
+
+    it('should return ranges in the original string for decomposed characters', () => {
+      expect(filter.matchContains('cafe\u0301 au lait', 'au')).toEqual({score: 0, ranges: [{start: 6, end: 8}]});
+      expect(filter.matchStartsWith('cafe\u0301 au lait', 'café')).toEqual({score: 0, ranges: [{start: 0, end: 5}]});
+    });
+  });
+});
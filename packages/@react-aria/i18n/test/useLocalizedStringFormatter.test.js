@@ -0,0 +1,109 @@
+/*
+ * Copyright 2026 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {act, render} from '@react-spectrum/test-utils-internal';
+import {I18nProvider} from '../src/context';
+import React, {Suspense} from 'react';
+import {useLocalizedStringFormatter} from '../src/useLocalizedStringFormatter';
+
+function TestComponent({strings}) {
+  let formatter = useLocalizedStringFormatter(strings);
+  return <div data-testid="hello">{formatter.format('hello')}</div>;
+}
+
+class ErrorBoundary extends React.Component {
+  state = {error: null};
+
+  static getDerivedStateFromError(error) {
+    return {error};
+  }
+
+  render() {
+    return this.state.error ? <div data-testid="error">{this.state.error.message}</div> : this.props.children;
+  }
+}
+
+describe('useLocalizedStringFormatter', () => {
+  it('should display the previous locale while the strings for a new locale load', async () => {
+    let resolve;
+    let strings = {
+      'en-US': {hello: 'Hello'},
+      'fr-FR': () => new Promise(r => resolve = r)
+    };
+
+    let tree = render(<I18nProvider locale="en-US"><TestComponent strings={strings} /></I18nProvider>);
+    expect(tree.getByTestId('hello')).toHaveTextContent('Hello');
+
+    tree.rerender(<I18nProvider locale="fr-FR"><TestComponent strings={strings} /></I18nProvider>);
+    expect(tree.getByTestId('hello')).toHaveTextContent('Hello');
+
+    await act(async () => resolve({default: {hello: 'Bonjour'}}));
+    expect(tree.getByTestId('hello')).toHaveTextContent('Bonjour');
+  });
+
+  it('should suspend until the strings for the initial locale load when every locale is loaded lazily', async () => {
+    let strings = {
+      'en-US': () => Promise.resolve({default: {hello: 'Hello'}}),
+      'fr-FR': () => Promise.resolve({default: {hello: 'Bonjour'}})
+    };
+
+    let tree;
+    await act(async () => {
+      tree = render(
+        <Suspense fallback={<div data-testid="loading" />}>
+          <I18nProvider locale="fr-FR"><TestComponent strings={strings} /></I18nProvider>
+        </Suspense>
+      );
+    });
+
+    expect(tree.queryByTestId('loading')).toBeNull();
+    expect(tree.getByTestId('hello')).toHaveTextContent('Bonjour');
+  });
+
+  it('should throw to an error boundary when loading fails', async () => {
+    let strings = {
+      'en-US': {hello: 'Hello'},
+      'fr-FR': () => Promise.reject(new Error('Network error'))
+    };
+
+    let spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    let tree = render(<ErrorBoundary><I18nProvider locale="en-US"><TestComponent strings={strings} /></I18nProvider></ErrorBoundary>);
+    expect(tree.getByTestId('hello')).toHaveTextContent('Hello');
+
+    tree.rerender(<ErrorBoundary><I18nProvider locale="fr-FR"><TestComponent strings={strings} /></I18nProvider></ErrorBoundary>);
+    await act(async () => {});
+    expect(tree.getByTestId('error')).toHaveTextContent('Network error');
+    spy.mockRestore();
+  });
+
+  it('should throw to an error boundary when loading the initial locale fails', async () => {
+    let strings = {
+      'en-US': () => Promise.resolve({default: {hello: 'Hello'}}),
+      'fr-FR': () => Promise.reject(new Error('Network error'))
+    };
+
+    let spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    let tree;
+    await act(async () => {
+      tree = render(
+        <ErrorBoundary>
+          <Suspense fallback={<div data-testid="loading" />}>
+            <I18nProvider locale="fr-FR"><TestComponent strings={strings} /></I18nProvider>
+          </Suspense>
+        </ErrorBoundary>
+      );
+    });
+
+    expect(tree.getByTestId('error')).toHaveTextContent('Network error');
+    spy.mockRestore();
+  });
+});
@@ -11,7 +11,7 @@
  */
 
 import {AriaButtonProps} from '@react-types/button';
-import {AriaNumberFieldProps} from '@react-types/numberfield';
+import {AriaNumberFieldProps, NumberFieldValue} from '@react-types/numberfield';
 import {chain, filterDOMProps, isAndroid, isIOS, isIPhone, mergeProps, useFormReset, useId} from '@react-aria/utils';
 import {DOMAttributes, GroupDOMAttributes, TextInputDOMProps, ValidationResult} from '@react-types/shared';
 import {
@@ -55,7 +55,7 @@ export interface NumberFieldAria extends ValidationResult {
  * Provides the behavior and accessibility implementation for a number field component.
  * Number fields allow users to enter a number, and increment or decrement the value using stepper buttons.
  */
-export function useNumberField(props: AriaNumberFieldProps, state: NumberFieldState, inputRef: RefObject<HTMLInputElement | null>): NumberFieldAria {
+export function useNumberField<T extends NumberFieldValue = number>(props: AriaNumberFieldProps<T>, state: NumberFieldState, inputRef: RefObject<HTMLInputElement | null>): NumberFieldAria {
   let {
     id,
     decrementAriaLabel,
@@ -63,8 +63,6 @@ export function useNumberField(props: AriaNumberFieldProps, state: NumberFieldSt
     isDisabled,
     isReadOnly,
     isRequired,
-    minValue,
-    maxValue,
     autoFocus,
     label,
     formatOptions,
@@ -76,6 +74,8 @@ export function useNumberField(props: AriaNumberFieldProps, state: NumberFieldSt
     description,
     errorMessage,
     isWheelDisabled,
+    valueType,
+    allowsExpressions,
     ...otherProps
   } = props;
 
@@ -85,6 +85,9 @@ export function useNumberField(props: AriaNumberFieldProps, state: NumberFieldSt
     decrement,
     decrementToMin,
     numberValue,
+    decimalValue,
+    minValue,
+    maxValue,
     inputValue,
     commit,
     commitValidation
@@ -106,7 +109,14 @@ export function useNumberField(props: AriaNumberFieldProps, state: NumberFieldSt
   // Replace negative textValue formatted using currencySign: 'accounting'
   // with a textValue that can be announced using a minus sign.
   let textValueFormatter = useNumberFormatter({...formatOptions, currencySign: undefined});
-  let textValue = useMemo(() => isNaN(numberValue) ? '' : textValueFormatter.format(numberValue), [textValueFormatter, numberValue]);
+  // In decimal mode, format the exact decimal string so that the announced value does not lose precision.
+  let textValue = useMemo(() => {
+    if (isNaN(numberValue)) {
+      return '';
+    }
+
+    return valueType === 'decimal' ? textValueFormatter.format(decimalValue as Intl.StringNumericLiteral) : textValueFormatter.format(numberValue);
+  }, [textValueFormatter, numberValue, decimalValue, valueType]);
 
   let {
     spinButtonProps,
@@ -156,7 +166,13 @@ export function useNumberField(props: AriaNumberFieldProps, state: NumberFieldSt
   let hasDecimals = (intlOptions.maximumFractionDigits ?? 0) > 0;
   let hasNegative = (state.minValue === undefined || isNaN(state.minValue)) || state.minValue < 0;
   let inputMode: TextInputDOMProps['inputMode'] = 'numeric';
-  if (isIPhone()) {
+  if (intlOptions.notation != null && intlOptions.notation !== 'standard') {
+    // Compact and scientific notation require letters, e.g. "1.2K" or "3E5", which are not available in numeric keyboards.
+    inputMode = 'text';
+  } else if (allowsExpressions && valueType !== 'decimal') {
+    // Operators such as "*" and "/" are not available in numeric keyboards.
+    inputMode = 'text';
+  } else if (isIPhone()) {
     // iPhone doesn't have a minus sign in either numeric or decimal.
     // Note this is only for iPhone, not iPad, which always has both
     // minus and decimal in numeric.
@@ -227,7 +243,7 @@ export function useNumberField(props: AriaNumberFieldProps, state: NumberFieldSt
     errorMessage
   }, state, inputRef);
 
-  useFormReset(inputRef, state.defaultNumberValue, state.setNumberValue);
+  useFormReset(inputRef, state.defaultDecimalValue, state.setDecimalValue);
 
   let inputProps: InputHTMLAttributes<HTMLInputElement> = mergeProps(
     spinButtonProps,
@@ -0,0 +1,126 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {DragItem, DropItem, TextDropItem} from '@react-types/shared';
+import {getCellsInRange} from '@react-stately/grid';
+import {GridNode} from '@react-types/grid';
+import {TableCellPasteEvent} from '@react-types/table';
+import {TableState} from '@react-stately/table';
+
+// Copying and pasting applies to the selected range when the focused cell is within it, otherwise just to the focused cell.
+function getTargetCells<T>(state: TableState<T>, node: GridNode<T>): GridNode<T>[][] {
+  return state.selectedCells?.has(node.key) ? getCellsInRange(state.collection, state.cellSelection ?? null) : [[node]];
+}
+
+export function getCellClipboardItems<T>(state: TableState<T>, node: GridNode<T>): DragItem[] {
+  let values = getTargetCells(state, node).map(row => row.map(cell => cell.textValue));
+  return [{
+    'text/plain': values.map(row => row.map(quoteValue).join('\t')).join('\n'),
+    'text/html': `<table>${values.map(row => `<tr>${row.map(value => `<td>${escapeHTML(value)}</td>`).join('')}</tr>`).join('')}</table>`
+  }];
+}
+
+export async function pasteIntoCells<T>(state: TableState<T>, node: GridNode<T>, items: DropItem[], onCellPaste: (e: TableCellPasteEvent) => void): Promise<void> {
+  let item = items.find((item): item is TextDropItem => item.kind === 'text' && item.types.has('text/plain'));
+  if (!item) {
+    return;
+  }
+
+  let text: string;
+  try {
+    text = await item.getText('text/plain');
+  } catch {
+    // Reading the pasted data can fail, in which case nothing is pasted.
+    return;
+  }
+
+  let values = parseValues(text);
+  let target = getTargetCells(state, node);
+  if (values.length === 0 || target.length === 0) {
+    return;
+  }
+
+  // A single value fills the entire selected range.
+  if (values.length === 1 && values[0].length === 1) {
+    let value = values[0][0];
+    values = target.map(row => row.map(() => value));
+  }
+
+  let rows = state.collection.rows.filter(row => row.type === 'item');
+  let topLeft = target[0][0];
+  let rowIndex = rows.findIndex(row => row.key === topLeft.parentKey);
+  let columnIndex = topLeft.colIndex ?? topLeft.index;
+  let width = Math.max(...values.map(row => row.length));
+
+  // Values beyond the last row or column of the table are discarded.
+  let rowKeys = rows.slice(rowIndex, rowIndex + values.length).map(row => row.key);
+  let columnKeys = state.collection.columns.slice(columnIndex, columnIndex + width).map(column => column.key);
+  onCellPaste({
+    rowKeys,
+    columnKeys,
+    values: values.slice(0, rowKeys.length).map(row => row.slice(0, columnKeys.length))
+  });
+}
+
+function quoteValue(value: string) {
+  return /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHTML(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Parses tab separated values, as produced by spreadsheet applications.
+// Values containing tabs, newlines, or quotes are wrapped in quotes, with quotes escaped by doubling them.
+function parseValues(text: string): string[][] {
+  let rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value === '') {
+      inQuotes = true;
+    } else if (char === '\t') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  // Spreadsheets usually end the copied text with a newline, which shouldn't produce an empty row.
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+}
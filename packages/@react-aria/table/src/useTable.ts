@@ -11,23 +11,26 @@
  */
 
 import {announce} from '@react-aria/live-announcer';
+import {cellPasteHandlers, gridIds} from './utils';
 import {GridAria, GridProps, useGrid} from '@react-aria/grid';
-import {gridIds} from './utils';
 // @ts-ignore
 import intlMessages from '../intl/*.json';
 import {Key, LayoutDelegate, Rect, RefObject, Size} from '@react-types/shared';
 import {mergeProps, useDescription, useId, useUpdateEffect} from '@react-aria/utils';
+import {TableCellPasteEvent} from '@react-types/table';
 import {TableKeyboardDelegate} from './TableKeyboardDelegate';
 import {tableNestedRows} from '@react-stately/flags';
 import {TableState, TreeGridState} from '@react-stately/table';
 import {useCollator, useLocale, useLocalizedStringFormatter} from '@react-aria/i18n';
-import {useMemo} from 'react';
+import {useEffect, useMemo} from 'react';
 
 export interface AriaTableProps extends GridProps {
   /** The layout object for the table. Computes what content is visible and how to position and style them. */
   layoutDelegate?: LayoutDelegate,
   /** @deprecated - Use layoutDelegate instead. */
-  layout?: DeprecatedLayout
+  layout?: DeprecatedLayout,
+  /** Handler that is called when the user pastes tab separated values into the table while cell selection is enabled. */
+  onCellPaste?: (e: TableCellPasteEvent) => void
 }
 
 interface DeprecatedLayout {
@@ -78,6 +81,19 @@ export function useTable<T>(props: AriaTableProps, state: TableState<T> | TreeGr
   let id = useId(props.id);
   gridIds.set(state, id);
 
+  // Cells look up the paste handler when a paste occurs, so it only needs to be registered once the table has rendered.
+  let {onCellPaste} = props;
+  useEffect(() => {
+    if (!onCellPaste) {
+      return;
+    }
+
+    cellPasteHandlers.set(state, onCellPaste);
+    return () => {
+      cellPasteHandlers.delete(state);
+    };
+  }, [state, onCellPaste]);
+
   let {gridProps} = useGrid({
     ...props,
     id,
@@ -93,13 +109,17 @@ export function useTable<T>(props: AriaTableProps, state: TableState<T> | TreeGr
     gridProps.role = 'treegrid';
   }
 
-  let {column, direction: sortDirection} = state.sortDescriptor || {};
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/table');
+  let sortDescriptors = state.sortDescriptors;
   let sortDescription = useMemo(() => {
-    let columnName = state.collection.columns.find(c => c.key === column)?.textValue ?? '';
-    return sortDirection && column ? stringFormatter.format(`${sortDirection}Sort`, {columnName}) : undefined;
+    // Ignore incomplete sort descriptors, such as an empty object passed before the table is sorted.
+    let descriptions = sortDescriptors.filter(({column, direction}) => column != null && direction).map(({column, direction}, index) => {
+      let columnName = state.collection.columns.find(c => c.key === column)?.textValue ?? '';
+      return stringFormatter.format(index === 0 ? `${direction}Sort` : `${direction}ThenSort`, {columnName});
+    });
+    return descriptions.length > 0 ? descriptions.join(', ') : undefined;
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sortDirection, column, state.collection.columns]);
+  }, [sortDescriptors, state.collection.columns]);
 
   let descriptionProps = useDescription(sortDescription);
 
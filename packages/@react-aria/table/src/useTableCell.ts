@@ -10,10 +10,17 @@
  * governing permissions and limitations under the License.
  */
 
-import {DOMAttributes, FocusableElement, RefObject} from '@react-types/shared';
-import {getCellId} from './utils';
+import {cellPasteHandlers, getCellId} from './utils';
+import {DOMAttributes, FocusableElement, Key, RefObject} from '@react-types/shared';
+import {focusSafely} from '@react-aria/interactions';
+import {getCellClipboardItems, pasteIntoCells} from './cellClipboard';
+import {getChildNodes} from '@react-stately/collections';
+import {getFocusableTreeWalker, isElementInChildOfActiveScope} from '@react-aria/focus';
 import {GridNode} from '@react-types/grid';
+import {mergeProps, useEffectEvent, useLayoutEffect} from '@react-aria/utils';
+import {FocusEvent as ReactFocusEvent, KeyboardEvent as ReactKeyboardEvent, SyntheticEvent, TdHTMLAttributes, useEffect, useState} from 'react';
 import {TableState} from '@react-stately/table';
+import {useClipboard} from '@react-aria/dnd';
 import {useGridCell} from '@react-aria/grid';
 
 export interface AriaTableCellProps {
@@ -28,14 +35,28 @@ export interface AriaTableCellProps {
    * Please use onCellAction at the collection level instead.
    * @deprecated
    **/
-  onAction?: () => void
+  onAction?: () => void,
+  /**
+   * Whether the cell can be edited. Pressing Enter or F2 while the cell is focused, or double clicking it, starts editing.
+   * While editing, keyboard navigation within the table is suspended so that keys are handled by the editor.
+   */
+  isEditable?: boolean,
+  /**
+   * Handler that is called when editing is committed, by pressing Enter or Tab, or by moving focus to another cell or out of the table.
+   * The editor is still rendered when this is called, so its current value can be read.
+   */
+  onEditCommit?: () => void,
+  /** Handler that is called when editing is canceled by pressing Escape. */
+  onEditCancel?: () => void
 }
 
 export interface TableCellAria {
   /** Props for the table cell element. */
   gridCellProps: DOMAttributes,
   /** Whether the cell is currently in a pressed state. */
-  isPressed: boolean
+  isPressed: boolean,
+  /** Whether the cell is currently being edited. */
+  isEditing: boolean
 }
 
 /**
@@ -52,8 +73,224 @@ export function useTableCell<T>(props: AriaTableCellProps, state: TableState<T>,
     gridCellProps.id = getCellId(state, props.node.parentKey!, columnKey);
   }
 
+  let {isEditing, editingProps} = useCellEditing(props, state, ref);
+  let {clipboardProps} = useClipboard({
+    isDisabled: !state.allowsCellSelection || isEditing,
+    getItems: () => getCellClipboardItems(state, props.node),
+    onPaste: (items) => {
+      let onCellPaste = cellPasteHandlers.get(state);
+      if (onCellPaste) {
+        pasteIntoCells(state, props.node, items, onCellPaste);
+      }
+    }
+  });
+
+  if (state.allowsCellSelection) {
+    gridCellProps = mergeProps(gridCellProps, clipboardProps);
+  }
+
+  if (isEditing) {
+    // Interactions within the editor should not select, press, or navigate away from the cell,
+    // so only the cell's attributes and focus handling are kept while editing.
+    let {
+      role,
+      id,
+      tabIndex,
+      colSpan,
+      onFocus,
+      'aria-colspan': ariaColSpan,
+      'aria-colindex': ariaColIndex,
+      'aria-selected': ariaSelected
+    } = gridCellProps as DOMAttributes & TdHTMLAttributes<HTMLTableCellElement>;
+    gridCellProps = mergeProps({
+      role,
+      id,
+      tabIndex,
+      colSpan,
+      onFocus,
+      'aria-colspan': ariaColSpan,
+      'aria-colindex': ariaColIndex,
+      'aria-selected': ariaSelected
+    }, editingProps);
+  } else if (props.isEditable) {
+    // Starting to edit takes precedence over pressing the cell.
+    let {onKeyDown} = gridCellProps;
+    gridCellProps = mergeProps(gridCellProps, editingProps);
+    gridCellProps.onKeyDown = (e) => {
+      editingProps.onKeyDown?.(e);
+      if (!e.isPropagationStopped()) {
+        onKeyDown?.(e);
+      }
+    };
+  }
+
   return {
     gridCellProps,
-    isPressed
+    isPressed,
+    isEditing
   };
 }
+
+function useCellEditing<T>(props: AriaTableCellProps, state: TableState<T>, ref: RefObject<FocusableElement | null>): {isEditing: boolean, editingProps: DOMAttributes} {
+  let {node, isEditable, onEditCancel} = props;
+  let isEditing = !!isEditable && state.editingKey === node.key;
+  let focusedKey = state.selectionManager.focusedKey;
+
+  // Committing is deferred until the editor has re-rendered, so that editors which update
+  // their own value in response to the same key event (e.g. NumberField) are up to date.
+  let [pendingCommit, setPendingCommit] = useState<{nextKey: Key | null} | null>(null);
+  let onEditCommit = useEffectEvent(() => props.onEditCommit?.());
+
+  let stopEditing = useEffectEvent((nextKey: Key | null) => {
+    state.setEditingKey(null);
+    if (nextKey != null) {
+      state.selectionManager.setFocusedKey(nextKey);
+    } else if (ref.current) {
+      focusSafely(ref.current);
+    }
+  });
+
+  let commitEditing = useEffectEvent(() => {
+    onEditCommit();
+    state.setEditingKey(null);
+  });
+
+  useLayoutEffect(() => {
+    if (pendingCommit) {
+      setPendingCommit(null);
+      onEditCommit();
+      stopEditing(pendingCommit.nextKey);
+    }
+  }, [pendingCommit, onEditCommit, stopEditing]);
+
+  // Move focus into the editor when editing starts.
+  useEffect(() => {
+    if (isEditing && ref.current) {
+      let focusable = getFocusableTreeWalker(ref.current).firstChild() as FocusableElement | null;
+      if (focusable) {
+        focusSafely(focusable);
+      }
+    }
+  }, [isEditing, ref]);
+
+  // Focusing another cell, e.g. by clicking on it, commits the edit.
+  useEffect(() => {
+    if (isEditing && focusedKey !== node.key) {
+      commitEditing();
+    }
+  }, [isEditing, focusedKey, node.key, commitEditing]);
+
+  if (!isEditable) {
+    return {isEditing, editingProps: {}};
+  }
+
+  if (!isEditing) {
+    return {
+      isEditing,
+      editingProps: {
+        onKeyDown: (e: ReactKeyboardEvent) => {
+          if ((e.key === 'Enter' || e.key === 'F2') && e.target === e.currentTarget && !e.altKey && !e.ctrlKey && !e.metaKey && !e.shiftKey) {
+            e.preventDefault();
+            e.stopPropagation();
+            state.setEditingKey(node.key);
+          }
+        },
+        onDoubleClick: () => state.setEditingKey(node.key)
+      }
+    };
+  }
+
+  let stopPropagation = (e: SyntheticEvent) => e.stopPropagation();
+  return {
+    isEditing,
+    editingProps: {
+      // Handled in the capture phase so that editors which stop propagation of these keys still commit or cancel.
+      onKeyDownCapture: (e: ReactKeyboardEvent) => {
+        // Ignore events from portals, e.g. the popover of a Picker, and during IME composition.
+        if (!e.currentTarget.contains(e.target as Element) || e.nativeEvent.isComposing || pendingCommit) {
+          return;
+        }
+
+        switch (e.key) {
+          case 'Enter':
+            // Other elements within the editor, e.g. the trigger of a Picker, may handle Enter themselves.
+            // In that case the edit is only committed if the event reaches the cell unhandled.
+            if (isTextInput(e.target as Element)) {
+              e.preventDefault();
+              setPendingCommit({nextKey: getAdjacentCellKey(state, node, e.shiftKey ? -1 : 1, 0)});
+            }
+            break;
+          case 'Tab':
+            e.preventDefault();
+            setPendingCommit({nextKey: getAdjacentCellKey(state, node, 0, e.shiftKey ? -1 : 1)});
+            break;
+          case 'Escape':
+            e.preventDefault();
+            onEditCancel?.();
+            stopEditing(null);
+            break;
+        }
+      },
+      onKeyDown: (e: ReactKeyboardEvent) => {
+        // Keep events within the editor from reaching the row and the table.
+        e.stopPropagation();
+        if (e.key === 'Enter' && !e.isDefaultPrevented() && !e.nativeEvent.isComposing && !pendingCommit && !isTextInput(e.target as Element)) {
+          e.preventDefault();
+          setPendingCommit({nextKey: getAdjacentCellKey(state, node, e.shiftKey ? -1 : 1, 0)});
+        }
+      },
+      onPointerDown: stopPropagation,
+      onMouseDown: stopPropagation,
+      // Moving focus out of the table, e.g. by clicking elsewhere on the page, commits the edit.
+      // Focus moving into an overlay opened by the editor, e.g. the popover of a Picker, does not.
+      onBlur: (e: ReactFocusEvent) => {
+        let relatedTarget = e.relatedTarget as Element | null;
+        if (pendingCommit || e.currentTarget.contains(relatedTarget) || (relatedTarget && isElementInChildOfActiveScope(relatedTarget))) {
+          return;
+        }
+
+        commitEditing();
+      }
+    }
+  };
+}
+
+const nonTextInputTypes = new Set([
+  'checkbox',
+  'radio',
+  'range',
+  'color',
+  'file',
+  'image',
+  'button',
+  'submit',
+  'reset'
+]);
+
+// Whether the element is a single line text input that is not showing a popup, e.g. the list box of a ComboBox.
+function isTextInput(element: Element) {
+  return element instanceof HTMLInputElement
+    && !nonTextInputTypes.has(element.type)
+    && element.getAttribute('aria-expanded') !== 'true';
+}
+
+// Returns the cell that focus moves to after committing an edit, in the same column of an adjacent row,
+// or in an adjacent column of the same row.
+function getAdjacentCellKey<T>(state: TableState<T>, node: GridNode<unknown>, rowOffset: number, columnOffset: number): Key | null {
+  let rows = state.collection.rows.filter(row => row.type === 'item' && !state.selectionManager.isDisabled(row.key));
+  let rowIndex = rows.findIndex(row => row.key === node.parentKey);
+  let row = rowIndex >= 0 ? rows[rowIndex + rowOffset] : null;
+  if (!row) {
+    return null;
+  }
+
+  let columnIndex = (node.colIndex ?? node.index) + columnOffset;
+  for (let cell of getChildNodes(row, state.collection) as Iterable<GridNode<T>>) {
+    let start = cell.colIndex ?? cell.index;
+    if (columnIndex >= start && columnIndex < start + (cell.colSpan ?? 1)) {
+      return cell.key;
+    }
+  }
+
+  return null;
+}
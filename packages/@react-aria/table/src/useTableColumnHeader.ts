@@ -50,8 +50,9 @@ export function useTableColumnHeader<T>(props: AriaTableColumnHeaderProps<T>, st
 
   let {pressProps} = usePress({
     isDisabled: !allowsSorting || isSelectionCellDisabled,
-    onPress() {
-      state.sort(node.key);
+    onPress(e) {
+      // Holding Shift adds the column to the current sort when sorting by multiple columns is supported.
+      state.sort(node.key, undefined, e.shiftKey);
     },
     ref
   });
@@ -59,9 +60,11 @@ export function useTableColumnHeader<T>(props: AriaTableColumnHeaderProps<T>, st
   // Needed to pick up the focusable context, enabling things like Tooltips for example
   let {focusableProps} = useFocusable({}, ref);
 
+  // aria-sort should only be applied to the primary sorted column. Secondary sorts are included in the description instead.
   let ariaSort: DOMAttributes['aria-sort'] | undefined = undefined;
-  let isSortedColumn = state.sortDescriptor?.column === node.key;
-  let sortDirection = state.sortDescriptor?.direction;
+  let sortIndex = state.sortDescriptors.findIndex(descriptor => descriptor.column === node.key);
+  let isSortedColumn = sortIndex === 0;
+  let sortDirection = sortIndex >= 0 ? state.sortDescriptors[sortIndex].direction : undefined;
   // aria-sort not supported in Android Talkback
   if (node.props.allowsSorting && !isAndroid()) {
     ariaSort = isSortedColumn ? sortDirection : 'none';
@@ -72,9 +75,13 @@ export function useTableColumnHeader<T>(props: AriaTableColumnHeaderProps<T>, st
   if (allowsSorting) {
     sortDescription = `${stringFormatter.format('sortable')}`;
     // Android Talkback doesn't support aria-sort so we add sort order details to the aria-described by here
-    if (isSortedColumn && sortDirection && isAndroid()) {
+    if (sortDirection && (sortIndex > 0 || isAndroid())) {
       sortDescription = `${sortDescription}, ${stringFormatter.format(sortDirection)}`;
     }
+
+    if (sortDirection && state.sortDescriptors.length > 1) {
+      sortDescription = `${sortDescription}, ${stringFormatter.format('sortPriority', {priority: sortIndex + 1})}`;
+    }
   }
 
   let descriptionProps = useDescription(sortDescription);
@@ -0,0 +1,116 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {AriaButtonProps} from '@react-types/button';
+import {DOMAttributes, DragPreviewRenderer, DropPosition, FocusableElement, RefObject} from '@react-types/shared';
+import {gridIds} from './utils';
+import {GridNode} from '@react-types/grid';
+// @ts-ignore
+import intlMessages from '../intl/*.json';
+import {mergeProps} from '@react-aria/utils';
+import {TableColumnReorderState} from '@react-stately/table';
+import {useDrag, useDrop} from '@react-aria/dnd';
+import {useLocalizedStringFormatter} from '@react-aria/i18n';
+
+export interface AriaTableColumnReorderProps<T> {
+  /** An object representing the [column header](https://www.w3.org/TR/wai-aria-1.1/#columnheader) being reordered. */
+  node: GridNode<T>,
+  /** Whether reordering is disabled for the column. */
+  isDisabled?: boolean,
+  /** The ref of the element that will be rendered as the drag preview while dragging. */
+  preview?: RefObject<DragPreviewRenderer | null>
+}
+
+export interface TableColumnReorderAria {
+  /** Props for the column header element. */
+  columnProps: DOMAttributes,
+  /** Props for the drag button, which starts keyboard and screen reader reordering. */
+  dragButtonProps: AriaButtonProps,
+  /** Whether the column is currently being dragged. */
+  isDragging: boolean,
+  /** Where the dragged column will be inserted relative to this column, or null if this column is not the current drop target. */
+  dropPosition: Exclude<DropPosition, 'on'> | null
+}
+
+/**
+ * Provides the behavior and accessibility implementation for reordering a column in a table
+ * via drag and drop, with full parity for keyboard and screen reader users.
+ * @param props - Props for the column reordering.
+ * @param state - State for the column reordering, as returned by `useTableColumnReorderState`, or null if reordering is not enabled.
+ * @param ref - The ref attached to the column header element.
+ */
+export function useTableColumnReorder<T>(props: AriaTableColumnReorderProps<T>, state: TableColumnReorderState<T> | null, ref: RefObject<FocusableElement | null>): TableColumnReorderAria {
+  let {node, preview} = props;
+  let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-aria/table');
+  let gridId = (state && gridIds.get(state.tableState)) ?? '';
+  let dragType = `application/x-react-aria-table-column-${gridId}`;
+  // Column groups and the built-in selection and drag button columns cannot be moved.
+  let isDisabled = props.isDisabled || !state || node.hasChildNodes || !!node.props?.isSelectionCell || !!node.props?.isDragButtonCell;
+
+  let {dragProps, dragButtonProps, isDragging} = useDrag({
+    isDisabled,
+    hasDragButton: true,
+    preview,
+    getItems() {
+      return [{
+        [dragType]: String(node.key),
+        'text/plain': node.textValue
+      }];
+    },
+    getAllowedDropOperations() {
+      return ['move'];
+    },
+    onDragStart() {
+      state?.startDrag(node.key);
+    },
+    onDragEnd() {
+      state?.endDrag();
+    }
+  });
+
+  let {dropProps, isDropTarget} = useDrop({
+    ref,
+    isDisabled,
+    getDropOperation(types, allowedOperations) {
+      if (types.has(dragType) && allowedOperations.includes('move') && state?.getDropPosition(node.key)) {
+        return 'move';
+      }
+
+      return 'cancel';
+    },
+    onDrop() {
+      let dropPosition = state?.getDropPosition(node.key);
+      if (state && dropPosition) {
+        state.moveColumn(node.key, dropPosition);
+      }
+    }
+  });
+
+  if (isDisabled || !state) {
+    return {
+      columnProps: {},
+      dragButtonProps: {},
+      isDragging: false,
+      dropPosition: null
+    };
+  }
+
+  return {
+    columnProps: mergeProps(dragProps, dropProps),
+    dragButtonProps: {
+      ...dragButtonProps,
+      'aria-label': stringFormatter.format('dragColumn', {columnName: node.textValue})
+    },
+    isDragging,
+    dropPosition: isDropTarget && state.draggingKey != null ? state.getDropPosition(node.key) : null
+  };
+}
@@ -11,10 +11,16 @@
  */
 
 import {Key} from '@react-types/shared';
+import {TableCellPasteEvent} from '@react-types/table';
 import {TableState} from '@react-stately/table';
 
 export const gridIds: WeakMap<TableState<unknown>, string> = new WeakMap<TableState<unknown>, string>();
 
+type CellPasteHandler = (e: TableCellPasteEvent) => void;
+
+// Used to share the onCellPaste handler between useTable and useTableCell.
+export const cellPasteHandlers: WeakMap<TableState<unknown>, CellPasteHandler> = new WeakMap<TableState<unknown>, CellPasteHandler>();
+
 function normalizeKey(key: Key): string {
   if (typeof key === 'string') {
     return key.replace(/\s*/g, '');
@@ -32,6 +32,23 @@ interface TableColumnHeaderActionOpts extends TableToggleSortOpts {
   action: number
 }
 interface TableRowActionOpts extends GridRowActionOpts {}
+interface TableEditCellOpts {
+  /**
+   * The text or node of the cell to edit.
+   */
+  cell: string | HTMLElement,
+  /**
+   * What interaction type to use when starting to edit the cell. Defaults to the interaction type set on the tester.
+   */
+  interactionType?: UserOpts['interactionType']
+}
+interface TableCommitCellEditOpts {
+  /**
+   * The key used to commit the edit. Enter moves focus to the cell below, and Tab to the next cell in the row.
+   * @default 'Enter'
+   */
+  key?: 'Enter' | 'Tab'
+}
 
 export class TableTester {
   private user;
@@ -366,6 +383,67 @@ export class TableTester {
     }
   }
 
+  /**
+   * Starts editing the specified table cell, and waits for focus to move into its editor. Defaults to using the interaction type set on the table tester.
+   */
+  async editCell(opts: TableEditCellOpts): Promise<void> {
+    let {
+      cell,
+      interactionType = this._interactionType
+    } = opts;
+
+    if (typeof cell === 'string') {
+      cell = this.findCell({text: cell});
+    }
+
+    if (!cell) {
+      throw new Error('Target cell not found in the table.');
+    }
+
+    if (interactionType === 'keyboard') {
+      if (document.activeElement !== cell) {
+        act(() => (cell as HTMLElement).focus());
+      }
+
+      await this.user.keyboard('[Enter]');
+    } else {
+      await this.user.dblClick(cell);
+    }
+
+    await waitFor(() => {
+      if (!cell.contains(document.activeElement) || document.activeElement === cell) {
+        throw new Error('Expected focus to move into the editor of the table cell.');
+      } else {
+        return true;
+      }
+    });
+  }
+
+  /**
+   * Commits the edit of the cell currently being edited.
+   */
+  async commitCellEdit(opts: TableCommitCellEditOpts = {}): Promise<void> {
+    let {key = 'Enter'} = opts;
+    let cell = this.editingCell;
+    if (!cell) {
+      throw new Error('No table cell is currently being edited.');
+    }
+
+    await this.user.keyboard(`[${key}]`);
+  }
+
+  /**
+   * Cancels the edit of the cell currently being edited, and restores focus to the cell.
+   */
+  async cancelCellEdit(): Promise<void> {
+    let cell = this.editingCell;
+    if (!cell) {
+      throw new Error('No table cell is currently being edited.');
+    }
+
+    await this.user.keyboard('[Escape]');
+  }
+
   // TODO: should there be utils for drag and drop and column resizing? For column resizing, I'm not entirely convinced that users will be doing that in their tests.
   // For DnD, it might be tricky to do for keyboard DnD since we wouldn't know what valid drop zones there are... Similarly, for simulating mouse drag and drop the coordinates depend
   // on the mocks the user sets up for their row height/etc.
@@ -470,6 +548,13 @@ export class TableTester {
     return this.rows.filter(row => row.getAttribute('aria-selected') === 'true');
   }
 
+  /**
+   * Returns the cell that is currently being edited, if any.
+   */
+  get editingCell(): HTMLElement | null {
+    return this._table.querySelector('[data-editing]');
+  }
+
   /**
    * Returns the row headers within the table if any.
    */
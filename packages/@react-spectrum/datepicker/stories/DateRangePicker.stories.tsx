@@ -211,14 +211,14 @@ const preferences = [
   {label: 'Arabic (Egypt)', locale: 'AR-EG', territories: 'EG', ordering: 'gregory coptic islamic islamic-civil islamic-tbla'},
   {label: 'Arabic (Saudi Arabia)', locale: 'ar-SA', territories: 'SA', ordering: 'islamic-umalqura gregory islamic islamic-rgsa'},
   {label: 'Farsi (Afghanistan)', locale: 'fa-AF', territories: 'AF IR', ordering: 'persian gregory islamic islamic-civil islamic-tbla'},
-  // {territories: 'CN CX HK MO SG', ordering: 'gregory chinese'},
+  {label: 'Chinese (China)', locale: 'zh-CN', territories: 'CN CX HK MO SG', ordering: 'gregory chinese'},
   {label: 'Amharic (Ethiopia)', locale: 'am-ET', territories: 'ET', ordering: 'gregory ethiopic ethioaa'},
   {label: 'Hebrew (Israel)', locale: 'he-IL', territories: 'IL', ordering: 'gregory hebrew islamic islamic-civil islamic-tbla'},
   {label: 'Hindi (India)', locale: 'hi-IN', territories: 'IN', ordering: 'gregory indian'},
   // {label: 'Marathi (India)', locale: 'mr-IN', territories: 'IN', ordering: 'gregory indian'},
   {label: 'Bengali (India)', locale: 'bn-IN', territories: 'IN', ordering: 'gregory indian'},
   {label: 'Japanese (Japan)', locale: 'ja-JP', territories: 'JP', ordering: 'gregory japanese'},
-  // {territories: 'KR', ordering: 'gregory dangi'},
+  {label: 'Korean (Korea)', locale: 'ko-KR', territories: 'KR', ordering: 'gregory dangi'},
   {label: 'Thai (Thailand)', locale: 'th-TH', territories: 'TH', ordering: 'buddhist gregory'},
   {label: 'Chinese (Taiwan)', locale: 'zh-TW', territories: 'TW', ordering: 'gregory roc chinese'}
 ];
@@ -236,7 +236,9 @@ const calendars = [
   {key: 'hebrew', name: 'Hebrew'},
   {key: 'coptic', name: 'Coptic'},
   {key: 'ethiopic', name: 'Ethiopic'},
-  {key: 'ethioaa', name: 'Ethiopic (Amete Alem)'}
+  {key: 'ethioaa', name: 'Ethiopic (Amete Alem)'},
+  {key: 'chinese', name: 'Chinese'},
+  {key: 'dangi', name: 'Dangi'}
 ];
 
 function Example(props) {
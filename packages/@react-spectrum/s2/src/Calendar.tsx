@@ -23,8 +23,10 @@ import {
   CalendarGridBody,
   CalendarGridHeader,
   CalendarHeaderCellProps,
+  CalendarSelectionGranularity,
   CalendarState,
   CalendarStateContext,
+  CalendarWeekNumberCell,
   ContextValue,
   DateValue,
   Provider,
@@ -59,10 +61,14 @@ export interface CalendarProps<T extends DateValue>
    */
   errorMessage?: ReactNode,
   /**
-   * The number of months to display at once.
+   * The number of months to display at once. Ignored when the `selectionGranularity` is `month`, `quarter`, or `year`.
    * @default 1
    */
-  visibleMonths?: number
+  visibleMonths?: number,
+  /**
+   * Whether to display the week number of each week, according to the week numbering rules of the current locale.
+   */
+  showWeekNumbers?: boolean
 }
 
 export const CalendarContext = createContext<ContextValue<Partial<CalendarProps<any>>, HTMLDivElement>>(null);
@@ -144,6 +150,25 @@ const cellStyles = style({
   justifyContent: 'center'
 });
 
+const periodCellStyles = style({
+  outlineStyle: 'none',
+  padding: 4,
+  position: 'relative',
+  width: 80,
+  height: 40,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center'
+});
+
+const weekNumberStyles = style({
+  font: 'detail',
+  color: 'neutral-subdued',
+  cursor: 'default',
+  textAlign: 'center',
+  paddingEnd: 8
+});
+
 const cellInnerStyles = style<CalendarCellRenderProps & {selectionMode: 'single' | 'range'}>({
   ...focusRing(),
   transition: {
@@ -284,10 +309,37 @@ const selectionSpanStyles = style({
   forcedColorAdjust: 'none'
 });
 
+// A bar beneath each cell in the comparison range, joined across the gaps between cells.
+const comparisonRangeStyles = style<CalendarCellRenderProps>({
+  position: 'absolute',
+  bottom: -2,
+  height: 2,
+  insetStart: {
+    default: 'calc(-1 * var(--cell-gap, 0px))',
+    isComparisonStart: 0
+  },
+  insetEnd: {
+    default: 'calc(-1 * var(--cell-gap, 0px))',
+    isComparisonEnd: 0
+  },
+  borderStartRadius: {
+    isComparisonStart: 'full'
+  },
+  borderEndRadius: {
+    isComparisonEnd: 'full'
+  },
+  backgroundColor: {
+    default: 'gray-600',
+    forcedColors: 'ButtonText'
+  },
+  forcedColorAdjust: 'none'
+});
+
 export const Calendar = /*#__PURE__*/ (forwardRef as forwardRefType)(function Calendar<T extends DateValue>(props: CalendarProps<T>, ref: ForwardedRef<HTMLDivElement>) {
   [props, ref] = useSpectrumContextProps(props, ref, CalendarContext);
   let {
     visibleMonths = 1,
+    showWeekNumbers,
     errorMessage,
     UNSAFE_style,
     UNSAFE_className,
@@ -295,11 +347,17 @@ export const Calendar = /*#__PURE__*/ (forwardRef as forwardRefType)(function Ca
     ...otherProps
   } = props;
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-spectrum/s2');
+  // Month, quarter, and year grids always display a single grid.
+  let isPeriodGrid = isPeriodGranularity(props.selectionGranularity);
+  if (isPeriodGrid) {
+    visibleMonths = 1;
+  }
+
   return (
     <AriaCalendar
       {...otherProps}
       ref={ref}
-      visibleDuration={{months: visibleMonths}}
+      visibleDuration={isPeriodGrid ? undefined : {months: visibleMonths}}
       style={UNSAFE_style}
       className={(UNSAFE_className || '') + calendarStyles(null, styles)}>
       {({isInvalid, isDisabled}) => {
@@ -325,7 +383,7 @@ export const Calendar = /*#__PURE__*/ (forwardRef as forwardRefType)(function Ca
                 alignItems: 'start'
               })}>
               {Array.from({length: visibleMonths}).map((_, i) => (
-                <CalendarGrid months={i} key={i} />
+                <CalendarGrid months={i} key={i} showWeekNumbers={showWeekNumbers} />
               ))}
             </div>
             {isInvalid && (
@@ -340,7 +398,32 @@ export const Calendar = /*#__PURE__*/ (forwardRef as forwardRefType)(function Ca
   );
 });
 
-export const CalendarGrid = (props: Omit<AriaCalendarGridProps, 'children'> & PropsWithChildren & {months: number}): ReactElement => {
+export function isPeriodGranularity(selectionGranularity?: CalendarSelectionGranularity): boolean {
+  return selectionGranularity === 'month' || selectionGranularity === 'quarter' || selectionGranularity === 'year';
+}
+
+export const CalendarGrid = (props: Omit<AriaCalendarGridProps, 'children'> & PropsWithChildren & {months: number, showWeekNumbers?: boolean}): ReactElement => {
+  let calendarStateContext = useContext(CalendarStateContext);
+  let rangeCalendarStateContext = useContext(RangeCalendarStateContext);
+  let state = (calendarStateContext ?? rangeCalendarStateContext)!;
+
+  if (isPeriodGranularity(state.selectionGranularity)) {
+    return (
+      <AriaCalendarGrid
+        className={style({
+          borderCollapse: 'collapse',
+          borderSpacing: 0,
+          isolation: 'isolate'
+        })}>
+        <CalendarGridBody>
+          {(date) => (
+            <PeriodCalendarCell date={date} state={state} isRangeSelection={!!rangeCalendarStateContext} />
+          )}
+        </CalendarGridBody>
+      </AriaCalendarGrid>
+    );
+  }
+
   // use isolation to start a new stacking context so that we can use zIndex -1 for the selection span.
   return (
     <AriaCalendarGrid
@@ -349,7 +432,8 @@ export const CalendarGrid = (props: Omit<AriaCalendarGridProps, 'children'> & Pr
         borderSpacing: 0,
         isolation: 'isolate'
       })}
-      offset={{months: props.months}}>
+      offset={{months: props.months}}
+      showWeekNumbers={props.showWeekNumbers}>
       <CalendarGridHeader>
         {(day) => (
           <CalendarHeaderCell>
@@ -357,7 +441,12 @@ export const CalendarGrid = (props: Omit<AriaCalendarGridProps, 'children'> & Pr
           </CalendarHeaderCell>
         )}
       </CalendarGridHeader>
-      <CalendarGridBody>
+      <CalendarGridBody
+        weekNumber={(weekNumber) => (
+          <CalendarWeekNumberCell className={weekNumberStyles}>
+            {weekNumber}
+          </CalendarWeekNumberCell>
+        )}>
         {(date) => (
           <CalendarCell date={date} firstDayOfWeek={props.firstDayOfWeek} />
         )}
@@ -371,7 +460,7 @@ export const CalendarGrid = (props: Omit<AriaCalendarGridProps, 'children'> & Pr
 export const CalendarHeading = (): ReactElement => {
   let calendarStateContext = useContext(CalendarStateContext);
   let rangeCalendarStateContext = useContext(RangeCalendarStateContext);
-  let {visibleRange, timeZone} = calendarStateContext ?? rangeCalendarStateContext ?? {};
+  let {visibleRange, timeZone, selectionGranularity} = calendarStateContext ?? rangeCalendarStateContext ?? {};
   let currentMonth = visibleRange?.start ?? visibleRange?.end;
   let monthFormatter = useDateFormatter({
     month: 'long',
@@ -380,10 +469,22 @@ export const CalendarHeading = (): ReactElement => {
     calendar: visibleRange?.start.calendar.identifier,
     timeZone
   });
+  let yearFormatter = useDateFormatter({
+    year: 'numeric',
+    calendar: visibleRange?.start.calendar.identifier,
+    timeZone
+  });
   let months = useMemo(() => {
     if (!visibleRange) {
       return [];
     }
+
+    // Month, quarter, and year grids display a single year or range of years.
+    if (isPeriodGranularity(selectionGranularity)) {
+      let start = visibleRange.start.toDate(timeZone!);
+      let end = visibleRange.end.toDate(timeZone!);
+      return [visibleRange.start.year === visibleRange.end.year ? yearFormatter.format(start) : yearFormatter.formatRange(start, end)];
+    }
     let months: string[] = [];
     for (let i = visibleRange.start; i.compare(visibleRange.end) <= 0; i = i.add({months: 1})) {
       // TODO: account for the first week possibly overlapping, like with a custom 454 calendar.
@@ -394,7 +495,7 @@ export const CalendarHeading = (): ReactElement => {
       months.push(monthFormatter.format(i.toDate(timeZone!)));
     }
     return months;
-  }, [visibleRange, monthFormatter, timeZone]);
+  }, [visibleRange, monthFormatter, yearFormatter, selectionGranularity, timeZone]);
 
   return (
     <Heading styles={headingStyles}>
@@ -521,11 +622,49 @@ const CalendarCellInner = (props: Omit<CalendarCellProps, 'children'> & {isRange
         </div>
         {isUnavailable && <div className={unavailableStyles} role="presentation" />}
       </div>
+      {renderProps!.isInComparisonRange && <div className={comparisonRangeStyles(renderProps!)} role="presentation" />}
       {isBackgroundStyleApplied && <div style={{'--selection-span': selectionSpan} as CSSProperties} className={selectionSpanStyles} role="presentation" />}
     </div>
   );
 };
 
+const PeriodCalendarCell = (props: Omit<CalendarCellProps, 'children'> & {isRangeSelection: boolean, state: CalendarState | RangeCalendarState}): ReactElement => {
+  let {state, isRangeSelection} = props;
+  let ref = useRef<HTMLDivElement>(null);
+  return (
+    <AriaCalendarCell
+      date={props.date}
+      className={periodCellStyles}>
+      {(renderProps) => (
+        <div
+          className={style({
+            position: 'relative',
+            width: 'full',
+            '--cell-width': {
+              type: 'width',
+              value: '[self(width)]'
+            }
+          })}>
+          <div
+            ref={ref}
+            style={pressScale(ref, {})(renderProps)}
+            className={cellInnerStyles({...renderProps, selectionMode: isRangeSelection ? 'range' : 'single'})}>
+            <div>
+              {renderProps.formattedDate}
+            </div>
+            {renderProps.isUnavailable && <div className={unavailableStyles} role="presentation" />}
+          </div>
+          {renderProps.isInComparisonRange && <div className={comparisonRangeStyles(renderProps)} role="presentation" />}
+          {/* Each month, quarter, or year in a range is highlighted individually rather than spanning the row. */}
+          {renderProps.isSelected && isRangeSelection && 'highlightedRange' in state && (
+            <div style={{'--selection-span': 0} as CSSProperties} className={selectionSpanStyles} role="presentation" />
+          )}
+        </div>
+      )}
+    </AriaCalendarCell>
+  );
+};
+
 type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
 
 /**
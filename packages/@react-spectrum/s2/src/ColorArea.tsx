@@ -13,6 +13,7 @@
 import {
   ColorArea as AriaColorArea,
   ColorAreaProps as AriaColorAreaProps,
+  ColorAreaContrastContour,
   ContextValue
 } from 'react-aria-components';
 import {ColorHandle} from './ColorHandle';
@@ -21,14 +22,51 @@ import {DOMRef, DOMRefValue, GlobalDOMAttributes} from '@react-types/shared';
 import {getAllowedOverrides, StyleProps} from './style-utils' with {type: 'macro'};
 import {style} from '../style' with {type: 'macro'};
 import {useDOMRef} from '@react-spectrum/utils';
+import {useLocale} from 'react-aria';
 import {useSpectrumContextProps} from './useSpectrumContextProps';
 
 export interface ColorAreaProps extends Omit<AriaColorAreaProps, 'children' | 'className' | 'style' | keyof GlobalDOMAttributes>, StyleProps {}
 
 export const ColorAreaContext = createContext<ContextValue<Partial<ColorAreaProps>, DOMRefValue<HTMLDivElement>>>(null);
 
+const contours = style({
+  position: 'absolute',
+  inset: 0,
+  size: 'full',
+  pointerEvents: 'none',
+  overflow: 'visible'
+});
+
+const contourLine = style({
+  fill: 'none',
+  strokeWidth: 2,
+  stroke: {
+    default: 'white',
+    forcedColors: 'ButtonBorder'
+  }
+});
+
+function ContrastContours({contrastContours}: {contrastContours: ColorAreaContrastContour[]}) {
+  // The x axis of the color area is flipped in right-to-left locales, so flip the contours to match the gradient.
+  let {direction} = useLocale();
+  let getX = (x: number) => (direction === 'rtl' ? 1 - x : x) * 100;
+  return (
+    // Use a difference blend so the lines remain visible against both light and dark colors.
+    <svg className={contours} style={{mixBlendMode: 'difference'}} viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+      {contrastContours.map(contour => contour.lines.map((line, i) => (
+        <polyline
+          key={`${contour.threshold}-${i}`}
+          className={contourLine}
+          vectorEffect="non-scaling-stroke"
+          data-threshold={contour.threshold}
+          points={line.map(({x, y}) => `${getX(x)},${y * 100}`).join(' ')} />
+      )))}
+    </svg>
+  );
+}
+
 /**
- * A ColorArea allows users to adjust two channels of an RGB, HSL or HSB color value against a two-dimensional gradient background.
+ * A ColorArea allows users to adjust two channels of an RGB, HSL, HSB, OKLCH, OKLab or Display P3 color value against a two-dimensional gradient background.
  */
 export const ColorArea = forwardRef(function ColorArea(props: ColorAreaProps, ref: DOMRef<HTMLDivElement>) {
   [props, ref] = useSpectrumContextProps(props, ref, ColorAreaContext);
@@ -64,11 +102,14 @@ export const ColorArea = forwardRef(function ColorArea(props: ColorAreaProps, re
           isDisabled: 'disabled'
         }
       }, getAllowedOverrides({height: true}))(renderProps, styles)}>
-      {({state}) =>
-        (<ColorHandle
-          containerRef={containerRef}
-          getPosition={() => state.getThumbPosition()} />)
-      }
+      {({state}) => (
+        <>
+          {state.contrastContours.length > 0 && <ContrastContours contrastContours={state.contrastContours} />}
+          <ColorHandle
+            containerRef={containerRef}
+            getPosition={() => state.getThumbPosition()} />
+        </>
+      )}
     </AriaColorArea>
   );
 });
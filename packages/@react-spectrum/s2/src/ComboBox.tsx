@@ -63,6 +63,7 @@ import {PopoverBase} from './Popover';
 import {pressScale} from './pressScale';
 import {ProgressCircle} from './ProgressCircle';
 import {TextFieldRef} from '@react-types/textfield';
+import {TextHighlight} from './TextHighlight';
 import {useLocalizedStringFormatter} from '@react-aria/i18n';
 import {useScale} from './utils';
 import {useSpectrumContextProps} from './useSpectrumContextProps';
@@ -400,7 +401,7 @@ export function ComboBoxItem(props: ComboBoxItemProps): ReactNode {
                 }]
               ]}>
               {!isLink && <CheckmarkIcon size={checkmarkIconSize[size]} className={checkmark({...renderProps, size})} />}
-              {typeof children === 'string' ? <Text slot="label">{children}</Text> : children}
+              {typeof children === 'string' ? <Text slot="label"><TextHighlight>{children}</TextHighlight></Text> : children}
             </Provider>
           </>
         );
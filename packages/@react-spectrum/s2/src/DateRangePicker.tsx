@@ -14,10 +14,15 @@ import {
   DateRangePicker as AriaDateRangePicker,
   DateRangePickerProps as AriaDateRangePickerProps,
   ContextValue,
+  DateRangePickerState,
   DateValue,
-  FormContext
+  FormContext,
+  ListBox,
+  ListBoxItem
 } from 'react-aria-components';
 import {CalendarButton, CalendarPopover, timeField} from './DatePicker';
+import {checkmark, label as labelStyles} from './Menu';
+import CheckmarkIcon from '../ui-icons/Checkmark';
 import {createContext, forwardRef, ReactElement, Ref, useContext, useState} from 'react';
 import {DateInput, DateInputContainer, InvalidIndicator} from './DateField';
 import {field, fieldInput, getAllowedOverrides, StyleProps} from './style-utils' with {type: 'macro'};
@@ -25,6 +30,7 @@ import {FieldGroup, FieldLabel, HelpText} from './Field';
 import {forwardRefType, GlobalDOMAttributes, HelpTextProps, SpectrumLabelableProps} from '@react-types/shared';
 // @ts-ignore
 import intlMessages from '../intl/*.json';
+import {listbox, listboxItem} from './ComboBox';
 import {RangeCalendar, RangeCalendarProps, TimeField} from '../';
 import {style} from '../style' with {type: 'macro'};
 import {useLocalizedStringFormatter} from '@react-aria/i18n';
@@ -50,6 +56,15 @@ export interface DateRangePickerProps<T extends DateValue> extends
     maxVisibleMonths?: number
 }
 
+const presetListStyles = style({
+  width: 160,
+  flexShrink: 0,
+  paddingEnd: 16,
+  borderEndWidth: 1,
+  borderStyle: 'solid',
+  borderColor: 'gray-200'
+});
+
 export const DateRangePickerContext = createContext<ContextValue<Partial<DateRangePickerProps<any>>, HTMLDivElement>>(null);
 
 export const DateRangePicker = /*#__PURE__*/ (forwardRef as forwardRefType)(function DateRangePicker<T extends DateValue>(
@@ -140,9 +155,18 @@ export const DateRangePicker = /*#__PURE__*/ (forwardRef as forwardRefType)(func
               </div>
             </FieldGroup>
             <CalendarPopover>
-              <RangeCalendar
-                visibleMonths={maxVisibleMonths}
-                createCalendar={createCalendar} />
+              {state.presets.length > 0 ? (
+                <div className={style({display: 'flex', gap: 16})}>
+                  <PresetList state={state} />
+                  <RangeCalendar
+                    visibleMonths={maxVisibleMonths}
+                    createCalendar={createCalendar} />
+                </div>
+              ) : (
+                <RangeCalendar
+                  visibleMonths={maxVisibleMonths}
+                  createCalendar={createCalendar} />
+              )}
               {showTimeField && (
                 <div className={style({display: 'flex', gap: 16, contain: 'inline-size', marginTop: 24})}>
                   <TimeField
@@ -183,3 +207,36 @@ export const DateRangePicker = /*#__PURE__*/ (forwardRef as forwardRefType)(func
     </AriaDateRangePicker>
   );
 });
+
+function PresetList({state}: {state: DateRangePickerState}) {
+  let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-spectrum/s2');
+  return (
+    <ListBox
+      aria-label={stringFormatter.format('daterangepicker.presets')}
+      items={state.presets}
+      selectionMode="single"
+      disallowEmptySelection
+      selectedKeys={state.selectedPresetId != null ? [state.selectedPresetId] : []}
+      onSelectionChange={keys => {
+        let [id] = keys;
+        if (id != null) {
+          state.selectPreset(String(id));
+        }
+      }}
+      className={listbox({size: 'M'}) + presetListStyles}>
+      {preset => (
+        <ListBoxItem
+          id={preset.id}
+          textValue={preset.label}
+          className={renderProps => listboxItem({...renderProps, size: 'M'})}>
+          {renderProps => (
+            <>
+              <CheckmarkIcon size="M" className={checkmark({...renderProps, size: 'M'})} />
+              <span className={labelStyles({size: 'M'})}>{preset.label}</span>
+            </>
+          )}
+        </ListBoxItem>
+      )}
+    </ListBox>
+  );
+}
@@ -47,6 +47,7 @@ import {Placement, useLocale} from 'react-aria';
 import {PopoverBase} from './Popover';
 import {PressResponder} from '@react-aria/interactions';
 import {pressScale} from './pressScale';
+import {TextHighlight} from './TextHighlight';
 import {useGlobalListeners} from '@react-aria/utils';
 import {useSpectrumContextProps} from './useSpectrumContextProps';
 // viewbox on LinkOut is super weird just because i copied the icon from designs...
@@ -507,7 +508,7 @@ export function MenuItem(props: MenuItemProps): ReactNode {
                   <CheckmarkIcon size={size} className={iconStyles} />
                 </div>
               )}
-              {typeof children === 'string' ? <Text slot="label">{children}</Text> : children}
+              {typeof children === 'string' ? <Text slot="label"><TextHighlight>{children}</TextHighlight></Text> : children}
               {isLinkOut && !hideLinkOutIcon && (
                 <div slot="descriptor" className={descriptor}>
                   <LinkOutIcon
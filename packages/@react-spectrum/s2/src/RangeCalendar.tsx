@@ -18,7 +18,7 @@ import {
   Provider,
   Text
 } from 'react-aria-components';
-import {CalendarButton, CalendarGrid, CalendarHeading} from './Calendar';
+import {CalendarButton, CalendarGrid, CalendarHeading, isPeriodGranularity} from './Calendar';
 import ChevronLeftIcon from '../s2wf-icons/S2_Icon_ChevronLeft_20_N.svg';
 import ChevronRightIcon from '../s2wf-icons/S2_Icon_ChevronRight_20_N.svg';
 import {createContext, ForwardedRef, forwardRef, ReactNode} from 'react';
@@ -41,10 +41,14 @@ export interface RangeCalendarProps<T extends DateValue>
    */
   errorMessage?: ReactNode,
   /**
-   * The number of months to display at once.
+   * The number of months to display at once. Ignored when the `selectionGranularity` is `month`, `quarter`, or `year`.
    * @default 1
    */
-  visibleMonths?: number
+  visibleMonths?: number,
+  /**
+   * Whether to display the week number of each week, according to the week numbering rules of the current locale.
+   */
+  showWeekNumbers?: boolean
 }
 
 export const RangeCalendarContext = createContext<ContextValue<Partial<RangeCalendarProps<any>>, HTMLDivElement>>(null);
@@ -68,6 +72,7 @@ export const RangeCalendar = /*#__PURE__*/ (forwardRef as forwardRefType)(functi
   [props, ref] = useSpectrumContextProps(props, ref, RangeCalendarContext);
   let {
     visibleMonths = 1,
+    showWeekNumbers,
     errorMessage,
     UNSAFE_style,
     UNSAFE_className,
@@ -75,12 +80,17 @@ export const RangeCalendar = /*#__PURE__*/ (forwardRef as forwardRefType)(functi
     ...otherProps
   } = props;
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-spectrum/s2');
+  // Month, quarter, and year grids always display a single grid.
+  let isPeriodGrid = isPeriodGranularity(props.selectionGranularity);
+  if (isPeriodGrid) {
+    visibleMonths = 1;
+  }
 
   return (
     <AriaRangeCalendar
       {...otherProps}
       ref={ref}
-      visibleDuration={{months: visibleMonths}}
+      visibleDuration={isPeriodGrid ? undefined : {months: visibleMonths}}
       style={UNSAFE_style}
       className={(UNSAFE_className || '') + calendarStyles(null, styles)}>
       {({isInvalid, isDisabled}) => {
@@ -106,7 +116,7 @@ export const RangeCalendar = /*#__PURE__*/ (forwardRef as forwardRefType)(functi
                 alignItems: 'start'
               })}>
               {Array.from({length: visibleMonths}).map((_, i) => (
-                <CalendarGrid months={i} key={i} />
+                <CalendarGrid months={i} key={i} showWeekNumbers={showWeekNumbers} />
               ))}
             </div>
             {isInvalid && (
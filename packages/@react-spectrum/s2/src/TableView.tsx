@@ -40,6 +40,7 @@ import {
   TableLayout,
   TableLoadMoreItem,
   TableRenderProps,
+  TableStateContext,
   useSlottedContext,
   useTableOptions,
   Virtualizer
@@ -48,7 +49,8 @@ import {centerPadding, controlFont, getAllowedOverrides, StylesPropWithHeight, U
 import {Checkbox} from './Checkbox';
 import Chevron from '../ui-icons/Chevron';
 import {ColumnSize} from '@react-types/table';
-import {DOMRef, DOMRefValue, forwardRefType, GlobalDOMAttributes, LoadingState, Node} from '@react-types/shared';
+import {DOMRef, DOMRefValue, forwardRefType, GlobalDOMAttributes, LoadingState, Node, RefObject} from '@react-types/shared';
+import DragHandle from '../ui-icons/DragHandle';
 import {GridNode} from '@react-types/grid';
 import {IconContext} from './Icon';
 // @ts-ignore
@@ -64,6 +66,7 @@ import SortDownArrow from '../s2wf-icons/S2_Icon_SortDown_20_N.svg';
 import SortUpArrow from '../s2wf-icons/S2_Icon_SortUp_20_N.svg';
 import {useActionBarContainer} from './ActionBar';
 import {useDOMRef} from '@react-spectrum/utils';
+import {useLayoutEffect} from '@react-aria/utils';
 import {useLocalizedStringFormatter} from '@react-aria/i18n';
 import {useScale} from './utils';
 import {useSpectrumContextProps} from './useSpectrumContextProps';
@@ -464,6 +467,54 @@ function CellFocusRing() {
   return <div role="presentation" className={style({...cellFocus, position: 'absolute', inset: 0})({isFocusVisible: true})} />;
 }
 
+const columnDropIndicator = style({
+  position: 'absolute',
+  top: 0,
+  bottom: 0,
+  width: 2,
+  insetStart: {
+    dropPosition: {
+      before: 0
+    }
+  },
+  insetEnd: {
+    dropPosition: {
+      after: 0
+    }
+  },
+  backgroundColor: {
+    default: 'blue-800',
+    forcedColors: 'Highlight'
+  },
+  pointerEvents: 'none'
+});
+
+const columnDragButton = style({
+  ...focusRing(),
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  flexShrink: 0,
+  alignSelf: 'center',
+  padding: 4,
+  marginStart: {
+    default: -4,
+    isMenu: 12
+  },
+  marginEnd: 4,
+  borderStyle: 'none',
+  borderRadius: 'sm',
+  backgroundColor: 'transparent',
+  color: {
+    default: 'gray-800',
+    forcedColors: 'ButtonText'
+  },
+  '--iconPrimary': {
+    type: 'fill',
+    value: 'currentColor'
+  }
+});
+
 const columnStyles = style({
   height: 'inherit',
   boxSizing: 'border-box',
@@ -503,6 +554,11 @@ const columnStyles = style({
     isMenu: 1
   },
   borderStyle: 'solid',
+  // Pinned columns need a background so that scrolled columns aren't visible beneath them.
+  backgroundColor: {
+    default: 'transparent',
+    isPinned: 'gray-75'
+  },
   forcedColorAdjust: 'none'
 });
 
@@ -519,7 +575,17 @@ export interface ColumnProps extends Omit<RACColumnProps, keyof GlobalDOMAttribu
   /** The content to render as the column header. */
   children: ReactNode,
   /** Menu fragment to be rendered inside the column header's menu. */
-  menuItems?: ReactNode
+  menuItems?: ReactNode,
+  /**
+   * The editor to render while a cell in the column is being edited, such as a TextField, NumberField, or Picker.
+   * Editors should have a `name` so that their value is included in the submitted form data.
+   * Requires `isEditable` to be set.
+   */
+  renderEditing?: (rowKey: Key) => ReactNode,
+  /** Handler that is called when an edit to a cell in the column is committed, with the form data of the editor. */
+  onEditSubmit?: (rowKey: Key, formData: FormData) => void,
+  /** Handler that is called when an edit to a cell in the column is canceled. */
+  onEditCancel?: (rowKey: Key) => void
 }
 
 /**
@@ -528,25 +594,32 @@ export interface ColumnProps extends Omit<RACColumnProps, keyof GlobalDOMAttribu
 export const Column = forwardRef(function Column(props: ColumnProps, ref: DOMRef<HTMLDivElement>) {
   let {isQuiet} = useContext(InternalTableContext);
   let {allowsResizing, children, align = 'start'} = props;
+  let {allowsColumnReordering} = useTableOptions();
   let domRef = useDOMRef(ref);
   let isMenu = allowsResizing || !!props.menuItems;
 
 
   return (
-    <RACColumn {...props} ref={domRef} style={{borderInlineEndColor: 'transparent'}} className={renderProps => columnStyles({...renderProps, isMenu, align, isQuiet})}>
-      {({allowsSorting, sortDirection, isFocusVisible, sort, startResize}) => (
+    <RACColumn {...props} ref={domRef} textValue={props.textValue || (typeof children === 'string' ? children : undefined)} style={{borderInlineEndColor: 'transparent'}} className={renderProps => columnStyles({...renderProps, isMenu, align, isQuiet})}>
+      {({allowsSorting, sortDirection, sortPriority, isFocusVisible, dropPosition, sort, startResize}) => (
         <>
           {/* Note this is mainly for column's without a dropdown menu. If there is a dropdown menu, the button is styled to have a focus ring for simplicity
           (no need to juggle showing this focus ring if focus is on the menu button and not if it is on the resizer) */}
           {/* Separate absolutely positioned element because appyling the ring on the column directly via outline means the ring's required borderRadius will cause the bottom gray border to curve as well */}
           {isFocusVisible && <CellFocusRing />}
+          {dropPosition && <div role="presentation" className={columnDropIndicator({dropPosition})} />}
+          {allowsColumnReordering && (
+            <Button slot="drag" className={renderProps => columnDragButton({...renderProps, isMenu})}>
+              <DragHandle />
+            </Button>
+          )}
           {isMenu ?
             (
-              <ColumnWithMenu isColumnResizable={allowsResizing} menuItems={props.menuItems} allowsSorting={allowsSorting} sortDirection={sortDirection} sort={sort} startResize={startResize} align={align}>
+              <ColumnWithMenu isColumnResizable={allowsResizing} menuItems={props.menuItems} allowsSorting={allowsSorting} sortDirection={sortDirection} sortPriority={sortPriority} sort={sort} startResize={startResize} align={align}>
                 {children}
               </ColumnWithMenu>
             ) : (
-              <ColumnContents allowsSorting={allowsSorting} sortDirection={sortDirection}>
+              <ColumnContents allowsSorting={allowsSorting} sortDirection={sortDirection} sortPriority={sortPriority}>
                 {children}
               </ColumnContents>
             )
@@ -569,7 +642,8 @@ const sortIcon = style({
   flexShrink: 0,
   marginEnd: {
     default: 8,
-    isButton: 'text-to-visual'
+    isButton: 'text-to-visual',
+    hasPriority: 2
   },
   verticalAlign: 'bottom',
   '--iconPrimary': {
@@ -578,10 +652,20 @@ const sortIcon = style({
   }
 });
 
-interface ColumnContentProps extends Pick<ColumnRenderProps, 'allowsSorting' | 'sortDirection'>, Pick<ColumnProps, 'children'> {}
+const sortPriorityStyles = style({
+  font: 'ui-sm',
+  color: 'inherit',
+  flexShrink: 0,
+  marginEnd: {
+    default: 8,
+    isButton: 'text-to-visual'
+  }
+});
+
+interface ColumnContentProps extends Pick<ColumnRenderProps, 'allowsSorting' | 'sortDirection' | 'sortPriority'>, Pick<ColumnProps, 'children'> {}
 
 function ColumnContents(props: ColumnContentProps) {
-  let {allowsSorting, sortDirection, children} = props;
+  let {allowsSorting, sortDirection, sortPriority, children} = props;
 
   return (
     <div className={columnContentWrapper}>
@@ -589,7 +673,7 @@ function ColumnContents(props: ColumnContentProps) {
         <Provider
           values={[
             [IconContext, {
-              styles: sortIcon({})
+              styles: sortIcon({hasPriority: sortPriority != null})
             }]
           ]}>
           {sortDirection != null && (
@@ -597,6 +681,8 @@ function ColumnContents(props: ColumnContentProps) {
           )}
         </Provider>
       )}
+      {/* The sort priority is announced via the column header's description. */}
+      {allowsSorting && sortPriority != null && <span className={sortPriorityStyles({})} aria-hidden="true">{sortPriority}</span>}
       <span className={style({truncate: true, width: 'full'})}>
         {children}
       </span>
@@ -710,13 +796,13 @@ const nubbin = style({
   }
 });
 
-interface ColumnWithMenuProps extends Pick<ColumnRenderProps, 'allowsSorting' | 'sort' | 'sortDirection' | 'startResize'>, Pick<ColumnProps, 'align' | 'children'> {
+interface ColumnWithMenuProps extends Pick<ColumnRenderProps, 'allowsSorting' | 'sort' | 'sortDirection' | 'sortPriority' | 'startResize'>, Pick<ColumnProps, 'align' | 'children'> {
   isColumnResizable?: boolean,
   menuItems?: ReactNode
 }
 
 function ColumnWithMenu(props: ColumnWithMenuProps) {
-  let {allowsSorting, sortDirection, sort, startResize, children, align, isColumnResizable, menuItems} = props;
+  let {allowsSorting, sortDirection, sortPriority, sort, startResize, children, align, isColumnResizable, menuItems} = props;
   let {setIsInResizeMode, isInResizeMode} = useContext(InternalTableContext);
   let stringFormatter = useLocalizedStringFormatter(intlMessages, '@react-spectrum/s2');
   const onMenuSelect = (key) => {
@@ -776,7 +862,7 @@ function ColumnWithMenu(props: ColumnWithMenuProps) {
             <Provider
               values={[
                 [IconContext, {
-                  styles: sortIcon({isButton: true})
+                  styles: sortIcon({isButton: true, hasPriority: sortPriority != null})
                 }]
               ]}>
               {sortDirection != null && (
@@ -784,6 +870,7 @@ function ColumnWithMenu(props: ColumnWithMenuProps) {
               )}
             </Provider>
           )}
+          {allowsSorting && sortPriority != null && <span className={sortPriorityStyles({isButton: true})} aria-hidden="true">{sortPriority}</span>}
           <div className={columnHeaderText}>
             {children}
           </div>
@@ -928,6 +1015,8 @@ const commonCellStyles = {
   paddingX: 16 // table-edge-to-content
 } as const;
 
+const selectedBackground = lightDark(colorMix('gray-25', 'informative-900', 10), colorMix('gray-25', 'informative-700', 10));
+
 const cell = style<CellRenderProps & S2TableProps & {isDivider: boolean}>({
   ...commonCellStyles,
   color: baseColor('neutral'),
@@ -956,6 +1045,11 @@ const cell = style<CellRenderProps & S2TableProps & {isDivider: boolean}>({
   borderColor: {
     default: 'gray-300',
     forcedColors: 'ButtonBorder'
+  },
+  backgroundColor: {
+    default: 'transparent',
+    isPinned: '--rowBackgroundColor',
+    isSelected: selectedBackground
   }
 });
 
@@ -1004,19 +1098,25 @@ const cellContent = style({
   }
 });
 
-export interface CellProps extends RACCellProps, Pick<ColumnProps, 'align' | 'showDivider'> {
+export interface CellProps extends Omit<RACCellProps, 'isEditable' | 'onEditCommit' | 'onEditCancel'>, Pick<ColumnProps, 'align' | 'showDivider'> {
   /** @private */
   isSticky?: boolean,
   /** The content to render as the cell children. */
   children: ReactNode
 }
 
+interface CellEditingHandlers {
+  onCommit(): void,
+  onCancel(): void
+}
+
 /**
- * A cell within a table row.
+ * A cell within a table row. Cells in a column with `isEditable` set can be edited in place.
  */
 export const Cell = forwardRef(function Cell(props: CellProps, ref: DOMRef<HTMLDivElement>) {
   let {children, isSticky, showDivider = false, align, textValue, ...otherProps} = props;
   let domRef = useDOMRef(ref);
+  let editingRef = useRef<CellEditingHandlers | null>(null);
   let tableVisualOptions = useContext(InternalTableContext);
   textValue ||= typeof children === 'string' ? children : undefined;
 
@@ -1032,19 +1132,65 @@ export const Cell = forwardRef(function Cell(props: CellProps, ref: DOMRef<HTMLD
         isDivider: showDivider
       })}
       textValue={textValue}
-      {...otherProps}>
-      {({isFocusVisible}) => (
+      {...otherProps}
+      onEditCommit={() => editingRef.current?.onCommit()}
+      onEditCancel={() => editingRef.current?.onCancel()}>
+      {({isFocusVisible, isEditing, id}) => (
         <>
           {isFocusVisible && <CellFocusRing />}
-          <span className={cellContent({...tableVisualOptions, isSticky, align: align || 'start'})}>{children}</span>
+          {isEditing && id != null
+            ? <CellEditor cellKey={id} editingRef={editingRef} />
+            : <span className={cellContent({...tableVisualOptions, isSticky, align: align || 'start'})}>{children}</span>
+          }
         </>
       )}
     </RACCell>
   );
 });
 
+const editingForm = style({
+  width: 'full',
+  minWidth: 0
+});
+
+interface CellEditorProps {
+  cellKey: Key,
+  editingRef: RefObject<CellEditingHandlers | null>
+}
+
+// Renders the editor of the cell's column in a form, so that the values of the editor's fields can be submitted.
+function CellEditor({cellKey, editingRef}: CellEditorProps) {
+  let state = useContext(TableStateContext)!;
+  let formRef = useRef<HTMLFormElement>(null);
+  let cell = state.collection.getItem(cellKey) as GridNode<unknown>;
+  let rowKey = cell.parentKey!;
+  let {renderEditing, onEditSubmit, onEditCancel} = cell.column?.props as ColumnProps;
+
+  useLayoutEffect(() => {
+    editingRef.current = {
+      onCommit() {
+        if (formRef.current) {
+          onEditSubmit?.(rowKey, new FormData(formRef.current));
+        }
+      },
+      onCancel() {
+        onEditCancel?.(rowKey);
+      }
+    };
+
+    return () => {
+      editingRef.current = null;
+    };
+  }, [editingRef, rowKey, onEditSubmit, onEditCancel]);
+
+  return (
+    <form ref={formRef} className={editingForm} onSubmit={e => e.preventDefault()}>
+      {renderEditing?.(rowKey)}
+    </form>
+  );
+}
+
 // Use color-mix instead of transparency so sticky cells work correctly.
-const selectedBackground = lightDark(colorMix('gray-25', 'informative-900', 10), colorMix('gray-25', 'informative-700', 10));
 const selectedActiveBackground = lightDark(colorMix('gray-25', 'informative-900', 15), colorMix('gray-25', 'informative-700', 15));
 const rowBackgroundColor = {
   default: {
@@ -0,0 +1,35 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {HighlightContext, TextHighlight as RACTextHighlight, TextHighlightProps as RACTextHighlightProps} from 'react-aria-components';
+import {ReactNode} from 'react';
+import {style} from '../style' with {type: 'macro'};
+
+export interface TextHighlightProps extends RACTextHighlightProps {}
+
+const highlight = style({
+  backgroundColor: 'transparent',
+  color: 'inherit',
+  fontWeight: 'bold'
+});
+
+/**
+ * A TextHighlight renders a string, emphasizing the portions that matched the current filter.
+ * Within a menu or combo box item, the matched ranges are provided automatically.
+ */
+export function TextHighlight(props: TextHighlightProps): ReactNode {
+  return (
+    <HighlightContext.Provider value={{className: highlight}}>
+      <RACTextHighlight {...props} />
+    </HighlightContext.Provider>
+  );
+}
@@ -0,0 +1,67 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {Collection, ContextValue} from 'react-aria-components';
+import {ComboBox, ComboBoxItem, ComboBoxProps, ComboBoxSection} from './ComboBox';
+import {createContext, forwardRef, ReactNode, Ref} from 'react';
+import {Header, Heading, Text} from './Content';
+import {TextFieldRef} from '@react-types/textfield';
+import {TextHighlight} from './TextHighlight';
+import {TimeZoneOptionsProps, TimeZoneRegion, useTimeZoneOptions} from 'react-aria';
+import {useSpectrumContextProps} from './useSpectrumContextProps';
+
+export interface TimeZonePickerProps extends Omit<ComboBoxProps<TimeZoneRegion>, 'children' | 'items' | 'defaultItems' | 'selectedKey' | 'defaultSelectedKey' | 'onSelectionChange' | 'allowsCustomValue'>, TimeZoneOptionsProps {
+  /** The selected IANA time zone identifier (controlled). */
+  value?: string | null,
+  /** The default selected IANA time zone identifier (uncontrolled). */
+  defaultValue?: string | null,
+  /** Handler that is called when the selected time zone changes. */
+  onChange?: (value: string | null) => void
+}
+
+export const TimeZonePickerContext = createContext<ContextValue<Partial<TimeZonePickerProps>, TextFieldRef>>(null);
+
+/**
+ * A time zone picker allows users to search for and select a time zone by city or name.
+ * Time zones are grouped by region, and include their localized name and current offset from UTC.
+ */
+export const TimeZonePicker = /*#__PURE__*/ forwardRef(function TimeZonePicker(props: TimeZonePickerProps, ref: Ref<TextFieldRef>) {
+  [props, ref] = useSpectrumContextProps(props, ref, TimeZonePickerContext);
+  let {value, defaultValue, onChange, timeZones, referenceDate, ...otherProps} = props;
+  let regions = useTimeZoneOptions({timeZones, referenceDate});
+
+  return (
+    <ComboBox
+      {...otherProps}
+      ref={ref}
+      defaultItems={regions}
+      selectedKey={value}
+      defaultSelectedKey={defaultValue ?? undefined}
+      onSelectionChange={key => onChange?.(key as string | null)}>
+      {(region: TimeZoneRegion): ReactNode => (
+        <ComboBoxSection id={region.id}>
+          <Header>
+            <Heading>{region.name}</Heading>
+          </Header>
+          <Collection items={region.timeZones}>
+            {timeZone => (
+              <ComboBoxItem id={timeZone.id} textValue={timeZone.textValue}>
+                <Text slot="label"><TextHighlight>{timeZone.city}</TextHighlight></Text>
+                <Text slot="description">{timeZone.formattedOffset} · {timeZone.name}</Text>
+              </ComboBoxItem>
+            )}
+          </Collection>
+        </ComboBoxSection>
+      )}
+    </ComboBox>
+  );
+});
@@ -50,6 +50,7 @@ export {DialogTrigger} from './DialogTrigger';
 export {DialogContainer, useDialogContainer} from './DialogContainer';
 export {Divider, DividerContext} from './Divider';
 export {DropZone, DropZoneContext} from './DropZone';
+export {DurationField, DurationFieldContext} from './DurationField';
 export {Form} from './Form';
 export {createIcon, createIllustration, IconContext, IllustrationContext} from './Icon';
 export {IllustratedMessage, IllustratedMessageContext} from './IllustratedMessage';
@@ -82,7 +83,9 @@ export {TableView, TableHeader, TableBody, Row, Cell, Column, TableContext} from
 export {Tabs, TabList, Tab, TabPanel, TabsContext} from './Tabs';
 export {TagGroup, Tag, TagGroupContext} from './TagGroup';
 export {TextArea, TextField, TextAreaContext, TextFieldContext} from './TextField';
+export {TextHighlight} from './TextHighlight';
 export {TimeField, TimeFieldContext} from './TimeField';
+export {TimeZonePicker, TimeZonePickerContext} from './TimeZonePicker';
 export {ToastContainer as UNSTABLE_ToastContainer, ToastQueue as UNSTABLE_ToastQueue} from './Toast';
 export {ToggleButton, ToggleButtonContext} from './ToggleButton';
 export {ToggleButtonGroup, ToggleButtonGroupContext} from './ToggleButtonGroup';
@@ -131,6 +134,7 @@ export type {DialogTriggerProps} from './DialogTrigger';
 export type {DisclosureProps, DisclosurePanelProps} from './Disclosure';
 export type {DividerProps} from './Divider';
 export type {DropZoneProps} from './DropZone';
+export type {DurationFieldProps} from './DurationField';
 export type {FormProps} from './Form';
 export type {IconProps, IconContextValue, IllustrationProps, IllustrationContextValue} from './Icon';
 export type {InlineAlertProps} from './InlineAlert';
@@ -161,7 +165,9 @@ export type {TableViewProps, TableHeaderProps, TableBodyProps, RowProps, CellPro
 export type {TabsProps, TabProps, TabListProps, TabPanelProps} from './Tabs';
 export type {TagGroupProps, TagProps} from './TagGroup';
 export type {TextFieldProps, TextAreaProps} from './TextField';
+export type {TextHighlightProps} from './TextHighlight';
 export type {TimeFieldProps} from './TimeField';
+export type {TimeZonePickerProps} from './TimeZonePicker';
 export type {ToastOptions, ToastContainerProps} from './Toast';
 export type {ToggleButtonProps} from './ToggleButton';
 export type {ToggleButtonGroupProps} from './ToggleButtonGroup';
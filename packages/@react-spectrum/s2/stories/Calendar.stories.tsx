@@ -33,6 +33,15 @@ const meta: Meta<typeof Calendar> = {
         type: 'select'
       },
       options: [1, 2, 3]
+    },
+    selectionGranularity: {
+      control: {
+        type: 'select'
+      },
+      options: ['day', 'week', 'month', 'quarter', 'year']
+    },
+    showWeekNumbers: {
+      control: {type: 'boolean'}
     }
   },
   title: 'Calendar',
@@ -54,6 +63,14 @@ export const Example: Story = {
   }
 };
 
+export const SelectionGranularity: Story = {
+  args: {
+    'aria-label': 'Reporting period',
+    selectionGranularity: 'week',
+    showWeekNumbers: true
+  }
+};
+
 export const DateUnavailable: Story = {
   args: {
     isDateUnavailable: (date: DateValue) => {
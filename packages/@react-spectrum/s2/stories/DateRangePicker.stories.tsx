@@ -14,7 +14,7 @@ import {Button, Content, ContextualHelp, DateRangePicker, Footer, Form, Heading,
 import {CalendarSwitcher, categorizeArgTypes} from './utils';
 import {fn} from '@storybook/test';
 import type {Meta, StoryObj} from '@storybook/react';
-import {parseDate, toZoned} from '@internationalized/date';
+import {parseDate, startOfMonth, startOfYear, toZoned} from '@internationalized/date';
 import {style} from '../style' with {type: 'macro'};
 
 const meta: Meta<typeof DateRangePicker> = {
@@ -72,6 +72,27 @@ export const AriaLabel: Story = {
   }
 };
 
+export const Presets: Story = {
+  args: {
+    label: 'Report period',
+    presets: [
+      {id: 'last7', label: 'Last 7 days', getValue: today => ({start: today.subtract({days: 6}), end: today})},
+      {id: 'last30', label: 'Last 30 days', getValue: today => ({start: today.subtract({days: 29}), end: today})},
+      {id: 'month', label: 'This month', getValue: today => ({start: startOfMonth(today), end: today})},
+      {id: 'quarter', label: 'This quarter', getValue: today => ({start: startOfMonth(today).subtract({months: (today.month - 1) % 3}), end: today})},
+      {id: 'year', label: 'This year', getValue: today => ({start: startOfYear(today), end: today})}
+    ]
+  }
+};
+
+export const ComparisonRange: Story = {
+  args: {
+    label: 'Report period',
+    defaultValue: {start: parseDate('2024-03-11'), end: parseDate('2024-03-17')},
+    comparisonValue: {start: parseDate('2024-03-04'), end: parseDate('2024-03-10')}
+  }
+};
+
 export const Validation: Story = {
   render: (args) => (
     <Form>
@@ -0,0 +1,82 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {Button, DurationField, Form} from '../src';
+import {categorizeArgTypes} from './utils';
+import type {Meta, StoryObj} from '@storybook/react';
+import {style} from '../style' with {type: 'macro'};
+
+const meta: Meta<typeof DurationField> = {
+  component: DurationField,
+  parameters: {
+    layout: 'centered'
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    ...categorizeArgTypes('Events', ['onChange']),
+    label: {control: {type: 'text'}},
+    description: {control: {type: 'text'}},
+    errorMessage: {control: {type: 'text'}},
+    maxGranularity: {
+      control: 'select',
+      options: ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds']
+    },
+    granularity: {
+      control: 'select',
+      options: ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds']
+    },
+    contextualHelp: {table: {disable: true}}
+  },
+  title: 'DurationField'
+};
+
+export default meta;
+type Story = StoryObj<typeof DurationField>;
+
+export const Example: Story = {
+  args: {
+    label: 'Response time'
+  }
+};
+
+export const Granularity: Story = {
+  args: {
+    label: 'Sprint length',
+    maxGranularity: 'weeks',
+    granularity: 'days',
+    defaultValue: {days: 10}
+  }
+};
+
+export const Validation: Story = {
+  render: (args) => (
+    <Form>
+      <DurationField {...args} />
+      <Button type="submit" variant="primary">Submit</Button>
+    </Form>
+  ),
+  args: {
+    label: 'Response time',
+    isRequired: true,
+    minValue: {minutes: 15},
+    maxValue: {hours: 8}
+  }
+};
+
+export const CustomWidth: Story = {
+  render: (args) => (
+    <DurationField {...args} styles={style({width: 384})} />
+  ),
+  args: {
+    label: 'Response time'
+  }
+};
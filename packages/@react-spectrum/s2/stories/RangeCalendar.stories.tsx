@@ -34,6 +34,15 @@ const meta: Meta<typeof RangeCalendar<any>> = {
         type: 'select'
       },
       options: [1, 2, 3]
+    },
+    selectionGranularity: {
+      control: {
+        type: 'select'
+      },
+      options: ['day', 'week', 'month', 'quarter', 'year']
+    },
+    showWeekNumbers: {
+      control: {type: 'boolean'}
     }
   },
   title: 'RangeCalendar',
@@ -55,6 +64,14 @@ export const Example: Story = {
   }
 };
 
+export const SelectionGranularity: Story = {
+  args: {
+    'aria-label': 'Reporting period',
+    selectionGranularity: 'week',
+    showWeekNumbers: true
+  }
+};
+
 export const DateUnavailable: Story = {
   args: {
     isDateUnavailable: (date: DateValue) => {
@@ -0,0 +1,80 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {categorizeArgTypes} from './utils';
+import {DatePicker, TimeZonePicker} from '../src';
+import {fn} from '@storybook/test';
+import type {Meta, StoryObj} from '@storybook/react';
+import {parseZonedDateTime, toTimeZone, ZonedDateTime} from '@internationalized/date';
+import {style} from '../style' with {type: 'macro'};
+import {useState} from 'react';
+
+const meta: Meta<typeof TimeZonePicker> = {
+  component: TimeZonePicker,
+  parameters: {
+    layout: 'centered'
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    ...categorizeArgTypes('Events', ['onChange', 'onInputChange', 'onOpenChange']),
+    label: {control: {type: 'text'}},
+    description: {control: {type: 'text'}},
+    errorMessage: {control: {type: 'text'}},
+    contextualHelp: {table: {disable: true}}
+  },
+  args: {
+    onChange: fn()
+  },
+  title: 'TimeZonePicker'
+};
+
+export default meta;
+type Story = StoryObj<typeof TimeZonePicker>;
+
+export const Example: Story = {
+  args: {
+    label: 'Time zone'
+  }
+};
+
+export const CustomTimeZones: Story = {
+  args: {
+    label: 'Office',
+    timeZones: ['America/Los_Angeles', 'America/New_York', 'Europe/London', 'Europe/Berlin', 'Asia/Tokyo', 'Australia/Sydney'],
+    defaultValue: 'Europe/London'
+  }
+};
+
+function WithDatePickerExample(args) {
+  let [date, setDate] = useState<ZonedDateTime>(parseZonedDateTime('2022-11-07T00:45[America/Los_Angeles]'));
+  return (
+    <div className={style({display: 'flex', gap: 16, flexWrap: 'wrap'})}>
+      <DatePicker label="Event date" value={date} onChange={value => value && setDate(value)} />
+      <TimeZonePicker
+        {...args}
+        value={date.timeZone}
+        onChange={timeZone => {
+          if (timeZone) {
+            setDate(toTimeZone(date, timeZone));
+          }
+          args.onChange?.(timeZone);
+        }} />
+    </div>
+  );
+}
+
+export const WithDatePicker: Story = {
+  render: (args) => <WithDatePickerExample {...args} />,
+  args: {
+    label: 'Time zone'
+  }
+};
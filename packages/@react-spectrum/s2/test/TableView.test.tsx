@@ -12,7 +12,7 @@
 
 jest.mock('@react-aria/live-announcer');
 jest.mock('@react-aria/utils/src/scrollIntoView');
-import {act, render} from '@react-spectrum/test-utils-internal';
+import {act, render, within} from '@react-spectrum/test-utils-internal';
 import {
   Cell,
   Column,
@@ -22,11 +22,13 @@ import {
   TableBody,
   TableHeader,
   TableView,
-  Text
+  Text,
+  TextField
 } from '../src';
 import Filter from '../s2wf-icons/S2_Icon_Filter_20_N.svg';
 import React from 'react';
 import {User} from '@react-aria/test-utils';
+import userEvent from '@testing-library/user-event';
 
 // @ts-ignore
 window.getComputedStyle = (el) => el.style;
@@ -108,4 +110,94 @@ describe('TableView', () => {
     await tableTester.triggerColumnHeaderAction({column: 1, action: 0, interactionType: 'keyboard'});
     expect(onAction).toHaveBeenCalledTimes(1);
   });
+
+  it('should render a drag button in each column when columns can be reordered', async () => {
+    let onColumnOrderChange = jest.fn();
+    let {getAllByRole} = render(
+      <TableView aria-label="Reorderable table" columnOrder={['bar', 'foo', 'baz', 'yah']} onColumnOrderChange={onColumnOrderChange}>
+        <TableHeader columns={columns}>
+          {(column) => <Column isRowHeader={column.isRowHeader}>{column.name}</Column>}
+        </TableHeader>
+        <TableBody items={items}>
+          {item => (
+            <Row id={item.id} columns={columns}>
+              {(column) => <Cell>{item[column.id]}</Cell>}
+            </Row>
+          )}
+        </TableBody>
+      </TableView>
+    );
+
+    let headers = getAllByRole('columnheader');
+    expect(headers.map(header => header.textContent)).toEqual(['Bar', 'Foo', 'Baz', 'Yah']);
+    let dragButton = within(headers[0]).getByRole('button');
+    expect(dragButton).toHaveAttribute('aria-label', 'Drag Bar');
+
+    let user = userEvent.setup({delay: null, advanceTimers: jest.advanceTimersByTime});
+    await user.tab();
+    await user.keyboard('{ArrowUp}');
+    expect(document.activeElement).toBe(dragButton);
+
+    await user.keyboard('{Enter}');
+    act(() => jest.runAllTimers());
+    expect(headers[1]).toHaveAttribute('data-drop-position', 'after');
+    await user.keyboard('{Enter}');
+    act(() => jest.runAllTimers());
+    expect(onColumnOrderChange).toHaveBeenCalledWith(['foo', 'bar', 'baz', 'yah']);
+  });
+
+  it('should support editing the cells of a column', async () => {
+    let onSubmit = jest.fn();
+    let onCancel = jest.fn();
+    let {getByRole} = render(
+      <TableView aria-label="Editable table">
+        <TableHeader columns={columns}>
+          {(column) => (
+            <Column
+              isRowHeader={column.isRowHeader}
+              isEditable={column.id === 'bar'}
+              renderEditing={rowKey => <TextField aria-label="Bar" name="bar" defaultValue={items.find(item => item.id === rowKey)?.bar} />}
+              onEditSubmit={onSubmit}
+              onEditCancel={onCancel}>
+              {column.name}
+            </Column>
+          )}
+        </TableHeader>
+        <TableBody items={items}>
+          {item => (
+            <Row id={item.id} columns={columns}>
+              {(column) => <Cell>{item[column.id]}</Cell>}
+            </Row>
+          )}
+        </TableBody>
+      </TableView>
+    );
+
+    let user = userEvent.setup({delay: null, advanceTimers: jest.advanceTimersByTime});
+    let tableTester = testUtilUser.createTester('Table', {root: getByRole('grid'), interactionType: 'keyboard'});
+    await tableTester.editCell({cell: 'Bar 1'});
+    expect(tableTester.editingCell).toBeTruthy();
+    let input = getByRole('textbox');
+    expect(document.activeElement).toBe(input);
+    expect(input).toHaveValue('Bar 1');
+
+    await user.clear(input);
+    await user.keyboard('New bar');
+    await tableTester.commitCellEdit();
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(onSubmit.mock.calls[0][0]).toBe(items[0].id);
+    expect(onSubmit.mock.calls[0][1].get('bar')).toBe('New bar');
+    expect(tableTester.editingCell).toBeNull();
+
+    // Committing with Enter moves focus to the cell below.
+    expect(document.activeElement).toBe(tableTester.findCell({text: 'Bar 2'}));
+
+    await tableTester.editCell({cell: 'Bar 2'});
+    await tableTester.cancelCellEdit();
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(onCancel).toHaveBeenCalledWith(items[1].id);
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(tableTester.editingCell).toBeNull();
+    expect(document.activeElement).toBe(tableTester.findCell({text: 'Bar 2'}));
+  });
 });
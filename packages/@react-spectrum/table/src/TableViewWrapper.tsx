@@ -11,7 +11,7 @@
  */
 
 import type {AriaLabelingProps, DisabledBehavior, DOMProps, DOMRef, Key, SpectrumSelectionProps, StyleProps} from '@react-types/shared';
-import type {ColumnSize, TableProps} from '@react-types/table';
+import type {ColumnSize, TableAggregate, TableProps} from '@react-types/table';
 import type {DragAndDropHooks} from '@react-spectrum/dnd';
 import React, {JSX, ReactElement} from 'react';
 import {tableNestedRows} from '@react-stately/flags';
@@ -86,7 +86,21 @@ export interface SpectrumTableProps<T> extends TableProps<T>, SpectrumSelectionP
    * @version alpha
    * @private
    */
-  UNSTABLE_onExpandedChange?: (keys: Set<Key>) => any
+  UNSTABLE_onExpandedChange?: (keys: Set<Key>) => any,
+  /**
+   * The key of the column to group rows by. Rows with the same value in this column are nested under a collapsible group header row.
+   * Requires the feature flag to be enabled along with UNSTABLE_allowsExpandableRows, see https://react-spectrum.adobe.com/react-spectrum/TableView.html#expandable-rows.
+   * @version alpha
+   * @private
+   */
+  UNSTABLE_groupBy?: Key | null,
+  /**
+   * Aggregate values to display in group header rows, by column key. Requires the feature flag to be
+   * enabled along with UNSTABLE_allowsExpandableRows, see https://react-spectrum.adobe.com/react-spectrum/TableView.html#expandable-rows.
+   * @version alpha
+   * @private
+   */
+  UNSTABLE_aggregates?: {[columnKey: Key]: TableAggregate<T>}
 }
 
 /**
@@ -15,6 +15,7 @@ import React, {ReactElement, useState} from 'react';
 import {SpectrumTableProps} from './TableViewWrapper';
 import {TableViewBase} from './TableViewBase';
 import {UNSTABLE_useTreeGridState} from '@react-stately/table';
+import {useLocale} from '@react-aria/i18n';
 
 export interface TreeGridTableProps<T> extends Omit<SpectrumTableProps<T>, 'UNSTABLE_allowsExpandableRows'> {}
 
@@ -25,8 +26,10 @@ export const TreeGridTableView = React.forwardRef(function TreeGridTableView<T e
   } = props;
   let [showSelectionCheckboxes, setShowSelectionCheckboxes] = useState(selectionStyle !== 'highlight');
   let isTableDraggable = !!dragAndDropHooks?.useDraggableCollectionState;
+  let {locale} = useLocale();
   let state = UNSTABLE_useTreeGridState({
     ...props,
+    locale,
     showSelectionCheckboxes,
     showDragButtons: isTableDraggable,
     selectionBehavior: props.selectionStyle === 'highlight' ? 'replace' : 'toggle'
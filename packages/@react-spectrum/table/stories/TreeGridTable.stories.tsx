@@ -32,7 +32,8 @@ export default {
     'UserSetRowHeaderRender',
     'ManyExpandableRowsStoryRender',
     'EmptyTreeGridStoryRender',
-    'LoadingTreeGridStoryRender'
+    'LoadingTreeGridStoryRender',
+    'GroupedRowsStoryRender'
   ]
 } as Meta<typeof TableView>;
 
@@ -359,3 +360,42 @@ export const ResizableColumnsStory: TableStory = {
   ),
   name: 'resizable columns'
 };
+
+let groupedColumns = [
+  {name: 'Name', key: 'name'},
+  {name: 'Type', key: 'type'},
+  {name: 'Price', key: 'price'}
+];
+
+let groupedItems = [
+  {id: 1, name: 'Apple', type: 'Fruit', price: 2},
+  {id: 2, name: 'Carrot', type: 'Vegetable', price: 1},
+  {id: 3, name: 'Banana', type: 'Fruit', price: 3},
+  {id: 4, name: 'Potato', type: 'Vegetable', price: 4},
+  {id: 5, name: 'Cherry', type: 'Fruit', price: 7}
+];
+
+export const GroupedRowsStoryRender = (args: Omit<SpectrumTableProps<typeof groupedItems[0]>, 'children'>): JSX.Element => (
+  <TableView aria-label="TableView with grouped rows" width={500} height={300} UNSTABLE_allowsExpandableRows UNSTABLE_groupBy="type" UNSTABLE_aggregates={{price: 'sum'}} UNSTABLE_onExpandedChange={action('onExpandedChange')} {...args}>
+    <TableHeader columns={groupedColumns}>
+      {column => <Column key={column.key}>{column.name}</Column>}
+    </TableHeader>
+    <TableBody items={groupedItems}>
+      {item => (
+        <Row>
+          {key => <Cell>{item[key]}</Cell>}
+        </Row>
+      )}
+    </TableBody>
+  </TableView>
+);
+
+export const GroupedRowsStory: TableStory = {
+  args: {
+    'aria-label': 'TableView with grouped rows',
+    width: 500,
+    height: 300
+  },
+  render: (args) => <GroupedRowsStoryRender {...args} />,
+  name: 'grouped rows'
+};
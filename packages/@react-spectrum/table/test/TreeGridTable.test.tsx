@@ -24,6 +24,7 @@ import {announce} from '@react-aria/live-announcer';
 import {
   DynamicExpandableRowsStoryRender as DynamicExpandableTable,
   EmptyTreeGridStoryRender as EmptyStateTable,
+  GroupedRowsStoryRender as GroupedTable,
   LoadingTreeGridStoryRender as LoadingTable,
   ManyExpandableRowsStoryRender as ManyRowsExpandableTable,
   StaticExpandableRowsRender as StaticExpandableTable,
@@ -1545,6 +1546,83 @@ describe('TableView with expandable rows', function () {
     });
   });
 
+  describe('row grouping', function () {
+    it('should render collapsed group header rows with counts and aggregates', function () {
+      let treegrid = render(<GroupedTable />);
+      let rowgroups = treegrid.getAllByRole('rowgroup');
+      let rows = within(rowgroups[1]).getAllByRole('row');
+      expect(rows).toHaveLength(2);
+
+      expect(rows[0]).toHaveAttribute('aria-expanded', 'false');
+      expect(rows[0]).toHaveAttribute('aria-level', '1');
+      expect(rows[0]).toHaveAttribute('aria-posinset', '1');
+      expect(rows[0]).toHaveAttribute('aria-setsize', '2');
+      expect(within(rows[0]).getByRole('rowheader')).toHaveTextContent('Fruit (3)');
+      let cells = within(rows[0]).getAllByRole('gridcell');
+      expect(cells[0]).toHaveTextContent('');
+      expect(cells[1]).toHaveTextContent('12');
+
+      expect(rows[1]).toHaveAttribute('aria-expanded', 'false');
+      expect(within(rows[1]).getByRole('rowheader')).toHaveTextContent('Vegetable (2)');
+      expect(within(rows[1]).getAllByRole('gridcell')[1]).toHaveTextContent('5');
+    });
+
+    it('should expand a group when pressing the chevron', async function () {
+      let treegrid = render(<GroupedTable UNSTABLE_onExpandedChange={onExpandedChange} />);
+      let rowgroups = treegrid.getAllByRole('rowgroup');
+      let rows = within(rowgroups[1]).getAllByRole('row');
+      await user.click(within(rows[1]).getByRole('button'));
+      act(() => jest.runAllTimers());
+
+      expect(onExpandedChange).toHaveBeenCalledTimes(1);
+      expect(new Set(onExpandedChange.mock.calls[0][0])).toEqual(new Set(['group:type:Vegetable']));
+      rows = within(rowgroups[1]).getAllByRole('row');
+      expect(rows).toHaveLength(4);
+      expect(rows[1]).toHaveAttribute('aria-expanded', 'true');
+      expect(rows[2]).toHaveAttribute('aria-level', '2');
+      expect(rows[2]).toHaveAttribute('aria-posinset', '1');
+      expect(rows[2]).toHaveAttribute('aria-setsize', '2');
+      expect(rows[2]).toHaveTextContent('Carrot');
+      expect(rows[3]).toHaveTextContent('Potato');
+    });
+
+    it('should support custom aggregate functions', function () {
+      let treegrid = render(<GroupedTable UNSTABLE_defaultExpandedKeys="all" UNSTABLE_aggregates={{price: (values: unknown[]) => `Max ${Math.max(...values.map(Number))}`}} />);
+      let rowgroups = treegrid.getAllByRole('rowgroup');
+      let rows = within(rowgroups[1]).getAllByRole('row');
+      expect(rows).toHaveLength(7);
+      expect(rows[0]).toHaveTextContent('Max 7');
+      expect(rows[4]).toHaveTextContent('Vegetable (2)');
+      expect(rows[4]).toHaveTextContent('Max 4');
+    });
+
+    it('should format aggregate values for the locale', function () {
+      let treegrid = render(<GroupedTable UNSTABLE_aggregates={{price: 'avg'}} />, 'medium', 'de-DE');
+      let rowgroups = treegrid.getAllByRole('rowgroup');
+      let rows = within(rowgroups[1]).getAllByRole('row');
+      expect(within(rows[0]).getAllByRole('gridcell')[1]).toHaveTextContent('4');
+      expect(within(rows[1]).getAllByRole('gridcell')[1]).toHaveTextContent('2,5');
+    });
+
+    it('should not allow group header rows to be selected', async function () {
+      let treegrid = render(<GroupedTable selectionMode="multiple" UNSTABLE_defaultExpandedKeys="all" onSelectionChange={onSelectionChange} />);
+      let rowgroups = treegrid.getAllByRole('rowgroup');
+      let rows = within(rowgroups[1]).getAllByRole('row');
+      expect(within(rows[0]).queryByRole('checkbox')).toBeNull();
+
+      await user.click(within(rows[0]).getAllByRole('gridcell')[1]);
+      expect(onSelectionChange).not.toHaveBeenCalled();
+
+      await user.click(treegrid.getByLabelText('Select All'));
+      expect(onSelectionChange).toHaveBeenCalledTimes(1);
+      rows = within(rowgroups[1]).getAllByRole('row');
+      expect(rows[0]).not.toHaveAttribute('aria-selected', 'true');
+      expect(rows[1]).toHaveAttribute('aria-selected', 'true');
+      expect(rows[4]).not.toHaveAttribute('aria-selected', 'true');
+      expect(rows[5]).toHaveAttribute('aria-selected', 'true');
+    });
+  });
+
   describe('empty state', function () {
     it('should display an empty state with the proper aria attributes', async function () {
       let treegrid = render(<EmptyStateTable />);
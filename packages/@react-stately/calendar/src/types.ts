@@ -11,7 +11,7 @@
  */
 
 import {CalendarDate} from '@internationalized/date';
-import {DateValue} from '@react-types/calendar';
+import {CalendarSelectionGranularity, DateValue} from '@react-types/calendar';
 import {RangeValue, ValidationState} from '@react-types/shared';
 
 interface CalendarStateBase {
@@ -36,6 +36,8 @@ interface CalendarStateBase {
   readonly isValueInvalid: boolean,
   /** The currently focused date. */
   readonly focusedDate: CalendarDate,
+  /** The unit of time that is selected when the user selects a date, e.g. a day, week, or month. */
+  readonly selectionGranularity: CalendarSelectionGranularity,
   /** Sets the focused date. */
   setFocusedDate(value: CalendarDate): void,
   /** Moves focus to the next calendar date. */
@@ -96,7 +98,18 @@ interface CalendarStateBase {
    * Returns an array of dates in the week index counted from the provided start date, or the first visible date if not given.
    * The returned array always has 7 elements, but may include null if the date does not exist according to the calendar system.
    */
-  getDatesInWeek(weekIndex: number, startDate?: CalendarDate): Array<CalendarDate | null>
+  getDatesInWeek(weekIndex: number, startDate?: CalendarDate): Array<CalendarDate | null>,
+  /**
+   * Returns an array of dates in the row index of the calendar grid, counted from the provided start date, or the first visible date if not given.
+   * When the `selectionGranularity` is `month`, `quarter`, or `year`, each date is the first day of a month, quarter, or year.
+   * Otherwise, this is equivalent to `getDatesInWeek`.
+   */
+  getDatesInRow(rowIndex: number, startDate?: CalendarDate): Array<CalendarDate | null>,
+  /**
+   * Returns the range of dates that is selected along with the given date according to the `selectionGranularity`,
+   * e.g. the week or month containing it.
+   */
+  getSelectionPeriod(date: CalendarDate): RangeValue<CalendarDate>
 }
 
 export interface CalendarState extends CalendarStateBase {
@@ -119,6 +132,10 @@ export interface RangeCalendarState extends CalendarStateBase {
   setAnchorDate(date: CalendarDate | null): void,
   /** The currently highlighted date range. */
   readonly highlightedRange: RangeValue<CalendarDate> | null,
+  /** The comparison date range, converted to the calendar system being displayed, if any. */
+  readonly comparisonRange: RangeValue<CalendarDate> | null,
+  /** Returns whether the given date is within the comparison range. */
+  isInComparisonRange(date: CalendarDate): boolean,
   /** Whether the user is currently dragging over the calendar. */
   readonly isDragging: boolean,
   /** Sets whether the user is dragging over the calendar. */
@@ -10,7 +10,20 @@
  * governing permissions and limitations under the License.
  */
 
-import {alignCenter, alignEnd, alignStart, constrainStart, constrainValue, isInvalid, previousAvailableDate} from './utils';
+import {
+  alignCenter,
+  alignEnd,
+  alignStart,
+  constrainStart,
+  constrainValue,
+  getDefaultVisibleDuration,
+  getIsDateUnavailable,
+  getSelectionPeriod,
+  GRID_LAYOUTS,
+  isInvalid,
+  multiplyDuration,
+  previousAvailableDate
+} from './utils';
 import {
   Calendar,
   CalendarDate,
@@ -19,21 +32,23 @@ import {
   DateFormatter,
   endOfMonth,
   endOfWeek,
+  endOfYear,
   getDayOfWeek,
   GregorianCalendar,
   isEqualCalendar,
   isSameDay,
   startOfMonth,
   startOfWeek,
+  startOfYear,
   toCalendar,
   toCalendarDate,
   today
 } from '@internationalized/date';
 import {CalendarProps, DateValue, MappedDateValue} from '@react-types/calendar';
 import {CalendarState} from './types';
+import {RangeValue, ValidationState} from '@react-types/shared';
 import {useControlledState} from '@react-stately/utils';
 import {useMemo, useState} from 'react';
-import {ValidationState} from '@react-types/shared';
 
 export interface CalendarStateOptions<T extends DateValue = DateValue> extends CalendarProps<T> {
   /** The locale to display and edit the value according to. */
@@ -47,7 +62,8 @@ export interface CalendarStateOptions<T extends DateValue = DateValue> extends C
   createCalendar: (name: CalendarIdentifier) => Calendar,
   /**
    * The amount of days that will be displayed at once. This affects how pagination works.
-   * @default {months: 1}
+   * Defaults to one month, or one year when the `selectionGranularity` is `month` or `quarter`,
+   * and twelve years when it is `year`.
    */
   visibleDuration?: DateDuration,
   /** Determines how to align the initial selection relative to the visible date range. */
@@ -63,15 +79,17 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
   let {
     locale,
     createCalendar,
-    visibleDuration = {months: 1},
+    selectionGranularity = 'day',
+    visibleDuration = getDefaultVisibleDuration(selectionGranularity),
     minValue,
     maxValue,
     selectionAlignment,
-    isDateUnavailable,
     pageBehavior = 'visible',
     firstDayOfWeek
   } = props;
+  let isDateUnavailable = useMemo(() => getIsDateUnavailable(props.isDateUnavailable, props.workingCalendar), [props.isDateUnavailable, props.workingCalendar]);
   let calendar = useMemo(() => createCalendar(resolvedOptions.calendar as CalendarIdentifier), [createCalendar, resolvedOptions.calendar]);
+  let gridLayout = GRID_LAYOUTS[selectionGranularity];
 
   let [value, setControlledValue] = useControlledState<DateValue | null, MappedDateValue<T>>(props.value!, props.defaultValue ?? null!, props.onChange);
   let calendarDateValue = useMemo(() => value ? toCalendar(toCalendarDate(value), calendar) : null, [value, calendar]);
@@ -138,6 +156,10 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
     setFocusedDate(date);
   }
 
+  function getPeriod(date: CalendarDate) {
+    return getSelectionPeriod(date, selectionGranularity, locale, firstDayOfWeek);
+  }
+
   function setValue(newValue: CalendarDate | null) {
     if (!props.isDisabled && !props.isReadOnly) {
       let localValue = newValue;
@@ -201,25 +223,30 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
     timeZone,
     validationState,
     isValueInvalid,
+    selectionGranularity,
     setFocusedDate(date) {
       focusCell(date);
       setFocused(true);
     },
     focusNextDay() {
-      focusCell(focusedDate.add({days: 1}));
+      focusCell(focusedDate.add(gridLayout ? gridLayout.cell : {days: 1}));
     },
     focusPreviousDay() {
-      focusCell(focusedDate.subtract({days: 1}));
+      focusCell(focusedDate.subtract(gridLayout ? gridLayout.cell : {days: 1}));
     },
     focusNextRow() {
-      if (visibleDuration.days) {
+      if (gridLayout) {
+        focusCell(focusedDate.add(multiplyDuration(gridLayout.cell, gridLayout.columns)));
+      } else if (visibleDuration.days) {
         this.focusNextPage();
       } else if (visibleDuration.weeks || visibleDuration.months || visibleDuration.years) {
         focusCell(focusedDate.add({weeks: 1}));
       }
     },
     focusPreviousRow() {
-      if (visibleDuration.days) {
+      if (gridLayout) {
+        focusCell(focusedDate.subtract(multiplyDuration(gridLayout.cell, gridLayout.columns)));
+      } else if (visibleDuration.days) {
         this.focusPreviousPage();
       } else if (visibleDuration.weeks || visibleDuration.months || visibleDuration.years) {
         focusCell(focusedDate.subtract({weeks: 1}));
@@ -248,7 +275,11 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
       );
     },
     focusSectionStart() {
-      if (visibleDuration.days) {
+      if (selectionGranularity === 'year') {
+        focusCell(startDate);
+      } else if (gridLayout) {
+        focusCell(startOfYear(focusedDate));
+      } else if (visibleDuration.days) {
         focusCell(startDate);
       } else if (visibleDuration.weeks) {
         focusCell(startOfWeek(focusedDate, locale));
@@ -257,7 +288,11 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
       }
     },
     focusSectionEnd() {
-      if (visibleDuration.days) {
+      if (selectionGranularity === 'year') {
+        focusCell(endDate);
+      } else if (gridLayout) {
+        focusCell(endOfYear(focusedDate));
+      } else if (visibleDuration.days) {
         focusCell(endDate);
       } else if (visibleDuration.weeks) {
         focusCell(endOfWeek(focusedDate, locale));
@@ -266,6 +301,12 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
       }
     },
     focusNextSection(larger) {
+      // Month, quarter, and year grids display whole years, so sections are the same as pages.
+      if (gridLayout) {
+        this.focusNextPage();
+        return;
+      }
+
       if (!larger && !visibleDuration.days) {
         focusCell(focusedDate.add(unitDuration(visibleDuration)));
         return;
@@ -280,6 +321,11 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
       }
     },
     focusPreviousSection(larger) {
+      if (gridLayout) {
+        this.focusPreviousPage();
+        return;
+      }
+
       if (!larger && !visibleDuration.days) {
         focusCell(focusedDate.subtract(unitDuration(visibleDuration)));
         return;
@@ -295,11 +341,11 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
     },
     selectFocusedDate() {
       if (!(isDateUnavailable && isDateUnavailable(focusedDate))) {
-        setValue(focusedDate);
+        setValue(getPeriod(focusedDate).start);
       }
     },
     selectDate(date) {
-      setValue(date);
+      setValue(getPeriod(date).start);
     },
     isFocused,
     setFocused,
@@ -307,16 +353,30 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
       return isInvalid(date, minValue, maxValue);
     },
     isSelected(date) {
-      return calendarDateValue != null && isSameDay(date, calendarDateValue) && !this.isCellDisabled(date) && !this.isCellUnavailable(date);
+      return calendarDateValue != null && isInPeriod(date, getPeriod(calendarDateValue)) && !this.isCellDisabled(date) && !this.isCellUnavailable(date);
     },
     isCellFocused(date) {
+      if (gridLayout) {
+        return isFocused && isInPeriod(focusedDate, getPeriod(date));
+      }
+
       return isFocused && focusedDate && isSameDay(date, focusedDate);
     },
     isCellDisabled(date) {
+      if (gridLayout) {
+        // A month, quarter, or year cell is disabled only if the entire period is outside the allowed range.
+        let period = getPeriod(date);
+        return props.isDisabled ||
+          period.start.compare(endDate) > 0 ||
+          period.end.compare(startDate) < 0 ||
+          (minValue != null && period.end.compare(minValue) < 0) ||
+          (maxValue != null && period.start.compare(maxValue) > 0);
+      }
+
       return props.isDisabled || date.compare(startDate) < 0 || date.compare(endDate) > 0 || this.isInvalid(date);
     },
     isCellUnavailable(date) {
-      return props.isDateUnavailable ? props.isDateUnavailable(date) : false;
+      return isDateUnavailable ? isDateUnavailable(date) : false;
     },
     isPreviousVisibleRangeInvalid() {
       let prev = startDate.subtract({days: 1});
@@ -357,10 +417,33 @@ export function useCalendarState<T extends DateValue = DateValue>(props: Calenda
       }
 
       return dates;
+    },
+    getDatesInRow(rowIndex, from = startDate) {
+      if (!gridLayout) {
+        return this.getDatesInWeek(rowIndex, from);
+      }
+
+      let start = getPeriod(from).start;
+      let dates: (CalendarDate | null)[] = [];
+      for (let i = 0; i < gridLayout.columns; i++) {
+        let date = start.add(multiplyDuration(gridLayout.cell, rowIndex * gridLayout.columns + i));
+        // If the date was clamped to the end of the calendar system, add a null placeholder.
+        let previous = dates.length > 0 ? dates[dates.length - 1] : null;
+        dates.push(previous && isSameDay(getPeriod(date).start, previous) ? null : getPeriod(date).start);
+      }
+
+      return dates;
+    },
+    getSelectionPeriod(date) {
+      return getPeriod(date);
     }
   };
 }
 
+function isInPeriod(date: CalendarDate, period: RangeValue<CalendarDate>) {
+  return date.compare(period.start) >= 0 && date.compare(period.end) <= 0;
+}
+
 function unitDuration(duration: DateDuration) {
   let unit = {...duration};
   for (let key in duration) {
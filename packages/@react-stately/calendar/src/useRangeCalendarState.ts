@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-import {alignCenter, constrainValue, isInvalid, previousAvailableDate} from './utils';
+import {alignCenter, constrainValue, getDefaultVisibleDuration, getIsDateUnavailable, isInvalid, previousAvailableDate} from './utils';
 import {Calendar, CalendarDate, CalendarIdentifier, DateDuration, GregorianCalendar, isEqualDay, maxDate, minDate, toCalendar, toCalendarDate} from '@internationalized/date';
 import {CalendarState, RangeCalendarState} from './types';
 import {DateValue, MappedDateValue, RangeCalendarProps} from '@react-types/calendar';
@@ -31,7 +31,8 @@ export interface RangeCalendarStateOptions<T extends DateValue = DateValue> exte
   createCalendar: (name: CalendarIdentifier) => Calendar,
   /**
    * The amount of days that will be displayed at once. This affects how pagination works.
-   * @default {months: 1}
+   * Defaults to one month, or one year when the `selectionGranularity` is `month` or `quarter`,
+   * and twelve years when it is `year`.
    */
   visibleDuration?: DateDuration
 }
@@ -41,7 +42,21 @@ export interface RangeCalendarStateOptions<T extends DateValue = DateValue> exte
  * A range calendar displays one or more date grids and allows users to select a contiguous range of dates.
  */
 export function useRangeCalendarState<T extends DateValue = DateValue>(props: RangeCalendarStateOptions<T>): RangeCalendarState {
-  let {value: valueProp, defaultValue, onChange, createCalendar, locale, visibleDuration = {months: 1}, minValue, maxValue, ...calendarProps} = props;
+  let {
+    value: valueProp,
+    defaultValue,
+    onChange,
+    createCalendar,
+    locale,
+    selectionGranularity = 'day',
+    visibleDuration = getDefaultVisibleDuration(selectionGranularity),
+    minValue,
+    maxValue,
+    comparisonValue,
+    workingCalendar,
+    ...calendarProps
+  } = props;
+  let isDateUnavailable = useMemo(() => getIsDateUnavailable(props.isDateUnavailable, workingCalendar), [props.isDateUnavailable, workingCalendar]);
   let [value, setValue] = useControlledState<RangeValue<T> | null, RangeValue<MappedDateValue<T>>>(
     valueProp!,
     defaultValue || null!,
@@ -67,9 +82,11 @@ export function useRangeCalendarState<T extends DateValue = DateValue>(props: Ra
 
   let calendar = useCalendarState({
     ...calendarProps,
+    isDateUnavailable,
     value: value && value.start,
     createCalendar,
     locale,
+    selectionGranularity,
     visibleDuration,
     minValue: min,
     maxValue: max,
@@ -77,7 +94,7 @@ export function useRangeCalendarState<T extends DateValue = DateValue>(props: Ra
   });
 
   let updateAvailableRange = (date) => {
-    if (date && props.isDateUnavailable && !props.allowsNonContiguousRanges) {
+    if (date && isDateUnavailable && !props.allowsNonContiguousRanges) {
       const nextAvailableStartDate = nextUnavailableDate(date, calendar, -1);
       const nextAvailableEndDate = nextUnavailableDate(date, calendar, 1);
       availableRangeRef.current = {
@@ -108,14 +125,26 @@ export function useRangeCalendarState<T extends DateValue = DateValue>(props: Ra
     }
   };
 
-  let highlightedRange = anchorDate ? makeRange(anchorDate, calendar.focusedDate) : value && makeRange(value.start, value.end);
+  // Expand the range to include the entire selection period (e.g. week or month) at each end.
+  let expandRange = (range: RangeValue<CalendarDate> | null) => range && {
+    start: constrainValue(calendar.getSelectionPeriod(range.start).start, min, max),
+    end: constrainValue(calendar.getSelectionPeriod(range.end).end, min, max)
+  };
+
+  let highlightedRange = anchorDate ? expandRange(makeRange(anchorDate, calendar.focusedDate)) : value && makeRange(value.start, value.end);
+  let displayCalendar = calendar.visibleRange.start.calendar;
+  let comparisonRange = useMemo(() => {
+    let range = comparisonValue ? makeRange(comparisonValue.start, comparisonValue.end) : null;
+    return range && {start: toCalendar(range.start, displayCalendar), end: toCalendar(range.end, displayCalendar)};
+  }, [comparisonValue, displayCalendar]);
+
   let selectDate = (date: CalendarDate) => {
     if (props.isReadOnly) {
       return;
     }
 
     const constrainedDate = constrainValue(date, min, max);
-    const previousAvailableConstrainedDate = previousAvailableDate(constrainedDate, calendar.visibleRange.start, props.isDateUnavailable);
+    const previousAvailableConstrainedDate = previousAvailableDate(constrainedDate, calendar.visibleRange.start, isDateUnavailable);
     if (!previousAvailableConstrainedDate) {
       return;
     }
@@ -123,7 +152,7 @@ export function useRangeCalendarState<T extends DateValue = DateValue>(props: Ra
     if (!anchorDate) {
       setAnchorDate(previousAvailableConstrainedDate);
     } else {
-      let range = makeRange(anchorDate, previousAvailableConstrainedDate);
+      let range = expandRange(makeRange(anchorDate, previousAvailableConstrainedDate));
       if (range) {
         setValue({
           start: convertValue(range.start, value?.start) as T,
@@ -136,7 +165,6 @@ export function useRangeCalendarState<T extends DateValue = DateValue>(props: Ra
 
   let [isDragging, setDragging] = useState(false);
 
-  let {isDateUnavailable} = props;
   let isInvalidSelection = useMemo(() => {
     if (!value || anchorDate) {
       return false;
@@ -159,6 +187,7 @@ export function useRangeCalendarState<T extends DateValue = DateValue>(props: Ra
     anchorDate,
     setAnchorDate,
     highlightedRange,
+    comparisonRange,
     validationState,
     isValueInvalid,
     selectFocusedDate() {
@@ -176,6 +205,9 @@ export function useRangeCalendarState<T extends DateValue = DateValue>(props: Ra
     isInvalid(date) {
       return calendar.isInvalid(date) || isInvalid(date, availableRangeRef.current?.start, availableRangeRef.current?.end);
     },
+    isInComparisonRange(date) {
+      return Boolean(comparisonRange && date.compare(comparisonRange.start) >= 0 && date.compare(comparisonRange.end) <= 0);
+    },
     isDragging,
     setDragging
   };
@@ -12,14 +12,34 @@
 import {
   CalendarDate,
   DateDuration,
+  DayOfWeek,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
   maxDate,
   minDate,
   startOfMonth,
   startOfWeek,
   startOfYear,
-  toCalendarDate
+  toCalendarDate,
+  WorkingCalendar
 } from '@internationalized/date';
-import {DateValue} from '@react-types/calendar';
+import {CalendarSelectionGranularity, DateValue} from '@react-types/calendar';
+import {RangeValue} from '@react-types/shared';
+
+interface GridLayout {
+  /** The duration of each cell in the grid. */
+  cell: DateDuration,
+  /** The number of cells in each row of the grid. */
+  columns: number
+}
+
+// Selection granularities larger than a week display a grid of months, quarters, or years rather than days.
+export const GRID_LAYOUTS: Partial<Record<CalendarSelectionGranularity, GridLayout>> = {
+  month: {cell: {months: 1}, columns: 3},
+  quarter: {cell: {months: 3}, columns: 4},
+  year: {cell: {years: 1}, columns: 3}
+};
 
 export function isInvalid(date: DateValue, minValue?: DateValue | null, maxValue?: DateValue | null): boolean {
   return (minValue != null && date.compare(minValue) < 0) ||
@@ -132,3 +152,56 @@ export function previousAvailableDate(date: CalendarDate, minValue: DateValue, i
   }
   return null;
 }
+
+export function getIsDateUnavailable(
+  isDateUnavailable: ((date: DateValue) => boolean) | undefined,
+  workingCalendar: WorkingCalendar | undefined
+): ((date: DateValue) => boolean) | undefined {
+  if (!workingCalendar) {
+    return isDateUnavailable;
+  }
+
+  return (date: DateValue) => !workingCalendar.isBusinessDay(date) || !!isDateUnavailable?.(date);
+}
+
+export function getDefaultVisibleDuration(selectionGranularity: CalendarSelectionGranularity): DateDuration {
+  switch (selectionGranularity) {
+    case 'month':
+    case 'quarter':
+      return {years: 1};
+    case 'year':
+      return {years: 12};
+    default:
+      return {months: 1};
+  }
+}
+
+export function getSelectionPeriod(
+  date: CalendarDate,
+  selectionGranularity: CalendarSelectionGranularity,
+  locale: string,
+  firstDayOfWeek?: DayOfWeek
+): RangeValue<CalendarDate> {
+  switch (selectionGranularity) {
+    case 'week':
+      return {start: startOfWeek(date, locale, firstDayOfWeek), end: endOfWeek(date, locale, firstDayOfWeek)};
+    case 'month':
+      return {start: startOfMonth(date), end: endOfMonth(date)};
+    case 'quarter': {
+      let start = startOfMonth(date.subtract({months: (date.month - 1) % 3}));
+      return {start, end: endOfMonth(start.add({months: 2}))};
+    }
+    case 'year':
+      return {start: startOfYear(date), end: endOfYear(date)};
+    default:
+      return {start: date, end: date};
+  }
+}
+
+export function multiplyDuration(duration: DateDuration, amount: number): DateDuration {
+  let result: DateDuration = {};
+  for (let key in duration) {
+    result[key] = duration[key] * amount;
+  }
+  return result;
+}
@@ -16,4 +16,5 @@ export {Section} from './Section';
 export {useCollection} from './useCollection';
 export {getItemCount} from './getItemCount';
 export {getChildNodes, getFirstItem, getLastItem, getNthItem, compareNodeOrder} from './getChildNodes';
+export {sortByScore} from './sortByScore';
 export {CollectionBuilder} from './CollectionBuilder';
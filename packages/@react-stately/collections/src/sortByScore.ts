@@ -0,0 +1,35 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {Node} from '@react-types/shared';
+
+/**
+ * Sorts items by descending filter score in place. Other nodes such as sections, headers and separators stay where
+ * they are, and each run of items between them is sorted separately so that items never move across them.
+ * Items without a score are placed after scored items, and ties keep their original order.
+ */
+export function sortByScore<N extends Node<unknown>>(nodes: N[]): void {
+  let start = 0;
+  for (let i = 0; i <= nodes.length; i++) {
+    if (i === nodes.length || !isSortable(nodes[i])) {
+      if (i - start > 1) {
+        let run = nodes.slice(start, i).sort((a, b) => ((b.filterMatch?.score ?? -Infinity) - (a.filterMatch?.score ?? -Infinity)) || 0);
+        nodes.splice(start, run.length, ...run);
+      }
+      start = i + 1;
+    }
+  }
+}
+
+function isSortable(node: Node<unknown>) {
+  return node.type === 'item' || node.filterMatch != null;
+}
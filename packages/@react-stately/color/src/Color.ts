@@ -21,7 +21,7 @@ let dictionary = new LocalizedStringDictionary(intlMessages);
 
 /** Parses a color from a string value. Throws an error if the string could not be parsed. */
 export function parseColor(value: string): IColor {
-  let res = RGBColor.parse(value) || HSBColor.parse(value) || HSLColor.parse(value);
+  let res = RGBColor.parse(value) || HSBColor.parse(value) || HSLColor.parse(value) || OKLCHColor.parse(value) || OKLabColor.parse(value) || DisplayP3Color.parse(value);
   if (res) {
     return res;
   }
@@ -46,6 +46,12 @@ export function getColorChannels(colorSpace: ColorSpace): [ColorChannel, ColorCh
       return HSLColor.colorChannels;
     case 'hsb':
       return HSBColor.colorChannels;
+    case 'oklch':
+      return OKLCHColor.colorChannels;
+    case 'oklab':
+      return OKLabColor.colorChannels;
+    case 'display-p3':
+      return DisplayP3Color.colorChannels;
   }
 }
 
@@ -53,7 +59,8 @@ export function getColorChannels(colorSpace: ColorSpace): [ColorChannel, ColorCh
  * Returns the hue value normalized to the range of 0 to 360.
  */
 export function normalizeHue(hue: number): number {
-  if (hue === 360) {
+  // Avoid introducing floating point error into hues that are already in range.
+  if (hue >= 0 && hue <= 360) {
     return hue;
   }
 
@@ -237,6 +244,18 @@ abstract class Color implements IColor {
     let [name] = this.getOklchHue(l, c, h, locale);
     return name;
   }
+
+  getLuminance(): number {
+    return getLuminance(this);
+  }
+
+  getContrastRatio(background: IColor): number {
+    return getContrastRatio(this, background);
+  }
+
+  getAPCAContrast(background: IColor): number {
+    return getAPCAContrast(this, background);
+  }
 }
 
 class RGBColor extends Color {
@@ -299,6 +318,10 @@ class RGBColor extends Color {
       case 'hsl':
       case 'hsla':
         return this.toHSL();
+      case 'oklch':
+      case 'oklab':
+      case 'display-p3':
+        return fromXYZ(toXYZ(this), this.alpha, format);
       default:
         throw new Error('Unsupported color conversion: rgb -> ' + format);
     }
@@ -484,6 +507,10 @@ class HSBColor extends Color {
       case 'rgb':
       case 'rgba':
         return this.toRGB();
+      case 'oklch':
+      case 'oklab':
+      case 'display-p3':
+        return this.toRGB().toFormat(format);
       default:
         throw new Error('Unsupported color conversion: hsb -> ' + format);
     }
@@ -621,6 +648,10 @@ class HSLColor extends Color {
       case 'rgb':
       case 'rgba':
         return this.toRGB();
+      case 'oklch':
+      case 'oklab':
+      case 'display-p3':
+        return this.toRGB().toFormat(format);
       default:
         throw new Error('Unsupported color conversion: hsl -> ' + format);
     }
@@ -713,16 +744,502 @@ class HSLColor extends Color {
   }
 }
 
-// https://www.w3.org/TR/css-color-4/#color-conversion-code
-function toOKLCH(color: Color) {
+// X = <number, percentage or none>
+// components are separated by whitespace, with an optional alpha component after a slash
+// - oklch(X X X)
+// - oklch(X X X / X)
+const OKLCH_REGEX = /^oklch\(\s*([^\s/()]+)\s+([^\s/()]+)\s+([^\s/()]+)(?:\s*\/\s*([^\s/()]+))?\s*\)$/i;
+
+class OKLCHColor extends Color {
+  constructor(private lightness: number, private chroma: number, private hue: number, private alpha: number) {
+    super();
+  }
+
+  static parse(value: string): OKLCHColor | void {
+    let m: RegExpMatchArray | null;
+    if ((m = value.trim().match(OKLCH_REGEX))) {
+      let l = parseComponent(m[1], 1);
+      let c = parseComponent(m[2], 0.4);
+      let h = parseComponent(m[3].replace(/deg$/i, ''), 1);
+      let a = m[4] ? parseComponent(m[4], 1) : 1;
+      if ([l, c, h, a].some(n => Number.isNaN(n))) {
+        return;
+      }
+
+      return new OKLCHColor(clamp(l, 0, 1), Math.max(c, 0), normalizeHue(h), clamp(a, 0, 1));
+    }
+  }
+
+  toString(format: ColorFormat | 'css' = 'css') {
+    switch (format) {
+      case 'hex':
+        return this.toFormat('rgb').toString('hex');
+      case 'hexa':
+        return this.toFormat('rgb').toString('hexa');
+      case 'css':
+      case 'oklch':
+        return `oklch(${toFixedNumber(this.lightness * 100, 2)}% ${toFixedNumber(this.chroma, 4)} ${toFixedNumber(this.hue, 2)}${formatAlpha(this.alpha)})`;
+      default:
+        return this.toFormat(format).toString(format);
+    }
+  }
+
+  toFormat(format: ColorFormat): IColor {
+    switch (format) {
+      case 'oklch':
+        return this;
+      default:
+        return fromXYZ(toXYZ(this), this.alpha, format);
+    }
+  }
+
+  clone(): IColor {
+    return new OKLCHColor(this.lightness, this.chroma, this.hue, this.alpha);
+  }
+
+  getChannelRange(channel: ColorChannel): ColorChannelRange {
+    switch (channel) {
+      case 'lightness':
+        return {minValue: 0, maxValue: 1, step: 0.01, pageSize: 0.1};
+      case 'chroma':
+        return {minValue: 0, maxValue: 0.4, step: 0.001, pageSize: 0.01};
+      case 'hue':
+        return {minValue: 0, maxValue: 360, step: 1, pageSize: 15};
+      case 'alpha':
+        return {minValue: 0, maxValue: 1, step: 0.01, pageSize: 0.1};
+      default:
+        throw new Error('Unknown color channel: ' + channel);
+    }
+  }
+
+  getChannelFormatOptions(channel: ColorChannel): Intl.NumberFormatOptions {
+    switch (channel) {
+      case 'chroma':
+        return {style: 'decimal'};
+      case 'hue':
+        return {style: 'unit', unit: 'degree', unitDisplay: 'narrow'};
+      case 'lightness':
+      case 'alpha':
+        return {style: 'percent'};
+      default:
+        throw new Error('Unknown color channel: ' + channel);
+    }
+  }
+
+  formatChannelValue(channel: ColorChannel, locale: string) {
+    let options = this.getChannelFormatOptions(channel);
+    let value = this.getChannelValue(channel);
+    return new NumberFormatter(locale, options).format(value);
+  }
+
+  getColorSpace(): ColorSpace {
+    return 'oklch';
+  }
+
+  static colorChannels: [ColorChannel, ColorChannel, ColorChannel] = ['lightness', 'chroma', 'hue'];
+  getColorChannels(): [ColorChannel, ColorChannel, ColorChannel] {
+    return OKLCHColor.colorChannels;
+  }
+}
+
+// X = <number, percentage or none>
+// components are separated by whitespace, with an optional alpha component after a slash
+// - oklab(X X X)
+// - oklab(X X X / X)
+const OKLAB_REGEX = /^oklab\(\s*([^\s/()]+)\s+([^\s/()]+)\s+([^\s/()]+)(?:\s*\/\s*([^\s/()]+))?\s*\)$/i;
+
+class OKLabColor extends Color {
+  constructor(private lightness: number, private a: number, private b: number, private alpha: number) {
+    super();
+  }
+
+  static parse(value: string): OKLabColor | void {
+    let m: RegExpMatchArray | null;
+    if ((m = value.trim().match(OKLAB_REGEX))) {
+      let l = parseComponent(m[1], 1);
+      let a = parseComponent(m[2], 0.4);
+      let b = parseComponent(m[3], 0.4);
+      let alpha = m[4] ? parseComponent(m[4], 1) : 1;
+      if ([l, a, b, alpha].some(n => Number.isNaN(n))) {
+        return;
+      }
+
+      return new OKLabColor(clamp(l, 0, 1), a, b, clamp(alpha, 0, 1));
+    }
+  }
+
+  toString(format: ColorFormat | 'css' = 'css') {
+    switch (format) {
+      case 'hex':
+        return this.toFormat('rgb').toString('hex');
+      case 'hexa':
+        return this.toFormat('rgb').toString('hexa');
+      case 'css':
+      case 'oklab':
+        return `oklab(${toFixedNumber(this.lightness * 100, 2)}% ${toFixedNumber(this.a, 4)} ${toFixedNumber(this.b, 4)}${formatAlpha(this.alpha)})`;
+      default:
+        return this.toFormat(format).toString(format);
+    }
+  }
+
+  toFormat(format: ColorFormat): IColor {
+    switch (format) {
+      case 'oklab':
+        return this;
+      default:
+        return fromXYZ(toXYZ(this), this.alpha, format);
+    }
+  }
+
+  clone(): IColor {
+    return new OKLabColor(this.lightness, this.a, this.b, this.alpha);
+  }
+
+  getChannelRange(channel: ColorChannel): ColorChannelRange {
+    switch (channel) {
+      case 'lightness':
+        return {minValue: 0, maxValue: 1, step: 0.01, pageSize: 0.1};
+      case 'a':
+      case 'b':
+        return {minValue: -0.4, maxValue: 0.4, step: 0.001, pageSize: 0.01};
+      case 'alpha':
+        return {minValue: 0, maxValue: 1, step: 0.01, pageSize: 0.1};
+      default:
+        throw new Error('Unknown color channel: ' + channel);
+    }
+  }
+
+  getChannelFormatOptions(channel: ColorChannel): Intl.NumberFormatOptions {
+    switch (channel) {
+      case 'a':
+      case 'b':
+        return {style: 'decimal'};
+      case 'lightness':
+      case 'alpha':
+        return {style: 'percent'};
+      default:
+        throw new Error('Unknown color channel: ' + channel);
+    }
+  }
+
+  formatChannelValue(channel: ColorChannel, locale: string) {
+    let options = this.getChannelFormatOptions(channel);
+    let value = this.getChannelValue(channel);
+    return new NumberFormatter(locale, options).format(value);
+  }
+
+  getColorSpace(): ColorSpace {
+    return 'oklab';
+  }
+
+  static colorChannels: [ColorChannel, ColorChannel, ColorChannel] = ['lightness', 'a', 'b'];
+  getColorChannels(): [ColorChannel, ColorChannel, ColorChannel] {
+    return OKLabColor.colorChannels;
+  }
+}
+
+// X = <number, percentage or none>
+// components are separated by whitespace, with an optional alpha component after a slash
+// - color(display-p3 X X X)
+// - color(display-p3 X X X / X)
+const DISPLAY_P3_REGEX = /^color\(\s*display-p3\s+([^\s/()]+)\s+([^\s/()]+)\s+([^\s/()]+)(?:\s*\/\s*([^\s/()]+))?\s*\)$/i;
+
+class DisplayP3Color extends Color {
+  constructor(private red: number, private green: number, private blue: number, private alpha: number) {
+    super();
+  }
+
+  static parse(value: string): DisplayP3Color | void {
+    let m: RegExpMatchArray | null;
+    if ((m = value.trim().match(DISPLAY_P3_REGEX))) {
+      let [r, g, b] = [m[1], m[2], m[3]].map(v => parseComponent(v, 1));
+      let a = m[4] ? parseComponent(m[4], 1) : 1;
+      if ([r, g, b, a].some(n => Number.isNaN(n))) {
+        return;
+      }
+
+      return new DisplayP3Color(clamp(r, 0, 1), clamp(g, 0, 1), clamp(b, 0, 1), clamp(a, 0, 1));
+    }
+  }
+
+  toString(format: ColorFormat | 'css' = 'css') {
+    switch (format) {
+      case 'hex':
+        return this.toFormat('rgb').toString('hex');
+      case 'hexa':
+        return this.toFormat('rgb').toString('hexa');
+      case 'css':
+      case 'display-p3':
+        return `color(display-p3 ${toFixedNumber(this.red, 4)} ${toFixedNumber(this.green, 4)} ${toFixedNumber(this.blue, 4)}${formatAlpha(this.alpha)})`;
+      default:
+        return this.toFormat(format).toString(format);
+    }
+  }
+
+  toFormat(format: ColorFormat): IColor {
+    switch (format) {
+      case 'display-p3':
+        return this;
+      default:
+        return fromXYZ(toXYZ(this), this.alpha, format);
+    }
+  }
+
+  clone(): IColor {
+    return new DisplayP3Color(this.red, this.green, this.blue, this.alpha);
+  }
+
+  getChannelRange(channel: ColorChannel): ColorChannelRange {
+    switch (channel) {
+      case 'red':
+      case 'green':
+      case 'blue':
+        return {minValue: 0, maxValue: 1, step: 0.001, pageSize: 0.05};
+      case 'alpha':
+        return {minValue: 0, maxValue: 1, step: 0.01, pageSize: 0.1};
+      default:
+        throw new Error('Unknown color channel: ' + channel);
+    }
+  }
+
+  getChannelFormatOptions(channel: ColorChannel): Intl.NumberFormatOptions {
+    switch (channel) {
+      case 'red':
+      case 'green':
+      case 'blue':
+        return {style: 'decimal'};
+      case 'alpha':
+        return {style: 'percent'};
+      default:
+        throw new Error('Unknown color channel: ' + channel);
+    }
+  }
+
+  formatChannelValue(channel: ColorChannel, locale: string) {
+    let options = this.getChannelFormatOptions(channel);
+    let value = this.getChannelValue(channel);
+    return new NumberFormatter(locale, options).format(value);
+  }
+
+  getColorSpace(): ColorSpace {
+    return 'display-p3';
+  }
+
+  static colorChannels: [ColorChannel, ColorChannel, ColorChannel] = ['red', 'green', 'blue'];
+  getColorChannels(): [ColorChannel, ColorChannel, ColorChannel] {
+    return DisplayP3Color.colorChannels;
+  }
+}
+
+/**
+ * Parses a single CSS color component. Percentages are resolved against the given reference
+ * value (the value of 100%), and the `none` keyword resolves to zero.
+ */
+function parseComponent(value: string, percentReference: number): number {
+  if (value.toLowerCase() === 'none') {
+    return 0;
+  }
+
+  if (value.endsWith('%')) {
+    return parseNumber(value.slice(0, -1)) / 100 * percentReference;
+  }
+
+  return parseNumber(value);
+}
+
+function parseNumber(value: string): number {
+  return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value) ? Number(value) : NaN;
+}
+
+function formatAlpha(alpha: number) {
+  return alpha < 1 ? ` / ${toFixedNumber(alpha, 4)}` : '';
+}
+
+/** Converts a color in any supported color space to CIE XYZ, relative to D65. */
+function toXYZ(color: IColor): [number, number, number] {
+  switch (color.getColorSpace()) {
+    case 'oklch': {
+      let [l, a, b] = OKLCH_to_OKLab(color.getChannelValue('lightness'), color.getChannelValue('chroma'), color.getChannelValue('hue'));
+      return OKLab_to_XYZ(l, a, b);
+    }
+    case 'oklab':
+      return OKLab_to_XYZ(color.getChannelValue('lightness'), color.getChannelValue('a'), color.getChannelValue('b'));
+    case 'display-p3': {
+      let [red, green, blue] = lin_sRGB(color.getChannelValue('red'), color.getChannelValue('green'), color.getChannelValue('blue'));
+      return lin_P3_to_XYZ(red, green, blue);
+    }
+    default: {
+      let rgb = color.toFormat('rgb');
+      let [red, green, blue] = lin_sRGB(rgb.getChannelValue('red') / 255, rgb.getChannelValue('green') / 255, rgb.getChannelValue('blue') / 255);
+      return lin_sRGB_to_XYZ(red, green, blue);
+    }
+  }
+}
+
+/**
+ * Converts a CIE XYZ color to the given format. Colors that are out of gamut for
+ * RGB based formats are mapped into gamut by reducing their chroma.
+ */
+function fromXYZ([x, y, z]: [number, number, number], alpha: number, format: ColorFormat): IColor {
+  switch (format) {
+    case 'oklab': {
+      let [l, a, b] = XYZ_to_OKLab(x, y, z);
+      return new OKLabColor(toFixedNumber(clamp(l, 0, 1), 4), toFixedNumber(a, 4), toFixedNumber(b, 4), alpha);
+    }
+    case 'oklch': {
+      let [l, c, h] = OKLab_to_OKLCH(...XYZ_to_OKLab(x, y, z));
+      // Hue is meaningless for achromatic colors.
+      if (c < 0.0001) {
+        c = h = 0;
+      }
+      return new OKLCHColor(toFixedNumber(clamp(l, 0, 1), 4), toFixedNumber(c, 4), toFixedNumber(h, 2), alpha);
+    }
+    case 'display-p3': {
+      let [red, green, blue] = gamutMap(OKLab_to_OKLCH(...XYZ_to_OKLab(x, y, z)), 'display-p3');
+      return new DisplayP3Color(toFixedNumber(red, 4), toFixedNumber(green, 4), toFixedNumber(blue, 4), alpha);
+    }
+    default: {
+      let [red, green, blue] = gamutMap(OKLab_to_OKLCH(...XYZ_to_OKLab(x, y, z)), 'srgb');
+      return new RGBColor(Math.round(red * 255), Math.round(green * 255), Math.round(blue * 255), alpha).toFormat(format);
+    }
+  }
+}
+
+// Just noticeable difference in OKLab, and the precision of the chroma search.
+const JND = 0.02;
+const GAMUT_EPSILON = 0.0001;
+
+/**
+ * Maps an OKLCH color into an RGB gamut using the CSS Color 4 gamut mapping algorithm,
+ * and returns the gamma encoded RGB channels in the range 0 to 1.
+ * See https://www.w3.org/TR/css-color-4/#binsearch.
+ */
+function gamutMap([l, c, h]: [number, number, number], gamut: 'srgb' | 'display-p3'): [number, number, number] {
+  if (l >= 1) {
+    return [1, 1, 1];
+  }
+
+  if (l <= 0) {
+    return [0, 0, 0];
+  }
+
+  let XYZ_to_lin_RGB = gamut === 'srgb' ? XYZ_to_lin_sRGB : XYZ_to_lin_P3;
+  let lin_RGB_to_XYZ = gamut === 'srgb' ? lin_sRGB_to_XYZ : lin_P3_to_XYZ;
+  let toRGB = (chroma: number) => gam_sRGB(...XYZ_to_lin_RGB(...OKLab_to_XYZ(...OKLCH_to_OKLab(l, chroma, h))));
+  let toOKLab = (rgb: [number, number, number]) => XYZ_to_OKLab(...lin_RGB_to_XYZ(...lin_sRGB(...rgb)));
+  let rgb = toRGB(c);
+  if (isInGamut(rgb)) {
+    return clip(rgb);
+  }
+
+  let origin = OKLCH_to_OKLab(l, c, h);
+  let clipped = clip(rgb);
+  if (deltaEOK(origin, toOKLab(clipped)) < JND) {
+    return clipped;
+  }
+
+  let min = 0;
+  let max = c;
+  let minInGamut = true;
+  while (max - min > GAMUT_EPSILON) {
+    let chroma = (min + max) / 2;
+    let current = toRGB(chroma);
+    if (minInGamut && isInGamut(current)) {
+      min = chroma;
+      continue;
+    }
+
+    clipped = clip(current);
+    let e = deltaEOK(OKLCH_to_OKLab(l, chroma, h), toOKLab(clipped));
+    if (e < JND) {
+      if (JND - e < GAMUT_EPSILON) {
+        return clipped;
+      }
+
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipped;
+}
+
+function isInGamut(rgb: [number, number, number]) {
+  return rgb.every(v => v >= -GAMUT_EPSILON && v <= 1 + GAMUT_EPSILON);
+}
+
+function clip(rgb: [number, number, number]): [number, number, number] {
+  return [clamp(rgb[0], 0, 1), clamp(rgb[1], 0, 1), clamp(rgb[2], 0, 1)];
+}
+
+function deltaEOK([l1, a1, b1]: [number, number, number], [l2, a2, b2]: [number, number, number]) {
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+/**
+ * Composites a possibly transparent foreground color over a background color in sRGB,
+ * as browsers do. The alpha channel of the background color is ignored.
+ */
+function compositeOver(foreground: IColor, background: IColor): IColor {
+  let alpha = foreground.getChannelValue('alpha');
+  if (alpha >= 1) {
+    return foreground;
+  }
+
+  let fg = foreground.toFormat('rgb');
+  let bg = background.toFormat('rgb');
+  let [red, green, blue] = RGBColor.colorChannels.map(channel => fg.getChannelValue(channel) * alpha + bg.getChannelValue(channel) * (1 - alpha));
+  return new RGBColor(red, green, blue, 1);
+}
+
+// APCA 0.0.98G-4g constants.
+// https://github.com/Myndex/apca-w3
+const APCA_COEFFICIENTS = [0.2126729, 0.7151522, 0.0721750];
+const APCA_NORM_BG = 0.56;
+const APCA_NORM_TEXT = 0.57;
+const APCA_REV_TEXT = 0.62;
+const APCA_REV_BG = 0.65;
+const APCA_BLACK_THRESHOLD = 0.022;
+const APCA_BLACK_CLAMP = 1.414;
+const APCA_SCALE = 1.14;
+const APCA_LOW_OFFSET = 0.027;
+const APCA_DELTA_Y_MIN = 0.0005;
+const APCA_LOW_CLIP = 0.1;
+
+function toAPCALuminance(color: IColor) {
   let rgb = color.toFormat('rgb');
-  let red = rgb.getChannelValue('red') / 255;
-  let green = rgb.getChannelValue('green') / 255;
-  let blue = rgb.getChannelValue('blue') / 255;
-  [red, green, blue] = lin_sRGB(red, green, blue);
-  let [x, y, z] = lin_sRGB_to_XYZ(red, green, blue);
-  let [l, a, b] = XYZ_to_OKLab(x, y, z);
-  return OKLab_to_OKLCH(l, a, b);
+  return RGBColor.colorChannels.reduce((y, channel, i) => y + APCA_COEFFICIENTS[i] * Math.pow(rgb.getChannelValue(channel) / 255, 2.4), 0);
+}
+
+function getAPCALightnessContrast(textY: number, backgroundY: number) {
+  // Soft clamp luminance near black.
+  let clampBlack = (y: number) => y > APCA_BLACK_THRESHOLD ? y : y + Math.pow(APCA_BLACK_THRESHOLD - y, APCA_BLACK_CLAMP);
+  textY = clampBlack(textY);
+  backgroundY = clampBlack(backgroundY);
+
+  if (Math.abs(backgroundY - textY) < APCA_DELTA_Y_MIN) {
+    return 0;
+  }
+
+  let contrast: number;
+  if (backgroundY > textY) {
+    // Dark text on a light background.
+    let sapc = (Math.pow(backgroundY, APCA_NORM_BG) - Math.pow(textY, APCA_NORM_TEXT)) * APCA_SCALE;
+    contrast = sapc < APCA_LOW_CLIP ? 0 : sapc - APCA_LOW_OFFSET;
+  } else {
+    // Light text on a dark background.
+    let sapc = (Math.pow(backgroundY, APCA_REV_BG) - Math.pow(textY, APCA_REV_TEXT)) * APCA_SCALE;
+    contrast = sapc > -APCA_LOW_CLIP ? 0 : sapc + APCA_LOW_OFFSET;
+  }
+
+  return contrast * 100;
+}
+
+// https://www.w3.org/TR/css-color-4/#color-conversion-code
+function toOKLCH(color: IColor) {
+  return OKLab_to_OKLCH(...XYZ_to_OKLab(...toXYZ(color)));
 }
 
 function OKLab_to_OKLCH(l: number, a: number, b: number): [number, number, number] {
@@ -734,6 +1251,14 @@ function OKLab_to_OKLCH(l: number, a: number, b: number): [number, number, numbe
   ];
 }
 
+function OKLCH_to_OKLab(l: number, c: number, h: number): [number, number, number] {
+  return [
+    l,
+    c * Math.cos(h * Math.PI / 180),
+    c * Math.sin(h * Math.PI / 180)
+  ];
+}
+
 function lin_sRGB(r: number, g: number, b: number): [number, number, number] {
   // convert an array of sRGB values
   // where in-gamut values are in the range [0 - 1]
@@ -756,6 +1281,26 @@ function lin_sRGB_component(val: number) {
   return sign * (Math.pow((abs + 0.055) / 1.055, 2.4));
 }
 
+function gam_sRGB(r: number, g: number, b: number): [number, number, number] {
+  // convert an array of linear-light sRGB values in the range 0.0-1.0
+  // to gamma corrected form. Display P3 uses the same transfer function.
+  // Extended transfer function:
+  // For negative values, linear portion extends on reflection
+  // of axis, then uses reflected pow below that
+  return [gam_sRGB_component(r), gam_sRGB_component(g), gam_sRGB_component(b)];
+}
+
+function gam_sRGB_component(val: number) {
+  let sign = val < 0 ? -1 : 1;
+  let abs = Math.abs(val);
+
+  if (abs > 0.0031308) {
+    return sign * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+  }
+
+  return 12.92 * val;
+}
+
 function lin_sRGB_to_XYZ(r: number, g: number, b: number) {
   // convert an array of linear-light sRGB values to CIE XYZ
   // using sRGB's own white, D65 (no chromatic adaptation)
@@ -767,6 +1312,37 @@ function lin_sRGB_to_XYZ(r: number, g: number, b: number) {
   return multiplyMatrix(M, r, g, b);
 }
 
+function XYZ_to_lin_sRGB(x: number, y: number, z: number) {
+  // convert XYZ to linear-light sRGB
+  const M = [
+    12831 / 3959,      -329 / 214,       -1974 / 3959,
+    -851781 / 878810,  1648619 / 878810, 36519 / 878810,
+    705 / 12673,       -2585 / 12673,    705 / 667
+  ];
+  return multiplyMatrix(M, x, y, z);
+}
+
+function lin_P3_to_XYZ(r: number, g: number, b: number) {
+  // convert an array of linear-light display-p3 values to CIE XYZ
+  // using D65 (no chromatic adaptation)
+  const M = [
+    608311 / 1250200, 189793 / 714400, 198249 / 1000160,
+    35783 / 156275,   247089 / 357200, 198249 / 2500400,
+    0 / 1,            32229 / 714400,  5220557 / 5000800
+  ];
+  return multiplyMatrix(M, r, g, b);
+}
+
+function XYZ_to_lin_P3(x: number, y: number, z: number) {
+  // convert XYZ to linear-light P3
+  const M = [
+    446124 / 178915,  -333277 / 357830, -72051 / 178915,
+    -14852 / 17905,   63121 / 35810,    423 / 17905,
+    11844 / 330415,   -50337 / 660830,  316169 / 330415
+  ];
+  return multiplyMatrix(M, x, y, z);
+}
+
 function XYZ_to_OKLab(x: number, y: number, z: number) {
   // Given XYZ relative to D65, convert to OKLab
   const XYZtoLMS = [
@@ -784,9 +1360,47 @@ function XYZ_to_OKLab(x: number, y: number, z: number) {
   return multiplyMatrix(LMStoOKLab, Math.cbrt(a), Math.cbrt(b), Math.cbrt(c));
 }
 
+function OKLab_to_XYZ(l: number, a: number, b: number) {
+  // Given OKLab, convert to XYZ relative to D65
+  const LMStoXYZ = [
+    1.2268798758459243, -0.5578149944602171,  0.2813910456659647,
+    -0.0405757452148008,  1.1122868032803170, -0.0717110580655164,
+    -0.0763729366746601, -0.4214933324022432,  1.5869240198367816
+  ];
+  const OKLabtoLMS = [
+    1.0000000000000000,  0.3963377773761749,  0.2158037573099136,
+    1.0000000000000000, -0.1055613458156586, -0.0638541728258133,
+    1.0000000000000000, -0.0894841775298119, -1.2914855480194092
+  ];
+
+  let [x, y, z] = multiplyMatrix(OKLabtoLMS, l, a, b);
+  return multiplyMatrix(LMStoXYZ, x ** 3, y ** 3, z ** 3);
+}
+
 function multiplyMatrix(m: number[], x: number, y: number, z: number): [number, number, number] {
   let a = m[0] * x + m[1] * y + m[2] * z;
   let b = m[3] * x + m[4] * y + m[5] * z;
   let c = m[6] * x + m[7] * y + m[8] * z;
   return [a, b, c];
 }
+
+/** Returns the relative luminance of a color, between 0 for the darkest black and 1 for the lightest white. */
+export function getLuminance(color: IColor): number {
+  // The Y component of CIE XYZ is the relative luminance.
+  return clamp(toXYZ(color)[1], 0, 1);
+}
+
+/** Returns the WCAG 2.x contrast ratio between a color, composited over a background color, and the background. */
+export function getContrastRatio(foreground: IColor, background: IColor): number {
+  let l1 = getLuminance(compositeOver(foreground, background));
+  let l2 = getLuminance(background);
+  // https://www.w3.org/TR/WCAG22/#dfn-contrast-ratio
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/** Returns the APCA lightness contrast (Lc) of a text color displayed on a background color. */
+export function getAPCAContrast(text: IColor, background: IColor): number {
+  let textY = toAPCALuminance(compositeOver(text, background));
+  let backgroundY = toAPCALuminance(background);
+  return getAPCALightnessContrast(textY, backgroundY);
+}
@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-export type {ColorAreaState} from './useColorAreaState';
+export type {ColorAreaState, ColorAreaContrastContour} from './useColorAreaState';
 export type {ColorSliderState} from './useColorSliderState';
 export type {ColorWheelState} from './useColorWheelState';
 export type {ColorFieldState} from './useColorFieldState';
@@ -25,5 +25,5 @@ export {useColorFieldState} from './useColorFieldState';
 export {useColorChannelFieldState} from './useColorChannelFieldState';
 export {useColorPickerState} from './useColorPickerState';
 
-export type {Color, ColorChannel, ColorFormat, ColorSpace, ColorAreaProps, ColorFieldProps, ColorWheelProps} from '@react-types/color';
+export type {Color, ColorChannel, ColorContrastAlgorithm, ColorFormat, ColorSpace, ColorAreaProps, ColorFieldProps, ColorWheelProps} from '@react-types/color';
 export type {ColorSliderStateOptions} from './useColorSliderState';
@@ -11,10 +11,21 @@
  */
 
 import {clamp, snapValueToStep, useControlledState} from '@react-stately/utils';
-import {Color, ColorAreaProps, ColorChannel} from '@react-types/color';
-import {normalizeColor, parseColor} from './Color';
+import {Color, ColorAreaProps, ColorChannel, ColorContrastAlgorithm} from '@react-types/color';
+import {getAPCAContrast, getContrastRatio, normalizeColor, parseColor} from './Color';
+import {useColor} from './useColor';
 import {useMemo, useRef, useState} from 'react';
 
+export interface ColorAreaContrastContour {
+  /** The contrast value that the contour represents. */
+  threshold: number,
+  /**
+   * The lines along which the contrast against the `contrastColor` crosses the threshold. Each line is a list of
+   * points relative to the upper left corner of the color area as a percentage, ordered from left to right.
+   */
+  lines: {x: number, y: number}[][]
+}
+
 export interface ColorAreaState {
   /** The current color value displayed by the color area. */
   readonly value: Color,
@@ -65,13 +76,29 @@ export interface ColorAreaState {
   yChannelPageStep: number,
 
   /** Returns the color that should be displayed in the color area thumb instead of `value`. */
-  getDisplayColor(): Color
+  getDisplayColor(): Color,
+
+  /**
+   * Contour lines where the contrast of the colors in the area against the `contrastColor` crosses each of
+   * the `contrastThresholds`. Empty if no `contrastColor` is provided.
+   */
+  contrastContours: ColorAreaContrastContour[]
 }
 
 const DEFAULT_COLOR = parseColor('#ffffff');
+const DEFAULT_CONTRAST_THRESHOLDS: {[algorithm in ColorContrastAlgorithm]: number[]} = {
+  wcag2: [3, 4.5, 7],
+  apca: [45, 60, 75]
+};
+
+// The number of samples along each axis used to find contrast contours.
+const CONTOUR_SAMPLES = 32;
+// The number of bisection steps used to refine the position of each contour point.
+const CONTOUR_PRECISION = 8;
+
 /**
  * Provides state management for a color area component.
- * Color area allows users to adjust two channels of an HSL, HSB or RGB color value against a two-dimensional gradient background.
+ * Color area allows users to adjust two channels of an HSL, HSB, RGB, OKLCH, OKLab or Display P3 color value against a two-dimensional gradient background.
  */
 export function useColorAreaState(props: ColorAreaProps): ColorAreaState {
   let {
@@ -81,7 +108,9 @@ export function useColorAreaState(props: ColorAreaProps): ColorAreaState {
     xChannel,
     yChannel,
     onChange,
-    onChangeEnd
+    onChangeEnd,
+    contrastAlgorithm = 'wcag2',
+    contrastThresholds = DEFAULT_CONTRAST_THRESHOLDS[contrastAlgorithm]
   } = props;
 
   if (!value && !defaultValue) {
@@ -119,6 +148,30 @@ export function useColorAreaState(props: ColorAreaProps): ColorAreaState {
 
   let xValue = color.getChannelValue(channels.xChannel);
   let yValue = color.getChannelValue(channels.yChannel);
+
+  // The contours only depend on the color space, z channel and alpha of the current color, not the x and y
+  // channel values, so they are not recomputed as the user drags within the area.
+  let contrastColor = useColor(props.contrastColor);
+  let contourColorSpace = color.getColorSpace();
+  let {xChannel: contourXChannel, yChannel: contourYChannel, zChannel: contourZChannel} = channels;
+  let zValue = color.getChannelValue(contourZChannel);
+  let alpha = color.getChannelValue('alpha');
+  // Sampling the contours is expensive, so they are keyed on the values of the contrast color and thresholds
+  // rather than their identity, which changes on every render when they are passed inline.
+  let contrastColorKey = contrastColor?.toString('hexa');
+  let contrastThresholdsKey = contrastThresholds.join(',');
+  let contrastContours = useMemo(() => {
+    if (!contrastColor) {
+      return [];
+    }
+
+    let baseColor = DEFAULT_COLOR
+      .toFormat(contourColorSpace)
+      .withChannelValue(contourZChannel, zValue)
+      .withChannelValue('alpha', alpha);
+    return getContrastContours(baseColor, contourXChannel, contourYChannel, contrastColor, contrastAlgorithm, contrastThresholds);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contrastColorKey, contrastAlgorithm, contrastThresholdsKey, contourColorSpace, contourXChannel, contourYChannel, contourZChannel, zValue, alpha]);
   let setXValue = (v: number) => {
     if (v === xValue) {
       return;
@@ -197,6 +250,93 @@ export function useColorAreaState(props: ColorAreaProps): ColorAreaState {
     isDragging,
     getDisplayColor() {
       return color.withChannelValue('alpha', 1);
-    }
+    },
+    contrastContours
   };
 }
+
+function getContrast(color: Color, contrastColor: Color, algorithm: ColorContrastAlgorithm) {
+  return algorithm === 'apca'
+    ? Math.abs(getAPCAContrast(color, contrastColor))
+    : getContrastRatio(color, contrastColor);
+}
+
+/**
+ * Finds the lines where the contrast against a reference color crosses each threshold, by sampling each
+ * column of the color area from top to bottom and refining each crossing with a binary search.
+ */
+function getContrastContours(
+  color: Color,
+  xChannel: ColorChannel,
+  yChannel: ColorChannel,
+  contrastColor: Color,
+  algorithm: ColorContrastAlgorithm,
+  thresholds: number[]
+): ColorAreaContrastContour[] {
+  let {minValue: minValueX, maxValue: maxValueX} = color.getChannelRange(xChannel);
+  let {minValue: minValueY, maxValue: maxValueY} = color.getChannelRange(yChannel);
+  let contrastAt = (x: number, y: number) => getContrast(
+    color
+      .withChannelValue(xChannel, minValueX + x * (maxValueX - minValueX))
+      .withChannelValue(yChannel, minValueY + (1 - y) * (maxValueY - minValueY)),
+    contrastColor,
+    algorithm
+  );
+
+  // Sample the contrast across the area once, and reuse the samples for each threshold.
+  let samples: number[][] = [];
+  for (let column = 0; column < CONTOUR_SAMPLES; column++) {
+    let x = column / (CONTOUR_SAMPLES - 1);
+    let values: number[] = [];
+    for (let row = 0; row < CONTOUR_SAMPLES; row++) {
+      values.push(contrastAt(x, row / (CONTOUR_SAMPLES - 1)));
+    }
+    samples.push(values);
+  }
+
+  return thresholds.map(threshold => {
+    let lines: {x: number, y: number}[][] = [];
+    let currentLines: {x: number, y: number}[][] = [];
+    for (let column = 0; column < CONTOUR_SAMPLES; column++) {
+      let x = column / (CONTOUR_SAMPLES - 1);
+      let values = samples[column];
+      let crossings: number[] = [];
+      for (let row = 1; row < CONTOUR_SAMPLES; row++) {
+        let prev = values[row - 1] - threshold;
+        let cur = values[row] - threshold;
+        if (prev === 0) {
+          crossings.push((row - 1) / (CONTOUR_SAMPLES - 1));
+        } else if (prev * cur < 0) {
+          crossings.push(refineCrossing(y => contrastAt(x, y) - threshold, (row - 1) / (CONTOUR_SAMPLES - 1), row / (CONTOUR_SAMPLES - 1)));
+        }
+      }
+
+      // Connect the nth crossing in each column to the nth crossing in the previous column.
+      // When the number of crossings changes, the existing lines end and new ones begin.
+      if (crossings.length !== currentLines.length) {
+        lines.push(...currentLines.filter(line => line.length > 1));
+        currentLines = crossings.map(() => []);
+      }
+
+      crossings.forEach((y, i) => currentLines[i].push({x, y}));
+    }
+
+    lines.push(...currentLines.filter(line => line.length > 1));
+    return {threshold, lines};
+  });
+}
+
+/** Refines the position of a sign change of `f` between `start` and `end` with a binary search. */
+function refineCrossing(f: (y: number) => number, start: number, end: number) {
+  let sign = Math.sign(f(start));
+  for (let i = 0; i < CONTOUR_PRECISION; i++) {
+    let mid = (start + end) / 2;
+    if (Math.sign(f(mid)) === sign) {
+      start = mid;
+    } else {
+      end = mid;
+    }
+  }
+
+  return (start + end) / 2;
+}
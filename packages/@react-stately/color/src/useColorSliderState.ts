@@ -84,10 +84,16 @@ export function useColorSliderState(props: ColorSliderStateOptions): ColorSlider
     getDisplayColor() {
       switch (channel) {
         case 'hue':
+          if (color.getColorSpace() === 'oklch') {
+            return parseColor(`oklch(70% 0.15 ${color.getChannelValue('hue')})`);
+          }
           return parseColor(`hsl(${color.getChannelValue('hue')}, 100%, 50%)`);
         case 'lightness':
         case 'brightness':
         case 'saturation':
+        case 'chroma':
+        case 'a':
+        case 'b':
         case 'red':
         case 'green':
         case 'blue':
@@ -194,6 +194,79 @@ describe('Color', function () {
     });
   });
 
+  describe('oklch', function () {
+    it('should parse an oklch color', function () {
+      let color = parseColor('oklch(62.8% 0.2577 29.23)');
+      expect(color.getColorSpace()).toBe('oklch');
+      expect(color.getChannelValue('lightness')).toBe(0.628);
+      expect(color.getChannelValue('chroma')).toBe(0.2577);
+      expect(color.getChannelValue('hue')).toBe(29.23);
+      expect(color.getChannelValue('alpha')).toBe(1);
+      expect(color.toString('oklch')).toBe('oklch(62.8% 0.2577 29.23)');
+      expect(color.toString('css')).toBe('oklch(62.8% 0.2577 29.23)');
+      expect(color.toString('hex')).toBe('#FF0000');
+    });
+
+    it('should parse an oklch color with alpha, numbers and units', function () {
+      let color = parseColor('oklch(0.5 50% 120deg / 50%)');
+      expect(color.getChannelValue('lightness')).toBe(0.5);
+      expect(color.getChannelValue('chroma')).toBe(0.2);
+      expect(color.getChannelValue('hue')).toBe(120);
+      expect(color.getChannelValue('alpha')).toBe(0.5);
+      expect(color.toString('css')).toBe('oklch(50% 0.2 120 / 0.5)');
+    });
+
+    it('should treat none as zero', function () {
+      let color = parseColor('oklch(50% 0 none)');
+      expect(color.getChannelValue('hue')).toBe(0);
+    });
+
+    it('should throw on invalid oklch value', function () {
+      expect(() => parseColor('oklch(foo 0.1 20)')).toThrow('Invalid color value: oklch(foo 0.1 20)');
+    });
+
+    it('should return the color channels', function () {
+      expect(parseColor('oklch(50% 0.1 20)').getColorChannels()).toEqual(['lightness', 'chroma', 'hue']);
+    });
+  });
+
+  describe('oklab', function () {
+    it('should parse an oklab color', function () {
+      let color = parseColor('oklab(62.8% 0.2249 0.1258)');
+      expect(color.getColorSpace()).toBe('oklab');
+      expect(color.getChannelValue('lightness')).toBe(0.628);
+      expect(color.getChannelValue('a')).toBe(0.2249);
+      expect(color.getChannelValue('b')).toBe(0.1258);
+      expect(color.toString('css')).toBe('oklab(62.8% 0.2249 0.1258)');
+      expect(color.toString('hex')).toBe('#FF0000');
+    });
+
+    it('should return the color channels', function () {
+      expect(parseColor('oklab(50% 0 0)').getColorChannels()).toEqual(['lightness', 'a', 'b']);
+    });
+  });
+
+  describe('display-p3', function () {
+    it('should parse a display-p3 color', function () {
+      let color = parseColor('color(display-p3 0.5 0.25 1 / 0.8)');
+      expect(color.getColorSpace()).toBe('display-p3');
+      expect(color.getChannelValue('red')).toBe(0.5);
+      expect(color.getChannelValue('green')).toBe(0.25);
+      expect(color.getChannelValue('blue')).toBe(1);
+      expect(color.getChannelValue('alpha')).toBe(0.8);
+      expect(color.toString('css')).toBe('color(display-p3 0.5 0.25 1 / 0.8)');
+    });
+
+    it('should clamp channel values', function () {
+      let color = parseColor('color(display-p3 120% -1 0.5)');
+      expect(color.toString('display-p3')).toBe('color(display-p3 1 0 0.5)');
+    });
+
+    it('should return the channel ranges', function () {
+      expect(parseColor('color(display-p3 1 1 1)').getChannelRange('red')).toEqual({minValue: 0, maxValue: 1, step: 0.001, pageSize: 0.05});
+    });
+  });
+
   describe('conversions', () => {
     // Since color spaces can represent unique values that don't exist in other spaces we can't test round trips easily.
     // For example: hsl 0, 1%, 0 -> rgb is 0, 0, 0 -> hsl 0, 0%, 0%
@@ -279,6 +352,46 @@ describe('Color', function () {
       expect(parseColor('hsb(0, 0%, 0%)').toString('hsl')).toBe('hsl(0, 0%, 0%)');
       expect(parseColor('hsb(0, 1%, 0%)').toString('hsl')).toBe('hsl(0, 0%, 0%)');
     });
+
+    it('rgb to oklch', () => {
+      expect(parseColor('#ff0000').toString('oklch')).toBe('oklch(62.8% 0.2577 29.23)');
+      expect(parseColor('#ffffff').toString('oklch')).toBe('oklch(100% 0 0)');
+      expect(parseColor('#000000').toString('oklch')).toBe('oklch(0% 0 0)');
+      expect(parseColor('hsl(120, 100%, 50%)').toString('oklch')).toBe('oklch(86.64% 0.2948 142.5)');
+    });
+
+    it('rgb to oklab', () => {
+      expect(parseColor('#ff0000').toString('oklab')).toBe('oklab(62.8% 0.2249 0.1258)');
+    });
+
+    it('rgb to display-p3', () => {
+      expect(parseColor('#ff0000').toString('display-p3')).toBe('color(display-p3 0.9175 0.2003 0.1386)');
+      expect(parseColor('rgba(255, 255, 255, 0.5)').toString('display-p3')).toBe('color(display-p3 1 1 1 / 0.5)');
+    });
+
+    it('display-p3 to oklch', () => {
+      expect(parseColor('color(display-p3 1 0 0)').toString('oklch')).toBe('oklch(64.86% 0.2995 28.96)');
+    });
+
+    it('gamut maps out of gamut colors to rgb', () => {
+      // Display P3 red is outside of the sRGB gamut.
+      expect(parseColor('color(display-p3 1 0 0)').toString('rgb')).toBe('rgb(255, 11, 12)');
+      expect(parseColor('oklch(70% 0.4 150 / 0.5)').toString('rgba')).toBe('rgba(0, 194, 72, 0.5)');
+      expect(parseColor('oklch(120% 0.4 150)').toString('hex')).toBe('#FFFFFF');
+    });
+
+    it('gamut maps out of gamut colors to display-p3', () => {
+      expect(parseColor('oklch(70% 0.4 150)').toString('display-p3')).toBe('color(display-p3 0 0.7825 0.1944)');
+    });
+
+    it('can round trip between wide gamut color spaces', () => {
+      let color = parseColor('oklch(60% 0.15 250)');
+      let roundTripped = color.toFormat('oklab').toFormat('oklch');
+      expect(roundTripped.getChannelValue('lightness')).toBeCloseTo(0.6, 3);
+      expect(roundTripped.getChannelValue('chroma')).toBeCloseTo(0.15, 3);
+      expect(roundTripped.getChannelValue('hue')).toBeCloseTo(250, 1);
+      expect(color.toFormat('display-p3').toFormat('oklch').toString()).toBe('oklch(60% 0.15 250)');
+    });
   });
 
   describe('#getColorName', function () {
@@ -390,4 +503,37 @@ describe('Color', function () {
       expect(parseColor('#9acd32').getColorName('en-US')).toBe('light vibrant yellow green'); // yellowgreen
     });
   });
+
+  describe('contrast', function () {
+    it('should return the relative luminance', function () {
+      expect(parseColor('#ffffff').getLuminance!()).toBeCloseTo(1, 5);
+      expect(parseColor('#000000').getLuminance!()).toBe(0);
+      expect(parseColor('#777777').getLuminance!()).toBeCloseTo(0.1845, 4);
+      expect(parseColor('oklch(100% 0 0)').getLuminance!()).toBeCloseTo(1, 5);
+    });
+
+    it('should return the WCAG contrast ratio', function () {
+      let white = parseColor('#ffffff');
+      expect(parseColor('#000000').getContrastRatio!(white)).toBeCloseTo(21, 5);
+      expect(white.getContrastRatio!(parseColor('#000000'))).toBeCloseTo(21, 5);
+      expect(white.getContrastRatio!(white)).toBe(1);
+      expect(parseColor('#777777').getContrastRatio!(white)).toBeCloseTo(4.48, 2);
+      expect(parseColor('hsl(0, 0%, 46.67%)').getContrastRatio!(white)).toBeCloseTo(4.48, 2);
+    });
+
+    it('should composite transparent colors over the background', function () {
+      let white = parseColor('#ffffff');
+      expect(parseColor('rgba(0, 0, 0, 0.5)').getContrastRatio!(white)).toBeCloseTo(3.98, 2);
+      expect(parseColor('rgba(0, 0, 0, 0)').getContrastRatio!(white)).toBe(1);
+    });
+
+    it('should return the APCA lightness contrast', function () {
+      let white = parseColor('#ffffff');
+      let black = parseColor('#000000');
+      expect(black.getAPCAContrast!(white)).toBeCloseTo(106.04, 2);
+      expect(white.getAPCAContrast!(black)).toBeCloseTo(-107.88, 2);
+      expect(parseColor('#888888').getAPCAContrast!(white)).toBeCloseTo(63.06, 2);
+      expect(white.getAPCAContrast!(white)).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,67 @@
+/*
+ * Copyright 2020 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {actHook as act, renderHook} from '@react-spectrum/test-utils-internal';
+import {parseColor} from '../src/Color';
+import {useColorAreaState} from '..';
+
+describe('useColorAreaState', function () {
+  describe('contrastContours', function () {
+    it('should be empty without a contrast color', function () {
+      let {result} = renderHook(() => useColorAreaState({defaultValue: 'hsb(0, 100%, 100%)'}));
+      expect(result.current.contrastContours).toEqual([]);
+    });
+
+    it('should compute a contour for each default WCAG threshold', function () {
+      let {result} = renderHook(() => useColorAreaState({defaultValue: 'hsb(0, 100%, 100%)', xChannel: 'saturation', yChannel: 'brightness', contrastColor: '#ffffff'}));
+      let contours = result.current.contrastContours;
+      expect(contours.map(c => c.threshold)).toEqual([3, 4.5, 7]);
+      for (let contour of contours) {
+        expect(contour.lines).toHaveLength(1);
+        for (let {x, y} of contour.lines[0]) {
+          let color = result.current.value
+            .withChannelValue('saturation', x * 100)
+            .withChannelValue('brightness', (1 - y) * 100);
+          expect(color.getContrastRatio(parseColor('#ffffff'))).toBeCloseTo(contour.threshold, 0);
+        }
+      }
+
+      // Higher thresholds require darker colors, which are lower in the area.
+      expect(contours[1].lines[0][0].y).toBeGreaterThan(contours[0].lines[0][0].y);
+      expect(contours[2].lines[0][0].y).toBeGreaterThan(contours[1].lines[0][0].y);
+    });
+
+    it('should support APCA and custom thresholds', function () {
+      let {result} = renderHook(() => useColorAreaState({defaultValue: 'hsl(200, 50%, 50%)', xChannel: 'saturation', yChannel: 'lightness', contrastColor: '#000000', contrastAlgorithm: 'apca', contrastThresholds: [60]}));
+      let contours = result.current.contrastContours;
+      expect(contours).toHaveLength(1);
+      expect(contours[0].threshold).toBe(60);
+      expect(contours[0].lines.length).toBeGreaterThan(0);
+    });
+
+    it('should recompute contours when the z channel changes', function () {
+      let {result} = renderHook(() => useColorAreaState({defaultValue: 'hsb(0, 100%, 100%)', xChannel: 'saturation', yChannel: 'brightness', contrastColor: '#ffffff'}));
+      let contours = result.current.contrastContours;
+      act(() => result.current.setXValue(50));
+      expect(result.current.contrastContours).toBe(contours);
+      act(() => result.current.setValue(result.current.value.withChannelValue('hue', 240)));
+      expect(result.current.contrastContours).not.toBe(contours);
+    });
+
+    it('should not recompute contours when given equal thresholds and contrast color', function () {
+      let {result, rerender} = renderHook(() => useColorAreaState({defaultValue: 'hsb(0, 100%, 100%)', contrastColor: parseColor('#ffffff'), contrastThresholds: [3, 4.5]}));
+      let contours = result.current.contrastContours;
+      rerender();
+      expect(result.current.contrastContours).toBe(contours);
+    });
+  });
+});
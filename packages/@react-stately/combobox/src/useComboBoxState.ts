@@ -10,10 +10,10 @@
  * governing permissions and limitations under the License.
  */
 
-import {Collection, CollectionStateBase, FocusStrategy, Key, Node} from '@react-types/shared';
+import {Collection, CollectionStateBase, FilterResult, FocusStrategy, Key, Node} from '@react-types/shared';
 import {ComboBoxProps, MenuTriggerAction} from '@react-types/combobox';
 import {FormValidationState, useFormValidationState} from '@react-stately/form';
-import {getChildNodes} from '@react-stately/collections';
+import {getChildNodes, sortByScore} from '@react-stately/collections';
 import {ListCollection, SingleSelectListState, useSingleSelectListState} from '@react-stately/list';
 import {OverlayTriggerState, useOverlayTriggerState} from '@react-stately/overlays';
 import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
@@ -44,10 +44,13 @@ export interface ComboBoxState<T> extends SingleSelectListState<T>, OverlayTrigg
   revert(): void
 }
 
-type FilterFn = (textValue: string, inputValue: string) => boolean;
+type FilterFn = (textValue: string, inputValue: string) => FilterResult;
 
 export interface ComboBoxStateOptions<T> extends Omit<ComboBoxProps<T>, 'children'>, CollectionStateBase<T> {
-  /** The filter function used to determine if a option should be included in the combo box list. */
+  /**
+   * The filter function used to determine if a option should be included in the combo box list.
+   * If it returns a scored match, such as from `useFilter().fuzzy`, options are sorted by descending score.
+   */
   defaultFilter?: FilterFn,
   /** Whether the combo box allows the menu to be open when the collection is empty. */
   allowsEmptyCollection?: boolean,
@@ -398,22 +401,35 @@ function filterCollection<T extends object>(collection: Collection<Node<T>>, inp
 
 function filterNodes<T>(collection: Collection<Node<T>>, nodes: Iterable<Node<T>>, inputValue: string, filter: FilterFn): Iterable<Node<T>> {
   let filteredNode: Node<T>[] = [];
+  let hasScores = false;
   for (let node of nodes) {
     if (node.type === 'section' && node.hasChildNodes) {
       let filtered = filterNodes(collection, getChildNodes(node, collection), inputValue, filter);
       if ([...filtered].some(node => node.type === 'item')) {
         filteredNode.push({...node, childNodes: filtered});
       }
-    } else if (node.type === 'item' && filter(node.textValue, inputValue)) {
-      filteredNode.push({...node});
-    } else if (node.type !== 'item') {
+    } else if (node.type === 'item') {
+      let result = filter(node.textValue, inputValue);
+      if (result) {
+        let newNode = {...node};
+        if (typeof result === 'object') {
+          newNode.filterMatch = result;
+          hasScores = true;
+        }
+        filteredNode.push(newNode);
+      }
+    } else {
       filteredNode.push({...node});
     }
   }
+
+  if (hasScores) {
+    sortByScore(filteredNode);
+  }
+
   return filteredNode;
 }
 
-
 function getDefaultInputValue(defaultInputValue: string | null | undefined, selectedKey: Key | null, collection: Collection<Node<unknown>>) {
   if (defaultInputValue == null) {
     if (selectedKey != null) {
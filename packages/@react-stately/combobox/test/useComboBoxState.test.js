@@ -287,5 +287,16 @@ describe('useComboBoxState tests', function () {
       act(() => {result.current.open();});
       expect(result.current.collection.size).toEqual(2);
     });
+
+    it('sorts the filtered collection by score when the filter returns a scored match', function () {
+      let filter = renderHook((props) => useFilter(props), {initialProps: {sensitivity: 'base'}});
+      let initialProps = {...defaultProps, items: null, defaultItems: [{id: '0', name: 'Pineapple'}, {id: '1', name: 'Banana'}, {id: '2', name: 'Apple'}], defaultInputValue: '', defaultFilter: filter.result.current.fuzzy};
+      let {result} = renderHook((props) => useComboBoxState(props), {initialProps});
+
+      act(() => {result.current.open();});
+      act(() => result.current.setInputValue('app'));
+      expect(result.current.collection.size).toEqual(2);
+      expect([...result.current.collection].map(node => node.key)).toEqual(['2', '0']);
+    });
   });
 });
@@ -19,6 +19,8 @@ export interface AsyncListOptions<T, C> {
   initialSelectedKeys?: Iterable<Key>,
   /** The initial sort descriptor. */
   initialSortDescriptor?: SortDescriptor,
+  /** The initial sort descriptors, in order of priority. Takes precedence over `initialSortDescriptor`. */
+  initialSortDescriptors?: SortDescriptor[],
   /** The initial filter text. */
   initialFilterText?: string,
   /** A function that returns a unique key for an item object. */
@@ -27,9 +29,9 @@ export interface AsyncListOptions<T, C> {
   load: AsyncListLoadFunction<T, C>,
   /**
    * An optional function that performs sorting. If not provided,
-   * then `sortDescriptor` is passed to the `load` function.
+   * then `sortDescriptor` and `sortDescriptors` are passed to the `load` function.
    */
-  sort?: AsyncListLoadFunction<T, C, AsyncListLoadOptions<T, C> & {sortDescriptor: SortDescriptor}>
+  sort?: AsyncListLoadFunction<T, C, AsyncListLoadOptions<T, C> & {sortDescriptor: SortDescriptor, sortDescriptors: SortDescriptor[]}>
 }
 
 type AsyncListLoadFunction<T, C, S extends AsyncListLoadOptions<T, C> = AsyncListLoadOptions<T, C>> = (state: S) => AsyncListStateUpdate<T, C> | Promise<AsyncListStateUpdate<T, C>>;
@@ -41,6 +43,8 @@ interface AsyncListLoadOptions<T, C> {
   selectedKeys: Selection,
   /** The current sort descriptor for the list. */
   sortDescriptor?: SortDescriptor,
+  /** The current sort descriptors for the list, in order of priority. */
+  sortDescriptors?: SortDescriptor[],
   /** An abort signal used to notify the load function that the request has been aborted. */
   signal: AbortSignal,
   /** The pagination cursor returned from the last page load. */
@@ -58,6 +62,8 @@ interface AsyncListStateUpdate<T, C> {
   selectedKeys?: Iterable<Key>,
   /** The sort descriptor to set. */
   sortDescriptor?: SortDescriptor,
+  /** The sort descriptors to set, in order of priority. Takes precedence over `sortDescriptor`. */
+  sortDescriptors?: SortDescriptor[],
   /** The pagination cursor to be used for the next page load. */
   cursor?: C,
   /** The updated filter text for the list. */
@@ -72,6 +78,7 @@ interface AsyncListState<T, C> extends ListState<T> {
   // selectedKey?: Key,
   // expandedKeys?: Iterable<Key>,
   sortDescriptor?: SortDescriptor,
+  sortDescriptors: SortDescriptor[],
   error?: Error,
   abortController?: AbortController,
   cursor?: C
@@ -83,6 +90,7 @@ interface Action<T, C> {
   items?: Iterable<T>,
   selectedKeys?: Iterable<Key>,
   sortDescriptor?: SortDescriptor,
+  sortDescriptors?: SortDescriptor[],
   error?: Error,
   abortController?: AbortController,
   updater?: (state: ListState<T>) => ListState<T>,
@@ -100,13 +108,15 @@ export interface AsyncListData<T> extends ListData<T> {
   // expandedKeys?: Set<Key>,
   /** The current sort descriptor for the list. */
   sortDescriptor?: SortDescriptor,
+  /** The current sort descriptors for the list, in order of priority. The first is equal to `sortDescriptor`. */
+  sortDescriptors: SortDescriptor[],
 
   /** Reloads the data in the list. */
   reload(): void,
   /** Loads the next page of data in the list. */
   loadMore(): void,
-  /** Triggers sorting for the list. */
-  sort(descriptor: SortDescriptor): void,
+  /** Triggers sorting for the list. Pass an array to sort by multiple columns, in order of priority. */
+  sort(descriptor: SortDescriptor | SortDescriptor[]): void,
   /** The current loading state for the list. */
   loadingState: LoadingState
 }
@@ -127,7 +137,7 @@ function reducer<T, C>(data: AsyncListState<T, C>, action: Action<T, C>): AsyncL
             state: action.type,
             // Reset items to an empty list if loading, but not when sorting.
             items: action.type === 'loading' ? [] : data.items,
-            sortDescriptor: action.sortDescriptor ?? data.sortDescriptor,
+            ...updateSort(data, action),
             abortController: action.abortController
           };
         case 'update':
@@ -160,7 +170,7 @@ function reducer<T, C>(data: AsyncListState<T, C>, action: Action<T, C>): AsyncL
             state: 'idle',
             items: [...(action.items) ?? []],
             selectedKeys: selectedKeys === 'all' ? 'all' : new Set(selectedKeys),
-            sortDescriptor: action.sortDescriptor ?? data.sortDescriptor,
+            ...updateSort(data, action),
             abortController: undefined,
             cursor: action.cursor
           };
@@ -212,7 +222,7 @@ function reducer<T, C>(data: AsyncListState<T, C>, action: Action<T, C>): AsyncL
             state: 'idle',
             items: [...data.items, ...(action.items ?? [])],
             selectedKeys,
-            sortDescriptor: action.sortDescriptor ?? data.sortDescriptor,
+            ...updateSort(data, action),
             abortController: undefined,
             cursor: action.cursor
           };
@@ -262,6 +272,15 @@ function reducer<T, C>(data: AsyncListState<T, C>, action: Action<T, C>): AsyncL
   }
 }
 
+function updateSort<T, C>(data: AsyncListState<T, C>, action: Action<T, C>): Pick<AsyncListState<T, C>, 'sortDescriptor' | 'sortDescriptors'> {
+  let sortDescriptors = action.sortDescriptors ?? (action.sortDescriptor ? [action.sortDescriptor] : null);
+  if (!sortDescriptors) {
+    return {sortDescriptor: data.sortDescriptor, sortDescriptors: data.sortDescriptors};
+  }
+
+  return {sortDescriptor: sortDescriptors[0], sortDescriptors};
+}
+
 /**
  * Manages state for an immutable async loaded list data structure, and provides convenience methods to
  * update the data over time. Manages loading and error states, pagination, and sorting.
@@ -272,6 +291,7 @@ export function useAsyncList<T, C = string>(options: AsyncListOptions<T, C>): As
     sort,
     initialSelectedKeys,
     initialSortDescriptor,
+    initialSortDescriptors = initialSortDescriptor ? [initialSortDescriptor] : [],
     getKey = (item: any) => item.id || item.key,
     initialFilterText = ''
   } = options;
@@ -281,7 +301,8 @@ export function useAsyncList<T, C = string>(options: AsyncListOptions<T, C>): As
     error: undefined,
     items: [],
     selectedKeys: initialSelectedKeys === 'all' ? 'all' : new Set(initialSelectedKeys),
-    sortDescriptor: initialSortDescriptor,
+    sortDescriptor: initialSortDescriptors[0],
+    sortDescriptors: initialSortDescriptors,
     filterText: initialFilterText
   });
 
@@ -290,11 +311,13 @@ export function useAsyncList<T, C = string>(options: AsyncListOptions<T, C>): As
     try {
       dispatch({...action, abortController});
       let previousFilterText = action.filterText ?? data.filterText;
+      let {sortDescriptor, sortDescriptors} = updateSort(data, action);
 
       let response = await fn({
         items: data.items.slice(),
         selectedKeys: data.selectedKeys,
-        sortDescriptor: action.sortDescriptor ?? data.sortDescriptor,
+        sortDescriptor,
+        sortDescriptors,
         signal: abortController.signal,
         cursor: action.type === 'loadingMore' ? data.cursor : undefined,
         filterText: previousFilterText,
@@ -327,6 +350,7 @@ export function useAsyncList<T, C = string>(options: AsyncListOptions<T, C>): As
     items: data.items,
     selectedKeys: data.selectedKeys,
     sortDescriptor: data.sortDescriptor,
+    sortDescriptors: data.sortDescriptors,
     isLoading: data.state === 'loading' || data.state === 'loadingMore' || data.state === 'sorting' || data.state === 'filtering',
     loadingState: data.state,
     error: data.error,
@@ -345,8 +369,9 @@ export function useAsyncList<T, C = string>(options: AsyncListOptions<T, C>): As
 
       dispatchFetch({type: 'loadingMore'}, load);
     },
-    sort(sortDescriptor: SortDescriptor) {
-      dispatchFetch({type: 'sorting', sortDescriptor}, (sort || load) as AsyncListLoadFunction<T, C>);
+    sort(sortDescriptor: SortDescriptor | SortDescriptor[]) {
+      let sortDescriptors = Array.isArray(sortDescriptor) ? sortDescriptor : [sortDescriptor];
+      dispatchFetch({type: 'sorting', sortDescriptors}, (sort || load) as AsyncListLoadFunction<T, C>);
     },
     ...createListActions({...options, getKey, cursor: data.cursor}, fn => {
       dispatch({type: 'update', updater: fn});
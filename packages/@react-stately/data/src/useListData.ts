@@ -10,7 +10,7 @@
  * governing permissions and limitations under the License.
  */
 
-import {Key, Selection} from '@react-types/shared';
+import {FilterResult, Key, Selection} from '@react-types/shared';
 import {useMemo, useState} from 'react';
 
 export interface ListOptions<T> {
@@ -23,7 +23,7 @@ export interface ListOptions<T> {
   /** A function that returns a unique key for an item object. */
   getKey?: (item: T) => Key,
   /** A function that returns whether a item matches the current filter text. */
-  filter?: (item: T, filterText: string) => boolean
+  filter?: (item: T, filterText: string) => FilterResult
 }
 
 export interface ListData<T> {
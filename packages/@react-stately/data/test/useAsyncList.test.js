@@ -52,7 +52,8 @@ describe('useAsyncList', () => {
       loadingState: 'idle',
       selectedKeys: new Set(),
       signal: expect.any(AbortSignal),
-      sortDescriptor: undefined
+      sortDescriptor: undefined,
+      sortDescriptors: []
     });
     let args = load.mock.calls[0][0];
     expect(args.items).toEqual([]);
@@ -196,6 +197,51 @@ describe('useAsyncList', () => {
     expect(result.current.items).toEqual(ITEMS2);
   });
 
+  it('should support sorting by multiple descriptors', async () => {
+    let load = jest.fn().mockImplementation(getItems);
+    let sort = jest.fn().mockImplementation(getItems2);
+    let {result} = renderHook(() => useAsyncList({
+      load,
+      sort,
+      initialSortDescriptors: [{column: 'name', direction: 'ascending'}, {column: 'id', direction: 'descending'}]
+    }));
+
+    let args = load.mock.calls[0][0];
+    expect(args.sortDescriptor).toEqual({column: 'name', direction: 'ascending'});
+    expect(args.sortDescriptors).toEqual([{column: 'name', direction: 'ascending'}, {column: 'id', direction: 'descending'}]);
+
+    await act(async () => {
+      jest.runAllTimers();
+    });
+
+    expect(result.current.sortDescriptor).toEqual({column: 'name', direction: 'ascending'});
+    expect(result.current.sortDescriptors).toHaveLength(2);
+
+    await act(async () => {
+      result.current.sort([{column: 'id', direction: 'ascending'}, {column: 'name', direction: 'descending'}]);
+    });
+
+    expect(sort).toHaveBeenCalledTimes(1);
+    args = sort.mock.calls[0][0];
+    expect(args.sortDescriptor).toEqual({column: 'id', direction: 'ascending'});
+    expect(args.sortDescriptors).toEqual([{column: 'id', direction: 'ascending'}, {column: 'name', direction: 'descending'}]);
+
+    await act(async () => {
+      jest.runAllTimers();
+    });
+
+    expect(result.current.items).toEqual(ITEMS2);
+    expect(result.current.sortDescriptor).toEqual({column: 'id', direction: 'ascending'});
+    expect(result.current.sortDescriptors).toEqual([{column: 'id', direction: 'ascending'}, {column: 'name', direction: 'descending'}]);
+
+    await act(async () => {
+      result.current.sort({column: 'name', direction: 'ascending'});
+    });
+
+    args = sort.mock.calls[1][0];
+    expect(args.sortDescriptors).toEqual([{column: 'name', direction: 'ascending'}]);
+  });
+
   it('should return error in case fetch throws an error', async () => {
     let loadSpyThatThrows = jest.fn().mockRejectedValue(new Error('error'));
     let {result} = renderHook(() => useAsyncList({
@@ -14,9 +14,11 @@ export {useDatePickerState} from './useDatePickerState';
 export {useDateFieldState} from './useDateFieldState';
 export {useDateRangePickerState} from './useDateRangePickerState';
 export {useTimeFieldState} from './useTimeFieldState';
+export {useDurationFieldState} from './useDurationFieldState';
 
 export type {DateFieldStateOptions, DateFieldState, DateSegment, SegmentType} from './useDateFieldState';
 export type {DatePickerStateOptions, DatePickerState} from './useDatePickerState';
 export type {DateRangePickerStateOptions, DateRangePickerState} from './useDateRangePickerState';
 export type {TimeFieldStateOptions, TimeFieldState} from './useTimeFieldState';
+export type {DurationFieldStateOptions, DurationFieldState} from './useDurationFieldState';
 export type {FormatterOptions} from './utils';
@@ -10,16 +10,16 @@
  * governing permissions and limitations under the License.
  */
 
-import {Calendar, CalendarIdentifier, DateFormatter, getMinimumDayInMonth, getMinimumMonthInYear, GregorianCalendar, isEqualCalendar, toCalendar} from '@internationalized/date';
-import {convertValue, createPlaceholderDate, FieldOptions, FormatterOptions, getFormatOptions, getValidationResult, useDefaultProps} from './utils';
-import {DatePickerProps, DateValue, Granularity, MappedDateValue} from '@react-types/datepicker';
+import {Calendar, CalendarIdentifier, DateFormatter, DateParser, getMinimumDayInMonth, getMinimumMonthInYear, GregorianCalendar, isEqualCalendar, toCalendar, toCalendarDateTime} from '@internationalized/date';
+import {convertParsedValue, convertValue, createPlaceholderDate, FieldOptions, FormatterOptions, getFormatOptions, getValidationResult, useDefaultProps} from './utils';
+import {DatePickerProps, DateValue, DurationGranularity, Granularity, MappedDateValue} from '@react-types/datepicker';
 import {FormValidationState, useFormValidationState} from '@react-stately/form';
 import {getPlaceholder} from './placeholders';
 import {useControlledState} from '@react-stately/utils';
 import {useEffect, useMemo, useRef, useState} from 'react';
 import {ValidationState} from '@react-types/shared';
 
-export type SegmentType = 'era' | 'year' | 'month' | 'day' |  'hour' | 'minute' | 'second' | 'dayPeriod' | 'literal' | 'timeZoneName';
+export type SegmentType = 'era' | 'year' | 'month' | 'day' |  'hour' | 'minute' | 'second' | 'dayPeriod' | 'literal' | 'timeZoneName' | DurationGranularity;
 export interface DateSegment {
   /** The type of segment. */
   type: SegmentType,
@@ -94,6 +94,11 @@ export interface DateFieldState extends FormValidationState {
   confirmPlaceholder(): void,
   /** Clears the value of the given segment, reverting it to the placeholder. */
   clearSegment(type: SegmentType): void,
+  /**
+   * Parses a free-form date string, such as "March 5, 2024" or "tomorrow", according to the locale and sets it as the value.
+   * Returns whether the string could be parsed.
+   */
+  setTextValue(value: string): boolean,
   /** Formats the current date value using the given options. */
   formatValue(fieldOptions: FieldOptions): string,
   /** Gets a formatter based on state's props. */
@@ -207,16 +212,21 @@ export function useDateFieldState<T extends DateValue = DateValue>(props: DateFi
   let opts = useMemo(() => getFormatOptions({}, formatOpts), [formatOpts]);
 
   let dateFormatter = useMemo(() => new DateFormatter(locale, opts), [locale, opts]);
+  let dateParser = useMemo(() => new DateParser(locale, {calendar}), [locale, calendar]);
   let resolvedOptions = useMemo(() => dateFormatter.resolvedOptions(), [dateFormatter]);
 
   // Determine how many editable segments there are for validation purposes.
   // The result is cached for performance.
   let allSegments: Partial<typeof EDITABLE_SEGMENTS> = useMemo(() =>
     dateFormatter.formatToParts(new Date())
-      .filter(seg => EDITABLE_SEGMENTS[seg.type])
-      .reduce((p, seg) => (p[TYPE_MAPPING[seg.type] || seg.type] = true, p), {})
+      .map(seg => TYPE_MAPPING[seg.type] || seg.type)
+      .filter(type => EDITABLE_SEGMENTS[type])
+      .reduce((p, type) => (p[type] = true, p), {})
   , [dateFormatter]);
 
+  // Some calendars, e.g. the Chinese calendar, display the Gregorian year in which the year begins rather than the year itself.
+  let isRelatedYear = useMemo(() => dateFormatter.formatToParts(new Date()).some(seg => (seg.type as string) === 'relatedYear'), [dateFormatter]);
+
   let [validSegments, setValidSegments] = useState<Partial<typeof EDITABLE_SEGMENTS>>(
     () => props.value || props.defaultValue ? {...allSegments} : {}
   );
@@ -300,7 +310,7 @@ export function useDateFieldState<T extends DateValue = DateValue>(props: DateFi
     setValidSegments({...validSegments});
   }
 
-  let markValid = (part: Intl.DateTimeFormatPartTypes) => {
+  let markValid = (part: SegmentType) => {
     validSegments[part] = true;
     if (part === 'year' && allSegments.era) {
       validSegments.era = true;
@@ -308,7 +318,7 @@ export function useDateFieldState<T extends DateValue = DateValue>(props: DateFi
     setValidSegments({...validSegments});
   };
 
-  let adjustSegment = (type: Intl.DateTimeFormatPartTypes, amount: number) => {
+  let adjustSegment = (type: SegmentType, amount: number) => {
     if (!validSegments[type]) {
       markValid(type);
       let validKeys = Object.keys(validSegments);
@@ -321,6 +331,14 @@ export function useDateFieldState<T extends DateValue = DateValue>(props: DateFi
     }
   };
 
+  let setYearSegment = (value: number) => {
+    if (isRelatedYear) {
+      return displayValue.add({years: value - getRelatedYear(displayValue)});
+    }
+
+    return setSegment(displayValue, 'year', value, resolvedOptions);
+  };
+
   let builtinValidation = useMemo(() => getValidationResult(
     value,
     minValue,
@@ -368,7 +386,11 @@ export function useDateFieldState<T extends DateValue = DateValue>(props: DateFi
     },
     setSegment(part, v: string | number) {
       markValid(part);
-      setValue(setSegment(displayValue, part, v, resolvedOptions));
+      if (part === 'year' && typeof v === 'number') {
+        setValue(setYearSegment(v));
+      } else {
+        setValue(setSegment(displayValue, part, v, resolvedOptions));
+      }
     },
     confirmPlaceholder() {
       if (props.isDisabled || props.isReadOnly) {
@@ -410,6 +432,26 @@ export function useDateFieldState<T extends DateValue = DateValue>(props: DateFi
       setDate(null);
       setValue(value);
     },
+    setTextValue(text) {
+      if (props.isDisabled || props.isReadOnly) {
+        return false;
+      }
+
+      let parsed = dateParser.parse(text);
+      let maxGranularity = props.maxGranularity ?? 'year';
+      if (!parsed || (maxGranularity === 'hour' && !('hour' in parsed))) {
+        return false;
+      }
+
+      // Time fields only use the time from the parsed value.
+      let newValue = maxGranularity === 'hour' && 'hour' in parsed ? toCalendarDateTime(displayValue, parsed) : parsed;
+
+      validSegments = {...allSegments};
+      setValidSegments(validSegments);
+      clearedSegment.current = null;
+      setValue(convertParsedValue(newValue, displayValue, granularity));
+      return true;
+    },
     formatValue(fieldOptions: FieldOptions) {
       if (!calendarValue) {
         return '';
@@ -444,7 +486,7 @@ function processSegments(dateValue, validSegments, dateFormatter, resolvedOption
     let dateSegment = {
       type,
       text: isPlaceholder ? placeholder : segment.value,
-      ...getSegmentLimits(displayValue, type, resolvedOptions),
+      ...(segment.type === 'relatedYear' ? getRelatedYearLimits(displayValue) : getSegmentLimits(displayValue, type, resolvedOptions)),
       isPlaceholder,
       placeholder,
       isEditable
@@ -566,6 +608,19 @@ function getSegmentLimits(date: DateValue, type: string, options: Intl.ResolvedD
   return {};
 }
 
+// Returns the Gregorian year in which the year of the given date begins.
+function getRelatedYear(date: DateValue) {
+  return toCalendar(date.set({month: 1, day: 1}), new GregorianCalendar()).year;
+}
+
+function getRelatedYearLimits(date: DateValue) {
+  return {
+    value: getRelatedYear(date),
+    minValue: 1,
+    maxValue: 9999
+  };
+}
+
 function addSegment(value: DateValue, part: string, amount: number, options: Intl.ResolvedDateTimeFormatOptions) {
   switch (part) {
     case 'era':
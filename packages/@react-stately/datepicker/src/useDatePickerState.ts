@@ -10,9 +10,9 @@
  * governing permissions and limitations under the License.
  */
 
-import {CalendarDate, DateFormatter, toCalendarDate, toCalendarDateTime} from '@internationalized/date';
+import {CalendarDate, DateFormatter, GregorianCalendar, toCalendarDate, toCalendarDateTime} from '@internationalized/date';
+import {convertParsedValue, createPlaceholderDate, FieldOptions, FormatterOptions, getFormatOptions, getPlaceholderTime, getValidationResult, useDateParser, useDefaultProps} from './utils';
 import {DatePickerProps, DateValue, Granularity, MappedDateValue, TimeValue} from '@react-types/datepicker';
-import {FieldOptions, FormatterOptions, getFormatOptions, getPlaceholderTime, getValidationResult, useDefaultProps} from './utils';
 import {FormValidationState, useFormValidationState} from '@react-stately/form';
 import {OverlayTriggerState, useOverlayTriggerState} from '@react-stately/overlays';
 import {useControlledState} from '@react-stately/utils';
@@ -48,6 +48,11 @@ export interface DatePickerState extends OverlayTriggerState, FormValidationStat
   timeValue: TimeValue | null,
   /** Sets the time portion of the value. */
   setTimeValue(value: TimeValue): void,
+  /**
+   * Parses a free-form date string, such as "March 5, 2024" or "tomorrow", according to the given locale and sets it as the value.
+   * If the string does not include a time, the time from the current value is preserved. Returns whether the string could be parsed.
+   */
+  setTextValue(locale: string, value: string): boolean,
   /** The granularity for the field, based on the `granularity` prop and current value. */
   granularity: Granularity,
   /** Whether the date picker supports selecting a time, according to the `granularity` prop and current value. */
@@ -80,6 +85,7 @@ export function useDatePickerState<T extends DateValue = DateValue>(props: DateP
 
   let v = (value || props.placeholderValue || null);
   let [granularity, defaultTimeZone] = useDefaultProps(v, props.granularity);
+  let getDateParser = useDateParser();
   let dateValue = value != null ? value.toDate(defaultTimeZone ?? 'UTC') : null;
   let hasTime = granularity === 'hour' || granularity === 'minute' || granularity === 'second';
   let shouldCloseOnSelect = props.shouldCloseOnSelect ?? true;
@@ -170,6 +176,23 @@ export function useDatePickerState<T extends DateValue = DateValue>(props: DateP
     timeValue: selectedTime,
     setDateValue: selectDate,
     setTimeValue: selectTime,
+    setTextValue(locale, text) {
+      if (props.isDisabled || props.isReadOnly) {
+        return false;
+      }
+
+      let calendar = v?.calendar || new GregorianCalendar();
+      let parsed = getDateParser(locale, calendar).parse(text);
+      if (!parsed) {
+        return false;
+      }
+
+      setValue(convertParsedValue(parsed, createPlaceholderDate(v, granularity, calendar, defaultTimeZone), granularity));
+      setSelectedDate(null);
+      setSelectedTime(null);
+      validation.commitValidation();
+      return true;
+    },
     granularity,
     hasTime,
     ...overlayState,
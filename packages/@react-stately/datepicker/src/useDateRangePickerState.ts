@@ -11,9 +11,9 @@
  */
 
 
-import {DateFormatter, toCalendarDate, toCalendarDateTime} from '@internationalized/date';
-import {DateRange, DateRangePickerProps, DateValue, Granularity, MappedDateValue, TimeValue} from '@react-types/datepicker';
-import {FieldOptions, FormatterOptions, getFormatOptions, getPlaceholderTime, getRangeValidationResult, useDefaultProps} from './utils';
+import {convertParsedValue, createPlaceholderDate, FieldOptions, FormatterOptions, getFormatOptions, getPlaceholderTime, getRangeValidationResult, useDateParser, useDefaultProps} from './utils';
+import {DateFormatter, getLocalTimeZone, GregorianCalendar, isSameDay, toCalendar, toCalendarDate, toCalendarDateTime, today} from '@internationalized/date';
+import {DateRange, DateRangePickerProps, DateRangePreset, DateValue, Granularity, MappedDateValue, TimeValue} from '@react-types/datepicker';
 import {FormValidationState, useFormValidationState} from '@react-stately/form';
 import {OverlayTriggerState, useOverlayTriggerState} from '@react-stately/overlays';
 import {RangeValue, ValidationState} from '@react-types/shared';
@@ -56,6 +56,17 @@ export interface DateRangePickerState extends OverlayTriggerState, FormValidatio
   setTime(part: 'start' | 'end', value: TimeValue | null): void,
   /** Sets the date and time of either the start or end of the selected range. */
   setDateTime(part: 'start' | 'end', value: DateValue | null): void,
+  /**
+   * Parses a free-form date range string, such as "March 5 – March 8, 2024", according to the given locale and sets it as the value.
+   * If the string does not include times, the times from the current value are preserved. Returns whether the string could be parsed.
+   */
+  setTextValue(locale: string, value: string): boolean,
+  /** The preset date ranges that the user can choose from. */
+  presets: DateRangePreset[],
+  /** The id of the preset whose date range matches the selected range, if any. */
+  selectedPresetId: string | null,
+  /** Selects the preset with the given id, computing its date range relative to today's date in the picker's time zone. */
+  selectPreset(id: string): void,
   /** The granularity for the field, based on the `granularity` prop and current value. */
   granularity: Granularity,
   /** Whether the date range picker supports selecting times, according to the `granularity` prop and current value. */
@@ -77,6 +88,8 @@ export interface DateRangePickerState extends OverlayTriggerState, FormValidatio
   getDateFormatter(locale: string, formatOptions: FormatterOptions): DateFormatter
 }
 
+const EMPTY_PRESETS: DateRangePreset[] = [];
+
 /**
  * Provides state management for a date range picker component.
  * A date range picker combines two DateFields and a RangeCalendar popover to allow
@@ -108,6 +121,7 @@ export function useDateRangePickerState<T extends DateValue = DateValue>(props:
 
   let v = (value?.start || value?.end || props.placeholderValue || null);
   let [granularity, defaultTimeZone] = useDefaultProps(v, props.granularity);
+  let getDateParser = useDateParser();
   let hasTime = granularity === 'hour' || granularity === 'minute' || granularity === 'second';
   let shouldCloseOnSelect = props.shouldCloseOnSelect ?? true;
 
@@ -164,6 +178,25 @@ export function useDateRangePickerState<T extends DateValue = DateValue>(props:
     }
   };
 
+  let presets = props.presets || EMPTY_PRESETS;
+  let calendar = v?.calendar || new GregorianCalendar();
+  let getPresetValue = (preset: DateRangePreset) => preset.getValue(today(defaultTimeZone ?? getLocalTimeZone()));
+  let selectedPresetId: string | null = null;
+  if (isCompleteRange(value)) {
+    let {start, end} = value;
+    let preset = presets.find(preset => {
+      let range = getPresetValue(preset);
+      return isSameDay(range.start, start) && isSameDay(range.end, end);
+    });
+    selectedPresetId = preset?.id ?? null;
+  }
+
+  // Converts a date returned by a preset to the same type as the current value, e.g. adding a time.
+  let convertPresetDate = (date: DateValue, currentValue: DateValue | null | undefined) => {
+    let converted = toCalendar('timeZone' in date ? toCalendarDateTime(date) : date, calendar);
+    return convertParsedValue(converted, createPlaceholderDate(currentValue ?? props.placeholderValue, granularity, calendar, defaultTimeZone), granularity);
+  };
+
   let showEra = (value?.start?.calendar.identifier === 'gregory' && value.start.era === 'BC') || (value?.end?.calendar.identifier === 'gregory' && value.end.era === 'BC');
   let formatOpts = useMemo(() => ({
     granularity,
@@ -223,6 +256,47 @@ export function useDateRangePickerState<T extends DateValue = DateValue>(props:
         setValue({start: value?.start ?? null, end: dateTime});
       }
     },
+    setTextValue(locale, text) {
+      if (props.isDisabled || props.isReadOnly) {
+        return false;
+      }
+
+      let parsed = getDateParser(locale, calendar).parseRange(text);
+      if (!parsed) {
+        return false;
+      }
+
+      setValue({
+        start: convertParsedValue(parsed.start, createPlaceholderDate(value?.start ?? props.placeholderValue, granularity, calendar, defaultTimeZone), granularity),
+        end: convertParsedValue(parsed.end, createPlaceholderDate(value?.end ?? props.placeholderValue, granularity, calendar, defaultTimeZone), granularity)
+      });
+      setSelectedDateRange(null);
+      setSelectedTimeRange(null);
+      validation.commitValidation();
+      return true;
+    },
+    presets,
+    selectedPresetId,
+    selectPreset(id) {
+      let preset = presets.find(preset => preset.id === id);
+      if (!preset || props.isDisabled || props.isReadOnly) {
+        return;
+      }
+
+      let range = getPresetValue(preset);
+      setValue({
+        start: convertPresetDate(range.start, value?.start),
+        end: convertPresetDate(range.end, value?.end)
+      });
+      setSelectedDateRange(null);
+      setSelectedTimeRange(null);
+      validation.commitValidation();
+
+      let shouldClose = typeof shouldCloseOnSelect === 'function' ? shouldCloseOnSelect() : shouldCloseOnSelect;
+      if (shouldClose) {
+        overlayState.setOpen(false);
+      }
+    },
     setDateRange,
     setTimeRange,
     ...overlayState,
@@ -0,0 +1,550 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {DateSegment, SegmentType} from './useDateFieldState';
+import {DateTimeDuration, DurationFormatter, getLocalTimeZone, normalizeDuration, parseDuration, today} from '@internationalized/date';
+import {DurationFieldProps, DurationGranularity} from '@react-types/datepicker';
+import {FormValidationState, useFormValidationState} from '@react-stately/form';
+import {getDurationValidationResult} from './utils';
+import {getPlaceholder} from './placeholders';
+import {NumberParser} from '@internationalized/number';
+import {useControlledState} from '@react-stately/utils';
+import {useMemo, useRef, useState} from 'react';
+
+export interface DurationFieldStateOptions extends DurationFieldProps {
+  /** The locale to display and edit the value according to. */
+  locale: string
+}
+
+export interface DurationFieldState extends FormValidationState {
+  /** The current field value, balanced into the displayed units. */
+  value: DateTimeDuration | null,
+  /** The default field value. */
+  defaultValue: DateTimeDuration | null,
+  /** Sets the field's value. */
+  setValue(value: DateTimeDuration | null): void,
+  /** A list of segments for the current value. */
+  segments: DateSegment[],
+  /** Whether the duration field is invalid, based on the `isInvalid`, `minValue`, and `maxValue` props. */
+  isInvalid: boolean,
+  /** The smallest unit that is displayed in the field. */
+  granularity: DurationGranularity,
+  /** The largest unit that is displayed in the field. */
+  maxGranularity: DurationGranularity,
+  /** Whether the field is disabled. */
+  isDisabled: boolean,
+  /** Whether the field is read only. */
+  isReadOnly: boolean,
+  /** Whether the field is required. */
+  isRequired: boolean,
+  /**
+   * Increments the given segment. Upon reaching the maximum value, the value wraps around to zero.
+   * The largest unit only wraps around when a `maxValue` is provided.
+   */
+  increment(type: SegmentType): void,
+  /**
+   * Decrements the given segment. Upon reaching zero, the value wraps around to the maximum value.
+   * The largest unit only wraps around when a `maxValue` is provided.
+   */
+  decrement(type: SegmentType): void,
+  /**
+   * Increments the given segment by a larger amount, rounding it to the nearest increment.
+   * The amount to increment by depends on the unit, for example 15 minutes, 7 days, and 5 years.
+   */
+  incrementPage(type: SegmentType): void,
+  /**
+   * Decrements the given segment by a larger amount, rounding it to the nearest increment.
+   * The amount to decrement by depends on the unit, for example 15 minutes, 7 days, and 5 years.
+   */
+  decrementPage(type: SegmentType): void,
+  /** Sets the value of the given segment. */
+  setSegment(type: SegmentType, value: number): void,
+  /** Sets the remaining unfilled segments to zero, if at least one segment is filled. */
+  confirmPlaceholder(): void,
+  /** Clears the value of the given segment, reverting it to the placeholder. */
+  clearSegment(type: SegmentType): void,
+  /**
+   * Parses a duration string, such as "2d 4h 30m" in the current locale or an ISO 8601 duration
+   * such as "P2DT4H30M", and sets it as the value. Returns whether the string could be parsed.
+   */
+  setTextValue(value: string): boolean,
+  /** Formats the current value as a localized string, e.g. "2 days, 4 hours, 30 minutes". */
+  formatValue(): string
+}
+
+const UNITS: DurationGranularity[] = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds'];
+
+const SINGULAR_UNITS = {
+  years: 'year',
+  months: 'month',
+  weeks: 'week',
+  days: 'day',
+  hours: 'hour',
+  minutes: 'minute',
+  seconds: 'second'
+};
+
+const PAGE_STEP = {
+  years: 5,
+  months: 2,
+  weeks: 2,
+  days: 7,
+  hours: 2,
+  minutes: 15,
+  seconds: 15
+};
+
+const NUMBER_PARTS = {
+  integer: true,
+  group: true,
+  decimal: true,
+  fraction: true,
+  minusSign: true,
+  plusSign: true
+};
+
+/**
+ * Provides state management for a duration field component.
+ * A duration field allows users to enter and edit an amount of time, such as "2d 4h 30m", using a keyboard.
+ * Each unit of the duration is displayed in an individually editable segment.
+ */
+export function useDurationFieldState(props: DurationFieldStateOptions): DurationFieldState {
+  let {
+    locale,
+    granularity = 'minutes',
+    maxGranularity = 'days',
+    isDisabled = false,
+    isReadOnly = false,
+    isRequired = false,
+    minValue,
+    maxValue
+  } = props;
+
+  let units = useMemo(() => getUnits(maxGranularity, granularity), [maxGranularity, granularity]);
+  let allSegments = useMemo(() => units.reduce((p, unit) => (p[unit] = true, p), {}), [units]);
+
+  let [value, setDuration] = useControlledState<DateTimeDuration | null>(
+    props.value,
+    props.defaultValue ?? null,
+    props.onChange
+  );
+
+  let [initialValue] = useState(value);
+  let fieldValue = useMemo(() => value ? balanceDuration(value, units) : null, [value, units]);
+
+  // As in date fields, the placeholder is tracked separately so that onChange is not called until
+  // all segments are filled in. Unfilled segments display a placeholder and are zero in the placeholder value.
+  let [placeholderValue, setPlaceholderValue] = useState(() => createPlaceholder(units));
+  let [validSegments, setValidSegments] = useState<Partial<Record<DurationGranularity, boolean>>>(
+    () => props.value || props.defaultValue ? {...allSegments} : {}
+  );
+
+  let clearedSegment = useRef<string | null>(null);
+
+  // If there is a value prop, and some segments were previously placeholders, mark them all as valid.
+  if (value && Object.keys(validSegments).length < units.length) {
+    validSegments = {...allSegments};
+    setValidSegments(validSegments);
+  }
+
+  // If the value is set to null and all segments are valid, reset the placeholder.
+  if (value == null && Object.keys(validSegments).length === units.length) {
+    validSegments = {};
+    setValidSegments(validSegments);
+    setPlaceholderValue(createPlaceholder(units));
+  }
+
+  let displayValue = fieldValue && Object.keys(validSegments).length >= units.length ? fieldValue : placeholderValue;
+  let setValue = (newValue: DateTimeDuration | null) => {
+    if (props.isDisabled || props.isReadOnly) {
+      return;
+    }
+
+    let validKeys = Object.keys(validSegments);
+    if (newValue == null) {
+      setDuration(null);
+      setPlaceholderValue(createPlaceholder(units));
+      setValidSegments({});
+    } else if ((validKeys.length === 0 && clearedSegment.current == null) || validKeys.length >= units.length) {
+      // If the field was empty or all segments are completed, commit the new value.
+      // Segments that were not filled in when committing from an empty state are zero.
+      if (validKeys.length === 0) {
+        validSegments = {...allSegments};
+        setValidSegments(validSegments);
+      }
+
+      setDuration(balanceDuration(newValue, units));
+    } else {
+      setPlaceholderValue(newValue);
+    }
+    clearedSegment.current = null;
+  };
+
+  let largestUnitMax = useMemo(() => maxValue ? balanceDuration(maxValue, units.slice(0, 1))[units[0]] : undefined, [maxValue, units]);
+  let formatters = useMemo(() => getUnitFormatters(locale, units), [locale, units]);
+  let listFormat = useMemo(() => new Intl.ListFormat(locale, {type: 'unit', style: 'narrow'}), [locale]);
+  let segments = useMemo(() => {
+    let elements = units.map(unit => {
+      let isPlaceholder = !validSegments[unit];
+      let value = displayValue[unit] || 0;
+      let parts = formatters[unit].formatToParts(value);
+      let placeholder = getPlaceholder(unit, '', locale);
+      let segments: DateSegment[] = [];
+      let numberText = '';
+      for (let part of parts) {
+        if (NUMBER_PARTS[part.type]) {
+          // Number parts are contiguous, so the segment is added with the first one and updated with the rest.
+          if (numberText === '') {
+            segments.push({
+              type: unit,
+              text: '',
+              value,
+              minValue: 0,
+              maxValue: unit === units[0] ? largestUnitMax : getMaxValue(unit, units),
+              isPlaceholder,
+              placeholder,
+              isEditable: true
+            });
+          }
+
+          numberText += part.value;
+          segments[segments.length - 1].text = isPlaceholder ? placeholder : numberText;
+        } else {
+          segments.push(createLiteral(part.value));
+        }
+      }
+
+      return segments;
+    });
+
+    // Join the units using a list format so that separators are localized, e.g. "2d 4h 30m".
+    let index = 0;
+    return mergeLiterals(
+      listFormat.formatToParts(units)
+        .flatMap(part => part.type === 'element' ? elements[index++] : [createLiteral(part.value)])
+    );
+  }, [units, validSegments, displayValue, formatters, listFormat, locale, largestUnitMax]);
+
+  let markValid = (unit: string) => {
+    validSegments[unit] = true;
+    setValidSegments({...validSegments});
+  };
+
+  let adjustSegment = (type: SegmentType, amount: number) => {
+    if (!isUnit(type, units)) {
+      return;
+    }
+
+    if (!validSegments[type]) {
+      markValid(type);
+      if (Object.keys(validSegments).length >= units.length) {
+        setValue(displayValue);
+      }
+    } else {
+      let max = type === units[0] ? largestUnitMax : getMaxValue(type, units);
+      let round = type === 'years' || type === 'minutes' || type === 'seconds';
+      setValue({...displayValue, [type]: cycleValue(displayValue[type] || 0, amount, max, round && Math.abs(amount) > 1)});
+    }
+  };
+
+  let builtinValidation = useMemo(() => getDurationValidationResult(
+    value,
+    minValue,
+    maxValue
+  ), [value, minValue, maxValue]);
+
+  let validation = useFormValidationState({
+    ...props,
+    value,
+    builtinValidation
+  });
+
+  let unitParser = useMemo(() => new DurationTextParser(locale, units), [locale, units]);
+
+  return {
+    ...validation,
+    value: fieldValue,
+    defaultValue: props.defaultValue ?? initialValue,
+    setValue,
+    segments,
+    isInvalid: validation.displayValidation.isInvalid,
+    granularity,
+    maxGranularity,
+    isDisabled,
+    isReadOnly,
+    isRequired,
+    increment(type) {
+      adjustSegment(type, 1);
+    },
+    decrement(type) {
+      adjustSegment(type, -1);
+    },
+    incrementPage(type) {
+      adjustSegment(type, PAGE_STEP[type] || 1);
+    },
+    decrementPage(type) {
+      adjustSegment(type, -(PAGE_STEP[type] || 1));
+    },
+    setSegment(type, v) {
+      if (!isUnit(type, units)) {
+        return;
+      }
+
+      markValid(type);
+      setValue({...displayValue, [type]: v});
+    },
+    confirmPlaceholder() {
+      if (props.isDisabled || props.isReadOnly) {
+        return;
+      }
+
+      // Once at least one segment is filled in, the remaining segments are zero.
+      let validKeys = Object.keys(validSegments);
+      if (validKeys.length > 0 && validKeys.length < units.length) {
+        validSegments = {...allSegments};
+        setValidSegments(validSegments);
+        setValue({...displayValue});
+      }
+    },
+    clearSegment(type) {
+      if (!isUnit(type, units)) {
+        return;
+      }
+
+      delete validSegments[type];
+      clearedSegment.current = type;
+      setValidSegments({...validSegments});
+      setDuration(null);
+      setValue({...displayValue, [type]: 0});
+    },
+    setTextValue(text) {
+      if (props.isDisabled || props.isReadOnly) {
+        return false;
+      }
+
+      let parsed = unitParser.parse(text);
+      if (!parsed) {
+        return false;
+      }
+
+      validSegments = {...allSegments};
+      setValidSegments(validSegments);
+      clearedSegment.current = null;
+      setValue(parsed);
+      return true;
+    },
+    formatValue() {
+      if (!fieldValue) {
+        return '';
+      }
+
+      return new DurationFormatter(locale, {style: 'long'}).format(fieldValue);
+    }
+  };
+}
+
+function getUnits(maxGranularity: DurationGranularity, granularity: DurationGranularity): DurationGranularity[] {
+  let start = UNITS.indexOf(maxGranularity);
+  let end = UNITS.indexOf(granularity);
+  if (start < 0 || end < 0 || start > end) {
+    throw new Error('Invalid granularity ' + granularity + ' for maxGranularity ' + maxGranularity);
+  }
+
+  // Weeks are only displayed when they are the largest or smallest unit, e.g. "2w 3d" rather than "1mo 2w 3d".
+  return UNITS.slice(start, end + 1).filter(unit => unit !== 'weeks' || unit === maxGranularity || unit === granularity);
+}
+
+function isUnit(type: SegmentType, units: DurationGranularity[]): type is DurationGranularity {
+  return units.includes(type as DurationGranularity);
+}
+
+function createPlaceholder(units: DurationGranularity[]): DateTimeDuration {
+  let placeholder: DateTimeDuration = {};
+  for (let unit of units) {
+    placeholder[unit] = 0;
+  }
+
+  return placeholder;
+}
+
+function balanceDuration(duration: DateTimeDuration, units: DurationGranularity[]): DateTimeDuration {
+  let largestUnit = units[0];
+
+  // Years and months can only be converted to smaller units relative to a date, since their length varies.
+  let hasCalendarUnits = !!(duration.years || duration.months);
+  let relativeTo = hasCalendarUnits && largestUnit !== 'years' && largestUnit !== 'months' ? today(getLocalTimeZone()) : undefined;
+  let balanced = {...normalizeDuration(duration, {largestUnit, relativeTo})};
+  if (largestUnit === 'years') {
+    balanced.years += Math.trunc(balanced.months / 12);
+    balanced.months %= 12;
+  } else if (largestUnit === 'months') {
+    balanced.months += balanced.years * 12;
+  }
+
+  if (units.includes('weeks') && largestUnit !== 'weeks') {
+    balanced.weeks += Math.trunc(balanced.days / 7);
+    balanced.days %= 7;
+  }
+
+  // Units smaller than the granularity are truncated.
+  let result: DateTimeDuration = {};
+  for (let unit of units) {
+    result[unit] = balanced[unit] || 0;
+  }
+
+  return result;
+}
+
+function getMaxValue(unit: DurationGranularity, units: DurationGranularity[]): number | undefined {
+  switch (unit) {
+    case 'months':
+      return 11;
+    case 'days':
+      // Days are not balanced into months since their length varies.
+      return units.includes('weeks') ? 6 : undefined;
+    case 'hours':
+      return 23;
+    case 'minutes':
+    case 'seconds':
+      return 59;
+  }
+}
+
+function cycleValue(value: number, amount: number, max: number | undefined, round: boolean) {
+  // Units without a maximum value, such as the largest unit, do not wrap around and stop at zero.
+  if (round) {
+    value += Math.sign(amount);
+    if (value < 0) {
+      value = max ?? 0;
+    }
+
+    let div = Math.abs(amount);
+    if (amount > 0) {
+      value = Math.ceil(value / div) * div;
+    } else {
+      value = Math.floor(value / div) * div;
+    }
+
+    if (max != null && value > max) {
+      value = 0;
+    }
+  } else {
+    value += amount;
+    if (max == null) {
+      value = Math.max(value, 0);
+    } else if (value < 0) {
+      value = max + value + 1;
+    } else if (value > max) {
+      value = value - max - 1;
+    }
+  }
+
+  return value;
+}
+
+function getUnitFormatters(locale: string, units: DurationGranularity[]): Record<string, Intl.NumberFormat> {
+  let formatters: Record<string, Intl.NumberFormat> = {};
+  for (let unit of units) {
+    formatters[unit] = new Intl.NumberFormat(locale, {style: 'unit', unit: SINGULAR_UNITS[unit], unitDisplay: 'narrow', useGrouping: false});
+  }
+
+  return formatters;
+}
+
+function createLiteral(text: string): DateSegment {
+  return {
+    type: 'literal',
+    text,
+    isPlaceholder: false,
+    placeholder: '',
+    isEditable: false
+  };
+}
+
+function mergeLiterals(segments: DateSegment[]): DateSegment[] {
+  let result: DateSegment[] = [];
+  for (let segment of segments) {
+    let last = result[result.length - 1];
+    if (segment.type === 'literal' && last?.type === 'literal') {
+      result[result.length - 1] = createLiteral(last.text + segment.text);
+    } else {
+      result.push(segment);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses durations entered as text, either using localized unit names in any
+ * style (e.g. "2d 4h 30m" or "2 days, 4 hours") or as an ISO 8601 duration string.
+ */
+class DurationTextParser {
+  private units: DurationGranularity[];
+  private numberParser: NumberParser;
+  private unitNames = new Map<string, DurationGranularity>();
+
+  constructor(locale: string, units: DurationGranularity[]) {
+    this.units = units;
+    this.numberParser = new NumberParser(locale, {maximumFractionDigits: 3});
+
+    // When the same name is used for multiple units (e.g. "m" for months and minutes),
+    // the smaller unit takes precedence since it is more commonly entered.
+    for (let unit of units) {
+      for (let unitDisplay of ['long', 'short', 'narrow'] as const) {
+        let formatter = new Intl.NumberFormat(locale, {style: 'unit', unit: SINGULAR_UNITS[unit], unitDisplay});
+        for (let n of [1, 2, 5]) {
+          let name = formatter.formatToParts(n).find(part => part.type === 'unit')?.value;
+          if (name) {
+            this.unitNames.set(normalizeUnitName(name), unit);
+          }
+        }
+      }
+    }
+  }
+
+  parse(text: string): DateTimeDuration | null {
+    text = text.trim();
+    if (/^[-+]?P/i.test(text)) {
+      try {
+        return balanceDuration(parseDuration(text.toUpperCase()), this.units);
+      } catch {
+        return null;
+      }
+    }
+
+    let duration: DateTimeDuration = {};
+    let found = false;
+    let rest = text.replace(/([\p{N}.,]+)\s*([\p{L}.]+)/gu, (match, number: string, name: string) => {
+      let unit = this.unitNames.get(normalizeUnitName(name));
+      let value = this.numberParser.parse(number);
+      if (!unit || isNaN(value)) {
+        return match;
+      }
+
+      duration[unit] = (duration[unit] || 0) + value;
+      found = true;
+      return ' ';
+    });
+
+    // Reject text that contains numbers that were not followed by a unit.
+    if (!found || /\p{N}/u.test(rest)) {
+      return null;
+    }
+
+    return balanceDuration(duration, this.units);
+  }
+}
+
+function normalizeUnitName(name: string) {
+  return name.toLocaleLowerCase().replace(/\.$/, '');
+}
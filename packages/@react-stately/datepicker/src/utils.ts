@@ -10,14 +10,14 @@
  * governing permissions and limitations under the License.
  */
 
-import {Calendar, DateFormatter, getLocalTimeZone, now, Time, toCalendar, toCalendarDate, toCalendarDateTime} from '@internationalized/date';
+import {Calendar, CalendarDate, CalendarDateTime, compareDuration, DateFormatter, DateParser, DateTimeDuration, DurationFormatter, getLocalTimeZone, now, Time, toCalendar, toCalendarDate, toCalendarDateTime, today, toZoned} from '@internationalized/date';
 import {DatePickerProps, DateValue, Granularity, TimeValue} from '@react-types/datepicker';
 // @ts-ignore
 import i18nMessages from '../intl/*.json';
 import {LocalizedStringDictionary, LocalizedStringFormatter} from '@internationalized/string';
 import {mergeValidation, VALID_VALIDITY_STATE} from '@react-stately/form';
 import {RangeValue, ValidationResult} from '@react-types/shared';
-import {useState} from 'react';
+import {useRef, useState} from 'react';
 
 const dictionary = new LocalizedStringDictionary(i18nMessages);
 
@@ -87,6 +87,45 @@ export function getValidationResult(
   };
 }
 
+export function getDurationValidationResult(
+  value: DateTimeDuration | null,
+  minValue: DateTimeDuration | null | undefined,
+  maxValue: DateTimeDuration | null | undefined
+): ValidationResult {
+  // Years and months vary in length, so durations are compared relative to today.
+  let relativeTo = today(getLocalTimeZone());
+  let rangeOverflow = value != null && maxValue != null && compareDuration(value, maxValue, relativeTo) > 0;
+  let rangeUnderflow = value != null && minValue != null && compareDuration(value, minValue, relativeTo) < 0;
+  let isInvalid = rangeOverflow || rangeUnderflow;
+  let errors: string[] = [];
+
+  if (isInvalid) {
+    let locale = getLocale();
+    let strings = LocalizedStringDictionary.getGlobalDictionaryForPackage('@react-stately/datepicker') || dictionary;
+    let formatter = new LocalizedStringFormatter(locale, strings);
+    let durationFormatter = new DurationFormatter(locale, {style: 'long'});
+
+    if (rangeUnderflow && minValue != null) {
+      errors.push(formatter.format('durationRangeUnderflow', {minValue: durationFormatter.format(minValue)}));
+    }
+
+    if (rangeOverflow && maxValue != null) {
+      errors.push(formatter.format('durationRangeOverflow', {maxValue: durationFormatter.format(maxValue)}));
+    }
+  }
+
+  return {
+    isInvalid,
+    validationErrors: errors,
+    validationDetails: {
+      ...VALID_VALIDITY_STATE,
+      rangeOverflow,
+      rangeUnderflow,
+      valid: !isInvalid
+    }
+  };
+}
+
 export function getRangeValidationResult(
   value: RangeValue<DateValue | null> | null,
   minValue: DateValue | null | undefined,
@@ -246,6 +285,40 @@ export function createPlaceholderDate(placeholderValue: DateValue | null | undef
   return date;
 }
 
+// Converts a date parsed from a string to the same type as the placeholder, with fields smaller than the granularity removed.
+// If the parsed date does not include a time, the time from the placeholder is used.
+export function convertParsedValue(parsed: CalendarDate | CalendarDateTime, placeholder: DateValue, granularity: Granularity): DateValue {
+  if (!('hour' in placeholder)) {
+    return toCalendarDate(parsed);
+  }
+
+  let value = 'hour' in parsed ? parsed : toCalendarDateTime(parsed, placeholder);
+  if (granularity === 'hour') {
+    value = value.set({minute: 0, second: 0, millisecond: 0});
+  } else if (granularity === 'minute') {
+    value = value.set({second: 0, millisecond: 0});
+  }
+
+  if ('timeZone' in placeholder) {
+    return toZoned(value, placeholder.timeZone);
+  }
+
+  return value;
+}
+
+// Returns a function that gets a date parser for a locale and calendar. The parser is reused until either of them changes.
+export function useDateParser(): (locale: string, calendar: Calendar) => DateParser {
+  let cache = useRef<{key: string, parser: DateParser} | null>(null);
+  return (locale, calendar) => {
+    let key = locale + calendar.identifier;
+    if (cache.current?.key !== key) {
+      cache.current = {key, parser: new DateParser(locale, {calendar})};
+    }
+
+    return cache.current.parser;
+  };
+}
+
 export function useDefaultProps(v: DateValue | null, granularity: Granularity | undefined): [Granularity, string | undefined] {
   // Compute default granularity and time zone from the value. If the value becomes null, keep the last values.
   let defaultTimeZone = (v && 'timeZone' in v ? v.timeZone : undefined);
@@ -0,0 +1,50 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {getChildNodes} from '@react-stately/collections';
+import {GridCellRange, GridCollection, GridNode} from '@react-types/grid';
+
+/**
+ * Returns the cells within the rectangle spanned by the given range, grouped by row.
+ * Cells that span multiple columns are included if any of their columns are within the range.
+ */
+export function getCellsInRange<T>(collection: GridCollection<T>, range: GridCellRange | null): GridNode<T>[][] {
+  if (!range) {
+    return [];
+  }
+
+  let anchor = collection.getItem(range.anchorKey);
+  let focus = collection.getItem(range.focusKey);
+  if (!anchor || !focus) {
+    return [];
+  }
+
+  let rows = collection.rows.filter(row => row.type === 'item');
+  let anchorRow = rows.findIndex(row => row.key === anchor.parentKey);
+  let focusRow = rows.findIndex(row => row.key === focus.parentKey);
+  if (anchorRow < 0 || focusRow < 0) {
+    return [];
+  }
+
+  let anchorColumn = anchor.colIndex ?? anchor.index;
+  let focusColumn = focus.colIndex ?? focus.index;
+  let startColumn = Math.min(anchorColumn, focusColumn);
+  let endColumn = Math.max(anchorColumn + (anchor.colSpan ?? 1), focusColumn + (focus.colSpan ?? 1)) - 1;
+
+  return rows.slice(Math.min(anchorRow, focusRow), Math.max(anchorRow, focusRow) + 1).map(row =>
+    ([...getChildNodes(row, collection)] as GridNode<T>[]).filter(cell => {
+      let start = cell.colIndex ?? cell.index;
+      let end = start + (cell.colSpan ?? 1) - 1;
+      return start <= endColumn && end >= startColumn;
+    })
+  );
+}
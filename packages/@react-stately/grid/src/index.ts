@@ -12,5 +12,6 @@
 
 export {useGridState} from './useGridState';
 export {GridCollection} from './GridCollection';
+export {getCellsInRange} from './getCellsInRange';
 
 export type {GridStateOptions, GridState} from './useGridState';
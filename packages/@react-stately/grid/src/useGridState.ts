@@ -1,7 +1,9 @@
+import {CellRangeSelection, GridCellRange, GridCollection, GridNode} from '@react-types/grid';
+import {getCellsInRange} from './getCellsInRange';
 import {getChildNodes, getFirstItem, getLastItem} from '@react-stately/collections';
-import {GridCollection, GridNode} from '@react-types/grid';
 import {Key} from '@react-types/shared';
 import {MultipleSelectionState, MultipleSelectionStateProps, SelectionManager, useMultipleSelectionState} from '@react-stately/selection';
+import {useControlledState} from '@react-stately/utils';
 import {useEffect, useMemo, useRef} from 'react';
 
 export interface GridState<T, C extends GridCollection<T>> {
@@ -11,10 +13,18 @@ export interface GridState<T, C extends GridCollection<T>> {
   /** A selection manager to read and update row selection state. */
   selectionManager: SelectionManager,
   /** Whether keyboard navigation is disabled, such as when the arrow keys should be handled by a component within a cell. */
-  isKeyboardNavigationDisabled: boolean
+  isKeyboardNavigationDisabled: boolean,
+  /** Whether rectangular ranges of cells can be selected. */
+  allowsCellSelection?: boolean,
+  /** The currently selected range of cells. */
+  cellSelection?: GridCellRange | null,
+  /** The keys of the cells within the current cell selection. */
+  selectedCells?: Set<Key>,
+  /** Sets the selected range of cells. */
+  setCellSelection?(range: GridCellRange | null): void
 }
 
-export interface GridStateOptions<T, C extends GridCollection<T>> extends MultipleSelectionStateProps {
+export interface GridStateOptions<T, C extends GridCollection<T>> extends MultipleSelectionStateProps, CellRangeSelection {
   collection: C,
   disabledKeys?: Iterable<Key>,
   focusMode?: 'row' | 'cell',
@@ -26,7 +36,7 @@ export interface GridStateOptions<T, C extends GridCollection<T>> extends Multip
  * Provides state management for a grid component. Handles row selection and focusing a grid cell's focusable child if applicable.
  */
 export function useGridState<T extends object, C extends GridCollection<T>>(props: GridStateOptions<T, C>): GridState<T, C> {
-  let {collection, focusMode} = props;
+  let {collection, focusMode, allowsCellSelection = false} = props;
   // eslint-disable-next-line react-hooks/rules-of-hooks
   let selectionState = props.UNSAFE_selectionState || useMultipleSelectionState(props);
   let disabledKeys = useMemo(() =>
@@ -56,6 +66,15 @@ export function useGridState<T extends object, C extends GridCollection<T>>(prop
     , [collection, selectionState]
   );
 
+  let [cellSelection, setCellSelection] = useControlledState<GridCellRange | null>(props.cellSelection, props.defaultCellSelection ?? null, props.onCellSelectionChange);
+  let selectedCells = useMemo(() => {
+    if (!allowsCellSelection) {
+      return new Set<Key>();
+    }
+
+    return new Set(getCellsInRange(collection, cellSelection).flat().map(cell => cell.key));
+  }, [allowsCellSelection, collection, cellSelection]);
+
   // Reset focused key if that item is deleted from the collection.
   const cachedCollection = useRef<C | null>(null);
   useEffect(() => {
@@ -117,6 +136,10 @@ export function useGridState<T extends object, C extends GridCollection<T>>(prop
     collection,
     disabledKeys,
     isKeyboardNavigationDisabled: false,
-    selectionManager
+    selectionManager,
+    allowsCellSelection,
+    cellSelection: allowsCellSelection ? cellSelection : null,
+    selectedCells,
+    setCellSelection
   };
 }
@@ -32,8 +32,10 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
   protected lastCollection: TableCollection<T> | null = null;
   private columnWidths: Map<Key, number> = new Map();
   private stickyColumnIndices: number[];
+  private pinnedEndOffsets: Map<number, number> = new Map();
   private lastPersistedKeys: Set<Key> | null = null;
   private persistedIndices: Map<Key, number[]> = new Map();
+  private groupHeaderIndices: number[] = [];
 
   constructor(options?: ListLayoutOptions) {
     super(options);
@@ -86,6 +88,7 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
 
   protected buildCollection(): LayoutNode[] {
     this.stickyColumnIndices = [];
+    this.pinnedEndOffsets = new Map();
 
     let collection = this.virtualizer!.collection as TableCollection<T>;
     if (collection.head?.key === -1) {
@@ -95,11 +98,25 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
     for (let column of collection.columns) {
       // The selection cell and any other sticky columns always need to be visible.
       // In addition, row headers need to be in the DOM for accessibility labeling.
-      if (this.isStickyColumn(column) || collection.rowHeaderColumnKeys.has(column.key)) {
+      // Pinned columns are always rendered as well.
+      if (this.isStickyColumn(column) || this.getColumnPinning(column) != null || collection.rowHeaderColumnKeys.has(column.key)) {
         this.stickyColumnIndices.push(column.index);
       }
     }
 
+    // Columns pinned to the end are positioned relative to the end of the visible rect,
+    // so store the distance from the start of each one to the end of the table.
+    let offset = 0;
+    for (let i = collection.columns.length - 1; i >= 0; i--) {
+      let column = collection.columns[i];
+      if (this.getColumnPinning(column) !== 'end') {
+        break;
+      }
+
+      offset += this.columnWidths.get(column.key) ?? 0;
+      this.pinnedEndOffsets.set(column.index, offset);
+    }
+
     let header = this.buildTableHeader();
     this.layoutNodes.set(header.layoutInfo.key, header);
     let body = this.buildBody(header.layoutInfo.rect.maxY + this.gap);
@@ -158,7 +175,9 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
       columns.push(layoutNode);
     }
     for (let [i, layout] of columns.entries()) {
-      layout.layoutInfo.zIndex = columns.length - i + 1;
+      // Columns pinned to the end must render above the columns that scroll beneath them.
+      let isPinnedEnd = layout.node != null && this.getColumnPinning(layout.node as GridNode<T>) === 'end';
+      layout.layoutInfo.zIndex = columns.length - i + 1 + (isPinnedEnd ? columns.length : 0);
     }
 
     this.setChildHeights(columns, height);
@@ -230,8 +249,7 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
     let {height, isEstimated} = this.getEstimatedHeight(node, width, this.headingHeight ?? this.rowHeight, this.estimatedHeadingHeight ?? this.estimatedRowHeight);
     let rect = new Rect(x, y, width, height);
     let layoutInfo = new LayoutInfo(node.type, node.key, rect);
-    layoutInfo.isSticky = this.isStickyColumn(node);
-    layoutInfo.zIndex = layoutInfo.isSticky ? 2 : 1;
+    this.setStickyLayoutInfo(node, layoutInfo);
     layoutInfo.estimatedSize = isEstimated;
 
     return {
@@ -248,6 +266,57 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
     return false;
   }
 
+  /** Returns the edge that the column containing the given column or cell node is pinned to, if any. */
+  protected getColumnPinning(node: GridNode<T>): 'start' | 'end' | null {
+    if (node.type === 'placeholder') {
+      return null;
+    }
+
+    let column = node.type === 'column'
+      ? node
+      : (this.virtualizer!.collection as TableCollection<T>).columns[node.colIndex ?? node.index];
+    return column?.props?.isPinned ?? null;
+  }
+
+  private setStickyLayoutInfo(node: GridNode<T>, layoutInfo: LayoutInfo) {
+    let pinning = this.getColumnPinning(node);
+
+    // Columns pinned to the start use sticky positioning, the same as selection checkbox columns.
+    // Columns pinned to the end are positioned when retrieving the visible layout infos.
+    layoutInfo.isSticky = this.isStickyColumn(node) || pinning === 'start';
+    layoutInfo.zIndex = layoutInfo.isSticky || pinning === 'end' ? 2 : 1;
+  }
+
+  private getPinnedLayoutInfo(layoutNode: LayoutNode): LayoutInfo {
+    let layoutInfo = layoutNode.layoutInfo;
+    let node = layoutNode.node as GridNode<T> | undefined;
+    let offset = node && node.type !== 'placeholder' ? this.pinnedEndOffsets.get(node.colIndex ?? node.index) : undefined;
+    if (offset == null) {
+      return layoutInfo;
+    }
+
+    // Keep the column within the visible rect unless its natural position is already visible.
+    let x = Math.min(layoutInfo.rect.x, this.virtualizer!.visibleRect.maxX - offset);
+    if (x === layoutInfo.rect.x) {
+      return layoutInfo;
+    }
+
+    let pinnedLayoutInfo = layoutInfo.copy();
+    pinnedLayoutInfo.rect.x = x;
+    return pinnedLayoutInfo;
+  }
+
+  private getCellLayoutNode(row: LayoutNode, index: number): LayoutNode | undefined {
+    // Cells in columns pinned to the end may follow cells that were skipped during layout,
+    // in which case their position in the row does not match their index.
+    let child = row.children![index];
+    if (child?.index === index) {
+      return child;
+    }
+
+    return row.children!.find(child => child.index === index);
+  }
+
   protected buildBody(y: number): LayoutNode {
     let collection = this.virtualizer!.collection as TableCollection<T>;
     let rect = new Rect(this.padding, y, 0, 0);
@@ -259,6 +328,7 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
     let children: LayoutNode[] = [];
     let rowHeight = this.getEstimatedRowHeight() + this.gap;
     let childNodes = getChildNodes(collection.body, collection);
+    this.groupHeaderIndices = [];
     for (let node of childNodes) {
       // Skip rows before the valid rectangle unless they are already cached.
       if (y + rowHeight < this.requestedRect.y && !this.isValid(node, y)) {
@@ -270,6 +340,10 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
       let layoutNode = this.buildChild(node, this.padding, y, layoutInfo.key);
       layoutNode.layoutInfo.parentKey = layoutInfo.key;
       layoutNode.index = children.length;
+      if (node.props?.isGroupHeader) {
+        this.groupHeaderIndices.push(children.length);
+      }
+
       y = layoutNode.layoutInfo.rect.maxY + this.gap;
       width = Math.max(width, layoutNode.layoutInfo.rect.width);
       children.push(layoutNode);
@@ -339,15 +413,22 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
 
     let children: LayoutNode[] = [];
     let height = 0;
+    let skippedCells = false;
     for (let child of getChildNodes(node, collection)) {
       if (child.type === 'cell') {
-        if (x > this.requestedRect.maxX) {
+        // Cells after the requested rect are skipped, except for cells in columns pinned to the end, which are always visible.
+        if (x > this.requestedRect.maxX && this.getColumnPinning(child) !== 'end') {
+          skippedCells = true;
+
           // Adjust existing cached layoutInfo to ensure that it is out of view.
           // This can happen due to column resizing.
           let layoutNode = this.layoutNodes.get(child.key);
           if (layoutNode) {
             layoutNode.layoutInfo.rect.x = x;
             x += layoutNode.layoutInfo.rect.width;
+          } else if (this.pinnedEndOffsets.size > 0) {
+            // Keep track of the position of the cells in columns pinned to the end.
+            x += this.getRenderedColumnWidth(child);
           } else {
             break;
           }
@@ -355,7 +436,8 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
           let layoutNode = this.buildChild(child, x, y, layoutInfo.key);
           x = layoutNode.layoutInfo.rect.maxX;
           height = Math.max(height, layoutNode.layoutInfo.rect.height);
-          layoutNode.index = children.length;
+          // Cells pinned to the end may follow skipped cells, so use their column index rather than their position in the row.
+          layoutNode.index = skippedCells ? ((child as GridNode<T>).colIndex ?? child.index) : children.length;
           children.push(layoutNode);
         }
       }
@@ -379,8 +461,7 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
     let {height, isEstimated} = this.getEstimatedHeight(node, width, this.rowHeight, this.estimatedRowHeight);
     let rect = new Rect(x, y, width, height);
     let layoutInfo = new LayoutInfo(node.type, node.key, rect);
-    layoutInfo.isSticky = this.isStickyColumn(node);
-    layoutInfo.zIndex = layoutInfo.isSticky ? 2 : 1;
+    this.setStickyLayoutInfo(node, layoutInfo);
     layoutInfo.estimatedSize = isEstimated;
 
     return {
@@ -431,10 +512,19 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
       case 'rowgroup': {
         let firstVisibleRow = this.binarySearch(node.children, rect.topLeft, 'y');
         let lastVisibleRow = this.binarySearch(node.children, rect.bottomRight, 'y');
+        let stickyGroupHeader = this.getStickyGroupHeader(node);
+        let getRowLayoutInfo = (idx: number) => idx === stickyGroupHeader?.index ? stickyGroupHeader.layoutInfo : node.children![idx].layoutInfo;
 
-        // Add persisted rows before the visible rows.
         let persistedRowIndices = this.persistedIndices.get(node.layoutInfo.key);
         let persistIndex = 0;
+
+        // Add the sticky group header if it is not already visible or persisted.
+        if (stickyGroupHeader && stickyGroupHeader.index < firstVisibleRow && !persistedRowIndices?.includes(stickyGroupHeader.index)) {
+          res.push(stickyGroupHeader.layoutInfo);
+          this.addVisibleLayoutInfos(res, node.children[stickyGroupHeader.index], rect);
+        }
+
+        // Add persisted rows before the visible rows.
         while (
           persistedRowIndices &&
           persistIndex < persistedRowIndices.length &&
@@ -442,7 +532,7 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
         ) {
           let idx = persistedRowIndices[persistIndex];
           if (idx < node.children.length) {
-            res.push(node.children[idx].layoutInfo);
+            res.push(getRowLayoutInfo(idx));
             this.addVisibleLayoutInfos(res, node.children[idx], rect);
           }
           persistIndex++;
@@ -454,7 +544,7 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
             persistIndex++;
           }
 
-          res.push(node.children[i].layoutInfo);
+          res.push(getRowLayoutInfo(i));
           this.addVisibleLayoutInfos(res, node.children[i], rect);
         }
 
@@ -462,7 +552,7 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
         while (persistedRowIndices && persistIndex < persistedRowIndices.length) {
           let idx = persistedRowIndices[persistIndex++];
           if (idx < node.children.length) {
-            res.push(node.children[idx].layoutInfo);
+            res.push(getRowLayoutInfo(idx));
             this.addVisibleLayoutInfos(res, node.children[idx], rect);
           }
         }
@@ -483,27 +573,27 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
         // Add persisted/sticky cells before the visible cells.
         let persistedCellIndices = this.persistedIndices.get(node.layoutInfo.key) || this.stickyColumnIndices;
         while (stickyIndex < persistedCellIndices.length && persistedCellIndices[stickyIndex] < firstVisibleCell) {
-          let idx = persistedCellIndices[stickyIndex];
-          if (idx < node.children.length) {
-            res.push(node.children[idx].layoutInfo);
+          let child = this.getCellLayoutNode(node, persistedCellIndices[stickyIndex]);
+          if (child) {
+            res.push(this.getPinnedLayoutInfo(child));
           }
           stickyIndex++;
         }
 
         for (let i = firstVisibleCell; i <= lastVisibleCell; i++) {
           // Skip sticky cells that overlap with visible cells.
-          while (stickyIndex < persistedCellIndices.length && persistedCellIndices[stickyIndex] < i) {
+          while (stickyIndex < persistedCellIndices.length && persistedCellIndices[stickyIndex] <= i) {
             stickyIndex++;
           }
 
-          res.push(node.children[i].layoutInfo);
+          res.push(this.getPinnedLayoutInfo(node.children[i]));
         }
 
         // Add any remaining sticky cells after the visible cells.
         while (stickyIndex < persistedCellIndices.length) {
-          let idx = persistedCellIndices[stickyIndex++];
-          if (idx < node.children.length) {
-            res.push(node.children[idx].layoutInfo);
+          let child = this.getCellLayoutNode(node, persistedCellIndices[stickyIndex++]);
+          if (child) {
+            res.push(this.getPinnedLayoutInfo(child));
           }
         }
         break;
@@ -513,6 +603,43 @@ export class TableLayout<T, O extends TableLayoutProps = TableLayoutProps> exten
     }
   }
 
+  // Returns the header row of the group containing the first row below the table header, positioned
+  // so that it sticks to the top of the body until it is pushed out of view by the next group header.
+  private getStickyGroupHeader(body: LayoutNode): {index: number, layoutInfo: LayoutInfo} | null {
+    if (this.groupHeaderIndices.length === 0 || !body.children) {
+      return null;
+    }
+
+    // The table header is sticky, so the body starts below it.
+    let top = this.virtualizer!.visibleRect.y + body.layoutInfo.rect.y - this.gap;
+    let firstRow = this.binarySearch(body.children, new Point(0, top), 'y');
+    let groupIndex = -1;
+    for (let i = 0; i < this.groupHeaderIndices.length && this.groupHeaderIndices[i] <= firstRow; i++) {
+      groupIndex = i;
+    }
+
+    if (groupIndex < 0) {
+      return null;
+    }
+
+    let index = this.groupHeaderIndices[groupIndex];
+    let layoutInfo = body.children[index].layoutInfo;
+    if (layoutInfo.rect.y >= top) {
+      return null;
+    }
+
+    let y = top;
+    let nextIndex = this.groupHeaderIndices[groupIndex + 1];
+    if (nextIndex != null) {
+      y = Math.min(y, body.children[nextIndex].layoutInfo.rect.y - layoutInfo.rect.height);
+    }
+
+    let stickyLayoutInfo = layoutInfo.copy();
+    stickyLayoutInfo.rect.y = y;
+    stickyLayoutInfo.zIndex = 3;
+    return {index, layoutInfo: stickyLayoutInfo};
+  }
+
   private binarySearch(items: LayoutNode[], point: Point, axis: 'x' | 'y') {
     let low = 0;
     let high = items.length - 1;
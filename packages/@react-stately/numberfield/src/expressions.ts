@@ -0,0 +1,183 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+// @ts-ignore
+import i18nMessages from '../intl/*.json';
+import {LocalizedStringDictionary, LocalizedStringFormatter} from '@internationalized/string';
+import {NumberParser} from '@internationalized/number';
+import {VALID_VALIDITY_STATE} from '@react-stately/form';
+import {ValidationResult} from '@react-types/shared';
+
+const dictionary = new LocalizedStringDictionary(i18nMessages);
+
+// Characters that are treated as operators, mapped to the operator they represent.
+const OPERATORS: Record<string, string> = {
+  '+': '+',
+  '-': '-',
+  '−': '-',
+  '*': '*',
+  '×': '*',
+  '/': '/',
+  '÷': '/',
+  '(': '(',
+  ')': ')',
+  '%': '%',
+  '٪': '%'
+};
+
+const BIDI_REGEX = /[\u200e\u200f\u061c]/g;
+
+interface Token {
+  type: 'operator' | 'operand',
+  value: string
+}
+
+/**
+ * Splits an expression into operators and operands. Operands are the text between operators, which is
+ * parsed by the NumberParser so that locale-specific numerals, currency symbols, and units are supported.
+ */
+function tokenize(parser: NumberParser, input: string, isPercentStyle: boolean): Token[] {
+  let tokens: Token[] = [];
+  let operand = '';
+  let pushOperand = () => {
+    if (operand.trim()) {
+      tokens.push({type: 'operand', value: operand.trim()});
+    }
+    operand = '';
+  };
+
+  for (let char of input.trim().replace(/^=/, '').replace(BIDI_REGEX, '')) {
+    let operator: string | undefined = OPERATORS[char];
+
+    // In percent style, the percent sign is part of the number rather than an operator.
+    if (operator === '%' && isPercentStyle) {
+      operator = undefined;
+    }
+
+    // A sign following an incomplete number is the sign of an exponent, e.g. "1.5E-3".
+    if ((operator === '+' || operator === '-') && operand.trim() && isNaN(parser.parse(operand)) && parser.isValidPartialNumber(operand + char)) {
+      operator = undefined;
+    }
+
+    if (operator) {
+      pushOperand();
+      tokens.push({type: 'operator', value: operator});
+    } else {
+      operand += char;
+    }
+  }
+
+  pushOperand();
+  return tokens;
+}
+
+/**
+ * Evaluates an arithmetic expression such as "=120*1.08" or "45+12", supporting addition, subtraction,
+ * multiplication, division, parentheses, and percentages. Returns NaN if the expression is malformed,
+ * or the result is not a finite number (e.g. division by zero).
+ */
+export function evaluateExpression(parser: NumberParser, input: string, isPercentStyle: boolean): number {
+  let tokens = tokenize(parser, input, isPercentStyle);
+  let index = 0;
+  let isOperator = (operator: string) => tokens[index]?.type === 'operator' && tokens[index].value === operator;
+
+  // expression = term (("+" | "-") term)*
+  let parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      let operator = tokens[index++].value;
+      let right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term = factor (("*" | "/") factor)*
+  let parseTerm = (): number => {
+    let value = parseFactor();
+    while (isOperator('*') || isOperator('/')) {
+      let operator = tokens[index++].value;
+      let right = parseFactor();
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  // factor = ("+" | "-") factor | primary "%"*
+  let parseFactor = (): number => {
+    if (isOperator('+') || isOperator('-')) {
+      let operator = tokens[index++].value;
+      let value = parseFactor();
+      return operator === '-' ? -value : value;
+    }
+
+    let value = parsePrimary();
+    while (isOperator('%')) {
+      index++;
+      value /= 100;
+    }
+    return value;
+  };
+
+  // primary = number | "(" expression ")"
+  let parsePrimary = (): number => {
+    let token = tokens[index++];
+    if (token?.type === 'operand') {
+      return parser.parse(token.value);
+    }
+
+    if (token?.value === '(') {
+      let value = parseExpression();
+      if (!isOperator(')')) {
+        return NaN;
+      }
+      index++;
+      return value;
+    }
+
+    return NaN;
+  };
+
+  let result = parseExpression();
+  return index === tokens.length && Number.isFinite(result) ? result : NaN;
+}
+
+/**
+ * Returns whether the given string is a valid partially entered expression, i.e. each of its operands
+ * is a valid partial number. Can be used to validate user input as they type.
+ */
+export function isValidPartialExpression(parser: NumberParser, input: string, isPercentStyle: boolean): boolean {
+  if (!/^\s*=?[^=]*$/.test(input)) {
+    return false;
+  }
+
+  return tokenize(parser, input, isPercentStyle).every(token => token.type === 'operator' || parser.isValidPartialNumber(token.value));
+}
+
+export function getExpressionValidationResult(isInvalid: boolean, locale: string): ValidationResult {
+  let errors: string[] = [];
+  if (isInvalid) {
+    let strings = LocalizedStringDictionary.getGlobalDictionaryForPackage('@react-stately/numberfield') || dictionary;
+    let formatter = new LocalizedStringFormatter(locale, strings);
+    errors.push(formatter.format('invalidExpression'));
+  }
+
+  return {
+    isInvalid,
+    validationErrors: errors,
+    validationDetails: {
+      ...VALID_VALIDITY_STATE,
+      badInput: isInvalid,
+      valid: !isInvalid
+    }
+  };
+}
@@ -14,3 +14,4 @@ export {useNumberFieldState} from './useNumberFieldState';
 
 export type {NumberFieldStateOptions} from './useNumberFieldState';
 export type {NumberFieldState} from './useNumberFieldState';
+export type {NumberFieldValue} from '@react-types/numberfield';
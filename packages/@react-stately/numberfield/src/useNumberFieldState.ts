@@ -10,10 +10,11 @@
  * governing permissions and limitations under the License.
  */
 
+import {addDecimals, compareDecimals, NumberFormatter, NumberParser, snapDecimalToStep, subtractDecimals, toDecimalString} from '@internationalized/number';
 import {clamp, snapValueToStep, useControlledState} from '@react-stately/utils';
+import {evaluateExpression, getExpressionValidationResult, isValidPartialExpression} from './expressions';
 import {FormValidationState, useFormValidationState} from '@react-stately/form';
-import {NumberFieldProps} from '@react-types/numberfield';
-import {NumberFormatter, NumberParser} from '@internationalized/number';
+import {NumberFieldProps, NumberFieldValue} from '@react-types/numberfield';
 import {useCallback, useMemo, useState} from 'react';
 
 export interface NumberFieldState extends FormValidationState {
@@ -27,8 +28,15 @@ export interface NumberFieldState extends FormValidationState {
    * Updated based on the `inputValue` as the user types.
    */
   numberValue: number,
+  /**
+   * The currently parsed value as an exact decimal string, or an empty string if a valid number could not be parsed.
+   * When `valueType` is `'decimal'`, this preserves precision that is lost in `numberValue`.
+   */
+  decimalValue: string,
   /** The default value of the input. */
   defaultNumberValue: number,
+  /** The default value of the input as a decimal string. */
+  defaultDecimalValue: string,
   /** The minimum value of the number field. */
   minValue?: number,
   /** The maximum value of the number field. */
@@ -47,6 +55,8 @@ export interface NumberFieldState extends FormValidationState {
   setInputValue(val: string): void,
   /** Sets the number value. */
   setNumberValue(val: number): void,
+  /** Sets the value from a decimal string, or an empty string to clear it. */
+  setDecimalValue(val: string): void,
   /**
    * Commits the current input value. The value is parsed to a number, clamped according
    * to the minimum and maximum values of the field, and snapped to the nearest step value.
@@ -64,7 +74,7 @@ export interface NumberFieldState extends FormValidationState {
   decrementToMin(): void
 }
 
-export interface NumberFieldStateOptions extends NumberFieldProps {
+export interface NumberFieldStateOptions<T extends NumberFieldValue = number> extends NumberFieldProps<T> {
   /**
    * The locale that should be used for parsing.
    * @default 'en-US'
@@ -72,128 +82,216 @@ export interface NumberFieldStateOptions extends NumberFieldProps {
   locale: string
 }
 
+type Bound = NumberFieldValue | null | undefined;
+
+// Arithmetic used by the state, implemented with either JavaScript numbers or exact decimal strings.
+interface NumberOperations {
+  /** The value used when the field is empty. */
+  empty: NumberFieldValue,
+  isEmpty(value: NumberFieldValue): boolean,
+  parse(parser: NumberParser, value: string): NumberFieldValue,
+  add(a: NumberFieldValue, b: NumberFieldValue): NumberFieldValue,
+  subtract(a: NumberFieldValue, b: NumberFieldValue): NumberFieldValue,
+  compare(a: NumberFieldValue, b: NumberFieldValue): number,
+  clamp(value: NumberFieldValue, min: Bound, max: Bound): NumberFieldValue,
+  snap(value: NumberFieldValue, min: Bound, max: Bound, step: NumberFieldValue): NumberFieldValue
+}
+
+const numberOperations: NumberOperations = {
+  empty: NaN,
+  isEmpty: value => isNaN(value as number),
+  parse: (parser, value) => parser.parse(value),
+  add: (a, b) => handleDecimalOperation('+', a as number, b as number),
+  subtract: (a, b) => handleDecimalOperation('-', a as number, b as number),
+  compare: (a, b) => (a as number) - (b as number),
+  clamp: (value, min, max) => clamp(value as number, min as number | undefined, max as number | undefined),
+  snap: (value, min, max, step) => snapValueToStep(value as number, min as number | undefined, max as number | undefined, step as number)
+};
+
+const decimalOperations: NumberOperations = {
+  empty: '',
+  isEmpty: value => value === '',
+  parse: (parser, value) => parser.parseDecimal(value) ?? '',
+  add: addDecimals,
+  subtract: subtractDecimals,
+  compare: compareDecimals,
+  clamp: (value, min, max) => {
+    if (!isMissing(min) && compareDecimals(value, min!) < 0) {
+      return toDecimalString(min!);
+    }
+    if (!isMissing(max) && compareDecimals(value, max!) > 0) {
+      return toDecimalString(max!);
+    }
+    return value;
+  },
+  snap: (value, min, max, step) => snapDecimalToStep(value, isMissing(min) ? null : min, isMissing(max) ? null : max, step)
+};
+
+function isMissing(value: Bound): boolean {
+  return value == null || (typeof value === 'number' && isNaN(value));
+}
+
 /**
  * Provides state management for a number field component. Number fields allow users to enter a number,
  * and increment or decrement the value using stepper buttons.
  */
-export function useNumberFieldState(
-  props: NumberFieldStateOptions
+export function useNumberFieldState<T extends NumberFieldValue = number>(
+  props: NumberFieldStateOptions<T>
 ): NumberFieldState {
   let {
     minValue,
     maxValue,
     step,
     formatOptions,
-    value,
-    defaultValue = NaN,
-    onChange,
     locale,
     isDisabled,
-    isReadOnly
+    isReadOnly,
+    valueType = 'number'
   } = props;
+  // Expressions are evaluated with floating point arithmetic, which would lose the precision of decimal values.
+  let allowsExpressions = props.allowsExpressions && valueType !== 'decimal';
+  let ops = valueType === 'decimal' ? decimalOperations : numberOperations;
+  let value: NumberFieldValue | null | undefined = props.value;
+  let defaultValue: NumberFieldValue = props.defaultValue ?? ops.empty;
+  let onChange = props.onChange as ((value: NumberFieldValue) => void) | undefined;
 
   if (value === null) {
-    value = NaN;
+    value = ops.empty;
   }
 
-  if (value !== undefined && !isNaN(value)) {
-    if (step !== undefined && !isNaN(step)) {
-      value = snapValueToStep(value, minValue, maxValue, step);
+  if (value !== undefined && !ops.isEmpty(value)) {
+    if (!isMissing(step)) {
+      value = ops.snap(value, minValue, maxValue, step!);
     } else {
-      value = clamp(value, minValue, maxValue);
+      value = ops.clamp(value, minValue, maxValue);
     }
   }
 
-  if (!isNaN(defaultValue)) {
-    if (step !== undefined && !isNaN(step)) {
-      defaultValue = snapValueToStep(defaultValue, minValue, maxValue, step);
+  if (!ops.isEmpty(defaultValue)) {
+    if (!isMissing(step)) {
+      defaultValue = ops.snap(defaultValue, minValue, maxValue, step!);
     } else {
-      defaultValue = clamp(defaultValue, minValue, maxValue);
+      defaultValue = ops.clamp(defaultValue, minValue, maxValue);
     }
   }
 
-  let [numberValue, setNumberValue] = useControlledState<number>(value, isNaN(defaultValue) ? NaN : defaultValue, onChange);
-  let [initialValue] = useState(numberValue);
-  let [inputValue, setInputValue] = useState(() => isNaN(numberValue) ? '' : new NumberFormatter(locale, formatOptions).format(numberValue));
+  let [controlledValue, setControlledValue] = useControlledState<NumberFieldValue>(value!, defaultValue, onChange);
+  let [initialValue] = useState(controlledValue);
+  let [inputValue, setInputValue] = useState(() => ops.isEmpty(controlledValue) ? '' : new NumberFormatter(locale, formatOptions).format(controlledValue));
 
   let numberParser = useMemo(() => new NumberParser(locale, formatOptions), [locale, formatOptions]);
   let numberingSystem = useMemo(() => numberParser.getNumberingSystem(inputValue), [numberParser, inputValue]);
   let formatter = useMemo(() => new NumberFormatter(locale, {...formatOptions, numberingSystem}), [locale, formatOptions, numberingSystem]);
   let intlOptions = useMemo(() => formatter.resolvedOptions(), [formatter]);
-  let format = useCallback((value: number) => (isNaN(value) || value === null) ? '' : formatter.format(value), [formatter]);
-
-  let validation = useFormValidationState({
-    ...props,
-    value: numberValue
-  });
+  let format = useCallback((value: NumberFieldValue) => (value === null || ops.isEmpty(value)) ? '' : formatter.format(value), [formatter, ops]);
 
-  let clampStep = (step !== undefined && !isNaN(step)) ? step : 1;
-  if (intlOptions.style === 'percent' && (step === undefined || isNaN(step))) {
+  let clampStep: NumberFieldValue = !isMissing(step) ? step! : 1;
+  if (intlOptions.style === 'percent' && isMissing(step)) {
     clampStep = 0.01;
   }
 
+  // Malformed expressions are kept in the input when committed so the user can correct them,
+  // and reported as invalid until the user edits the input or the value changes.
+  let [isInvalidExpression, setInvalidExpression] = useState(false);
+
   // Update the input value when the number value or format options change. This is done
   // in a useEffect so that the controlled behavior is correct and we only update the
   // textfield after prop changes.
-  let [prevValue, setPrevValue] = useState(numberValue);
+  let [prevValue, setPrevValue] = useState(controlledValue);
   let [prevLocale, setPrevLocale] = useState(locale);
   let [prevFormatOptions, setPrevFormatOptions] = useState(formatOptions);
-  if (!Object.is(numberValue, prevValue) || locale !== prevLocale || formatOptions !== prevFormatOptions) {
-    setInputValue(format(numberValue));
-    setPrevValue(numberValue);
+  if (!Object.is(controlledValue, prevValue) || locale !== prevLocale || formatOptions !== prevFormatOptions) {
+    setInputValue(format(controlledValue));
+    setInvalidExpression(false);
+    setPrevValue(controlledValue);
     setPrevLocale(locale);
     setPrevFormatOptions(formatOptions);
   }
 
-  let parsedValue = useMemo(() => numberParser.parse(inputValue), [numberParser, inputValue]);
+  let isPercentStyle = intlOptions.style === 'percent';
+  let parsedValue = useMemo(() => {
+    let parsed = ops.parse(numberParser, inputValue);
+    if (allowsExpressions && ops.isEmpty(parsed) && inputValue.trim()) {
+      let result = evaluateExpression(numberParser, inputValue, isPercentStyle);
+      if (!isNaN(result)) {
+        parsed = result;
+      }
+    }
+    return parsed;
+  }, [numberParser, inputValue, ops, allowsExpressions, isPercentStyle]);
+
+  let builtinValidation = useMemo(() => getExpressionValidationResult(allowsExpressions === true && isInvalidExpression, locale), [allowsExpressions, isInvalidExpression, locale]);
+  let validation = useFormValidationState({
+    ...props,
+    value: controlledValue as T,
+    builtinValidation
+  });
+
+  let updateInputValue = (value: string) => {
+    setInputValue(value);
+    if (isInvalidExpression) {
+      setInvalidExpression(false);
+      validation.commitValidation();
+    }
+  };
+
   let commit = () => {
+    setInvalidExpression(false);
+
     // Set to empty state if input value is empty
     if (!inputValue.length) {
-      setNumberValue(NaN);
-      setInputValue(value === undefined ? '' : format(numberValue));
+      setControlledValue(ops.empty);
+      setInputValue(value === undefined ? '' : format(controlledValue));
       return;
     }
 
-    // if it failed to parse, then reset input to formatted version of current number
-    if (isNaN(parsedValue)) {
-      setInputValue(format(numberValue));
+    if (ops.isEmpty(parsedValue)) {
+      // if a malformed expression was entered, keep it so the user can correct it, and display a validation error
+      if (allowsExpressions && !numberParser.isValidPartialNumber(inputValue)) {
+        setInvalidExpression(true);
+        validation.commitValidation();
+        return;
+      }
+
+      // if it failed to parse, then reset input to formatted version of current number
+      setInputValue(format(controlledValue));
       return;
     }
 
     // Clamp to min and max, round to the nearest step, and round to specified number of digits
-    let clampedValue: number;
-    if (step === undefined || isNaN(step)) {
-      clampedValue = clamp(parsedValue, minValue, maxValue);
+    let clampedValue: NumberFieldValue;
+    if (isMissing(step)) {
+      clampedValue = ops.clamp(parsedValue, minValue, maxValue);
     } else {
-      clampedValue = snapValueToStep(parsedValue, minValue, maxValue, step);
+      clampedValue = ops.snap(parsedValue, minValue, maxValue, step!);
     }
 
-    clampedValue = numberParser.parse(format(clampedValue));
-    setNumberValue(clampedValue);
+    clampedValue = ops.parse(numberParser, format(clampedValue));
+    setControlledValue(clampedValue);
 
     // in a controlled state, the numberValue won't change, so we won't go back to our old input without help
-    setInputValue(format(value === undefined ? clampedValue : numberValue));
+    setInputValue(format(value === undefined ? clampedValue : controlledValue));
     validation.commitValidation();
   };
 
-  let safeNextStep = (operation: '+' | '-', minMax: number = 0) => {
+  let safeNextStep = (operation: '+' | '-', minMax: Bound = 0) => {
     let prev = parsedValue;
 
-    if (isNaN(prev)) {
+    if (ops.isEmpty(prev)) {
       // if the input is empty, start from the min/max value when incrementing/decrementing,
       // or zero if there is no min/max value defined.
-      let newValue = isNaN(minMax) ? 0 : minMax;
-      return snapValueToStep(newValue, minValue, maxValue, clampStep);
+      let newValue = isMissing(minMax) ? 0 : minMax!;
+      return ops.snap(newValue, minValue, maxValue, clampStep);
     } else {
       // otherwise, first snap the current value to the nearest step. if it moves in the direction
       // we're going, use that value, otherwise add the step and snap that value.
-      let newValue = snapValueToStep(prev, minValue, maxValue, clampStep);
-      if ((operation === '+' && newValue > prev) || (operation === '-' && newValue < prev)) {
+      let newValue = ops.snap(prev, minValue, maxValue, clampStep);
+      if ((operation === '+' && ops.compare(newValue, prev) > 0) || (operation === '-' && ops.compare(newValue, prev) < 0)) {
         return newValue;
       }
 
-      return snapValueToStep(
-        handleDecimalOperation(operation, prev, clampStep),
+      return ops.snap(
+        operation === '+' ? ops.add(prev, clampStep) : ops.subtract(prev, clampStep),
         minValue,
         maxValue,
         clampStep
@@ -208,35 +306,35 @@ export function useNumberFieldState(
     // input value should be updated to match
     // ex type 4, press increment, highlight the number in the input, type 4 again, press increment
     // you'd be at 5, then incrementing to 5 again, so no re-render would happen and 4 would be left in the input
-    if (newValue === numberValue) {
+    if (newValue === controlledValue) {
       setInputValue(format(newValue));
     }
 
-    setNumberValue(newValue);
+    setControlledValue(newValue);
     validation.commitValidation();
   };
 
   let decrement = () => {
     let newValue = safeNextStep('-', maxValue);
 
-    if (newValue === numberValue) {
+    if (newValue === controlledValue) {
       setInputValue(format(newValue));
     }
 
-    setNumberValue(newValue);
+    setControlledValue(newValue);
     validation.commitValidation();
   };
 
   let incrementToMax = () => {
     if (maxValue != null) {
-      setNumberValue(snapValueToStep(maxValue, minValue, maxValue, clampStep));
+      setControlledValue(ops.snap(maxValue, minValue, maxValue, clampStep));
       validation.commitValidation();
     }
   };
 
   let decrementToMin = () => {
     if (minValue != null) {
-      setNumberValue(minValue);
+      setControlledValue(ops === decimalOperations ? toDecimalString(minValue) : minValue);
       validation.commitValidation();
     }
   };
@@ -245,26 +343,46 @@ export function useNumberFieldState(
     !isDisabled &&
     !isReadOnly &&
     (
-      isNaN(parsedValue) ||
-      (maxValue === undefined || isNaN(maxValue)) ||
-      snapValueToStep(parsedValue, minValue, maxValue, clampStep) > parsedValue ||
-      handleDecimalOperation('+', parsedValue, clampStep) <= maxValue
+      ops.isEmpty(parsedValue) ||
+      isMissing(maxValue) ||
+      ops.compare(ops.snap(parsedValue, minValue, maxValue, clampStep), parsedValue) > 0 ||
+      ops.compare(ops.add(parsedValue, clampStep), maxValue!) <= 0
     )
-  ), [isDisabled, isReadOnly, minValue, maxValue, clampStep, parsedValue]);
+  ), [isDisabled, isReadOnly, minValue, maxValue, clampStep, parsedValue, ops]);
 
   let canDecrement = useMemo(() => (
     !isDisabled &&
     !isReadOnly &&
     (
-      isNaN(parsedValue) ||
-      (minValue === undefined || isNaN(minValue)) ||
-      snapValueToStep(parsedValue, minValue, maxValue, clampStep) < parsedValue ||
-      handleDecimalOperation('-', parsedValue, clampStep) >= minValue
+      ops.isEmpty(parsedValue) ||
+      isMissing(minValue) ||
+      ops.compare(ops.snap(parsedValue, minValue, maxValue, clampStep), parsedValue) < 0 ||
+      ops.compare(ops.subtract(parsedValue, clampStep), minValue!) >= 0
     )
-  ), [isDisabled, isReadOnly, minValue, maxValue, clampStep, parsedValue]);
+  ), [isDisabled, isReadOnly, minValue, maxValue, clampStep, parsedValue, ops]);
+
+  let validate = (value: string) => (
+    numberParser.isValidPartialNumber(value, toBound(minValue), toBound(maxValue)) ||
+    (allowsExpressions === true && isValidPartialExpression(numberParser, value, isPercentStyle))
+  );
+
+  let setNumberValue = (value: number) => {
+    if (ops !== decimalOperations) {
+      setControlledValue(value);
+    } else {
+      setControlledValue(isNaN(value) ? '' : toDecimalString(value));
+    }
+  };
 
-  let validate = (value: string) => numberParser.isValidPartialNumber(value, minValue, maxValue);
+  let setDecimalValue = (value: string) => {
+    if (ops === decimalOperations) {
+      setControlledValue(value);
+    } else {
+      setControlledValue(value === '' ? NaN : Number(value));
+    }
+  };
 
+  let defaultStateValue = ops.isEmpty(defaultValue) ? initialValue : defaultValue;
   return {
     ...validation,
     validate,
@@ -274,17 +392,32 @@ export function useNumberFieldState(
     decrementToMin,
     canIncrement,
     canDecrement,
-    minValue,
-    maxValue,
-    numberValue: parsedValue,
-    defaultNumberValue: isNaN(defaultValue) ? initialValue : defaultValue,
+    minValue: toBound(minValue),
+    maxValue: toBound(maxValue),
+    numberValue: toNumber(parsedValue),
+    decimalValue: toDecimal(parsedValue),
+    defaultNumberValue: toNumber(defaultStateValue),
+    defaultDecimalValue: toDecimal(defaultStateValue),
     setNumberValue,
-    setInputValue,
+    setDecimalValue,
+    setInputValue: updateInputValue,
     inputValue,
     commit
   };
 }
 
+function toNumber(value: NumberFieldValue): number {
+  return value === '' ? NaN : Number(value);
+}
+
+function toDecimal(value: NumberFieldValue): string {
+  return value === '' || (typeof value === 'number' && isNaN(value)) ? '' : toDecimalString(value);
+}
+
+function toBound(value: Bound): number | undefined {
+  return value == null ? undefined : Number(value);
+}
+
 function handleDecimalOperation(operator: '-' | '+', value1: number, value2: number): number {
   let result = operator === '+' ? value1 + value2 : value1 - value2;
 
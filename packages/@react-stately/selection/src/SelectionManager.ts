@@ -493,8 +493,9 @@ export class SelectionManager implements MultipleSelectionManager {
       return false;
     }
 
+    // Group header rows in a table are structural, and cannot be selected.
     let item = this.collection.getItem(key);
-    if (!item || item?.props?.isDisabled || (item.type === 'cell' && !this.allowsCellSelection)) {
+    if (!item || item?.props?.isDisabled || item.props?.isGroupHeader || (item.type === 'cell' && !this.allowsCellSelection)) {
       return false;
     }
 
@@ -89,8 +89,9 @@ export class TableColumnLayout<T> {
       if (column.key === col) {
         newWidths.set(column.key, width);
         freeze = false;
-      } else if (freeze) {
+      } else if (freeze || column.props.isPinned) {
         // freeze columns to the left to their previous pixel value
+        // columns pinned to an edge are also frozen so that they don't change size while resizing other columns
         newWidths.set(column.key, prevColumnWidths.get(column.key) ?? 0);
       } else {
         newWidths.set(column.key, column.props.width ?? uncontrolledWidths.get(column.key));
@@ -0,0 +1,185 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {GridNode} from '@react-types/grid';
+import {Key} from '@react-types/shared';
+import {NumberFormatter} from '@internationalized/number';
+import {ReactNode} from 'react';
+import {TableAggregate} from '@react-types/table';
+
+interface GroupRowsOptions<T> {
+  groupBy: Key,
+  aggregates?: {[columnKey: Key]: TableAggregate<T>},
+  /** The key of the column for each cell index, or null for the selection checkbox and drag button cells. */
+  columnKeys: (Key | null)[],
+  /** The locale used to format row counts and aggregate values. */
+  locale: string
+}
+
+/**
+ * Groups rows by the value of a column, nesting them under group header rows.
+ * Group header rows display the group value and row count in the first column, and any aggregate values in the other columns.
+ */
+export function groupRows<T>(rows: GridNode<T>[], opts: GroupRowsOptions<T>): GridNode<T>[] {
+  let {groupBy, aggregates, columnKeys, locale} = opts;
+  let formatter = new NumberFormatter(locale);
+  let usedKeys = new Set<Key>();
+  let addKeys = (node: GridNode<T>) => {
+    usedKeys.add(node.key);
+    for (let child of node.childNodes) {
+      addKeys(child);
+    }
+  };
+
+  for (let row of rows) {
+    addKeys(row);
+  }
+
+  let groups = new Map<string, GridNode<T>[]>();
+  for (let row of rows) {
+    let value = String(getCellValue(row, groupBy, columnKeys) ?? '');
+    let group = groups.get(value);
+    if (!group) {
+      group = [];
+      groups.set(value, group);
+    }
+
+    group.push(row);
+  }
+
+  let groupRows: GridNode<T>[] = [];
+  for (let [value, rows] of groups) {
+    let key = getUniqueKey(`group:${encodeKey(groupBy)}:${encodeKey(value)}`, usedKeys);
+    let templateCells = [...rows[0].childNodes].filter(child => child.type === 'cell') as GridNode<T>[];
+    let labelIndex = templateCells.findIndex(cell => columnKeys[cell.index] != null);
+    let cells = templateCells.map((cell, i): GridNode<T> => {
+      let columnKey = columnKeys[cell.index];
+      let rendered: ReactNode = null;
+      if (i === labelIndex) {
+        rendered = `${value} (${formatter.format(rows.length)})`;
+      } else if (columnKey != null && aggregates?.[columnKey]) {
+        rendered = aggregate(aggregates[columnKey], rows.map(row => getCellValue(row, columnKey, columnKeys)), rows);
+        if (typeof rendered === 'number') {
+          rendered = formatter.format(rendered);
+        }
+      }
+
+      return {
+        type: 'cell',
+        key: getUniqueKey(`${key}:${encodeKey(columnKey ?? cell.key)}`, usedKeys),
+        value: null,
+        rendered,
+        textValue: typeof rendered === 'string' || typeof rendered === 'number' ? String(rendered) : '',
+        level: cell.level,
+        index: cell.index,
+        colIndex: cell.colIndex,
+        colSpan: cell.colSpan,
+        hasChildNodes: false,
+        childNodes: [],
+        parentKey: key,
+        // Group header rows cannot be selected or dragged, so their selection checkbox and drag button cells are empty.
+        props: {}
+      };
+    });
+
+    groupRows.push({
+      type: 'item',
+      key,
+      value: null,
+      rendered: null,
+      textValue: value,
+      level: rows[0].level,
+      index: groupRows.length,
+      indexOfType: groupRows.length,
+      hasChildNodes: true,
+      childNodes: [...cells, ...rows.map((row, index) => nestRow(row, key, index))],
+      parentKey: rows[0].parentKey,
+      props: {
+        isGroupHeader: true,
+        // Group header rows are expandable in the same way as rows with child items.
+        UNSTABLE_childItems: rows.map(row => row.value)
+      }
+    });
+  }
+
+  return groupRows;
+}
+
+// Escapes the separator so that keys built from different values cannot be the same.
+function encodeKey(key: Key): string {
+  return encodeURIComponent(String(key));
+}
+
+// Returns a key based on the given key that is not used by any row or cell in the table.
+function getUniqueKey(key: string, usedKeys: Set<Key>): string {
+  let uniqueKey = key;
+  for (let i = 1; usedKeys.has(uniqueKey); i++) {
+    uniqueKey = `${key}:${i}`;
+  }
+
+  usedKeys.add(uniqueKey);
+  return uniqueKey;
+}
+
+// Clones the row and its child rows one level deeper, so the nodes provided by the collection builder aren't modified.
+function nestRow<T>(row: GridNode<T>, parentKey: Key, index: number): GridNode<T> {
+  let childRowIndex = 0;
+  return {
+    ...row,
+    parentKey,
+    index,
+    level: row.level + 1,
+    childNodes: [...row.childNodes].map(child => child.type === 'item' ? nestRow(child, row.key, childRowIndex++) : child)
+  };
+}
+
+function getCellValue<T>(row: GridNode<T>, columnKey: Key, columnKeys: (Key | null)[]): unknown {
+  // Use the value from the row's item if available, otherwise the text of the cell.
+  let item = row.value;
+  if (item && typeof item === 'object' && columnKey in item) {
+    return (item as Record<Key, unknown>)[columnKey];
+  }
+
+  for (let cell of row.childNodes) {
+    if (cell.type === 'cell' && columnKeys[cell.index] === columnKey) {
+      return cell.textValue;
+    }
+  }
+
+  return null;
+}
+
+function aggregate<T>(aggregate: TableAggregate<T>, values: unknown[], rows: GridNode<T>[]): ReactNode {
+  if (typeof aggregate === 'function') {
+    return aggregate(values, rows.map(row => row.value as T));
+  }
+
+  if (aggregate === 'count') {
+    return values.length;
+  }
+
+  let numbers = values.filter(value => value != null && value !== '').map(value => Number(value)).filter(value => !isNaN(value));
+  if (numbers.length === 0) {
+    return null;
+  }
+
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((sum, value) => sum + value, 0);
+    case 'avg':
+      return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    case 'min':
+      return Math.min(...numbers);
+    case 'max':
+      return Math.max(...numbers);
+  }
+}
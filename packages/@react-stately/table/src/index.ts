@@ -11,11 +11,13 @@
  */
 
 export type {TableColumnResizeState, TableColumnResizeStateProps} from './useTableColumnResizeState';
+export type {TableColumnReorderState, TableColumnReorderStateProps} from './useTableColumnReorderState';
 export type {TableState, CollectionBuilderContext, TableStateProps} from './useTableState';
-export type {TableHeaderProps, TableBodyProps, ColumnProps, RowProps, CellProps} from '@react-types/table';
+export type {TableHeaderProps, TableBodyProps, ColumnProps, RowProps, CellProps, TableAggregate, TableGrouping} from '@react-types/table';
 export type {TreeGridState, TreeGridStateProps} from './useTreeGridState';
 
 export {useTableColumnResizeState} from './useTableColumnResizeState';
+export {useTableColumnReorderState} from './useTableColumnReorderState';
 export {useTableState, UNSTABLE_useFilteredTableState} from './useTableState';
 export {TableHeader} from './TableHeader';
 export {TableBody} from './TableBody';
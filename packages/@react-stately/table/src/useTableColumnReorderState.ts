@@ -0,0 +1,109 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {DroppableCollectionReorderEvent, DropPosition, Key} from '@react-types/shared';
+import {TableState} from './useTableState';
+import {useRef, useState} from 'react';
+
+export interface TableColumnReorderStateProps {
+  /**
+   * Handler that is called when a user reorders a column. The event includes the key of the moved column,
+   * and a `target` indicating whether it should be placed before or after another column.
+   */
+  onColumnReorder?: (e: DroppableCollectionReorderEvent) => void,
+  /** Handler that is called with the new order of the column keys when a user reorders a column. */
+  onColumnOrderChange?: (columnOrder: Key[]) => void
+}
+
+export interface TableColumnReorderState<T> {
+  /** The key of the column that is currently being dragged, or null if no column is being dragged. */
+  readonly draggingKey: Key | null,
+  /** Starts dragging the column with the given key. */
+  startDrag(key: Key): void,
+  /** Ends the current drag operation. */
+  endDrag(): void,
+  /**
+   * Returns where the dragged column would be inserted relative to the column with the given key,
+   * or null if the dragged column cannot be moved there.
+   */
+  getDropPosition(key: Key): Exclude<DropPosition, 'on'> | null,
+  /** Moves the dragged column to the given position relative to the column with the given key, and triggers the reorder handlers. */
+  moveColumn(key: Key, dropPosition: Exclude<DropPosition, 'on'>): void,
+  /** A reference to the table state. */
+  tableState: TableState<T>
+}
+
+/**
+ * Provides state management for reordering the columns of a table via drag and drop.
+ * Tracks the column that is being dragged, and computes the new column order when it is dropped.
+ * @param props - Props for the table.
+ * @param state - State for the table, as returned by `useTableState`.
+ */
+export function useTableColumnReorderState<T>(props: TableColumnReorderStateProps, state: TableState<T>): TableColumnReorderState<T> {
+  let {onColumnReorder, onColumnOrderChange} = props;
+  let [draggingKey, setDraggingKey] = useState<Key | null>(null);
+  // Drop targets are validated synchronously when a drag starts, before the state update is rendered.
+  let draggingKeyRef = useRef<Key | null>(null);
+  let collection = state.collection;
+
+  let getDropPosition = (key: Key) => {
+    let draggingKey = draggingKeyRef.current;
+    let dragging = draggingKey != null ? collection.getItem(draggingKey) : null;
+    let target = collection.getItem(key);
+    // Columns can only be moved between sibling columns within the same column group.
+    if (!dragging || !target || target.type !== 'column' || target.hasChildNodes || dragging.key === target.key || dragging.parentKey !== target.parentKey) {
+      return null;
+    }
+
+    // Dropping a column onto another takes its place, so the dragged column
+    // ends up after the target when moving forward, and before it when moving backward.
+    return dragging.index < target.index ? 'after' : 'before';
+  };
+
+  return {
+    draggingKey,
+    startDrag(key) {
+      draggingKeyRef.current = key;
+      setDraggingKey(key);
+    },
+    endDrag() {
+      draggingKeyRef.current = null;
+      setDraggingKey(null);
+    },
+    getDropPosition,
+    moveColumn(key, dropPosition) {
+      let draggingKey = draggingKeyRef.current;
+      if (draggingKey == null || draggingKey === key) {
+        return;
+      }
+
+      let columnOrder = collection.columns.map(column => column.key).filter(k => k !== draggingKey);
+      let index = columnOrder.indexOf(key);
+      if (index < 0) {
+        return;
+      }
+
+      columnOrder.splice(dropPosition === 'after' ? index + 1 : index, 0, draggingKey);
+      onColumnReorder?.({
+        keys: new Set([draggingKey]),
+        dropOperation: 'move',
+        target: {
+          type: 'item',
+          key,
+          dropPosition
+        }
+      });
+      onColumnOrderChange?.(columnOrder);
+    },
+    tableState: state
+  };
+}
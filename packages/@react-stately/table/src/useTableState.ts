@@ -10,9 +10,10 @@
  * governing permissions and limitations under the License.
  */
 
+import {CellRangeSelection} from '@react-types/grid';
+import {FilterResult, Key, Node, SelectionMode, Sortable, SortDescriptor, SortDirection} from '@react-types/shared';
 import {GridState, useGridState} from '@react-stately/grid';
 import {TableCollection as ITableCollection, TableBodyProps, TableHeaderProps} from '@react-types/table';
-import {Key, Node, SelectionMode, Sortable, SortDescriptor, SortDirection} from '@react-types/shared';
 import {MultipleSelectionState, MultipleSelectionStateProps} from '@react-stately/selection';
 import {ReactElement, useCallback, useMemo, useState} from 'react';
 import {TableCollection} from './TableCollection';
@@ -23,14 +24,23 @@ export interface TableState<T> extends GridState<T, ITableCollection<T>> {
   collection: ITableCollection<T>,
   /** Whether the row selection checkboxes should be displayed. */
   showSelectionCheckboxes: boolean,
-  /** The current sorted column and direction. */
+  /** The current sorted column and direction. When sorting by multiple columns, this is the primary sort. */
   sortDescriptor: SortDescriptor | null,
-  /** Calls the provided onSortChange handler with the provided column key and sort direction. */
-  sort(columnKey: Key, direction?: 'ascending' | 'descending'): void,
+  /** The columns the table is sorted by, in order of priority. */
+  sortDescriptors: SortDescriptor[],
+  /**
+   * Calls the provided onSortChange and onSortDescriptorsChange handlers with the provided column key and sort direction.
+   * If `isAdditive` is true and multiple sorting is supported, the column is added to the current sort rather than replacing it.
+   */
+  sort(columnKey: Key, direction?: 'ascending' | 'descending', isAdditive?: boolean): void,
   /** Whether keyboard navigation is disabled, such as when the arrow keys should be handled by a component within a cell. */
   isKeyboardNavigationDisabled: boolean,
   /** Set whether keyboard navigation is disabled, such as when the arrow keys should be handled by a component within a cell. */
-  setKeyboardNavigationDisabled: (val: boolean) => void
+  setKeyboardNavigationDisabled: (val: boolean) => void,
+  /** The key of the cell that is currently being edited, if any. Keyboard navigation is disabled while editing. */
+  editingKey: Key | null,
+  /** Sets the cell that is currently being edited, or null to stop editing. */
+  setEditingKey: (key: Key | null) => void
 }
 
 export interface CollectionBuilderContext<T> {
@@ -40,7 +50,7 @@ export interface CollectionBuilderContext<T> {
   columns: Node<T>[]
 }
 
-export interface TableStateProps<T> extends MultipleSelectionStateProps, Sortable {
+export interface TableStateProps<T> extends MultipleSelectionStateProps, Sortable, CellRangeSelection {
   /** The elements that make up the table. Includes the TableHeader, TableBody, Columns, and Rows. */
   children?: [ReactElement<TableHeaderProps<T>>, ReactElement<TableBodyProps<T>>],
   /** A list of row keys to disable. */
@@ -68,6 +78,7 @@ const OPPOSITE_SORT_DIRECTION = {
  */
 export function useTableState<T extends object>(props: TableStateProps<T>): TableState<T> {
   let [isKeyboardNavigationDisabled, setKeyboardNavigationDisabled] = useState(false);
+  let [editingKey, setEditingKey] = useState<Key | null>(null);
   let {selectionMode = 'none', showSelectionCheckboxes, showDragButtons} = props;
 
   let context = useMemo(() => ({
@@ -83,27 +94,63 @@ export function useTableState<T extends object>(props: TableStateProps<T>): Tabl
     useCallback((nodes) => new TableCollection(nodes, null, context), [context]),
     context
   );
-  let {disabledKeys, selectionManager} = useGridState({
+  let {disabledKeys, selectionManager, allowsCellSelection, cellSelection, selectedCells, setCellSelection} = useGridState({
     ...props,
     collection,
     disabledBehavior: props.disabledBehavior || 'selection'
   });
 
+  // Stop editing if the cell being edited is removed from the collection.
+  if (editingKey != null && !collection.getItem(editingKey)) {
+    editingKey = null;
+  }
+
+  let sortDescriptors = useMemo(() => props.sortDescriptors ?? (props.sortDescriptor ? [props.sortDescriptor] : []), [props.sortDescriptors, props.sortDescriptor]);
+  let sortDescriptor = props.sortDescriptor ?? sortDescriptors[0] ?? null;
+
   return {
     collection,
     disabledKeys,
     selectionManager,
     showSelectionCheckboxes: props.showSelectionCheckboxes || false,
-    sortDescriptor: props.sortDescriptor ?? null,
-    isKeyboardNavigationDisabled: collection.size === 0 || isKeyboardNavigationDisabled,
+    sortDescriptor,
+    sortDescriptors,
+    isKeyboardNavigationDisabled: collection.size === 0 || isKeyboardNavigationDisabled || editingKey != null,
     setKeyboardNavigationDisabled,
-    sort(columnKey: Key, direction?: 'ascending' | 'descending') {
-      props.onSortChange?.({
-        column: columnKey,
-        direction: direction ?? (props.sortDescriptor?.column === columnKey
-          ? OPPOSITE_SORT_DIRECTION[props.sortDescriptor.direction]
-          : 'ascending')
-      });
+    editingKey,
+    setEditingKey,
+    allowsCellSelection,
+    cellSelection,
+    selectedCells,
+    setCellSelection,
+    sort(columnKey: Key, direction?: 'ascending' | 'descending', isAdditive = false) {
+      let newDescriptors: SortDescriptor[];
+      isAdditive = isAdditive && !!props.onSortDescriptorsChange;
+      if (isAdditive) {
+        // Toggle the column in place if it is already sorted, otherwise add it as the lowest priority sort.
+        let existing = sortDescriptors.find(descriptor => descriptor.column === columnKey);
+        let newDescriptor = {
+          column: columnKey,
+          direction: direction ?? (existing ? OPPOSITE_SORT_DIRECTION[existing.direction] : 'ascending')
+        };
+        newDescriptors = existing
+          ? sortDescriptors.map(descriptor => descriptor === existing ? newDescriptor : descriptor)
+          : [...sortDescriptors, newDescriptor];
+      } else {
+        newDescriptors = [{
+          column: columnKey,
+          direction: direction ?? (sortDescriptor?.column === columnKey
+            ? OPPOSITE_SORT_DIRECTION[sortDescriptor.direction]
+            : 'ascending')
+        }];
+      }
+
+      // Additive sorts only change the primary sort when toggling its direction.
+      if (!isAdditive || newDescriptors[0] !== sortDescriptors[0]) {
+        props.onSortChange?.(newDescriptors[0]);
+      }
+
+      props.onSortDescriptorsChange?.(newDescriptors);
     }
   };
 }
@@ -111,7 +158,7 @@ export function useTableState<T extends object>(props: TableStateProps<T>): Tabl
 /**
  * Filters a collection using the provided filter function and returns a new TableState.
  */
-export function UNSTABLE_useFilteredTableState<T extends object>(state: TableState<T>, filterFn: ((nodeValue: string, node: Node<T>) => boolean) | null | undefined): TableState<T> {
+export function UNSTABLE_useFilteredTableState<T extends object>(state: TableState<T>, filterFn: ((nodeValue: string, node: Node<T>) => FilterResult) | null | undefined): TableState<T> {
   let collection = useMemo(() => filterFn ? state.collection.filter!(filterFn) : state.collection, [state.collection, filterFn]) as ITableCollection<T>;
   let selectionManager = state.selectionManager.withCollection(collection);
   // TODO: handle focus key reset? That logic is in useGridState
@@ -12,8 +12,10 @@
 
 import {CollectionBuilder} from '@react-stately/collections';
 import {GridNode} from '@react-types/grid';
+import {groupRows} from './groupRows';
 import {Key} from '@react-types/shared';
 import {ReactElement, useMemo} from 'react';
+import {TableAggregate, TableGrouping} from '@react-types/table';
 import {TableCollection} from './TableCollection';
 import {tableNestedRows} from '@react-stately/flags';
 import {TableState, TableStateProps, useTableState} from './useTableState';
@@ -30,13 +32,18 @@ export interface TreeGridState<T> extends TableState<T> {
   userColumnCount: number
 }
 
-export interface TreeGridStateProps<T> extends Omit<TableStateProps<T>, 'collection'> {
+export interface TreeGridStateProps<T> extends Omit<TableStateProps<T>, 'collection'>, TableGrouping<T> {
   /** The currently expanded keys in the collection (controlled). */
   UNSTABLE_expandedKeys?: 'all' | Iterable<Key>,
   /** The initial expanded keys in the collection (uncontrolled). */
   UNSTABLE_defaultExpandedKeys?: 'all' | Iterable<Key>,
   /** Handler that is called when items are expanded or collapsed. */
-  UNSTABLE_onExpandedChange?: (keys: Set<Key>) => any
+  UNSTABLE_onExpandedChange?: (keys: Set<Key>) => any,
+  /**
+   * The locale used to format row counts and aggregate values in group header rows.
+   * @default 'en-US'
+   */
+  locale?: string
 }
 
 /**
@@ -51,6 +58,9 @@ export function UNSTABLE_useTreeGridState<T extends object>(props: TreeGridState
     UNSTABLE_expandedKeys: propExpandedKeys,
     UNSTABLE_defaultExpandedKeys: propDefaultExpandedKeys,
     UNSTABLE_onExpandedChange,
+    UNSTABLE_groupBy,
+    UNSTABLE_aggregates,
+    locale = 'en-US',
     children
   } = props;
 
@@ -75,8 +85,9 @@ export function UNSTABLE_useTreeGridState<T extends object>(props: TreeGridState
   let builder = useMemo(() => new CollectionBuilder<T>(), []);
   let nodes = useMemo(() => builder.build({children: children as ReactElement<any>[]}, context), [builder, children, context]);
   let treeGridCollection = useMemo(() => {
-    return generateTreeGridCollection<T>(nodes, {showSelectionCheckboxes, showDragButtons, expandedKeys});
-  }, [nodes, showSelectionCheckboxes, showDragButtons, expandedKeys]);
+    // Selection checkbox cells are only added to rows when selection is enabled.
+    return generateTreeGridCollection<T>(nodes, {showSelectionCheckboxes: context.showSelectionCheckboxes, showDragButtons, expandedKeys, groupBy: UNSTABLE_groupBy, aggregates: UNSTABLE_aggregates, locale});
+  }, [nodes, context.showSelectionCheckboxes, showDragButtons, expandedKeys, UNSTABLE_groupBy, UNSTABLE_aggregates, locale]);
 
   let onToggle = (key: Key) => {
     setExpandedKeys(toggleKey(expandedKeys, key, treeGridCollection));
@@ -123,10 +134,13 @@ function convertExpanded(expanded: 'all' | Iterable<Key>): 'all' | Set<Key> {
     : new Set(expanded);
 }
 
-interface TreeGridCollectionOptions {
+interface TreeGridCollectionOptions<T> {
   showSelectionCheckboxes?: boolean,
   showDragButtons?: boolean,
-  expandedKeys: 'all' | Set<Key>
+  expandedKeys: 'all' | Set<Key>,
+  groupBy?: Key | null,
+  aggregates?: {[columnKey: Key]: TableAggregate<T>},
+  locale: string
 }
 
 interface TreeGridCollection<T> {
@@ -135,7 +149,7 @@ interface TreeGridCollection<T> {
   flattenedRows: GridNode<T>[],
   userColumnCount: number
 }
-function generateTreeGridCollection<T>(nodes, opts: TreeGridCollectionOptions): TreeGridCollection<T> {
+function generateTreeGridCollection<T>(nodes, opts: TreeGridCollectionOptions<T>): TreeGridCollection<T> {
   let {
     expandedKeys = new Set()
   } = opts;
@@ -145,14 +159,17 @@ function generateTreeGridCollection<T>(nodes, opts: TreeGridCollectionOptions):
   let columnCount = 0;
   let userColumnCount = 0;
   let originalColumns: GridNode<T>[] = [];
+  let columnKeys: (Key | null)[] = [];
   let keyMap = new Map();
 
   if (opts?.showSelectionCheckboxes) {
     columnCount++;
+    columnKeys.push(null);
   }
 
   if (opts?.showDragButtons) {
     columnCount++;
+    columnKeys.push(null);
   }
 
   let topLevelRows: GridNode<T>[] = [];
@@ -165,6 +182,7 @@ function generateTreeGridCollection<T>(nodes, opts: TreeGridCollectionOptions):
       case 'column':
         if (!node.hasChildNodes) {
           userColumnCount++;
+          columnKeys.push(node.key);
         }
         break;
       case 'item':
@@ -186,6 +204,10 @@ function generateTreeGridCollection<T>(nodes, opts: TreeGridCollectionOptions):
 
   columnCount += userColumnCount;
 
+  if (opts.groupBy != null) {
+    topLevelRows = groupRows(topLevelRows, {groupBy: opts.groupBy, aggregates: opts.aggregates, columnKeys, locale: opts.locale});
+  }
+
   // Update each grid node in the treegrid table with values specific to a treegrid structure. Also store a set of flattened row nodes for TableCollection to consume
   let globalRowCount = 0;
   let visitNode = (node: GridNode<T>, i?: number) => {
@@ -207,5 +207,27 @@ describe('TableUtils', () => {
       expect(columns).toStrictEqual(new Map([['name', 100], ['type', 100], ['height', 150], ['weight', 150], ['level', 400]]));
 
     });
+
+    it('keeps the width of pinned columns when resizing', () => {
+      let layout = new TableColumnLayout({
+        getDefaultWidth: () => 150,
+        getDefaultMinWidth: () => 50
+      });
+      let collection = {columns: [{key: 'name', props: {width: '1fr', isPinned: 'start'}}, {key: 'type', props: {width: '1fr'}}, {key: 'height', props: {}}, {key: 'level', props: {width: '2fr', isPinned: 'end'}}]};
+      let columns = layout.buildColumnWidths(
+        1000,
+        collection,
+        new Map([['name', '1fr'], ['type', '1fr'], ['height', 200], ['level', '2fr']])
+      );
+      expect(columns).toStrictEqual(new Map([['name', 200], ['type', 200], ['height', 200], ['level', 400]]));
+
+      let resizedColumns = layout.resizeColumnWidth(
+        collection,
+        new Map([['height', 200]]),
+        'type',
+        100
+      );
+      expect(resizedColumns).toStrictEqual(new Map([['name', 200], ['type', 100], ['height', 200], ['level', 400]]));
+    });
   });
 });
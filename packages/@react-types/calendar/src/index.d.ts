@@ -11,7 +11,7 @@
  */
 
 import {AriaLabelingProps, DOMProps, RangeValue, StyleProps, ValidationState, ValueBase} from '@react-types/shared';
-import type {CalendarDate, CalendarDateTime, CalendarIdentifier, Calendar as ICalendar, ZonedDateTime} from '@internationalized/date';
+import type {CalendarDate, CalendarDateTime, CalendarIdentifier, Calendar as ICalendar, WorkingCalendar, ZonedDateTime} from '@internationalized/date';
 import {ReactNode} from 'react';
 
 export type DateValue = CalendarDate | CalendarDateTime | ZonedDateTime;
@@ -28,6 +28,11 @@ export interface CalendarPropsBase {
   maxValue?: DateValue | null,
   /** Callback that is called for each date of the calendar. If it returns true, then the date is unavailable. */
   isDateUnavailable?: (date: DateValue) => boolean,
+  /**
+   * A working calendar that determines which dates are business days.
+   * Weekends and holidays in the working calendar are unavailable, in addition to dates for which `isDateUnavailable` returns true.
+   */
+  workingCalendar?: WorkingCalendar,
   /**
    * Whether the calendar is disabled.
    * @default false
@@ -66,7 +71,14 @@ export interface CalendarPropsBase {
   /**
    * The day that starts the week.
    */
-  firstDayOfWeek?: 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat'
+  firstDayOfWeek?: 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat',
+  /**
+   * The unit of time selected when the user selects a date. When set to `week`, selecting a day selects the
+   * entire week containing it. When set to `month`, `quarter`, or `year`, the calendar displays a grid of
+   * months, quarters, or years instead of days.
+   * @default 'day'
+   */
+  selectionGranularity?: CalendarSelectionGranularity
 }
 
 export type DateRange = RangeValue<DateValue> | null;
@@ -76,7 +88,12 @@ export interface RangeCalendarProps<T extends DateValue> extends CalendarPropsBa
    * When combined with `isDateUnavailable`, determines whether non-contiguous ranges,
    * i.e. ranges containing unavailable dates, may be selected.
    */
-  allowsNonContiguousRanges?: boolean
+  allowsNonContiguousRanges?: boolean,
+  /**
+   * A secondary date range to display alongside the selected range, e.g. the previous period
+   * in an analytics report. It is highlighted distinctly and cannot be changed by the user.
+   */
+  comparisonValue?: RangeValue<DateValue> | null
 }
 
 export interface AriaCalendarProps<T extends DateValue> extends CalendarProps<T>, DOMProps, AriaLabelingProps {}
@@ -84,6 +101,7 @@ export interface AriaCalendarProps<T extends DateValue> extends CalendarProps<T>
 export interface AriaRangeCalendarProps<T extends DateValue> extends RangeCalendarProps<T>, DOMProps, AriaLabelingProps {}
 
 export type PageBehavior = 'single' | 'visible';
+export type CalendarSelectionGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
 
 export interface SpectrumCalendarProps<T extends DateValue> extends AriaCalendarProps<T>, StyleProps {
   /**
@@ -34,12 +34,12 @@ import {ReactNode} from 'react';
 import {SliderProps} from '@react-types/slider';
 
 /** A list of supported color formats. */
-export type ColorFormat = 'hex' | 'hexa' | 'rgb' | 'rgba' | 'hsl' | 'hsla' | 'hsb' | 'hsba';
+export type ColorFormat = 'hex' | 'hexa' | 'rgb' | 'rgba' | 'hsl' | 'hsla' | 'hsb' | 'hsba' | 'oklch' | 'oklab' | 'display-p3';
 
-export type ColorSpace = 'rgb' | 'hsl' | 'hsb';
+export type ColorSpace = 'rgb' | 'hsl' | 'hsb' | 'oklch' | 'oklab' | 'display-p3';
 
 /** A list of color channels. */
-export type ColorChannel = 'hue' | 'saturation' | 'brightness' | 'lightness' | 'red' | 'green' | 'blue' | 'alpha';
+export type ColorChannel = 'hue' | 'saturation' | 'brightness' | 'lightness' | 'chroma' | 'a' | 'b' | 'red' | 'green' | 'blue' | 'alpha';
 
 export type ColorAxes = {xChannel: ColorChannel, yChannel: ColorChannel, zChannel: ColorChannel};
 
@@ -92,7 +92,7 @@ export interface Color {
    */
   formatChannelValue(channel: ColorChannel, locale: string): string,
   /**
-   * Returns the color space, 'rgb', 'hsb' or 'hsl', for the current color.
+   * Returns the color space, 'rgb', 'hsb', 'hsl', 'oklch', 'oklab' or 'display-p3', for the current color.
    */
   getColorSpace(): ColorSpace,
   /**
@@ -110,9 +110,27 @@ export interface Color {
   /**
    * Returns a localized name for the hue, for use in visual or accessibility labels.
    */
-  getHueName(locale: string): string
+  getHueName(locale: string): string,
+  /**
+   * Returns the relative luminance of the color, between 0 for the darkest black and 1 for the lightest white.
+   * See [WCAG 2.2](https://www.w3.org/TR/WCAG22/#dfn-relative-luminance).
+   */
+  getLuminance?(): number,
+  /**
+   * Returns the WCAG 2.x contrast ratio between the color and the given background color, from 1 to 21.
+   * If the color is transparent, it is composited over the background first.
+   */
+  getContrastRatio?(background: Color): number,
+  /**
+   * Returns the APCA lightness contrast (Lc) of the color as text displayed on the given background color.
+   * Positive values indicate dark text on a light background, and negative values indicate light text on a dark background.
+   */
+  getAPCAContrast?(background: Color): number
 }
 
+/** The algorithm used to compute the contrast between two colors. */
+export type ColorContrastAlgorithm = 'wcag2' | 'apca';
+
 export interface ColorFieldProps extends Omit<ValueBase<string | Color | null>, 'onChange'>, InputBase, Validation<Color | null>, FocusableProps, TextInputBase, LabelableProps, HelpTextProps {
   /** Handler that is called when the value changes. */
   onChange?: (color: Color | null) => void
@@ -197,7 +215,22 @@ export interface ColorAreaProps extends Omit<ValueBase<string | Color>, 'onChang
   /** Handler that is called when the value changes, as the user drags. */
   onChange?: (value: Color) => void,
   /** Handler that is called when the user stops dragging. */
-  onChangeEnd?: (value: Color) => void
+  onChangeEnd?: (value: Color) => void,
+  /**
+   * A reference color to compute contrast against, e.g. a background color when choosing a text color.
+   * When provided, the color area computes contour lines where the contrast crosses each of the `contrastThresholds`.
+   */
+  contrastColor?: string | Color,
+  /**
+   * The algorithm used to compute contrast against the `contrastColor`.
+   * @default 'wcag2'
+   */
+  contrastAlgorithm?: ColorContrastAlgorithm,
+  /**
+   * The contrast values to compute contour lines for. Defaults to the WCAG AA large text, AA and AAA thresholds (3, 4.5 and 7),
+   * or the APCA Lc 45, 60 and 75 thresholds when `contrastAlgorithm` is 'apca'.
+   */
+  contrastThresholds?: number[]
 }
 
 export interface AriaColorAreaProps extends ColorAreaProps, DOMProps, AriaLabelingProps {
@@ -25,7 +25,7 @@ import {
   Validation,
   ValueBase
 } from '@react-types/shared';
-import {CalendarDate, CalendarDateTime, CalendarIdentifier, Calendar as ICalendar, Time, ZonedDateTime} from '@internationalized/date';
+import {CalendarDate, CalendarDateTime, CalendarIdentifier, DateTimeDuration, Calendar as ICalendar, Time, ZonedDateTime} from '@internationalized/date';
 import {OverlayTriggerProps} from '@react-types/overlays';
 import {PageBehavior} from '@react-types/calendar';
 
@@ -93,6 +93,19 @@ export interface AriaDatePickerProps<T extends DateValue> extends DatePickerProp
 }
 
 export type DateRange = RangeValue<DateValue>;
+
+export interface DateRangePreset {
+  /** A unique id for the preset. */
+  id: string,
+  /** The label for the preset, e.g. "Last 7 days". */
+  label: string,
+  /**
+   * Returns the date range for the preset. It receives today's date in the date range picker's time zone,
+   * so presets such as "This quarter" stay relative to when they are selected.
+   */
+  getValue: (today: CalendarDate) => DateRange
+}
+
 export interface DateRangePickerProps<T extends DateValue> extends Omit<DatePickerBase<T>, 'validate'>, Validation<RangeValue<MappedDateValue<T>>>, ValueBase<RangeValue<T> | null, RangeValue<MappedDateValue<T>> | null> {
   /**
    * When combined with `isDateUnavailable`, determines whether non-contiguous ranges,
@@ -106,7 +119,14 @@ export interface DateRangePickerProps<T extends DateValue> extends Omit<DatePick
   /**
    * The name of the end date input element, used when submitting an HTML form. See [MDN](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/input#htmlattrdefname).
    */
-  endName?: string
+  endName?: string,
+  /** A list of preset date ranges that the user can choose from, e.g. "Last 7 days" or "This quarter". */
+  presets?: DateRangePreset[],
+  /**
+   * A secondary date range to display in the calendar alongside the selected range, e.g. the previous period
+   * in an analytics report. It is highlighted distinctly and cannot be changed by the user.
+   */
+  comparisonValue?: DateRange | null
 }
 
 export interface AriaDateRangePickerProps<T extends DateValue> extends Omit<AriaDatePickerBaseProps<T>, 'validate'>, DateRangePickerProps<T> {}
@@ -192,3 +212,26 @@ export interface SpectrumTimeFieldProps<T extends TimeValue> extends Omit<AriaTi
 
 // backward compatibility
 export type SpectrumTimePickerProps<T extends TimeValue> = SpectrumTimeFieldProps<T>;
+
+export type DurationGranularity = 'years' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds';
+
+export interface DurationFieldProps extends InputBase, Validation<DateTimeDuration>, FocusableProps, LabelableProps, HelpTextProps, ValueBase<DateTimeDuration | null> {
+  /**
+   * The largest unit that is displayed in the duration field. Values are balanced into the displayed units,
+   * e.g. 90 minutes is displayed as 1 hour and 30 minutes. Weeks are only displayed when they are the
+   * largest or smallest unit.
+   * @default 'days'
+   */
+  maxGranularity?: DurationGranularity,
+  /**
+   * The smallest unit that is displayed in the duration field.
+   * @default 'minutes'
+   */
+  granularity?: DurationGranularity,
+  /** The minimum allowed duration that a user may enter. */
+  minValue?: DateTimeDuration | null,
+  /** The maximum allowed duration that a user may enter. */
+  maxValue?: DateTimeDuration | null
+}
+
+export interface AriaDurationFieldProps extends DurationFieldProps, AriaLabelingProps, DOMProps, InputDOMProps {}
@@ -39,3 +39,24 @@ export interface GridNode<T> extends Node<T> {
   /** The index of this node within its parent, ignoring sibling nodes that aren't of the same type. */
   indexOfType?: number
 }
+
+export interface GridCellRange {
+  /** The key of the cell where the range selection started. */
+  anchorKey: Key,
+  /** The key of the cell where the range selection ends. The range includes all cells in the rectangle between the two. */
+  focusKey: Key
+}
+
+export interface CellRangeSelection {
+  /**
+   * Whether rectangular ranges of cells can be selected, e.g. by dragging or holding Shift while navigating.
+   * This is independent of row selection.
+   */
+  allowsCellSelection?: boolean,
+  /** The currently selected range of cells (controlled). */
+  cellSelection?: GridCellRange | null,
+  /** The initial selected range of cells (uncontrolled). */
+  defaultCellSelection?: GridCellRange | null,
+  /** Handler that is called when the selected range of cells changes. */
+  onCellSelectionChange?: (range: GridCellRange | null) => void
+}
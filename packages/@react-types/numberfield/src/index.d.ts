@@ -24,15 +24,33 @@ import {
   ValueBase
 } from '@react-types/shared';
 
-export interface NumberFieldProps extends InputBase, Validation<number>, FocusableProps, TextInputBase, ValueBase<number>, RangeInputBase<number>, LabelableProps, HelpTextProps {
+/**
+ * The type of value in a number field. Numbers are JavaScript numbers, and decimals are exact
+ * decimal strings such as "12345678901234567.89".
+ */
+export type NumberFieldValue = number | string;
+
+export interface NumberFieldProps<T extends NumberFieldValue = number> extends InputBase, Validation<T>, FocusableProps, TextInputBase, ValueBase<T>, RangeInputBase<T>, LabelableProps, HelpTextProps {
   /**
    * Formatting options for the value displayed in the number field.
    * This also affects what characters are allowed to be typed by the user.
    */
-  formatOptions?: Intl.NumberFormatOptions
+  formatOptions?: Intl.NumberFormatOptions,
+  /**
+   * Whether the value is a JavaScript number, or an exact decimal string. In `decimal` mode, values are
+   * parsed, stepped, and clamped without floating point rounding, and an empty value is represented as `''`.
+   * @default 'number'
+   */
+  valueType?: 'number' | 'decimal',
+  /**
+   * Whether the user can enter an arithmetic expression such as `=120*1.08` or `45+12`, which is evaluated
+   * when the field is blurred or the Enter key is pressed. Expressions may contain `+`, `-`, `*`, `/`,
+   * parentheses, and percentages. Not supported when `valueType` is `'decimal'`.
+   */
+  allowsExpressions?: boolean
 }
 
-export interface AriaNumberFieldProps extends NumberFieldProps, DOMProps, AriaLabelingProps, TextInputDOMEvents {
+export interface AriaNumberFieldProps<T extends NumberFieldValue = number> extends NumberFieldProps<T>, DOMProps, AriaLabelingProps, TextInputDOMEvents {
   /** A custom aria-label for the decrement button. If not provided, the localized string "Decrement" is used. */
   decrementAriaLabel?: string,
   /** A custom aria-label for the increment button. If not provided, the localized string "Increment" is used. */
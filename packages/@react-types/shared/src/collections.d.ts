@@ -82,7 +82,17 @@ export interface Sortable {
   /** The current sorted column and direction. */
   sortDescriptor?: SortDescriptor,
   /** Handler that is called when the sorted column or direction changes. */
-  onSortChange?: (descriptor: SortDescriptor) => any
+  onSortChange?: (descriptor: SortDescriptor) => any,
+  /**
+   * The columns the collection is sorted by, in order of priority. The first descriptor is the primary sort.
+   * Use this instead of `sortDescriptor` to sort by multiple columns.
+   */
+  sortDescriptors?: SortDescriptor[],
+  /**
+   * Handler that is called when the sorted columns or directions change. When provided, holding the
+   * Shift key while sorting a column adds it as an additional sort instead of replacing the current sort.
+   */
+  onSortDescriptorsChange?: (descriptors: SortDescriptor[]) => any
 }
 
 export interface SortDescriptor {
@@ -182,10 +192,35 @@ export interface Collection<T> extends Iterable<T> {
   /** Returns a string representation of the item's contents. */
   getTextValue?(key: Key): string,
 
-  /** Filters the collection using the given function. */
-  filter?(filterFn: (nodeValue: string, node: T) => boolean): Collection<T>
+  /**
+   * Filters the collection using the given function. If the function returns a scored match,
+   * items are ordered by descending score within their parent.
+   */
+  filter?(filterFn: (nodeValue: string, node: T) => FilterResult): Collection<T>
 }
 
+/** A range of characters within a string, from `start` (inclusive) to `end` (exclusive). */
+export interface TextRange {
+  /** The index of the first character in the range. */
+  start: number,
+  /** The index after the last character in the range. */
+  end: number
+}
+
+/** A scored match returned by a filter function. */
+export interface FilterMatch {
+  /** The relevance of the match. Higher scores are better matches. */
+  score: number,
+  /** The ranges of the text value that matched the filter. */
+  ranges: TextRange[]
+}
+
+/**
+ * The result of a collection filter function. A truthy result includes the node in
+ * the filtered collection, and a `FilterMatch` additionally ranks it by score.
+ */
+export type FilterResult = boolean | FilterMatch | null;
+
 export interface Node<T> {
   /** The type of item this node represents. */
   type: string,
@@ -223,5 +258,7 @@ export interface Node<T> {
   /** @private */
   shouldInvalidate?: (context: any) => boolean,
   /** A function that renders this node to a React Element in the DOM. */
-  render?: (node: Node<any>) => ReactElement
+  render?: (node: Node<any>) => ReactElement,
+  /** The scored match for this node, including the ranges of its `textValue` that matched, if the collection was filtered with a function that returns one. */
+  filterMatch?: FilterMatch | null
 }
@@ -11,7 +11,7 @@
  */
 
 import {AriaLabelingProps, AsyncLoadable, DOMProps, Key, LinkDOMProps, LoadingState, MultipleSelection, Sortable, SpectrumSelectionProps, StyleProps} from '@react-types/shared';
-import {GridCollection, GridNode} from '@react-types/grid';
+import {CellRangeSelection, GridCollection, GridNode} from '@react-types/grid';
 import {JSX, ReactElement, ReactNode} from 'react';
 
 /** Widths that result in a constant pixel value for the same Table width. */
@@ -25,7 +25,7 @@ export type ColumnDynamicSize = `${number}fr`; // match regex: /^(\d+)(?=fr$)/
 /** All possible sizes a column can be assigned. */
 export type ColumnSize = ColumnStaticSize | ColumnDynamicSize;
 
-export interface TableProps<T> extends MultipleSelection, Sortable {
+export interface TableProps<T> extends MultipleSelection, Sortable, CellRangeSelection {
   /** The elements that make up the table. Includes the TableHeader, TableBody, Columns, and Rows. */
   children: [ReactElement<TableHeaderProps<T>>, ReactElement<TableBodyProps<T>>],
   /** A list of row keys to disable. */
@@ -40,7 +40,37 @@ export interface TableProps<T> extends MultipleSelection, Sortable {
    */
   escapeKeyBehavior?: 'clearSelection' | 'none',
   /** Whether selection should occur on press up instead of press down. */
-  shouldSelectOnPressUp?: boolean
+  shouldSelectOnPressUp?: boolean,
+  /**
+   * Handler that is called when the user pastes tab separated values into the table while cell selection is enabled.
+   * The values are pasted starting from the top left of the selected range of cells.
+   */
+  onCellPaste?: (e: TableCellPasteEvent) => void
+}
+
+export interface TableCellPasteEvent {
+  /** The keys of the rows to paste into, from top to bottom. */
+  rowKeys: Key[],
+  /** The keys of the columns to paste into, from start to end. */
+  columnKeys: Key[],
+  /** The pasted values, grouped by row. The value at `values[i][j]` belongs to row `rowKeys[i]` and column `columnKeys[j]`. */
+  values: string[][]
+}
+
+/**
+ * How the values of a column are combined into a single value for a group of rows.
+ * A function receives the values of the column for each row in the group, along with the items of the rows.
+ */
+export type TableAggregate<T> = 'sum' | 'avg' | 'min' | 'max' | 'count' | ((values: unknown[], items: T[]) => ReactNode);
+
+export interface TableGrouping<T> {
+  /**
+   * The key of the column to group rows by. Rows with the same value in this column are nested under a group header row,
+   * which can be expanded and collapsed like other expandable rows.
+   */
+  UNSTABLE_groupBy?: Key | null,
+  /** Aggregate values to display in the group header row, by column key. */
+  UNSTABLE_aggregates?: {[columnKey: Key]: TableAggregate<T>}
 }
 
 /**
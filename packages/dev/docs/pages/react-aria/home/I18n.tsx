@@ -84,7 +84,9 @@ const calendars = [
   {key: 'hebrew', name: 'Hebrew'},
   {key: 'coptic', name: 'Coptic'},
   {key: 'ethiopic', name: 'Ethiopic'},
-  {key: 'ethioaa', name: 'Ethiopic (Amete Alem)'}
+  {key: 'ethioaa', name: 'Ethiopic (Amete Alem)'},
+  {key: 'chinese', name: 'Chinese'},
+  {key: 'dangi', name: 'Dangi'}
 ];
 
 function matchLocale(defaultLocale: string) {
@@ -17,6 +17,8 @@ import {
   useCalendar,
   useCalendarCell,
   useCalendarGrid,
+  useCalendarMonthGrid,
+  useCalendarYearGrid,
   useFocusRing,
   useHover,
   useLocale,
@@ -24,10 +26,10 @@ import {
   VisuallyHidden
 } from 'react-aria';
 import {ButtonContext} from './Button';
-import {CalendarDate, CalendarIdentifier, createCalendar, DateDuration, endOfMonth, Calendar as ICalendar, isSameDay, isSameMonth, isToday} from '@internationalized/date';
+import {CalendarDate, CalendarIdentifier, createCalendar, DateDuration, endOfMonth, Calendar as ICalendar, isSameDay, isSameMonth, isToday, today} from '@internationalized/date';
 import {CalendarState, RangeCalendarState, useCalendarState, useRangeCalendarState} from 'react-stately';
 import {ContextValue, DOMProps, Provider, RenderProps, SlotProps, StyleProps, useContextProps, useRenderProps, useSlottedContext} from './utils';
-import {DOMAttributes, FocusableElement, forwardRefType, GlobalDOMAttributes, HoverEvents} from '@react-types/shared';
+import {DOMAttributes, FocusableElement, forwardRefType, GlobalDOMAttributes, HoverEvents, RangeValue} from '@react-types/shared';
 import {filterDOMProps} from '@react-aria/utils';
 import {HeadingContext} from './RSPContexts';
 import React, {createContext, ForwardedRef, forwardRef, ReactElement, useContext, useRef} from 'react';
@@ -60,7 +62,8 @@ export interface RangeCalendarRenderProps extends Omit<CalendarRenderProps, 'sta
 export interface CalendarProps<T extends DateValue> extends Omit<AriaCalendarProps<T>, 'errorMessage' | 'validationState'>, RenderProps<CalendarRenderProps>, SlotProps, GlobalDOMAttributes<HTMLDivElement> {
   /**
    * The amount of days that will be displayed at once. This affects how pagination works.
-   * @default {months: 1}
+   * Defaults to one month, or one year when the `selectionGranularity` is `month` or `quarter`,
+   * and twelve years when it is `year`.
    */
   visibleDuration?: DateDuration,
 
@@ -75,7 +78,8 @@ export interface CalendarProps<T extends DateValue> extends Omit<AriaCalendarPro
 export interface RangeCalendarProps<T extends DateValue> extends Omit<AriaRangeCalendarProps<T>, 'errorMessage' | 'validationState'>, RenderProps<RangeCalendarRenderProps>, SlotProps, GlobalDOMAttributes<HTMLDivElement> {
   /**
    * The amount of days that will be displayed at once. This affects how pagination works.
-   * @default {months: 1}
+   * Defaults to one month, or one year when the `selectionGranularity` is `month` or `quarter`,
+   * and twelve years when it is `year`.
    */
   visibleDuration?: DateDuration,
 
@@ -247,7 +251,7 @@ export const RangeCalendar = /*#__PURE__*/ (forwardRef as forwardRefType)(functi
 export interface CalendarCellRenderProps {
   /** The date that the cell represents. */
   date: CalendarDate,
-  /** The day number formatted according to the current locale. */
+  /** The day number formatted according to the current locale, or the month, quarter, or year in a month or year grid. */
   formattedDate: string,
   /**
    * Whether the cell is currently hovered with a mouse.
@@ -265,12 +269,12 @@ export interface CalendarCellRenderProps {
    */
   isSelected: boolean,
   /**
-   * Whether the cell is the first date in a range selection.
+   * Whether the cell is the first date in a range selection, or in the selected week, month, quarter, or year.
    * @selector [data-selection-start]
    */
   isSelectionStart: boolean,
   /**
-   * Whether the cell is the last date in a range selection.
+   * Whether the cell is the last date in a range selection, or in the selected week, month, quarter, or year.
    * @selector [data-selection-end]
    */
   isSelectionEnd: boolean,
@@ -318,6 +322,21 @@ export interface CalendarCellRenderProps {
    * @selector [data-invalid]
    */
   isInvalid: boolean,
+  /**
+   * Whether the cell is within the comparison range of a range calendar.
+   * @selector [data-comparison]
+   */
+  isInComparisonRange: boolean,
+  /**
+   * Whether the cell is the first date in the comparison range.
+   * @selector [data-comparison-start]
+   */
+  isComparisonStart: boolean,
+  /**
+   * Whether the cell is the last date in the comparison range.
+   * @selector [data-comparison-end]
+   */
+  isComparisonEnd: boolean,
   /**
    * Whether the cell is today.
    * @selector [data-today]
@@ -343,67 +362,126 @@ export interface CalendarGridProps extends StyleProps, GlobalDOMAttributes<HTMLT
    * e.g. single letter, abbreviation, or full day name.
    * @default "narrow"
    */
-  weekdayStyle?: 'narrow' | 'short' | 'long'
+  weekdayStyle?: 'narrow' | 'short' | 'long',
+  /**
+   * Whether to display a column of week numbers before each week,
+   * according to the week numbering rules of the current locale.
+   */
+  showWeekNumbers?: boolean
 }
 
 interface InternalCalendarGridContextValue {
   headerProps: DOMAttributes<FocusableElement>,
   weekDays: string[],
   startDate: CalendarDate,
-  weeksInMonth: number
+  rowsInGrid: number,
+  weekNumbers: number[] | null,
+  isPeriodGrid: boolean
 }
 
 const InternalCalendarGridContext = createContext<InternalCalendarGridContextValue | null>(null);
 
 /**
  * A calendar grid displays a single grid of days within a calendar or range calendar which
- * can be keyboard navigated and selected by the user.
+ * can be keyboard navigated and selected by the user. When the calendar's `selectionGranularity`
+ * is `month`, `quarter`, or `year`, a grid of months, quarters, or years is displayed instead.
  */
 export const CalendarGrid = /*#__PURE__*/ (forwardRef as forwardRefType)(function CalendarGrid(props: CalendarGridProps, ref: ForwardedRef<HTMLTableElement>) {
   let calendarState = useContext(CalendarStateContext);
   let rangeCalendarState = useContext(RangeCalendarStateContext);
-  let calenderProps = useSlottedContext(CalendarContext)!;
-  let rangeCalenderProps = useSlottedContext(RangeCalendarContext)!;
   let state = calendarState ?? rangeCalendarState!;
   let startDate = state.visibleRange.start;
   if (props.offset) {
     startDate = startDate.add(props.offset);
   }
 
+  switch (state.selectionGranularity) {
+    case 'month':
+    case 'quarter':
+      return <CalendarMonthGrid {...props} state={state} startDate={startDate} gridRef={ref} />;
+    case 'year':
+      return <CalendarYearGrid {...props} state={state} startDate={startDate} gridRef={ref} />;
+    default:
+      return <CalendarDayGrid {...props} state={state} startDate={startDate} gridRef={ref} />;
+  }
+});
+
+interface InternalCalendarGridProps extends CalendarGridProps {
+  state: CalendarState | RangeCalendarState,
+  startDate: CalendarDate,
+  gridRef: ForwardedRef<HTMLTableElement>
+}
+
+function CalendarDayGrid({state, startDate, gridRef, ...props}: InternalCalendarGridProps) {
+  let calenderProps = useSlottedContext(CalendarContext)!;
+  let rangeCalenderProps = useSlottedContext(RangeCalendarContext)!;
   let firstDayOfWeek = calenderProps?.firstDayOfWeek ?? rangeCalenderProps?.firstDayOfWeek;
 
-  let {gridProps, headerProps, weekDays, weeksInMonth} = useCalendarGrid({
+  let {gridProps, headerProps, weekDays, weeksInMonth, weekNumbers} = useCalendarGrid({
     startDate,
     endDate: endOfMonth(startDate),
     weekdayStyle: props.weekdayStyle,
     firstDayOfWeek
   }, state);
 
-  let DOMProps = filterDOMProps(props, {global: true});
+  return (
+    <InternalCalendarGridContext.Provider
+      value={{
+        headerProps,
+        weekDays,
+        startDate,
+        rowsInGrid: weeksInMonth,
+        weekNumbers: props.showWeekNumbers ? weekNumbers : null,
+        isPeriodGrid: false
+      }}>
+      <CalendarGridTable {...props} gridProps={gridProps} gridRef={gridRef} />
+    </InternalCalendarGridContext.Provider>
+  );
+}
 
+function CalendarMonthGrid({state, startDate, gridRef, ...props}: InternalCalendarGridProps) {
+  let {gridProps, rowsInGrid} = useCalendarMonthGrid({startDate}, state);
   return (
-    <InternalCalendarGridContext.Provider value={{headerProps, weekDays, startDate, weeksInMonth}}>
-      <table
-        {...mergeProps(DOMProps, gridProps)}
-        ref={ref}
-        style={props.style}
-        cellPadding={0}
-        className={props.className ?? 'react-aria-CalendarGrid'}>
-        {typeof props.children !== 'function'
-          ? props.children
-          : (<>
-            <CalendarGridHeaderForwardRef>
-              {day => <CalendarHeaderCellForwardRef>{day}</CalendarHeaderCellForwardRef>}
-            </CalendarGridHeaderForwardRef>
-            <CalendarGridBodyForwardRef>
-              {props.children}
-            </CalendarGridBodyForwardRef>
-          </>)
-        }
-      </table>
+    <InternalCalendarGridContext.Provider value={{headerProps: {}, weekDays: [], startDate, rowsInGrid, weekNumbers: null, isPeriodGrid: true}}>
+      <CalendarGridTable {...props} gridProps={gridProps} gridRef={gridRef} />
     </InternalCalendarGridContext.Provider>
   );
-});
+}
+
+function CalendarYearGrid({state, startDate, gridRef, ...props}: InternalCalendarGridProps) {
+  let {gridProps, rowsInGrid} = useCalendarYearGrid({startDate}, state);
+  return (
+    <InternalCalendarGridContext.Provider value={{headerProps: {}, weekDays: [], startDate, rowsInGrid, weekNumbers: null, isPeriodGrid: true}}>
+      <CalendarGridTable {...props} gridProps={gridProps} gridRef={gridRef} />
+    </InternalCalendarGridContext.Provider>
+  );
+}
+
+function CalendarGridTable(props: CalendarGridProps & {gridProps: DOMAttributes, gridRef: ForwardedRef<HTMLTableElement>}) {
+  let {gridProps, gridRef} = props;
+  let DOMProps = filterDOMProps(props, {global: true});
+
+  return (
+    <table
+      {...mergeProps(DOMProps, gridProps)}
+      ref={gridRef}
+      style={props.style}
+      cellPadding={0}
+      className={props.className ?? 'react-aria-CalendarGrid'}>
+      {typeof props.children !== 'function'
+        ? props.children
+        : (<>
+          <CalendarGridHeaderForwardRef>
+            {day => <CalendarHeaderCellForwardRef>{day}</CalendarHeaderCellForwardRef>}
+          </CalendarGridHeaderForwardRef>
+          <CalendarGridBodyForwardRef>
+            {props.children}
+          </CalendarGridBodyForwardRef>
+        </>)
+      }
+    </table>
+  );
+}
 
 export interface CalendarGridHeaderProps extends StyleProps, GlobalDOMAttributes<HTMLTableSectionElement> {
   /** A function to render a `<CalendarHeaderCell>` for a weekday name. */
@@ -412,9 +490,14 @@ export interface CalendarGridHeaderProps extends StyleProps, GlobalDOMAttributes
 
 function CalendarGridHeader(props: CalendarGridHeaderProps, ref: ForwardedRef<HTMLTableSectionElement>) {
   let {children, style, className} = props;
-  let {headerProps, weekDays} = useContext(InternalCalendarGridContext)!;
+  let {headerProps, weekDays, weekNumbers, isPeriodGrid} = useContext(InternalCalendarGridContext)!;
   let DOMProps = filterDOMProps(props, {global: true});
 
+  // Month, quarter, and year grids do not have column headers.
+  if (isPeriodGrid) {
+    return null;
+  }
+
   return (
     <thead
       {...mergeProps(DOMProps, headerProps)}
@@ -422,6 +505,7 @@ function CalendarGridHeader(props: CalendarGridHeaderProps, ref: ForwardedRef<HT
       style={style}
       className={className || 'react-aria-CalendarGridHeader'}>
       <tr>
+        {weekNumbers && <th />}
         {weekDays.map((day, key) => React.cloneElement(children(day), {key}))}
       </tr>
     </thead>
@@ -456,17 +540,47 @@ function CalendarHeaderCell(props: CalendarHeaderCellProps, ref: ForwardedRef<HT
 const CalendarHeaderCellForwardRef = forwardRef(CalendarHeaderCell);
 export {CalendarHeaderCellForwardRef as CalendarHeaderCell};
 
+export interface CalendarWeekNumberCellProps extends DOMProps, GlobalDOMAttributes<HTMLTableHeaderCellElement> {}
+
+function CalendarWeekNumberCell(props: CalendarWeekNumberCellProps, ref: ForwardedRef<HTMLTableCellElement>) {
+  let {children, style, className} = props;
+  let DOMProps = filterDOMProps(props, {global: true});
+
+  // Week numbers are visual only. Each date cell is already labeled with the full date.
+  return (
+    <th
+      {...DOMProps}
+      ref={ref}
+      aria-hidden="true"
+      style={style}
+      className={className || 'react-aria-CalendarWeekNumberCell'}>
+      {children}
+    </th>
+  );
+}
+
+/**
+ * A calendar week number cell displays the week number at the start of a row within a calendar grid.
+ */
+const CalendarWeekNumberCellForwardRef = forwardRef(CalendarWeekNumberCell);
+export {CalendarWeekNumberCellForwardRef as CalendarWeekNumberCell};
+
 export interface CalendarGridBodyProps extends StyleProps, GlobalDOMAttributes<HTMLTableSectionElement> {
   /** A function to render a `<CalendarCell>` for a given date. */
-  children: (date: CalendarDate) => ReactElement
+  children: (date: CalendarDate) => ReactElement,
+  /**
+   * A function to render a `<CalendarWeekNumberCell>` for each week when the
+   * `CalendarGrid` has `showWeekNumbers` set.
+   */
+  weekNumber?: (weekNumber: number) => ReactElement
 }
 
 function CalendarGridBody(props: CalendarGridBodyProps, ref: ForwardedRef<HTMLTableSectionElement>) {
-  let {children, style, className} = props;
+  let {children, weekNumber, style, className} = props;
   let calendarState = useContext(CalendarStateContext);
   let rangeCalendarState = useContext(RangeCalendarStateContext);
   let state = calendarState ?? rangeCalendarState!;
-  let {startDate, weeksInMonth} = useContext(InternalCalendarGridContext)!;
+  let {startDate, rowsInGrid, weekNumbers} = useContext(InternalCalendarGridContext)!;
   let DOMProps = filterDOMProps(props, {global: true});
 
   return (
@@ -475,9 +589,14 @@ function CalendarGridBody(props: CalendarGridBodyProps, ref: ForwardedRef<HTMLTa
       ref={ref}
       style={style}
       className={className || 'react-aria-CalendarGridBody'}>
-      {[...new Array(weeksInMonth).keys()].map((weekIndex) => (
-        <tr key={weekIndex}>
-          {state.getDatesInWeek(weekIndex, startDate).map((date, i) => (
+      {[...new Array(rowsInGrid).keys()].map((rowIndex) => (
+        <tr key={rowIndex}>
+          {weekNumbers && (
+            weekNumber
+              ? weekNumber(weekNumbers[rowIndex])
+              : <CalendarWeekNumberCellForwardRef>{weekNumbers[rowIndex]}</CalendarWeekNumberCellForwardRef>
+          )}
+          {state.getDatesInRow(rowIndex, startDate).map((date, i) => (
             date
               ? React.cloneElement(children(date), {key: i})
               : <td key={i} />
@@ -506,9 +625,13 @@ export const CalendarCell = /*#__PURE__*/ (forwardRef as forwardRefType)(functio
   let calendarState = useContext(CalendarStateContext);
   let rangeCalendarState = useContext(RangeCalendarStateContext);
   let state = calendarState ?? rangeCalendarState!;
-  let {startDate: currentMonth} = useContext(InternalCalendarGridContext) ?? {startDate: state.visibleRange.start};
-  let isOutsideMonth = !isSameMonth(currentMonth, date);
-  let istoday = isToday(date, state.timeZone);
+  let {startDate: currentMonth, isPeriodGrid} = useContext(InternalCalendarGridContext) ?? {startDate: state.visibleRange.start, isPeriodGrid: false};
+  let cellRange = isPeriodGrid ? state.getSelectionPeriod(date) : {start: date, end: date};
+  let isOutsideMonth = !isPeriodGrid && !isSameMonth(currentMonth, date);
+  let todayDate = today(state.timeZone);
+  let istoday = isPeriodGrid
+    ? todayDate.compare(cellRange.start) >= 0 && todayDate.compare(cellRange.end) <= 0
+    : isToday(date, state.timeZone);
 
   let buttonRef = useRef<HTMLDivElement>(null);
   let {cellProps, buttonProps, ...states} = useCalendarCell(
@@ -522,11 +645,21 @@ export const CalendarCell = /*#__PURE__*/ (forwardRef as forwardRefType)(functio
   isFocusVisible &&= states.isFocused;
   let isSelectionStart = false;
   let isSelectionEnd = false;
-  if ('highlightedRange' in state && state.highlightedRange) {
-    isSelectionStart = isSameDay(date, state.highlightedRange.start);
-    isSelectionEnd = isSameDay(date, state.highlightedRange.end);
+  let selectedRange: RangeValue<CalendarDate> | null = null;
+  if ('highlightedRange' in state) {
+    selectedRange = state.highlightedRange;
+  } else if (state.value && state.selectionGranularity !== 'day') {
+    selectedRange = state.getSelectionPeriod(state.value);
+  }
+  if (selectedRange) {
+    isSelectionStart = isSameDay(cellRange.start, selectedRange.start);
+    isSelectionEnd = isSameDay(cellRange.end, selectedRange.end);
   }
 
+  let comparisonRange = 'comparisonRange' in state ? state.comparisonRange : null;
+  let isComparisonStart = Boolean(comparisonRange && isSameDay(cellRange.start, comparisonRange.start));
+  let isComparisonEnd = Boolean(comparisonRange && isSameDay(cellRange.end, comparisonRange.end));
+
   let renderProps = useRenderProps({
     ...otherProps,
     defaultChildren: states.formattedDate,
@@ -538,6 +671,8 @@ export const CalendarCell = /*#__PURE__*/ (forwardRef as forwardRefType)(functio
       isFocusVisible,
       isSelectionStart,
       isSelectionEnd,
+      isComparisonStart,
+      isComparisonEnd,
       isToday: istoday,
       ...states
     }
@@ -556,6 +691,9 @@ export const CalendarCell = /*#__PURE__*/ (forwardRef as forwardRefType)(functio
     'data-selection-start': isSelectionStart || undefined,
     'data-selection-end': isSelectionEnd || undefined,
     'data-invalid': states.isInvalid || undefined,
+    'data-comparison': states.isInComparisonRange || undefined,
+    'data-comparison-start': isComparisonStart || undefined,
+    'data-comparison-end': isComparisonEnd || undefined,
     'data-today': istoday || undefined
   };
 
@@ -9,7 +9,7 @@
  * OF ANY KIND, either express or implied. See the License for the specific language
  * governing permissions and limitations under the License.
  */
-import {CollectionBase, DropTargetDelegate, GlobalDOMAttributes, ItemDropTarget, Key, LayoutDelegate, RefObject} from '@react-types/shared';
+import {CollectionBase, DropTargetDelegate, GlobalDOMAttributes, ItemDropTarget, Key, LayoutDelegate, RefObject, TextRange} from '@react-types/shared';
 import {createBranchComponent, useCachedChildren} from '@react-aria/collections';
 import {Collection as ICollection, Node, SelectionBehavior, SelectionMode, SectionProps as SharedSectionProps} from 'react-stately';
 import React, {cloneElement, createContext, ForwardedRef, HTMLAttributes, isValidElement, JSX, ReactElement, ReactNode, useContext, useMemo} from 'react';
@@ -78,7 +78,13 @@ export interface ItemRenderProps {
    * @note This property is only available in collection components that support drag and drop.
    * @selector [data-drop-target]
    */
-  isDropTarget?: boolean
+  isDropTarget?: boolean,
+  /**
+   * The ranges of the item's text value that matched the current filter, e.g. in an Autocomplete or ComboBox.
+   * These can be rendered with a `<TextHighlight>`.
+   * @note This property is only available in collection components that support filtering.
+   */
+  matchedRanges?: TextRange[]
 }
 
 export interface SectionProps<T> extends Omit<SharedSectionProps<T>, 'children' | 'title'>, StyleProps, GlobalDOMAttributes<HTMLElement> {
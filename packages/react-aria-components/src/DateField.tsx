@@ -9,10 +9,10 @@
  * OF ANY KIND, either express or implied. See the License for the specific language
  * governing permissions and limitations under the License.
  */
-import {AriaDateFieldProps, AriaTimeFieldProps, DateValue, HoverEvents, mergeProps, TimeValue, useDateField, useDateSegment, useFocusRing, useHover, useLocale, useTimeField} from 'react-aria';
+import {AriaDateFieldProps, AriaDurationFieldProps, AriaTimeFieldProps, DateValue, HoverEvents, mergeProps, TimeValue, useDateField, useDateSegment, useDurationField, useFocusRing, useHover, useLocale, useTimeField} from 'react-aria';
 import {ContextValue, Provider, RACValidation, removeDataAttributes, RenderProps, SlotProps, StyleRenderProps, useContextProps, useRenderProps, useSlot, useSlottedContext} from './utils';
 import {createCalendar} from '@internationalized/date';
-import {DateFieldState, DateSegmentType, DateSegment as IDateSegment, TimeFieldState, useDateFieldState, useTimeFieldState} from 'react-stately';
+import {DateFieldState, DateSegmentType, DurationFieldState, DateSegment as IDateSegment, TimeFieldState, useDateFieldState, useDurationFieldState, useTimeFieldState} from 'react-stately';
 import {FieldErrorContext} from './FieldError';
 import {filterDOMProps, useObjectRef} from '@react-aria/utils';
 import {FormContext} from './Form';
@@ -43,10 +43,30 @@ export interface DateFieldRenderProps {
 export interface DateFieldProps<T extends DateValue> extends Omit<AriaDateFieldProps<T>, 'label' | 'description' | 'errorMessage' | 'validationState' | 'validationBehavior'>, RACValidation, RenderProps<DateFieldRenderProps>, SlotProps, GlobalDOMAttributes<HTMLDivElement> {}
 export interface TimeFieldProps<T extends TimeValue> extends Omit<AriaTimeFieldProps<T>, 'label' | 'description' | 'errorMessage' | 'validationState' | 'validationBehavior'>, RACValidation, RenderProps<DateFieldRenderProps>, SlotProps, GlobalDOMAttributes<HTMLDivElement> {}
 
+export interface DurationFieldRenderProps {
+  /**
+   * State of the duration field.
+   */
+  state: DurationFieldState,
+  /**
+   * Whether the duration field is invalid.
+   * @selector [data-invalid]
+   */
+  isInvalid: boolean,
+  /**
+   * Whether the duration field is disabled.
+   * @selector [data-disabled]
+   */
+  isDisabled: boolean
+}
+export interface DurationFieldProps extends Omit<AriaDurationFieldProps, 'label' | 'description' | 'errorMessage' | 'validationState' | 'validationBehavior'>, RACValidation, RenderProps<DurationFieldRenderProps>, SlotProps, GlobalDOMAttributes<HTMLDivElement> {}
+
 export const DateFieldContext = createContext<ContextValue<DateFieldProps<any>, HTMLDivElement>>(null);
 export const TimeFieldContext = createContext<ContextValue<TimeFieldProps<any>, HTMLDivElement>>(null);
 export const DateFieldStateContext = createContext<DateFieldState | null>(null);
 export const TimeFieldStateContext = createContext<TimeFieldState | null>(null);
+export const DurationFieldContext = createContext<ContextValue<DurationFieldProps, HTMLDivElement>>(null);
+export const DurationFieldStateContext = createContext<DurationFieldState | null>(null);
 
 /**
  * A date field allows users to enter and edit date and time values using a keyboard.
@@ -186,6 +206,72 @@ export const TimeField = /*#__PURE__*/ (forwardRef as forwardRefType)(function T
   );
 });
 
+/**
+ * A duration field allows users to enter and edit an amount of time, such as "2d 4h 30m", using a keyboard.
+ * Each unit of the duration is displayed in an individually editable segment.
+ */
+export const DurationField = /*#__PURE__*/ (forwardRef as forwardRefType)(function DurationField(props: DurationFieldProps, ref: ForwardedRef<HTMLDivElement>) {
+  [props, ref] = useContextProps(props, ref, DurationFieldContext);
+  let {validationBehavior: formValidationBehavior} = useSlottedContext(FormContext) || {};
+  let validationBehavior = props.validationBehavior ?? formValidationBehavior ?? 'native';
+  let {locale} = useLocale();
+  let state = useDurationFieldState({
+    ...props,
+    locale,
+    validationBehavior
+  });
+
+  let fieldRef = useRef<HTMLDivElement>(null);
+  let [labelRef, label] = useSlot(
+    !props['aria-label'] && !props['aria-labelledby']
+  );
+  let inputRef = useRef<HTMLInputElement>(null);
+  let {labelProps, fieldProps, inputProps, descriptionProps, errorMessageProps, ...validation} = useDurationField({
+    ...removeDataAttributes(props),
+    label,
+    inputRef,
+    validationBehavior
+  }, state, fieldRef);
+
+  let renderProps = useRenderProps({
+    ...removeDataAttributes(props),
+    values: {
+      state,
+      isInvalid: state.isInvalid,
+      isDisabled: state.isDisabled
+    },
+    defaultClassName: 'react-aria-DurationField'
+  });
+
+  let DOMProps = filterDOMProps(props, {global: true});
+  delete DOMProps.id;
+
+  return (
+    <Provider
+      values={[
+        [DurationFieldStateContext, state],
+        [GroupContext, {...fieldProps, ref: fieldRef, isInvalid: state.isInvalid, isDisabled: state.isDisabled}],
+        [InputContext, {...inputProps, ref: inputRef}],
+        [LabelContext, {...labelProps, ref: labelRef, elementType: 'span'}],
+        [TextContext, {
+          slots: {
+            description: descriptionProps,
+            errorMessage: errorMessageProps
+          }
+        }],
+        [FieldErrorContext, validation]
+      ]}>
+      <div
+        {...DOMProps}
+        {...renderProps}
+        ref={ref}
+        slot={props.slot || undefined}
+        data-invalid={state.isInvalid || undefined}
+        data-disabled={state.isDisabled || undefined} />
+    </Provider>
+  );
+});
+
 export interface DateInputRenderProps {
   /**
    * Whether the date input is currently hovered with a mouse.
@@ -223,11 +309,12 @@ export interface DateInputProps extends SlotProps, StyleRenderProps<DateInputRen
  * A date input groups the editable date segments within a date field.
  */
 export const DateInput = /*#__PURE__*/ (forwardRef as forwardRefType)(function DateInput(props: DateInputProps, ref: ForwardedRef<HTMLDivElement>): JSX.Element {
-  // If state is provided by DateField/TimeField, just render.
+  // If state is provided by DateField/TimeField/DurationField, just render.
   // Otherwise (e.g. in DatePicker), we need to call hooks and create state ourselves.
   let dateFieldState = useContext(DateFieldStateContext);
   let timeFieldState = useContext(TimeFieldStateContext);
-  return dateFieldState || timeFieldState
+  let durationFieldState = useContext(DurationFieldStateContext);
+  return dateFieldState || timeFieldState || durationFieldState
     ? <DateInputInner {...props} ref={ref} />
     : <DateInputStandalone {...props} ref={ref} />;
 });
@@ -260,7 +347,8 @@ const DateInputInner = forwardRef((props: DateInputProps, ref: ForwardedRef<HTML
   let {className, children} = props;
   let dateFieldState = useContext(DateFieldStateContext);
   let timeFieldState = useContext(TimeFieldStateContext);
-  let state = dateFieldState ?? timeFieldState!;
+  let durationFieldState = useContext(DurationFieldStateContext);
+  let state = dateFieldState ?? timeFieldState ?? durationFieldState!;
 
   return (
     <>
@@ -317,6 +405,7 @@ export interface DateSegmentRenderProps extends Omit<IDateSegment, 'isEditable'>
   isInvalid: boolean,
   /**
    * The type of segment. Values include `literal`, `year`, `month`, `day`, etc.
+   * In a duration field, values are units such as `days`, `hours`, and `minutes`.
    * @selector [data-type="..."]
    */
   type: DateSegmentType
@@ -333,7 +422,8 @@ export interface DateSegmentProps extends RenderProps<DateSegmentRenderProps>, H
 export const DateSegment = /*#__PURE__*/ (forwardRef as forwardRefType)(function DateSegment({segment, ...otherProps}: DateSegmentProps, ref: ForwardedRef<HTMLSpanElement>) {
   let dateFieldState = useContext(DateFieldStateContext);
   let timeFieldState = useContext(TimeFieldStateContext);
-  let state = dateFieldState ?? timeFieldState!;
+  let durationFieldState = useContext(DurationFieldStateContext);
+  let state = dateFieldState ?? timeFieldState ?? durationFieldState!;
   let domRef = useObjectRef(ref);
   let {segmentProps} = useDateSegment(segment, state, domRef);
   let {focusProps, isFocused, isFocusVisible} = useFocusRing();
@@ -0,0 +1,96 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {ContextValue, useContextProps} from './utils';
+import React, {createContext, ForwardedRef, forwardRef, HTMLAttributes, ReactNode, useContext} from 'react';
+import {TextRange} from '@react-types/shared';
+
+export interface HighlightProps extends HTMLAttributes<HTMLElement> {}
+
+export const HighlightContext = createContext<ContextValue<HighlightProps, HTMLElement>>({});
+
+/**
+ * A Highlight marks a portion of text as relevant, such as the part of an item that matched a search query.
+ */
+export const Highlight = forwardRef(function Highlight(props: HighlightProps, ref: ForwardedRef<HTMLElement>) {
+  [props, ref] = useContextProps(props, ref, HighlightContext);
+  return <mark className="react-aria-Highlight" {...props} ref={ref} />;
+});
+
+export interface TextHighlightProps {
+  /** The text to render. */
+  children: string,
+  /**
+   * The ranges of the text to highlight. Within a ListBoxItem or MenuItem, this defaults to the ranges
+   * of the item's `textValue` that matched the current filter, e.g. in an Autocomplete or ComboBox.
+   * These are only applied when the text is the same as the item's `textValue`, or the start of it.
+   */
+  ranges?: TextRange[]
+}
+
+export interface TextHighlightContextValue {
+  /** The ranges of the text value to highlight. */
+  ranges?: TextRange[],
+  /** The text value that the ranges refer to. If provided, the ranges are only applied to this string or the start of it. */
+  textValue?: string
+}
+
+export const TextHighlightContext = createContext<TextHighlightContextValue | null>(null);
+
+/**
+ * A TextHighlight renders a string, wrapping the given ranges in a Highlight.
+ */
+export function TextHighlight(props: TextHighlightProps): ReactNode {
+  let ctx = useContext(TextHighlightContext);
+  let {children: text, ranges} = props;
+  if (ranges == null) {
+    // Ranges from the context refer to the item's text value, which may differ from the rendered text.
+    // They line up as long as the rendered text is the text value itself, or the start of it.
+    ranges = ctx && (ctx.textValue == null || ctx.textValue.startsWith(text)) ? ctx.ranges ?? [] : [];
+  }
+
+  let segments: ReactNode[] = [];
+  let index = 0;
+  for (let {start, end} of mergeRanges(ranges, text.length)) {
+    if (start > index) {
+      segments.push(text.slice(index, start));
+    }
+
+    segments.push(<Highlight key={start}>{text.slice(start, end)}</Highlight>);
+    index = end;
+  }
+
+  if (index < text.length) {
+    segments.push(text.slice(index));
+  }
+
+  return <>{segments}</>;
+}
+
+function mergeRanges(ranges: TextRange[], length: number): TextRange[] {
+  let sorted = ranges
+    .map(({start, end}) => ({start: Math.max(0, start), end: Math.min(length, end)}))
+    .filter(range => range.start < range.end)
+    .sort((a, b) => a.start - b.start);
+
+  let merged: TextRange[] = [];
+  for (let range of sorted) {
+    let last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+
+  return merged;
+}
@@ -18,12 +18,13 @@ import {DragAndDropContext, DropIndicatorContext, DropIndicatorProps, useDndPers
 import {DragAndDropHooks} from './useDragAndDrop';
 import {DraggableCollectionState, DroppableCollectionState, ListState, Node, Orientation, SelectionBehavior, UNSTABLE_useFilteredListState, useListState} from 'react-stately';
 import {filterDOMProps, inertValue, LoadMoreSentinelProps, useLoadMoreSentinel, useObjectRef} from '@react-aria/utils';
-import {forwardRefType, GlobalDOMAttributes, HoverEvents, Key, LinkDOMProps, PressEvents, RefObject} from '@react-types/shared';
+import {forwardRefType, GlobalDOMAttributes, HoverEvents, Key, LinkDOMProps, PressEvents, RefObject, TextRange} from '@react-types/shared';
 import {HeaderContext} from './Header';
 import React, {createContext, ForwardedRef, forwardRef, JSX, ReactNode, useContext, useEffect, useMemo, useRef} from 'react';
 import {SelectableCollectionContext, SelectableCollectionContextValue} from './context';
 import {SeparatorContext} from './Separator';
 import {TextContext} from './Text';
+import {TextHighlightContext} from './Highlight';
 
 export interface ListBoxRenderProps {
   /**
@@ -309,6 +310,8 @@ export const ListBoxSection = /*#__PURE__*/ createBranchComponent(SectionNode, L
 
 export interface ListBoxItemRenderProps extends ItemRenderProps {}
 
+const EMPTY_RANGES: TextRange[] = [];
+
 export interface ListBoxItemProps<T = object> extends RenderProps<ListBoxItemRenderProps>, LinkDOMProps, HoverEvents, PressEvents, Omit<GlobalDOMAttributes<HTMLDivElement>, 'onClick'> {
   /** The unique id of the item. */
   id?: Key,
@@ -360,6 +363,7 @@ export const ListBoxItem = /*#__PURE__*/ createLeafComponent(ItemNode, function
   }
 
   let isDragging = dragState && dragState.isDragging(item.key);
+  let matchedRanges = item.filterMatch?.ranges ?? EMPTY_RANGES;
   let renderProps = useRenderProps({
     ...props,
     id: undefined,
@@ -372,7 +376,8 @@ export const ListBoxItem = /*#__PURE__*/ createLeafComponent(ItemNode, function
       selectionBehavior: state.selectionManager.selectionBehavior,
       allowsDragging: !!dragState,
       isDragging,
-      isDropTarget: droppableItem?.isDropTarget
+      isDropTarget: droppableItem?.isDropTarget,
+      matchedRanges
     }
   });
 
@@ -410,7 +415,8 @@ export const ListBoxItem = /*#__PURE__*/ createLeafComponent(ItemNode, function
               label: labelProps,
               description: descriptionProps
             }
-          }]
+          }],
+          [TextHighlightContext, {ranges: matchedRanges, textValue: item.textValue}]
         ]}>
         {renderProps.children}
       </Provider>
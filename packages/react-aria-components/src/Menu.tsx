@@ -11,13 +11,13 @@
  */
 
 import {AriaMenuProps, FocusScope, mergeProps, useHover, useMenu, useMenuItem, useMenuSection, useMenuTrigger, useSubmenuTrigger} from 'react-aria';
-import {BaseCollection, Collection, CollectionBuilder, CollectionNode, createBranchComponent, createLeafComponent, ItemNode, SectionNode} from '@react-aria/collections';
+import {BaseCollection, Collection, CollectionBuilder, CollectionNode, createBranchComponent, createLeafComponent, ItemNode, Mutable, SectionNode} from '@react-aria/collections';
 import {MenuTriggerProps as BaseMenuTriggerProps, Collection as ICollection, Node, RootMenuTriggerState, TreeState, useMenuTriggerState, useSubmenuTriggerState, useTreeState} from 'react-stately';
 import {CollectionProps, CollectionRendererContext, ItemRenderProps, SectionContext, SectionProps, usePersistedKeys} from './Collection';
 import {ContextValue, DEFAULT_SLOT, Provider, RenderProps, SlotProps, StyleRenderProps, useContextProps, useRenderProps, useSlot, useSlottedContext} from './utils';
 import {FieldInputContext, SelectableCollectionContext, SelectableCollectionContextValue} from './context';
 import {filterDOMProps, useObjectRef, useResizeObserver} from '@react-aria/utils';
-import {FocusStrategy, forwardRefType, GlobalDOMAttributes, HoverEvents, Key, LinkDOMProps, MultipleSelection, PressEvents} from '@react-types/shared';
+import {FilterResult, FocusStrategy, forwardRefType, GlobalDOMAttributes, HoverEvents, Key, LinkDOMProps, MultipleSelection, PressEvents, TextRange} from '@react-types/shared';
 import {HeaderContext} from './Header';
 import {KeyboardContext} from './Keyboard';
 import {MultipleSelectionState, SelectionManager, useMultipleSelectionState} from '@react-stately/selection';
@@ -40,6 +40,7 @@ import React, {
 } from 'react';
 import {SeparatorContext} from './Separator';
 import {TextContext} from './Text';
+import {TextHighlightContext} from './Highlight';
 
 export const MenuContext = createContext<ContextValue<MenuProps<any>, HTMLDivElement>>(null);
 export const MenuStateContext = createContext<TreeState<any> | null>(null);
@@ -110,10 +111,12 @@ const SubmenuTriggerContext = createContext<{parentMenuRef: RefObject<HTMLElemen
 class SubmenuTriggerNode<T> extends CollectionNode<T> {
   static readonly type = 'submenutrigger';
 
-  filter(collection: BaseCollection<T>, newCollection: BaseCollection<T>, filterFn: (textValue: string, node: Node<T>) => boolean): CollectionNode<T> | null {
+  filter(collection: BaseCollection<T>, newCollection: BaseCollection<T>, filterFn: (textValue: string, node: Node<T>) => FilterResult): CollectionNode<T> | null {
     let triggerNode = collection.getItem(this.firstChildKey!);
-    if (triggerNode && filterFn(triggerNode.textValue, this)) {
-      let clone = this.clone();
+    let result = triggerNode ? filterFn(triggerNode.textValue, this) : null;
+    if (result) {
+      let clone: Mutable<SubmenuTriggerNode<T>> = this.clone();
+      clone.filterMatch = typeof result === 'object' ? result : null;
       newCollection.addDescendants(clone, collection);
       return clone;
     }
@@ -374,6 +377,7 @@ export interface MenuItemProps<T = object> extends RenderProps<MenuItemRenderPro
 }
 
 const MenuItemContext = createContext<ContextValue<MenuItemProps, HTMLDivElement>>(null);
+const EMPTY_RANGES: TextRange[] = [];
 
 /**
  * A MenuItem represents an individual action in a Menu.
@@ -395,6 +399,7 @@ export const MenuItem = /*#__PURE__*/ createLeafComponent(ItemNode, function Men
   let {hoverProps, isHovered} = useHover({
     isDisabled: states.isDisabled
   });
+  let matchedRanges = item.filterMatch?.ranges ?? EMPTY_RANGES;
   let renderProps = useRenderProps({
     ...props,
     id: undefined,
@@ -407,7 +412,8 @@ export const MenuItem = /*#__PURE__*/ createLeafComponent(ItemNode, function Men
       selectionMode: selectionManager.selectionMode,
       selectionBehavior: selectionManager.selectionBehavior,
       hasSubmenu: !!props['aria-haspopup'],
-      isOpen: props['aria-expanded'] === 'true'
+      isOpen: props['aria-expanded'] === 'true',
+      matchedRanges
     }
   });
 
@@ -438,7 +444,8 @@ export const MenuItem = /*#__PURE__*/ createLeafComponent(ItemNode, function Men
               description: descriptionProps
             }
           }],
-          [KeyboardContext, keyboardShortcutProps]
+          [KeyboardContext, keyboardShortcutProps],
+          [TextHighlightContext, {ranges: matchedRanges, textValue: item.textValue}]
         ]}>
         {renderProps.children}
       </Provider>
@@ -1,23 +1,25 @@
-import {AriaLabelingProps, GlobalDOMAttributes, HoverEvents, Key, LinkDOMProps, PressEvents, RefObject} from '@react-types/shared';
-import {BaseCollection, Collection, CollectionBuilder, CollectionNode, createBranchComponent, createLeafComponent, FilterableNode, LoaderNode, useCachedChildren} from '@react-aria/collections';
+import {AriaButtonProps, DraggableItemResult, DragPreviewRenderer, DropIndicatorAria, DroppableCollectionResult, FocusScope, ListKeyboardDelegate, mergeProps, useFocusRing, useHover, useLocale, useLocalizedStringFormatter, useTable, useTableCell, useTableColumnHeader, useTableColumnReorder, useTableColumnResize, useTableHeaderRow, useTableRow, useTableRowGroup, useTableSelectAllCheckbox, useTableSelectionCheckbox, useVisuallyHidden} from 'react-aria';
+import {AriaLabelingProps, DroppableCollectionReorderEvent, FilterMatch, FilterResult, GlobalDOMAttributes, HoverEvents, Key, LinkDOMProps, PressEvents, RefObject} from '@react-types/shared';
+import {BaseCollection, Collection, CollectionBuilder, CollectionNode, createBranchComponent, createLeafComponent, FilterableNode, LoaderNode, Mutable, useCachedChildren} from '@react-aria/collections';
 import {buildHeaderRows, TableColumnResizeState} from '@react-stately/table';
-import {ButtonContext} from './Button';
+import {ButtonContext, ButtonProps} from './Button';
 import {CheckboxContext} from './RSPContexts';
 import {CollectionProps, CollectionRendererContext, DefaultCollectionRenderer, ItemRenderProps} from './Collection';
 import {ColumnSize, ColumnStaticSize, TableCollection as ITableCollection, TableProps as SharedTableProps} from '@react-types/table';
 import {ContextValue, DEFAULT_SLOT, DOMProps, Provider, RenderProps, SlotProps, StyleProps, StyleRenderProps, useContextProps, useRenderProps} from './utils';
-import {DisabledBehavior, DraggableCollectionState, DroppableCollectionState, MultipleSelectionState, Node, SelectionBehavior, SelectionMode, SortDirection, TableState, UNSTABLE_useFilteredTableState, useMultipleSelectionState, useTableColumnResizeState, useTableState} from 'react-stately';
+import {DisabledBehavior, DraggableCollectionState, DroppableCollectionState, MultipleSelectionState, Node, SelectionBehavior, SelectionMode, SortDirection, TableColumnReorderState, TableState, UNSTABLE_useFilteredTableState, useMultipleSelectionState, useTableColumnReorderState, useTableColumnResizeState, useTableState} from 'react-stately';
 import {DragAndDropContext, DropIndicatorContext, DropIndicatorProps, useDndPersistedKeys, useRenderDropIndicator} from './DragAndDrop';
 import {DragAndDropHooks} from './useDragAndDrop';
-import {DraggableItemResult, DragPreviewRenderer, DropIndicatorAria, DroppableCollectionResult, FocusScope, ListKeyboardDelegate, mergeProps, useFocusRing, useHover, useLocale, useLocalizedStringFormatter, useTable, useTableCell, useTableColumnHeader, useTableColumnResize, useTableHeaderRow, useTableRow, useTableRowGroup, useTableSelectAllCheckbox, useTableSelectionCheckbox, useVisuallyHidden} from 'react-aria';
 import {FieldInputContext, SelectableCollectionContext} from './context';
 import {filterDOMProps, inertValue, isScrollable, LoadMoreSentinelProps, mergeRefs, useLayoutEffect, useLoadMoreSentinel, useObjectRef, useResizeObserver} from '@react-aria/utils';
 import {GridNode} from '@react-types/grid';
 // @ts-ignore
 import intlMessages from '../intl/*.json';
-import React, {createContext, ForwardedRef, forwardRef, JSX, ReactElement, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState} from 'react';
+import React, {ContextType, createContext, CSSProperties, ForwardedRef, forwardRef, JSX, ReactElement, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState} from 'react';
 import ReactDOM from 'react-dom';
 
+let hasWarnedPinning = false;
+
 class TableCollection<T> extends BaseCollection<T> implements ITableCollection<T> {
   headerRows: GridNode<T>[] = [];
   columns: GridNode<T>[] = [];
@@ -90,6 +92,14 @@ class TableCollection<T> extends BaseCollection<T> implements ITableCollection<T
       visit(node);
     }
 
+    if (process.env.NODE_ENV !== 'production' && !hasWarnedPinning) {
+      let pinning = this.columns.map(column => getPinningOrder(column.props.isPinned));
+      if (pinning.some((value, i) => i > 0 && value < pinning[i - 1])) {
+        hasWarnedPinning = true;
+        console.warn('Columns pinned to the start must be placed before all other columns, and columns pinned to the end must be placed after all other columns.');
+      }
+    }
+
     this.headerRows = buildHeaderRows(columnKeyMap, this.columns);
     this.columnsDirty = false;
     if (this.rowHeaderColumnKeys.size === 0 && this.columns.length > 0 && !isSSR) {
@@ -163,6 +173,114 @@ class TableCollection<T> extends BaseCollection<T> implements ITableCollection<T
     return collection;
   }
 
+  /**
+   * Returns a copy of the collection with the columns in the given order, and the cells of each row moved to match.
+   * Columns are only moved among their siblings within a column group, and columns that are not in the order keep their position.
+   */
+  withColumnOrder(columnOrder: Key[]): TableCollection<T> {
+    // Wait until the collection is initialized.
+    if (this.head.key === -1) {
+      return this;
+    }
+
+    let collection = this.clone();
+    let positions = new Map(columnOrder.map((key, index) => [key, index]));
+    let getPosition = (node: Node<T>): number | undefined => {
+      if (!node.hasChildNodes) {
+        return positions.get(node.key);
+      }
+
+      // A column group is positioned by the first of its columns in the order.
+      let position: number | undefined = undefined;
+      for (let child of collection.getChildren(node.key)) {
+        let childPosition = getPosition(child);
+        if (childPosition != null && (position == null || childPosition < position)) {
+          position = childPosition;
+        }
+      }
+
+      return position;
+    };
+
+    let reorderColumns = (parentKey: Key) => {
+      let children = [...collection.getChildren(parentKey)] as CollectionNode<T>[];
+      let slots = children.map((child, index) => getPosition(child) != null ? index : -1).filter(index => index >= 0);
+      let ordered = slots.map(index => children[index]).sort((a, b) => getPosition(a)! - getPosition(b)!);
+      slots.forEach((index, i) => {
+        children[index] = ordered[i];
+      });
+
+      collection.relinkChildren(parentKey, children);
+      for (let child of children) {
+        if (child.hasChildNodes) {
+          reorderColumns(child.key);
+        }
+      }
+    };
+
+    reorderColumns(this.head.key);
+
+    // Move the cells of each row to match the new order of their columns.
+    let columnOrderMap = new Map<Key, number>();
+    let visit = (parentKey: Key) => {
+      for (let node of collection.getChildren(parentKey)) {
+        if (node.hasChildNodes) {
+          visit(node.key);
+        } else {
+          columnOrderMap.set(node.key, columnOrderMap.size);
+        }
+      }
+    };
+    visit(this.head.key);
+
+    let reorderCells = (parentKey: Key) => {
+      for (let node of collection.getChildren(parentKey)) {
+        if (node.type === 'cell' || !node.hasChildNodes) {
+          continue;
+        }
+
+        // Cells are positioned by the first column they span.
+        let getColumnIndex = (cell: GridNode<T>) => columnOrderMap.get(this.columns[cell.colIndex ?? cell.index]?.key) ?? cell.index;
+        let children = [...collection.getChildren(node.key)] as CollectionNode<T>[];
+        let cells = children.filter(child => child.type === 'cell').sort((a, b) => getColumnIndex(a) - getColumnIndex(b));
+        let hasColSpan = cells.some(cell => cell.colIndex != null);
+        let i = 0;
+        children = children.map(child => child.type === 'cell' ? cells[i++] : child);
+
+        let colIndex = 0;
+        for (let child of collection.relinkChildren(node.key, children)) {
+          if (child.type === 'cell') {
+            child.colIndex = hasColSpan ? colIndex : null;
+            colIndex += child.colSpan ?? 1;
+          }
+        }
+
+        reorderCells(node.key);
+      }
+    };
+
+    reorderCells(this.body.key);
+    collection.commit(collection.head.key, collection.body.key);
+    return collection;
+  }
+
+  /** Links the given children of a node together in order, replacing them and the parent with updated copies. */
+  private relinkChildren(parentKey: Key, children: CollectionNode<T>[]): Mutable<CollectionNode<T>>[] {
+    let parent: Mutable<CollectionNode<T>> = (this.getItem(parentKey) as CollectionNode<T>).clone();
+    parent.firstChildKey = children[0]?.key ?? null;
+    parent.lastChildKey = children[children.length - 1]?.key ?? null;
+    this.addNode(parent);
+
+    return children.map((child, index) => {
+      let node: Mutable<CollectionNode<T>> = child.clone();
+      node.index = index;
+      node.prevKey = children[index - 1]?.key ?? null;
+      node.nextKey = children[index + 1]?.key ?? null;
+      this.addNode(node);
+      return node;
+    });
+  }
+
   getTextValue(key: Key): string {
     let row = this.getItem(key);
     if (!row) {
@@ -205,6 +323,38 @@ interface ResizableTableContainerContextValue {
 
 const ResizableTableContainerContext = createContext<ResizableTableContainerContextValue | null>(null);
 
+function getPinningOrder(isPinned: 'start' | 'end' | undefined) {
+  if (isPinned === 'start') {
+    return 0;
+  }
+
+  return isPinned === 'end' ? 2 : 1;
+}
+
+// Cells beneath columns that are pinned to an edge of the table are hidden, so the other cells have scroll margins
+// to ensure they are scrolled out from beneath the pinned columns when they receive focus.
+function usePinnedScrollMargins(column: GridNode<unknown> | undefined): CSSProperties | null {
+  let state = useContext(TableStateContext)!;
+  let layoutState = useContext(TableColumnResizeStateContext);
+  let {layoutDelegate} = useContext(CollectionRendererContext);
+  let getWidth = (column: GridNode<unknown>) => layoutState?.getColumnWidth(column.key) ?? layoutDelegate?.getItemRect(column.key)?.width ?? 0;
+
+  // Columns pinned to the start are placed before all other columns, and columns pinned to the end after them.
+  let columns = state.collection.columns;
+  let start = 0;
+  for (let i = 0; i < columns.length && columns[i].props?.isPinned === 'start'; i++) {
+    start += getWidth(columns[i]);
+  }
+
+  let end = 0;
+  for (let i = columns.length - 1; i >= 0 && columns[i].props?.isPinned === 'end'; i--) {
+    end += getWidth(columns[i]);
+  }
+
+  let isPinned = column?.props?.isPinned != null;
+  return useMemo(() => !isPinned && (start || end) ? {scrollMarginInlineStart: start, scrollMarginInlineEnd: end} : null, [isPinned, start, end]);
+}
+
 export interface ResizableTableContainerProps extends DOMProps, GlobalDOMAttributes<HTMLDivElement> {
   /**
    * Handler that is called when a user starts a column resize.
@@ -320,7 +470,20 @@ export interface TableProps extends Omit<SharedTableProps<any>, 'children'>, Sty
   /** Handler that is called when a user performs an action on the row. */
   onRowAction?: (key: Key) => void,
   /** The drag and drop hooks returned by `useDragAndDrop` used to enable drag and drop behavior for the Table. */
-  dragAndDropHooks?: DragAndDropHooks
+  dragAndDropHooks?: DragAndDropHooks,
+  /**
+   * Handler that is called when a user reorders a column via drag and drop. Providing this enables column reordering.
+   * The order of the columns passed to the `<TableHeader>` and each `<Row>` should be updated to match,
+   * unless the order is controlled via `columnOrder`.
+   */
+  onColumnReorder?: (e: DroppableCollectionReorderEvent) => void,
+  /**
+   * The order of the columns, as a list of column keys. The columns and the cells of each row are displayed in this order,
+   * regardless of the order they are passed to the `<TableHeader>` and each `<Row>`.
+   */
+  columnOrder?: Key[],
+  /** Handler that is called with the new order of the column keys when a user reorders a column. Providing this enables column reordering. */
+  onColumnOrderChange?: (columnOrder: Key[]) => void
 }
 
 /**
@@ -334,12 +497,14 @@ export const Table = forwardRef(function Table(props: TableProps, ref: Forwarded
   let selectionState = useMultipleSelectionState(props);
   let {selectionBehavior, selectionMode, disallowEmptySelection} = selectionState;
   let hasDragHooks = !!props.dragAndDropHooks?.useDraggableCollectionState;
+  let allowsColumnReordering = !!(props.onColumnReorder || props.onColumnOrderChange);
   let ctx = useMemo(() => ({
     selectionBehavior: selectionMode === 'none' ? null : selectionBehavior,
     selectionMode,
     disallowEmptySelection,
-    allowsDragging: hasDragHooks
-  }), [selectionBehavior, selectionMode, disallowEmptySelection, hasDragHooks]);
+    allowsDragging: hasDragHooks,
+    allowsColumnReordering
+  }), [selectionBehavior, selectionMode, disallowEmptySelection, hasDragHooks, allowsColumnReordering]);
 
   let content = (
     <TableOptionsContext.Provider value={ctx}>
@@ -370,6 +535,8 @@ function TableInner({props, forwardedRef: ref, selectionState, collection}: Tabl
   let {shouldUseVirtualFocus, disallowTypeAhead, ...DOMCollectionProps} = collectionProps || {};
   let tableContainerContext = useContext(ResizableTableContainerContext);
   ref = useObjectRef(useMemo(() => mergeRefs(ref, tableContainerContext?.tableRef), [ref, tableContainerContext?.tableRef]));
+  let {columnOrder, onColumnReorder, onColumnOrderChange} = props;
+  collection = useMemo(() => columnOrder ? (collection as TableCollection<any>).withColumnOrder(columnOrder) : collection, [collection, columnOrder]);
   let tableState = useTableState({
     ...props,
     collection,
@@ -378,6 +545,7 @@ function TableInner({props, forwardedRef: ref, selectionState, collection}: Tabl
   });
 
   let filteredState = UNSTABLE_useFilteredTableState(tableState, filter);
+  let columnReorderState = useTableColumnReorderState({onColumnReorder, onColumnOrderChange}, filteredState);
   let {isVirtualized, layoutDelegate, dropTargetDelegate: ctxDropTargetDelegate, CollectionRoot} = useContext(CollectionRendererContext);
   let {dragAndDropHooks} = props;
   let {gridProps} = useTable({
@@ -486,6 +654,7 @@ function TableInner({props, forwardedRef: ref, selectionState, collection}: Tabl
         [TableColumnResizeStateContext, layoutState],
         [DragAndDropContext, {dragAndDropHooks, dragState, dropState}],
         [DropIndicatorContext, {render: TableDropIndicatorWrapper}],
+        [ColumnReorderContext, {state: columnReorderState, isDisabled: !onColumnReorder && !onColumnOrderChange}],
         [SelectableCollectionContext, null],
         [FieldInputContext, null]
       ]}>
@@ -524,10 +693,13 @@ export interface TableOptionsContextValue {
   /** Whether the table allows empty selection. */
   disallowEmptySelection: boolean,
   /** Whether the table allows rows to be dragged. */
-  allowsDragging: boolean
+  allowsDragging: boolean,
+  /** Whether the table allows columns to be reordered via drag and drop. */
+  allowsColumnReordering: boolean
 }
 
 const TableOptionsContext = createContext<TableOptionsContextValue | null>(null);
+const ColumnReorderContext = createContext<{state: TableColumnReorderState<unknown>, isDisabled: boolean} | null>(null);
 
 /**
  * Returns options from the parent `<Table>` component.
@@ -660,15 +832,36 @@ export interface ColumnRenderProps {
    * @selector [data-sort-direction="ascending | descending"]
    */
   sortDirection: SortDirection | undefined,
+  /**
+   * The 1-based priority of this column within the current sort, when the table is sorted by more than one column.
+   * @selector [data-sort-priority]
+   */
+  sortPriority: number | undefined,
+  /**
+   * The edge of the table that the column is pinned to, if any.
+   * @selector [data-pinned="start | end"]
+   */
+  isPinned: 'start' | 'end' | undefined,
   /**
    * Whether the column is currently being resized.
    * @selector [data-resizing]
    */
   isResizing: boolean,
   /**
-   * Triggers sorting for this column in the given direction.
+   * Whether the column is currently being dragged.
+   * @selector [data-dragging]
+   */
+  isDragging: boolean,
+  /**
+   * Where the dragged column will be inserted relative to this column, if this column is the current drop target.
+   * @selector [data-drop-position="before | after"]
    */
-  sort(direction: SortDirection): void,
+  dropPosition: 'before' | 'after' | null,
+  /**
+   * Triggers sorting for this column in the given direction. If `isAdditive` is true, the column is
+   * added to the existing sort rather than replacing it.
+   */
+  sort(direction: SortDirection, isAdditive?: boolean): void,
   /**
    * Starts column resizing if the table is contained in a `<ResizableTableContainer>` element.
    */
@@ -691,7 +884,16 @@ export interface ColumnProps extends RenderProps<ColumnRenderProps>, GlobalDOMAt
   /** The minimum width of the column. This prop only applies when the `<Table>` is wrapped in a `<ResizableTableContainer>`. */
   minWidth?: ColumnStaticSize | null,
   /** The maximum width of the column. This prop only applies when the `<Table>` is wrapped in a `<ResizableTableContainer>`. */
-  maxWidth?: ColumnStaticSize | null
+  maxWidth?: ColumnStaticSize | null,
+  /**
+   * Pins the column to the start or end edge of the table so that it remains visible while scrolling horizontally.
+   * Columns pinned to the start must be placed before all other columns, and columns pinned to the end after them.
+   * When the table is virtualized with a `TableLayout`, pinned columns are positioned automatically.
+   * Otherwise, use the `[data-pinned]` selector to apply `position: sticky` to the column and its cells.
+   */
+  isPinned?: 'start' | 'end',
+  /** Whether the cells in the column can be edited. Each cell can override this with its own `isEditable` prop. */
+  isEditable?: boolean
 }
 
 class TableColumnNode extends CollectionNode<unknown> {
@@ -712,6 +914,15 @@ export const Column = /*#__PURE__*/ createLeafComponent(TableColumnNode, (props:
   );
   let {isFocused, isFocusVisible, focusProps} = useFocusRing();
 
+  let columnReorder = useContext(ColumnReorderContext);
+  let isReorderEnabled = !!columnReorder && !columnReorder.isDisabled;
+  let {columnProps: reorderProps, dragButtonProps, isDragging, dropPosition} = useTableColumnReorder(
+    {node: column, isDisabled: !isReorderEnabled},
+    columnReorder?.state ?? null,
+    ref
+  );
+  let buttonContext = useContext(ButtonContext);
+
   let layoutState = useContext(TableColumnResizeStateContext);
   let isResizing = false;
   if (layoutState) {
@@ -725,6 +936,9 @@ export const Column = /*#__PURE__*/ createLeafComponent(TableColumnNode, (props:
   }
 
   let {hoverProps, isHovered} = useHover({isDisabled: !props.allowsSorting});
+  let sortIndex = state.sortDescriptors.findIndex(descriptor => descriptor.column === column.key);
+  let sortDirection = sortIndex >= 0 ? state.sortDescriptors[sortIndex].direction : undefined;
+  let sortPriority = sortIndex >= 0 && state.sortDescriptors.length > 1 ? sortIndex + 1 : undefined;
   let renderProps = useRenderProps({
     ...props,
     id: undefined,
@@ -735,10 +949,12 @@ export const Column = /*#__PURE__*/ createLeafComponent(TableColumnNode, (props:
       isFocused,
       isFocusVisible,
       allowsSorting: column.props.allowsSorting,
-      sortDirection: state.sortDescriptor?.column === column.key
-        ? state.sortDescriptor.direction
-        : undefined,
+      sortDirection,
+      sortPriority,
+      isPinned: column.props.isPinned,
       isResizing,
+      isDragging,
+      dropPosition,
       startResize: () => {
         if (layoutState) {
           layoutState.startResize(column.key);
@@ -747,8 +963,8 @@ export const Column = /*#__PURE__*/ createLeafComponent(TableColumnNode, (props:
           throw new Error('Wrap your <Table> in a <ResizableTableContainer> to enable column resizing');
         }
       },
-      sort: (direction) => {
-        state.sort(column.key, direction);
+      sort: (direction, isAdditive) => {
+        state.sort(column.key, direction, isAdditive);
       }
     }
   });
@@ -758,13 +974,18 @@ export const Column = /*#__PURE__*/ createLeafComponent(TableColumnNode, (props:
     style = {...style, width: layoutState.getColumnWidth(column.key)};
   }
 
+  let pinnedScrollMargins = usePinnedScrollMargins(column);
+  if (pinnedScrollMargins) {
+    style = {...pinnedScrollMargins, ...style};
+  }
+
   let TH = useElementType('th');
   let DOMProps = filterDOMProps(props as any, {global: true});
   delete DOMProps.id;
 
   return (
     <TH
-      {...mergeProps(DOMProps, columnHeaderProps, focusProps, hoverProps)}
+      {...mergeProps(DOMProps, columnHeaderProps, focusProps, hoverProps, reorderProps)}
       {...renderProps}
       style={style}
       ref={ref as any}
@@ -773,10 +994,16 @@ export const Column = /*#__PURE__*/ createLeafComponent(TableColumnNode, (props:
       data-focus-visible={isFocusVisible || undefined}
       data-resizing={isResizing || undefined}
       data-allows-sorting={column.props.allowsSorting || undefined}
-      data-sort-direction={state.sortDescriptor?.column === column.key ? state.sortDescriptor.direction : undefined}>
+      data-sort-direction={sortDirection}
+      data-sort-priority={sortPriority}
+      data-pinned={column.props.isPinned}
+      data-dragging={isDragging || undefined}
+      data-drop-position={dropPosition || undefined}>
       <Provider
         values={[
           [ColumnResizerContext, {column, triggerRef: ref}],
+          // Only add the drag slot when column reordering is enabled, so other buttons in the header keep their context.
+          [ButtonContext, isReorderEnabled ? addDragSlot(buttonContext, dragButtonProps) : buttonContext],
           [CollectionRendererContext, DefaultCollectionRenderer]
         ]}>
         {renderProps.children}
@@ -785,6 +1012,21 @@ export const Column = /*#__PURE__*/ createLeafComponent(TableColumnNode, (props:
   );
 });
 
+function addDragSlot(context: ContextType<typeof ButtonContext>, dragButtonProps: AriaButtonProps): ContextType<typeof ButtonContext> {
+  let slots = context && 'slots' in context && context.slots ? context.slots : {[DEFAULT_SLOT]: (context ?? {}) as ButtonProps};
+  return {
+    slots: {
+      ...slots,
+      drag: {
+        ...dragButtonProps,
+        style: {
+          pointerEvents: 'none'
+        }
+      }
+    }
+  };
+}
+
 export interface ColumnResizerRenderProps {
   /**
    * Whether the resizer is currently hovered with a mouse.
@@ -895,13 +1137,18 @@ export const ColumnResizer = forwardRef(function ColumnResizer(props: ColumnResi
     setMouseDown(false);
   }
 
+  // Prevent the column from being dragged when reordering is enabled and the user starts resizing it.
+  let onDragStart = (e: React.DragEvent) => {
+    e.preventDefault();
+  };
+
   let DOMProps = filterDOMProps(props, {global: true});
 
   return (
     <div
       ref={objectRef}
       role="presentation"
-      {...mergeProps(DOMProps, renderProps, resizerProps, {onPointerDown}, hoverProps)}
+      {...mergeProps(DOMProps, renderProps, resizerProps, {onPointerDown, onDragStart}, hoverProps)}
       data-hovered={isHovered || undefined}
       data-focused={isFocused || undefined}
       data-focus-visible={isFocusVisible || undefined}
@@ -1042,16 +1289,30 @@ export interface RowProps<T> extends StyleRenderProps<RowRenderProps>, LinkDOMPr
 class TableRowNode<T> extends CollectionNode<T> {
   static readonly type = 'item';
 
-  filter(collection: BaseCollection<T>, newCollection: BaseCollection<T>, filterFn: (textValue: string, node: Node<T>) => boolean): TableRowNode<T> | null {
+  filter(collection: BaseCollection<T>, newCollection: BaseCollection<T>, filterFn: (textValue: string, node: Node<T>) => FilterResult): TableRowNode<T> | null {
+    // A row matches if any of its cells match. If the results are scored, rank the row by its best cell.
     let cells = collection.getChildren(this.key);
+    let match: FilterMatch | null = null;
+    let isMatch = false;
     for (let cell of cells) {
-      if (filterFn(cell.textValue, cell)) {
-        let clone = this.clone();
-        newCollection.addDescendants(clone, collection);
-        return clone;
+      let result = filterFn(cell.textValue, cell);
+      if (result && typeof result === 'object') {
+        if (!match || result.score > match.score) {
+          match = result;
+        }
+      } else if (result) {
+        isMatch = true;
+        break;
       }
     }
 
+    if (isMatch || match) {
+      let clone: Mutable<TableRowNode<T>> = this.clone();
+      clone.filterMatch = isMatch ? null : match;
+      newCollection.addDescendants(clone, collection);
+      return clone;
+    }
+
     return null;
   }
 }
@@ -1225,6 +1486,21 @@ export interface CellRenderProps {
    * @selector [data-hovered]
    */
   isHovered: boolean,
+  /**
+   * The edge of the table that the cell's column is pinned to, if any.
+   * @selector [data-pinned="start | end"]
+   */
+  isPinned: 'start' | 'end' | undefined,
+  /**
+   * Whether the cell is within the selected range of cells, when `allowsCellSelection` is enabled on the table.
+   * @selector [data-selected]
+   */
+  isSelected: boolean,
+  /**
+   * Whether the cell is currently being edited.
+   * @selector [data-editing]
+   */
+  isEditing: boolean,
   /**
    * The unique id of the cell.
    **/
@@ -1237,7 +1513,19 @@ export interface CellProps extends RenderProps<CellRenderProps>, GlobalDOMAttrib
   /** A string representation of the cell's contents, used for features like typeahead. */
   textValue?: string,
   /** Indicates how many columns the data cell spans. */
-  colSpan?: number
+  colSpan?: number,
+  /**
+   * Whether the cell can be edited. Pressing Enter or F2 while the cell is focused, or double clicking it, starts editing.
+   * Use the `isEditing` render prop to render an editor such as a TextField within the cell.
+   */
+  isEditable?: boolean,
+  /**
+   * Handler that is called when editing is committed, by pressing Enter or Tab, or by moving focus to another cell or out of the table.
+   * The editor is still rendered when this is called, so its current value can be read.
+   */
+  onEditCommit?: () => void,
+  /** Handler that is called when editing is canceled by pressing Escape. */
+  onEditCancel?: () => void
 }
 
 class TableCellNode extends CollectionNode<unknown> {
@@ -1255,13 +1543,17 @@ export const Cell = /*#__PURE__*/ createLeafComponent(TableCellNode, (props: Cel
 
   cell.column = state.collection.columns[cell.index];
 
-  let {gridCellProps, isPressed} = useTableCell({
+  let {gridCellProps, isPressed, isEditing} = useTableCell({
     node: cell,
     shouldSelectOnPressUp: !!dragState,
-    isVirtualized
+    isVirtualized,
+    isEditable: props.isEditable ?? cell.column?.props.isEditable,
+    onEditCommit: props.onEditCommit,
+    onEditCancel: props.onEditCancel
   }, state, ref);
   let {isFocused, isFocusVisible, focusProps} = useFocusRing();
   let {hoverProps, isHovered} = useHover({});
+  let isSelected = !!state.selectedCells?.has(cell.key);
 
   let renderProps = useRenderProps({
     ...props,
@@ -1272,10 +1564,19 @@ export const Cell = /*#__PURE__*/ createLeafComponent(TableCellNode, (props: Cel
       isFocusVisible,
       isPressed,
       isHovered,
+      isPinned: cell.column?.props.isPinned,
+      isSelected,
+      isEditing,
       id: cell.key
     }
   });
 
+  let style = renderProps.style;
+  let pinnedScrollMargins = usePinnedScrollMargins(cell.column);
+  if (pinnedScrollMargins) {
+    style = {...pinnedScrollMargins, ...style};
+  }
+
   let TD = useElementType('td');
   let DOMProps = filterDOMProps(props as any, {global: true});
   delete DOMProps.id;
@@ -1283,10 +1584,14 @@ export const Cell = /*#__PURE__*/ createLeafComponent(TableCellNode, (props: Cel
   return (
     <TD
       {...mergeProps(DOMProps, renderProps, gridCellProps, focusProps, hoverProps)}
+      style={style}
       ref={ref as any}
       data-focused={isFocused || undefined}
       data-focus-visible={isFocusVisible || undefined}
-      data-pressed={isPressed || undefined}>
+      data-pressed={isPressed || undefined}
+      data-pinned={cell.column?.props.isPinned}
+      data-selected={isSelected || undefined}
+      data-editing={isEditing || undefined}>
       <CollectionRendererContext.Provider value={DefaultCollectionRenderer}>
         {renderProps.children}
       </CollectionRendererContext.Provider>
@@ -0,0 +1,49 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {ComboBox, ComboBoxProps} from './ComboBox';
+import {ContextValue, useContextProps} from './utils';
+import {forwardRefType} from '@react-types/shared';
+import React, {createContext, ForwardedRef, forwardRef} from 'react';
+import {TimeZoneOptionsProps, TimeZoneRegion, useTimeZoneOptions} from 'react-aria';
+
+export interface TimeZonePickerProps extends Omit<ComboBoxProps<TimeZoneRegion>, 'items' | 'defaultItems' | 'selectedKey' | 'defaultSelectedKey' | 'onSelectionChange' | 'allowsCustomValue'>, TimeZoneOptionsProps {
+  /** The selected IANA time zone identifier (controlled). */
+  value?: string | null,
+  /** The default selected IANA time zone identifier (uncontrolled). */
+  defaultValue?: string | null,
+  /** Handler that is called when the selected time zone changes. */
+  onChange?: (value: string | null) => void
+}
+
+export const TimeZonePickerContext = createContext<ContextValue<TimeZonePickerProps, HTMLDivElement>>(null);
+
+/**
+ * A time zone picker is a combo box that allows users to search for and select a time zone, grouped by region.
+ * Each time zone includes its localized name and current offset from UTC.
+ */
+export const TimeZonePicker = /*#__PURE__*/ (forwardRef as forwardRefType)(function TimeZonePicker(props: TimeZonePickerProps, ref: ForwardedRef<HTMLDivElement>) {
+  [props, ref] = useContextProps(props, ref, TimeZonePickerContext);
+  let {value, defaultValue, onChange, timeZones, referenceDate, className, ...otherProps} = props;
+  let regions = useTimeZoneOptions({timeZones, referenceDate});
+
+  return (
+    <ComboBox
+      {...otherProps}
+      ref={ref}
+      className={className ?? 'react-aria-TimeZonePicker'}
+      defaultItems={regions}
+      selectedKey={value}
+      defaultSelectedKey={defaultValue ?? undefined}
+      onSelectionChange={key => onChange?.(key as string | null)} />
+  );
+});
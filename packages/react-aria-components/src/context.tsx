@@ -10,13 +10,13 @@
  * governing permissions and limitations under the License.
  */
 
-import {AriaLabelingProps, DOMProps, FocusableElement, FocusEvents, KeyboardEvents, Node, ValueBase} from '@react-types/shared';
+import {AriaLabelingProps, DOMProps, FilterResult, FocusableElement, FocusEvents, KeyboardEvents, Node, ValueBase} from '@react-types/shared';
 import {AriaTextFieldProps} from '@react-aria/textfield';
 import {ContextValue} from './utils';
 import {createContext} from 'react';
 
 export interface SelectableCollectionContextValue<T> extends DOMProps, AriaLabelingProps {
-  filter?: (nodeTextValue: string, node: Node<T>) => boolean,
+  filter?: (nodeTextValue: string, node: Node<T>) => FilterResult,
   /** Whether the collection items should use virtual focus instead of being focused directly. */
   shouldUseVirtualFocus?: boolean,
   /** Whether typeahead is disabled. */
@@ -18,9 +18,9 @@ import './styles.css';
 export default {
   title: 'React Aria Components/NumberField',
   component: NumberField
-} as Meta<typeof NumberField>;
+} as Meta<typeof NumberField<number>>;
 
-export type NumberFieldStory = StoryObj<typeof NumberField>;
+export type NumberFieldStory = StoryObj<typeof NumberField<number>>;
 
 export const NumberFieldExample: NumberFieldStory = {
   args: {
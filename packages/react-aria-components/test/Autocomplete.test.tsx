@@ -12,7 +12,7 @@
 
 import {act, pointerMap, render, within} from '@react-spectrum/test-utils-internal';
 import {AriaAutocompleteTests} from './AriaAutocomplete.test-util';
-import {Autocomplete, Breadcrumb, Breadcrumbs, Button, Cell, Column, Dialog, DialogTrigger, GridList, GridListItem, Header, Input, Label, ListBox, ListBoxItem, ListBoxSection, Menu, MenuItem, MenuSection, Popover, Row, SearchField, Select, SelectValue, Separator, SubmenuTrigger, Tab, Table, TableBody, TableHeader, TabList, TabPanel, Tabs, Tag, TagGroup, TagList, Text, TextField, Tree, TreeItem, TreeItemContent} from '..';
+import {Autocomplete, Breadcrumb, Breadcrumbs, Button, Cell, Column, Dialog, DialogTrigger, GridList, GridListItem, Header, Input, Label, ListBox, ListBoxItem, ListBoxSection, Menu, MenuItem, MenuSection, Popover, Row, SearchField, Select, SelectValue, Separator, SubmenuTrigger, Tab, Table, TableBody, TableHeader, TabList, TabPanel, Tabs, Tag, TagGroup, TagList, Text, TextField, TextHighlight, Tree, TreeItem, TreeItemContent} from '..';
 import React, {ReactNode} from 'react';
 import {useAsyncList} from 'react-stately';
 import {useFilter} from '@react-aria/i18n';
@@ -957,6 +957,104 @@ describe('Autocomplete', () => {
     expect(within(sections[0]).getByText('Baz')).toBeTruthy();
     expect(within(sections[1]).getByText('Copy')).toBeTruthy();
   });
+
+  it('should sort by score and highlight the matched ranges when using a fuzzy filter', async () => {
+    function FuzzyAutocomplete() {
+      let {fuzzy} = useFilter();
+      return (
+        <Autocomplete filter={fuzzy}>
+          <SearchField>
+            <Label>Test</Label>
+            <Input />
+          </SearchField>
+          <Menu>
+            <MenuItem id="1" textValue="Pineapple"><TextHighlight>Pineapple</TextHighlight></MenuItem>
+            <MenuItem id="2" textValue="Banana"><TextHighlight>Banana</TextHighlight></MenuItem>
+            <MenuItem id="3" textValue="Apple"><TextHighlight>Apple</TextHighlight></MenuItem>
+          </Menu>
+        </Autocomplete>
+      );
+    }
+
+    let {getByRole} = render(<FuzzyAutocomplete />);
+    let input = getByRole('searchbox');
+    await user.tab();
+    expect(document.activeElement).toBe(input);
+    let menu = getByRole('menu');
+    expect(menu.querySelectorAll('mark')).toHaveLength(0);
+
+    await user.keyboard('app');
+    let options = within(menu).getAllByRole('menuitem');
+    expect(options.map(option => option.textContent)).toEqual(['Apple', 'Pineapple']);
+
+    let mark = options[0].querySelector('mark');
+    expect(mark).toHaveClass('react-aria-Highlight');
+    expect(mark).toHaveTextContent('App');
+    expect(options[1].querySelector('mark')).toHaveTextContent('app');
+  });
+
+  it('should highlight the matched range when using a matchContains filter', async () => {
+    function ContainsAutocomplete() {
+      let {matchContains} = useFilter({sensitivity: 'base'});
+      return (
+        <Autocomplete filter={matchContains}>
+          <SearchField>
+            <Label>Test</Label>
+            <Input />
+          </SearchField>
+          <Menu>
+            <MenuItem id="1" textValue="Pineapple"><TextHighlight>Pineapple</TextHighlight></MenuItem>
+            <MenuItem id="2" textValue="Banana"><TextHighlight>Banana</TextHighlight></MenuItem>
+            <MenuItem id="3" textValue="Apple pie"><TextHighlight>Pie</TextHighlight></MenuItem>
+          </Menu>
+        </Autocomplete>
+      );
+    }
+
+    let {getByRole} = render(<ContainsAutocomplete />);
+    await user.tab();
+    await user.keyboard('ap');
+    let menu = getByRole('menu');
+    let options = within(menu).getAllByRole('menuitem');
+    expect(options.map(option => option.textContent)).toEqual(['Pineapple', 'Pie']);
+    expect(options[0].querySelector('mark')).toHaveTextContent('ap');
+
+    // The ranges refer to the text value, so they are not applied to different text.
+    expect(options[1].querySelector('mark')).toBeNull();
+  });
+
+  it('should not sort items across separators when using a fuzzy filter', async () => {
+    function FuzzyAutocomplete() {
+      let {fuzzy} = useFilter();
+      return (
+        <Autocomplete filter={fuzzy}>
+          <SearchField>
+            <Label>Test</Label>
+            <Input />
+          </SearchField>
+          <Menu>
+            <MenuItem id="1">Pineapple</MenuItem>
+            <MenuItem id="2">Apple</MenuItem>
+            <Separator />
+            <MenuItem id="3">Snapple</MenuItem>
+            <MenuItem id="4">Applesauce</MenuItem>
+          </Menu>
+        </Autocomplete>
+      );
+    }
+
+    let {getByRole} = render(<FuzzyAutocomplete />);
+    let input = getByRole('searchbox');
+    await user.tab();
+    expect(document.activeElement).toBe(input);
+
+    await user.keyboard('app');
+    let menu = getByRole('menu');
+    let options = within(menu).getAllByRole('menuitem');
+    expect(options.map(option => option.textContent)).toEqual(['Apple', 'Pineapple', 'Applesauce', 'Snapple']);
+    expect(within(menu).getByRole('separator')).toBeInTheDocument();
+    expect(menu.children[2]).toHaveAttribute('role', 'separator');
+  });
 });
 
 AriaAutocompleteTests({
@@ -12,7 +12,7 @@
 
 import {act, fireEvent, pointerMap, render, within} from '@react-spectrum/test-utils-internal';
 import {Button, Calendar, CalendarCell, CalendarContext, CalendarGrid, CalendarGridBody, CalendarGridHeader, CalendarHeaderCell, CalendarStateContext, Heading} from 'react-aria-components';
-import {CalendarDate, getLocalTimeZone, startOfMonth, startOfWeek, today} from '@internationalized/date';
+import {CalendarDate, createHolidaySet, getLocalTimeZone, startOfMonth, startOfWeek, today, WorkingCalendar} from '@internationalized/date';
 import React, {useContext} from 'react';
 import userEvent from '@testing-library/user-event';
 
@@ -365,4 +365,102 @@ describe('Calendar', () => {
     await user.keyboard('[ArrowLeft][Enter]');
     expect(calendar.getByLabelText(/selected/)).toBe(day16);
   });
+
+  it('should mark weekends and holidays in the working calendar as unavailable', () => {
+    let workingCalendar = new WorkingCalendar('en-US', {holidays: [createHolidaySet([new CalendarDate(2024, 3, 13)])]});
+    let {getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), workingCalendar, isDateUnavailable: d => d.day === 14}, {}, {className: ({isUnavailable}) => isUnavailable ? 'unavailable' : ''});
+
+    expect(getByText('12')).not.toHaveClass('unavailable');
+    expect(getByText('13')).toHaveClass('unavailable');
+    expect(getByText('14')).toHaveClass('unavailable');
+    expect(getByText('16')).toHaveClass('unavailable');
+    expect(getByText('17')).toHaveClass('unavailable');
+    expect(getByText('18')).not.toHaveClass('unavailable');
+  });
+
+  describe('selectionGranularity', () => {
+    it('should select the entire week', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'week', onChange});
+      await user.click(getByText('13'));
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith(new CalendarDate(2024, 3, 10));
+
+      let selected = within(getByRole('grid')).getAllByRole('button').filter(cell => cell.hasAttribute('data-selected'));
+      expect(selected.map(cell => cell.textContent)).toEqual(['10', '11', '12', '13', '14', '15', '16']);
+      expect(selected[0]).toHaveAttribute('data-selection-start', 'true');
+      expect(selected[6]).toHaveAttribute('data-selection-end', 'true');
+    });
+
+    it('should respect firstDayOfWeek when selecting a week', async () => {
+      let onChange = jest.fn();
+      let {getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'week', firstDayOfWeek: 'mon', onChange});
+      await user.click(getByText('17'));
+      expect(onChange).toHaveBeenCalledWith(new CalendarDate(2024, 3, 11));
+    });
+
+    it('should display and select months', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText, container} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'month', onChange});
+      let grid = getByRole('grid');
+      expect(within(grid).queryAllByRole('columnheader', {hidden: true})).toHaveLength(0);
+      expect(within(grid).getAllByRole('row')).toHaveLength(4);
+      expect(within(grid).getAllByRole('button').map(cell => cell.textContent)).toEqual(['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']);
+      expect(getByRole('heading')).toHaveTextContent('2024');
+      expect(getByText('Mar')).toHaveAttribute('aria-label', 'March 2024');
+
+      await user.click(getByText('May'));
+      expect(onChange).toHaveBeenCalledWith(new CalendarDate(2024, 5, 1));
+      expect(getByText('May')).toHaveAttribute('data-selected', 'true');
+
+      await user.keyboard('[ArrowRight]');
+      expect(document.activeElement).toBe(getByText('Jun'));
+      await user.keyboard('[ArrowDown]');
+      expect(document.activeElement).toBe(getByText('Sep'));
+      await user.keyboard('[Enter]');
+      expect(onChange).toHaveBeenLastCalledWith(new CalendarDate(2024, 9, 1));
+
+      // The grid also contains a visually hidden next button for screen reader users, so use the one in the header.
+      await user.click(within(container.querySelector('header')).getByRole('button', {name: 'Next'}));
+      expect(getByRole('heading')).toHaveTextContent('2025');
+    });
+
+    it('should display and select quarters', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'quarter', onChange});
+      let cells = within(getByRole('grid')).getAllByRole('button');
+      expect(cells).toHaveLength(4);
+      expect(cells[1].textContent).toMatch(/^Apr.*Jun$/);
+
+      await user.click(cells[1]);
+      expect(onChange).toHaveBeenCalledWith(new CalendarDate(2024, 4, 1));
+      expect(getByText(/^Apr/)).toHaveAttribute('data-selected', 'true');
+    });
+
+    it('should display and select years', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'year', onChange});
+      let cells = within(getByRole('grid')).getAllByRole('button');
+      expect(cells).toHaveLength(12);
+      expect(cells[0].textContent).toBe('2019');
+      expect(cells[11].textContent).toBe('2030');
+
+      await user.click(getByText('2027'));
+      expect(onChange).toHaveBeenCalledWith(new CalendarDate(2027, 1, 1));
+    });
+
+    it('should disable months outside the min and max values', () => {
+      let {getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'month', minValue: new CalendarDate(2024, 3, 15)});
+      expect(getByText('Feb')).toHaveAttribute('data-disabled', 'true');
+      expect(getByText('Mar')).not.toHaveAttribute('data-disabled');
+    });
+  });
+
+  it('should render week numbers', () => {
+    let {getByRole} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13)}, {showWeekNumbers: true});
+    let grid = getByRole('grid');
+    let weekNumbers = [...grid.querySelectorAll('.react-aria-CalendarWeekNumberCell')];
+    expect(weekNumbers.map(cell => cell.textContent)).toEqual(['9', '10', '11', '12', '13', '14']);
+    expect(weekNumbers[0]).toHaveAttribute('aria-hidden', 'true');
+  });
 });
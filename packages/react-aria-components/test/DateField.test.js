@@ -437,6 +437,38 @@ describe('DateField', () => {
     expect(segmentTypes).toEqual(['year', 'literal', 'month', 'day']);
   });
 
+  it('should support the Chinese calendar', async () => {
+    let onChange = jest.fn();
+    let {getAllByRole} = render(
+      <I18nProvider locale="zh-CN-u-ca-chinese">
+        <DateField defaultValue={new CalendarDate(2023, 3, 22)} onChange={onChange}>
+          <Label>Birth date</Label>
+          <DateInput>
+            {segment => <DateSegment segment={segment} />}
+          </DateInput>
+        </DateField>
+      </I18nProvider>
+    );
+
+    let segments = getAllByRole('spinbutton');
+    expect(segments.map(s => s.textContent)).toEqual(['2023', '闰二月', '1']);
+    expect(segments[0]).toHaveAttribute('aria-valuenow', '2023');
+
+    await user.click(segments[1]);
+    await user.keyboard('{ArrowUp}');
+    expect(segments[1]).toHaveTextContent('三月');
+    expect(onChange).toHaveBeenLastCalledWith(new CalendarDate(2023, 4, 20));
+
+    await user.click(segments[0]);
+    await user.keyboard('{ArrowUp}');
+    expect(segments[0]).toHaveTextContent('2024');
+    expect(onChange).toHaveBeenLastCalledWith(new CalendarDate(2024, 4, 9));
+
+    await user.keyboard('2025');
+    expect(segments[0]).toHaveTextContent('2025');
+    expect(onChange).toHaveBeenLastCalledWith(new CalendarDate(2025, 3, 29));
+  });
+
   it('should support autofill', async() => {
     let {getByRole} = render(
       <DateField>
@@ -478,4 +510,71 @@ describe('DateField', () => {
     expect(segements[1]).toHaveTextContent('dd');
     expect(segements[2]).toHaveTextContent('yyyy');
   });
+
+  it('should parse pasted dates', async () => {
+    let onChange = jest.fn();
+    let {getByRole, getAllByRole} = render(
+      <DateField onChange={onChange}>
+        <Label>Date</Label>
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+      </DateField>
+    );
+
+    await user.click(getAllByRole('spinbutton')[0]);
+    await user.paste('March 5, 2024');
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(new CalendarDate(2024, 3, 5));
+    expect(getByRole('group')).toHaveTextContent('3/5/2024');
+
+    await user.paste('not a date');
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(getByRole('group')).toHaveTextContent('3/5/2024');
+  });
+
+  it('should parse pasted dates according to the locale', async () => {
+    let onChange = jest.fn();
+    let {getAllByRole} = render(
+      <I18nProvider locale="en-GB">
+        <DateField onChange={onChange}>
+          <Label>Date</Label>
+          <DateInput>
+            {segment => <DateSegment segment={segment} />}
+          </DateInput>
+        </DateField>
+      </I18nProvider>
+    );
+
+    await user.click(getAllByRole('spinbutton')[0]);
+    await user.paste('05/03/24');
+    expect(onChange).toHaveBeenCalledWith(new CalendarDate(2024, 3, 5));
+  });
+
+  it('should only parse complete dates from replaced text', async () => {
+    let onChange = jest.fn();
+    let {getAllByRole} = render(
+      <DateField onChange={onChange}>
+        <Label>Date</Label>
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+      </DateField>
+    );
+
+    let segments = getAllByRole('spinbutton');
+    await user.click(segments[2]);
+
+    // JSDOM doesn't support the beforeinput event.
+    act(() => {
+      segments[2].dispatchEvent(new InputEvent('beforeinput', {cancelable: true, data: '2024', inputType: 'insertText'}));
+    });
+    expect(segments[2]).toHaveTextContent('2024');
+    expect(onChange).not.toHaveBeenCalled();
+
+    act(() => {
+      segments[2].dispatchEvent(new InputEvent('beforeinput', {cancelable: true, data: 'March 5, 2024', inputType: 'insertReplacementText'}));
+    });
+    expect(onChange).toHaveBeenCalledWith(new CalendarDate(2024, 3, 5));
+  });
 });
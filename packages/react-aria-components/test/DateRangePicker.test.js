@@ -18,20 +18,38 @@ import {
   DateInput,
   DateRangePicker,
   DateRangePickerContext,
+  DateRangePickerStateContext,
   DateSegment,
   Dialog,
   FieldError,
   Group,
   Heading,
   Label,
+  ListBox,
+  ListBoxItem,
   Popover,
   RangeCalendar,
   Text
 } from 'react-aria-components';
-import {CalendarDate} from '@internationalized/date';
-import React from 'react';
+import {CalendarDate, getLocalTimeZone, startOfMonth, today} from '@internationalized/date';
+import React, {useContext} from 'react';
 import userEvent from '@testing-library/user-event';
 
+let PresetList = () => {
+  let state = useContext(DateRangePickerStateContext);
+  return (
+    <ListBox
+      aria-label="Presets"
+      items={state.presets}
+      selectionMode="single"
+      disallowEmptySelection
+      selectedKeys={state.selectedPresetId ? [state.selectedPresetId] : []}
+      onSelectionChange={([id]) => state.selectPreset(id)}>
+      {preset => <ListBoxItem>{preset.label}</ListBoxItem>}
+    </ListBox>
+  );
+};
+
 let TestDateRangePicker = (props) => (
   <DateRangePicker data-foo="bar" {...props}>
     <Label>Trip dates</Label>
@@ -385,4 +403,83 @@ describe('DateRangePicker', () => {
     let text = popover.querySelector('.react-aria-Text');
     expect(text).not.toHaveAttribute('id');
   });
+
+  it('should parse pasted date ranges', async () => {
+    let onChange = jest.fn();
+    let {getByRole, getAllByRole} = render(<TestDateRangePicker onChange={onChange} />);
+
+    await user.click(getAllByRole('spinbutton')[0]);
+    await user.paste('Mar 5 – Mar 8, 2024');
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({start: new CalendarDate(2024, 3, 5), end: new CalendarDate(2024, 3, 8)});
+
+    let inputs = getByRole('group').querySelectorAll('.react-aria-DateInput');
+    expect(inputs[0]).toHaveTextContent('3/5/2024');
+    expect(inputs[1]).toHaveTextContent('3/8/2024');
+  });
+
+  it('should select preset ranges relative to today', async () => {
+    let presets = [
+      {id: 'last7', label: 'Last 7 days', getValue: date => ({start: date.subtract({days: 6}), end: date})},
+      {id: 'month', label: 'This month', getValue: date => ({start: startOfMonth(date), end: date})}
+    ];
+    let onChange = jest.fn();
+    let {getByRole, getAllByRole, queryByRole} = render(
+      <DateRangePicker presets={presets} onChange={onChange}>
+        <Label>Report period</Label>
+        <Group>
+          <DateInput slot="start">
+            {(segment) => <DateSegment segment={segment} />}
+          </DateInput>
+          <DateInput slot="end">
+            {(segment) => <DateSegment segment={segment} />}
+          </DateInput>
+          <Button>▼</Button>
+        </Group>
+        <Popover>
+          <Dialog>
+            <PresetList />
+            <RangeCalendar>
+              <CalendarGrid>
+                {(date) => <CalendarCell date={date} />}
+              </CalendarGrid>
+            </RangeCalendar>
+          </Dialog>
+        </Popover>
+      </DateRangePicker>
+    );
+
+    await user.click(getByRole('button'));
+    let options = within(getByRole('listbox')).getAllByRole('option');
+    expect(options.map(o => o.textContent)).toEqual(['Last 7 days', 'This month']);
+    expect(options[0]).toHaveAttribute('aria-selected', 'false');
+
+    await user.click(options[0]);
+    let todayDate = today(getLocalTimeZone());
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({start: todayDate.subtract({days: 6}), end: todayDate});
+    expect(queryByRole('dialog')).toBeNull();
+
+    await user.click(getAllByRole('button')[0]);
+    options = within(getByRole('listbox')).getAllByRole('option');
+    expect(options[0]).toHaveAttribute('aria-selected', 'true');
+  });
+
+  it('should display a comparison range in the calendar', async () => {
+    let {getByRole, getAllByRole} = render(
+      <TestDateRangePicker
+        defaultValue={{start: new CalendarDate(2023, 1, 10), end: new CalendarDate(2023, 1, 12)}}
+        comparisonValue={{start: new CalendarDate(2023, 1, 3), end: new CalendarDate(2023, 1, 5)}} />
+    );
+
+    await user.click(getByRole('button'));
+    let calendar = getByRole('application');
+    expect(document.getElementById(calendar.getAttribute('aria-describedby'))).toHaveTextContent('Comparison Range: Tuesday, January 3 to Thursday, January 5, 2023');
+
+    let cells = getAllByRole('button').filter(button => button.hasAttribute('data-comparison'));
+    expect(cells.map(cell => cell.textContent)).toEqual(['3', '4', '5']);
+    expect(cells[0]).toHaveAttribute('data-comparison-start');
+    expect(cells[2]).toHaveAttribute('data-comparison-end');
+    expect(cells[1]).toHaveAttribute('aria-label', 'Wednesday, January 4, 2023, In comparison range');
+  });
 });
@@ -0,0 +1,174 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {act, installPointerEvent, pointerMap, render, within} from '@react-spectrum/test-utils-internal';
+import {DateInput, DateSegment, DurationField, FieldError, Label, Text} from '../';
+import {parseDuration} from '@internationalized/date';
+import React from 'react';
+import userEvent from '@testing-library/user-event';
+
+describe('DurationField', () => {
+  installPointerEvent();
+
+  let user;
+  beforeAll(() => {
+    user = userEvent.setup({delay: null, pointerMap});
+  });
+
+  it('provides slots', () => {
+    let {getByRole, getAllByRole} = render(
+      <DurationField data-foo="bar">
+        <Label>Response time</Label>
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+        <Text slot="description">Description</Text>
+      </DurationField>
+    );
+
+    let group = getByRole('group');
+    expect(group.textContent).toBe('––d ––h ––m');
+    expect(group).toHaveAttribute('class', 'react-aria-DateInput');
+    expect(group.closest('.react-aria-DurationField')).toHaveAttribute('data-foo', 'bar');
+
+    let label = document.getElementById(group.getAttribute('aria-labelledby'));
+    expect(label).toHaveTextContent('Response time');
+
+    let segments = getAllByRole('spinbutton');
+    expect(segments.map(segment => segment.getAttribute('data-type'))).toEqual(['days', 'hours', 'minutes']);
+    expect(segments[0]).toHaveAttribute('aria-label', 'day, ');
+    expect(segments[1]).toHaveAttribute('aria-valuemax', '23');
+    expect(segments[2]).toHaveAttribute('aria-valuemax', '59');
+    for (let segment of segments) {
+      expect(segment).toHaveAttribute('data-placeholder', 'true');
+    }
+  });
+
+  it('should support granularity', () => {
+    let {getAllByRole} = render(
+      <DurationField aria-label="Duration" maxGranularity="weeks" granularity="days" defaultValue={{days: 10}}>
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+      </DurationField>
+    );
+
+    let segments = getAllByRole('spinbutton');
+    expect(segments.map(segment => segment.textContent)).toEqual(['1', '3']);
+    expect(segments[1]).toHaveAttribute('aria-valuemax', '6');
+  });
+
+  it('should enter a duration using the keyboard', async () => {
+    let onChange = jest.fn();
+    let {getAllByRole} = render(
+      <DurationField aria-label="Duration" name="duration" onChange={onChange}>
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+      </DurationField>
+    );
+
+    let segments = getAllByRole('spinbutton');
+    await user.click(segments[0]);
+    await user.keyboard('2[Tab]4');
+    expect(document.activeElement).toBe(segments[2]);
+    expect(onChange).not.toHaveBeenCalled();
+
+    // The value is committed once all segments are filled in.
+    await user.keyboard('30');
+    expect(onChange).toHaveBeenLastCalledWith({days: 2, hours: 4, minutes: 30});
+    expect(document.querySelector('input[name=duration]')).toHaveValue('P2DT4H30M');
+
+    await user.keyboard('[ArrowUp]');
+    expect(onChange).toHaveBeenLastCalledWith({days: 2, hours: 4, minutes: 31});
+  });
+
+  it('should fill remaining segments with zero on blur', async () => {
+    let onChange = jest.fn();
+    let {getAllByRole} = render(
+      <DurationField aria-label="Duration" onChange={onChange}>
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+      </DurationField>
+    );
+
+    await user.click(getAllByRole('spinbutton')[1]);
+    await user.keyboard('5');
+    await user.tab();
+    await user.tab();
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({days: 0, hours: 5, minutes: 0});
+  });
+
+  it('should round trip values through parseDuration', () => {
+    render(
+      <DurationField aria-label="Duration" name="duration" value={parseDuration('PT50H')}>
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+      </DurationField>
+    );
+
+    let input = document.querySelector('input[name=duration]');
+    expect(input).toHaveValue('P2DT2H');
+    expect(parseDuration(input.value)).toEqual({years: 0, months: 0, weeks: 0, days: 2, hours: 2, minutes: 0, seconds: 0});
+  });
+
+  it('should validate min and max durations', async () => {
+    let {getByRole} = render(
+      <DurationField aria-label="Duration" defaultValue={{hours: 2}} minValue={{hours: 1}} maxValue={{hours: 4}} validationBehavior="aria">
+        <DateInput>
+          {segment => <DateSegment segment={segment} />}
+        </DateInput>
+        <FieldError />
+      </DurationField>
+    );
+
+    let group = getByRole('group');
+    let hours = within(group).getAllByRole('spinbutton')[1];
+    expect(group.closest('.react-aria-DurationField')).not.toHaveAttribute('data-invalid');
+
+    await user.click(hours);
+    await user.keyboard('[ArrowUp][ArrowUp][ArrowUp]');
+    expect(hours).toHaveTextContent('5');
+    expect(group.closest('.react-aria-DurationField')).toHaveAttribute('data-invalid', 'true');
+    expect(group.closest('.react-aria-DurationField')).toHaveTextContent('Value must be 4 hours or less.');
+  });
+
+  it('supports required validation', async () => {
+    let {getByRole, getByTestId} = render(
+      <form data-testid="form">
+        <DurationField aria-label="Duration" name="duration" isRequired>
+          <DateInput>
+            {segment => <DateSegment segment={segment} />}
+          </DateInput>
+          <FieldError />
+        </DurationField>
+      </form>
+    );
+
+    let group = getByRole('group');
+    let input = document.querySelector('input[name=duration]');
+    expect(input).toHaveAttribute('required');
+    expect(input.validity.valid).toBe(false);
+
+    act(() => {getByTestId('form').checkValidity();});
+    expect(document.activeElement).toBe(within(group).getAllByRole('spinbutton')[0]);
+
+    await user.keyboard('1');
+    await user.tab();
+    await user.tab();
+    await user.tab();
+    expect(input.validity.valid).toBe(true);
+  });
+});
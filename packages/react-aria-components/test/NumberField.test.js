@@ -135,6 +135,120 @@ describe('NumberField', () => {
     expect(input).toHaveValue('');
   });
 
+  it('should support exact decimal values', async () => {
+    let onChange = jest.fn();
+    let {getByRole, getAllByRole} = render(<TestNumberField name="test" valueType="decimal" defaultValue="12345678901234567.89" step="0.01" onChange={onChange} />);
+    let input = getByRole('textbox');
+    let hiddenInput = document.querySelector('input[name=test]');
+    expect(input).toHaveValue('12,345,678,901,234,567.89');
+    expect(hiddenInput).toHaveValue('12345678901234567.89');
+
+    await user.click(getAllByRole('button')[1]);
+    expect(onChange).toHaveBeenLastCalledWith('12345678901234567.9');
+    expect(input).toHaveValue('12,345,678,901,234,567.9');
+    expect(hiddenInput).toHaveValue('12345678901234567.9');
+
+    await user.clear(input);
+    await user.keyboard('0.1');
+    await user.tab();
+    await user.click(getAllByRole('button')[1]);
+    await user.click(getAllByRole('button')[1]);
+    expect(onChange).toHaveBeenLastCalledWith('0.12');
+    expect(hiddenInput).toHaveValue('0.12');
+
+    await user.clear(input);
+    await user.tab();
+    expect(onChange).toHaveBeenLastCalledWith('');
+    expect(hiddenInput).toHaveValue('');
+  });
+
+  it('should support entering values in compact and scientific notation', async () => {
+    let onChange = jest.fn();
+    let {getByRole} = render(<TestNumberField defaultValue={1500} formatOptions={{notation: 'compact'}} onChange={onChange} />);
+    let input = getByRole('textbox');
+    expect(input).toHaveValue('1.5K');
+    expect(input).toHaveAttribute('inputmode', 'text');
+
+    await user.clear(input);
+    await user.keyboard('2.5m');
+    expect(input).toHaveValue('2.5m');
+    await user.tab();
+    expect(onChange).toHaveBeenLastCalledWith(2500000);
+    expect(input).toHaveValue('2.5M');
+
+    await user.clear(input);
+    await user.keyboard('3e4');
+    await user.tab();
+    expect(onChange).toHaveBeenLastCalledWith(30000);
+    expect(input).toHaveValue('30K');
+  });
+
+  it('should support arithmetic expressions', async () => {
+    let onChange = jest.fn();
+    let {getByRole} = render(
+      <NumberField allowsExpressions onChange={onChange}>
+        <Label>Price</Label>
+        <Group>
+          <Button slot="decrement">-</Button>
+          <Input />
+          <Button slot="increment">+</Button>
+        </Group>
+        <FieldError />
+      </NumberField>
+    );
+
+    let input = getByRole('textbox');
+    let numberfield = input.closest('.react-aria-NumberField');
+    expect(input).toHaveAttribute('inputmode', 'text');
+
+    await user.click(input);
+    await user.keyboard('=120*1.08');
+    expect(input).toHaveValue('=120*1.08');
+    await user.keyboard('{Enter}');
+    expect(onChange).toHaveBeenLastCalledWith(129.6);
+    expect(input).toHaveValue('129.6');
+
+    await user.clear(input);
+    await user.keyboard('(45+12)/3+10%');
+    await user.tab();
+    expect(onChange).toHaveBeenLastCalledWith(19.1);
+    expect(input).toHaveValue('19.1');
+
+    await user.clear(input);
+    await user.keyboard('45+*2abc');
+    expect(input).toHaveValue('45+*2');
+    expect(numberfield).not.toHaveAttribute('data-invalid');
+
+    await user.tab();
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(input).toHaveValue('45+*2');
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+    expect(numberfield).toHaveAttribute('data-invalid');
+    expect(document.getElementById(input.getAttribute('aria-describedby'))).toHaveTextContent('Enter a valid number or calculation.');
+
+    await user.click(input);
+    await user.keyboard('{ArrowLeft}{ArrowLeft}{Backspace}');
+    expect(input).toHaveValue('45*2');
+    expect(numberfield).not.toHaveAttribute('data-invalid');
+    await user.keyboard('{Enter}');
+    expect(onChange).toHaveBeenLastCalledWith(90);
+    expect(input).toHaveValue('90');
+  });
+
+  it('should not support arithmetic expressions for decimal values', async () => {
+    let onChange = jest.fn();
+    let {getByRole} = render(<TestNumberField valueType="decimal" allowsExpressions onChange={onChange} />);
+    let input = getByRole('textbox');
+    expect(input).not.toHaveAttribute('inputmode', 'text');
+
+    await user.clear(input);
+    await user.keyboard('0.1+0.2');
+    // The operator and the second decimal separator are rejected.
+    expect(input).toHaveValue('0.102');
+    await user.tab();
+    expect(onChange).toHaveBeenLastCalledWith('0.102');
+  });
+
   it('should support disabled when having a form value', () => {
     render(<TestNumberField isDisabled name="test" form="test" value={25} formatOptions={{style: 'currency', currency: 'USD'}} />);
     let input = document.querySelector('input[name=test]');
@@ -382,4 +382,26 @@ describe('RangeCalendar', () => {
     expect(cell).toHaveAttribute('aria-invalid', 'true');
     expect(cell).toHaveClass('invalid');
   });
+
+  it('should select entire weeks when selectionGranularity is week', async () => {
+    let onChange = jest.fn();
+    let {getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'week', onChange});
+    await user.click(getByText('13'));
+    await user.click(getByText('20'));
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({start: new CalendarDate(2024, 3, 10), end: new CalendarDate(2024, 3, 23)});
+    expect(getByText('10')).toHaveAttribute('data-selection-start', 'true');
+    expect(getByText('23')).toHaveAttribute('data-selection-end', 'true');
+  });
+
+  it('should select a range of months when selectionGranularity is month', async () => {
+    let onChange = jest.fn();
+    let {getByText} = renderCalendar({defaultFocusedValue: new CalendarDate(2024, 3, 13), selectionGranularity: 'month', onChange});
+    await user.click(getByText('Feb'));
+    await user.click(getByText('Apr'));
+    expect(onChange).toHaveBeenCalledWith({start: new CalendarDate(2024, 2, 1), end: new CalendarDate(2024, 4, 30)});
+    expect(getByText('Feb')).toHaveAttribute('data-selection-start', 'true');
+    expect(getByText('Mar')).toHaveAttribute('data-selected', 'true');
+    expect(getByText('Apr')).toHaveAttribute('data-selection-end', 'true');
+  });
 });
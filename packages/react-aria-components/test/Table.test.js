@@ -11,9 +11,9 @@
  */
 
 import {act, fireEvent, installPointerEvent, mockClickDefault, pointerMap, render, setupIntersectionObserverMock, triggerLongPress, within} from '@react-spectrum/test-utils-internal';
-import {Button, Cell, Checkbox, Collection, Column, ColumnResizer, Dialog, DialogTrigger, DropIndicator, Label, Modal, ResizableTableContainer, Row, Table, TableBody, TableHeader, TableLayout, TableLoadMoreItem, Tag, TagGroup, TagList, useDragAndDrop, useTableOptions, Virtualizer} from '../';
+import {Button, ButtonContext, Cell, Checkbox, Collection, Column, ColumnResizer, Dialog, DialogTrigger, DropIndicator, Input, Label, Modal, ResizableTableContainer, Row, Table, TableBody, TableHeader, TableLayout, TableLoadMoreItem, Tag, TagGroup, TagList, TextField, useDragAndDrop, useTableOptions, Virtualizer} from '../';
+import {ClipboardEvent, DataTransfer, DragEvent} from '@react-aria/dnd/test/mocks';
 import {composeStories} from '@storybook/react';
-import {DataTransfer, DragEvent} from '@react-aria/dnd/test/mocks';
 import React, {useMemo, useState} from 'react';
 import {resizingTests} from '@react-aria/table/test/tableResizingTests';
 import {setInteractionModality} from '@react-aria/interactions';
@@ -713,6 +713,56 @@ describe('Table', () => {
     expect(onSortChange).toHaveBeenCalledWith({column: 'name', direction: 'descending'});
   });
 
+  it('should support sorting by multiple columns', async () => {
+    let onSortChange = jest.fn();
+    let onSortDescriptorsChange = jest.fn();
+    let {getByRole} = render(
+      <Table aria-label="Files" sortDescriptors={[{column: 'name', direction: 'ascending'}, {column: 'type', direction: 'descending'}]} onSortChange={onSortChange} onSortDescriptorsChange={onSortDescriptorsChange}>
+        <TableHeader>
+          <Column id="name" isRowHeader allowsSorting>Name</Column>
+          <Column id="type" allowsSorting>Type</Column>
+          <Column id="date" allowsSorting>Date Modified</Column>
+        </TableHeader>
+        <TableBody>
+          <Row>
+            <Cell>Games</Cell>
+            <Cell>File folder</Cell>
+            <Cell>6/7/2020</Cell>
+          </Row>
+        </TableBody>
+      </Table>
+    );
+
+    let tableTester = testUtilUser.createTester('Table', {root: getByRole('grid')});
+    let columns = tableTester.columns;
+    expect(columns[0]).toHaveAttribute('aria-sort', 'ascending');
+    expect(columns[0]).toHaveAttribute('data-sort-direction', 'ascending');
+    expect(columns[0]).toHaveAttribute('data-sort-priority', '1');
+    expect(columns[1]).toHaveAttribute('aria-sort', 'none');
+    expect(columns[1]).toHaveAttribute('data-sort-direction', 'descending');
+    expect(columns[1]).toHaveAttribute('data-sort-priority', '2');
+    expect(columns[1]).toHaveAccessibleDescription('sortable column, descending, sort priority 2');
+    expect(columns[2]).not.toHaveAttribute('data-sort-direction');
+    expect(columns[2]).not.toHaveAttribute('data-sort-priority');
+    expect(getByRole('grid')).toHaveAccessibleDescription('sorted by column Name in ascending order, then by column Type in descending order');
+
+    await user.keyboard('{Shift>}');
+    await user.click(columns[2]);
+    await user.keyboard('{/Shift}');
+    expect(onSortChange).not.toHaveBeenCalled();
+    expect(onSortDescriptorsChange).toHaveBeenCalledTimes(1);
+    expect(onSortDescriptorsChange).toHaveBeenLastCalledWith([
+      {column: 'name', direction: 'ascending'},
+      {column: 'type', direction: 'descending'},
+      {column: 'date', direction: 'ascending'}
+    ]);
+
+    await user.click(columns[1]);
+    expect(onSortChange).toHaveBeenCalledTimes(1);
+    expect(onSortChange).toHaveBeenLastCalledWith({column: 'type', direction: 'ascending'});
+    expect(onSortDescriptorsChange).toHaveBeenLastCalledWith([{column: 'type', direction: 'ascending'}]);
+  });
+
   it('should support empty state', () => {
     let {getAllByRole, getByRole} = render(
       <Table aria-label="Search results">
@@ -1018,6 +1068,63 @@ describe('Table', () => {
     expect(rows.map(r => r.textContent)).toEqual(['FooBar', 'Foo 7Bar 7', 'Foo 8Bar 8', 'Foo 9Bar 9', 'Foo 10Bar 10', 'Foo 11Bar 11', 'Foo 12Bar 12', 'Foo 13Bar 13', 'Foo 49Bar 49']);
   });
 
+  it('should support pinned columns in a virtualizer', async () => {
+    let items = [];
+    for (let i = 0; i < 5; i++) {
+      items.push({id: i, name: 'Name ' + i, type: 'Type ' + i, date: 'Date ' + i, size: 'Size ' + i});
+    }
+
+    jest.spyOn(window.HTMLElement.prototype, 'clientWidth', 'get').mockImplementation(() => 100);
+    jest.spyOn(window.HTMLElement.prototype, 'clientHeight', 'get').mockImplementation(() => 200);
+
+    let {getByRole, getByText, queryByText} = render(
+      <Virtualizer layout={TableLayout} layoutOptions={{rowHeight: 25}}>
+        <Table aria-label="Test">
+          <TableHeader>
+            <Column isRowHeader isPinned="start">Name</Column>
+            <Column>Type</Column>
+            <Column>Date</Column>
+            <Column isPinned="end">Size</Column>
+          </TableHeader>
+          <TableBody items={items}>
+            {item => (
+              <Row>
+                <Cell>{item.name}</Cell>
+                <Cell>{item.type}</Cell>
+                <Cell>{item.date}</Cell>
+                <Cell>{item.size}</Cell>
+              </Row>
+            )}
+          </TableBody>
+        </Table>
+      </Virtualizer>
+    );
+
+    // Columns default to their minimum width of 75px.
+    let nameCell = getByText('Name 0').closest('[role=rowheader]');
+    expect(nameCell).toHaveAttribute('data-pinned', 'start');
+    expect(nameCell.parentElement).toHaveStyle({position: 'sticky', left: '0px'});
+
+    // The end column is positioned at the end of the visible rect rather than after the other columns.
+    let sizeCell = getByText('Size 0').closest('[role=gridcell]');
+    expect(sizeCell).toHaveAttribute('data-pinned', 'end');
+    expect(sizeCell.parentElement).toHaveStyle({position: 'absolute', left: '25px'});
+    expect(getByText('Size').closest('[role=columnheader]').parentElement).toHaveStyle({left: '25px'});
+
+    // Columns outside the visible rect are still virtualized.
+    expect(queryByText('Date 0')).toBeNull();
+
+    // Unpinned cells have scroll margins so that they are scrolled out from beneath the pinned columns.
+    expect(getByText('Type 0').closest('[role=gridcell]').getAttribute('style')).toContain('scroll-margin-inline-start: 75px');
+    expect(nameCell.getAttribute('style') ?? '').not.toContain('scroll-margin');
+
+    let grid = getByRole('grid');
+    grid.scrollLeft = 100;
+    fireEvent.scroll(grid);
+
+    expect(getByText('Size 0').closest('[role=gridcell]').parentElement).toHaveStyle({left: '125px'});
+  });
+
   it('should support nested collections with colliding keys', async () => {
     let {container} = render(<EditableTable />);
 
@@ -1171,6 +1278,290 @@ describe('Table', () => {
     });
   });
 
+  describe('cell selection', () => {
+    installPointerEvent();
+
+    function SpreadsheetTable(props) {
+      return (
+        <Table aria-label="Files" allowsCellSelection {...props}>
+          <TableHeader>
+            <Column id="name" isRowHeader>Name</Column>
+            <Column id="type">Type</Column>
+            <Column id="date">Date Modified</Column>
+          </TableHeader>
+          <TableBody>
+            <Row id="games">
+              <Cell id="games-name">Games</Cell>
+              <Cell id="games-type">File folder</Cell>
+              <Cell id="games-date">6/7/2020</Cell>
+            </Row>
+            <Row id="program">
+              <Cell id="program-name">Program Files</Cell>
+              <Cell id="program-type">Folder</Cell>
+              <Cell id="program-date">4/7/2021</Cell>
+            </Row>
+            <Row id="bootmgr">
+              <Cell id="bootmgr-name">bootmgr</Cell>
+              <Cell id="bootmgr-type">System file</Cell>
+              <Cell id="bootmgr-date">11/20/2010</Cell>
+            </Row>
+          </TableBody>
+        </Table>
+      );
+    }
+
+    it('should select a range of cells with the keyboard', async () => {
+      let onCellSelectionChange = jest.fn();
+      let {getByText} = render(<SpreadsheetTable onCellSelectionChange={onCellSelectionChange} />);
+
+      await user.tab();
+      await user.keyboard('{ArrowRight}');
+      expect(document.activeElement).toBe(getByText('Games'));
+
+      await user.keyboard('{Shift>}{ArrowRight}{ArrowDown}{/Shift}');
+      expect(document.activeElement).toBe(getByText('Folder'));
+      expect(onCellSelectionChange).toHaveBeenLastCalledWith({anchorKey: 'games-name', focusKey: 'program-type'});
+
+      for (let text of ['Games', 'File folder', 'Program Files', 'Folder']) {
+        expect(getByText(text)).toHaveAttribute('aria-selected', 'true');
+        expect(getByText(text)).toHaveAttribute('data-selected', 'true');
+      }
+
+      for (let text of ['6/7/2020', '4/7/2021', 'bootmgr', 'System file', '11/20/2010']) {
+        expect(getByText(text)).toHaveAttribute('aria-selected', 'false');
+        expect(getByText(text)).not.toHaveAttribute('data-selected');
+      }
+
+      await user.keyboard('{Escape}');
+      expect(onCellSelectionChange).toHaveBeenLastCalledWith(null);
+      expect(getByText('Games')).toHaveAttribute('aria-selected', 'false');
+    });
+
+    it('should select a range of cells by dragging', () => {
+      let onCellSelectionChange = jest.fn();
+      let {getByText} = render(<SpreadsheetTable onCellSelectionChange={onCellSelectionChange} />);
+
+      fireEvent.pointerDown(getByText('Folder'), {pointerType: 'mouse', button: 0, buttons: 1, pointerId: 1});
+      fireEvent.pointerEnter(getByText('11/20/2010'), {pointerType: 'mouse', buttons: 1, pointerId: 1});
+      fireEvent.pointerUp(getByText('11/20/2010'), {pointerType: 'mouse', button: 0, pointerId: 1});
+      expect(onCellSelectionChange).toHaveBeenLastCalledWith({anchorKey: 'program-type', focusKey: 'bootmgr-date'});
+
+      for (let text of ['Folder', '4/7/2021', 'System file', '11/20/2010']) {
+        expect(getByText(text)).toHaveAttribute('aria-selected', 'true');
+      }
+      expect(getByText('Program Files')).toHaveAttribute('aria-selected', 'false');
+
+      // Moving without the mouse button pressed doesn't change the selection.
+      fireEvent.pointerEnter(getByText('Games'), {pointerType: 'mouse', buttons: 0, pointerId: 1});
+      expect(onCellSelectionChange).toHaveBeenCalledTimes(2);
+    });
+
+    it('should copy the selected cells as tab separated values and HTML', async () => {
+      let {getByText} = render(<SpreadsheetTable defaultCellSelection={{anchorKey: 'games-type', focusKey: 'program-date'}} />);
+      act(() => getByText('File folder').focus());
+
+      let clipboardData = new DataTransfer();
+      let allowDefault = fireEvent(document.activeElement, new ClipboardEvent('copy', {clipboardData}));
+      expect(allowDefault).toBe(false);
+      expect(clipboardData.getData('text/plain')).toBe('File folder\t6/7/2020\nFolder\t4/7/2021');
+      expect(clipboardData.getData('text/html')).toBe('<table><tr><td>File folder</td><td>6/7/2020</td></tr><tr><td>Folder</td><td>4/7/2021</td></tr></table>');
+    });
+
+    it('should paste tab separated values starting at the selected cells', async () => {
+      let onCellPaste = jest.fn();
+      let {getByText} = render(<SpreadsheetTable onCellPaste={onCellPaste} defaultCellSelection={{anchorKey: 'program-type', focusKey: 'program-type'}} />);
+      act(() => getByText('Folder').focus());
+
+      let clipboardData = new DataTransfer();
+      clipboardData.items.add('a\t"b\tc"\td\ne\tf\tg\nh\ti\tj\n', 'text/plain');
+      await act(async () => {
+        fireEvent(document.activeElement, new ClipboardEvent('paste', {clipboardData}));
+      });
+
+      // Values outside the table are discarded.
+      expect(onCellPaste).toHaveBeenCalledTimes(1);
+      expect(onCellPaste).toHaveBeenCalledWith({
+        rowKeys: ['program', 'bootmgr'],
+        columnKeys: ['type', 'date'],
+        values: [['a', 'b\tc'], ['e', 'f']]
+      });
+    });
+  });
+
+  describe('editable cells', () => {
+    function EditableNameCell({item, onChange}) {
+      let [value, setValue] = useState(item.name);
+      return (
+        <Cell
+          isEditable
+          onEditCommit={() => onChange(value)}
+          onEditCancel={() => setValue(item.name)}>
+          {({isEditing}) => isEditing
+            ? (
+              <>
+                <TextField aria-label="Name" value={value} onChange={setValue}><Input /></TextField>
+                <Button onPress={() => setValue('')}>Clear</Button>
+              </>
+            )
+            : item.name
+          }
+        </Cell>
+      );
+    }
+
+    function EditableTable({onChange}) {
+      let [items, setItems] = useState([
+        {id: 'games', name: 'Games', type: 'File folder'},
+        {id: 'program', name: 'Program Files', type: 'File folder'},
+        {id: 'bootmgr', name: 'bootmgr', type: 'System file'}
+      ]);
+
+      return (
+        <Table aria-label="Files">
+          <TableHeader>
+            <Column id="name" isRowHeader>Name</Column>
+            <Column id="type">Type</Column>
+          </TableHeader>
+          <TableBody items={items}>
+            {item => (
+              <Row>
+                <EditableNameCell
+                  item={item}
+                  onChange={name => {
+                    onChange(item.id, name);
+                    setItems(items => items.map(i => i.id === item.id ? {...i, name} : i));
+                  }} />
+                <Cell>{item.type}</Cell>
+              </Row>
+            )}
+          </TableBody>
+        </Table>
+      );
+    }
+
+    it('should edit a cell with the keyboard and commit with Enter', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText, queryByRole} = render(<EditableTable onChange={onChange} />);
+
+      await user.tab();
+      await user.keyboard('{ArrowRight}');
+      expect(document.activeElement).toBe(getByText('Games'));
+
+      await user.keyboard('{Enter}');
+      let input = getByRole('textbox');
+      expect(document.activeElement).toBe(input);
+      expect(input).toHaveValue('Games');
+      expect(input.closest('td')).toHaveAttribute('data-editing', 'true');
+
+      // Arrow keys are handled by the editor rather than navigating the table.
+      await user.keyboard('{ArrowDown}{ArrowLeft}');
+      expect(document.activeElement).toBe(input);
+
+      await user.clear(input);
+      await user.keyboard('Video games{Enter}');
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith('games', 'Video games');
+      expect(queryByRole('textbox')).toBeNull();
+      expect(getByText('Video games')).not.toHaveAttribute('data-editing');
+
+      // Focus moves to the cell below.
+      expect(document.activeElement).toBe(getByText('Program Files'));
+    });
+
+    it('should cancel editing with Escape', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText, queryByRole} = render(<EditableTable onChange={onChange} />);
+
+      await user.tab();
+      await user.keyboard('{ArrowRight}{F2}');
+      expect(document.activeElement).toBe(getByRole('textbox'));
+
+      await user.keyboard(' and more{Escape}');
+      expect(onChange).not.toHaveBeenCalled();
+      expect(queryByRole('textbox')).toBeNull();
+      expect(document.activeElement).toBe(getByText('Games'));
+
+      // Navigation resumes after editing.
+      await user.keyboard('{ArrowDown}');
+      expect(document.activeElement).toBe(getByText('Program Files'));
+    });
+
+    it('should start editing on double click and commit with Tab', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText} = render(<EditableTable onChange={onChange} />);
+
+      await user.dblClick(getByText('bootmgr'));
+      expect(document.activeElement).toBe(getByRole('textbox'));
+
+      await user.keyboard('{Tab}');
+      expect(onChange).toHaveBeenCalledWith('bootmgr', 'bootmgr');
+      expect(document.activeElement).toBe(getByText('System file'));
+    });
+
+    it('should not commit when Enter is handled by another element within the editor', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText} = render(<EditableTable onChange={onChange} />);
+
+      await user.dblClick(getByText('Games'));
+      let button = getByRole('button', {name: 'Clear'});
+      act(() => button.focus());
+
+      await user.keyboard('{Enter}');
+      expect(onChange).not.toHaveBeenCalled();
+      expect(getByRole('textbox')).toHaveValue('');
+
+      await user.click(getByRole('textbox'));
+      await user.keyboard('Puzzles{Enter}');
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith('games', 'Puzzles');
+    });
+
+    it('should commit when focus moves out of the table', async () => {
+      let onChange = jest.fn();
+      let {getByRole, getByText, queryByRole} = render(
+        <>
+          <EditableTable onChange={onChange} />
+          <button>After</button>
+        </>
+      );
+
+      await user.dblClick(getByText('Games'));
+      await user.keyboard(' and more');
+      await user.click(getByRole('button', {name: 'After'}));
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith('games', 'Games and more');
+      expect(queryByRole('textbox')).toBeNull();
+    });
+
+    it('should support editable columns', async () => {
+      let onEditCommit = jest.fn();
+      let {getByRole, getByText} = render(
+        <Table aria-label="Files">
+          <TableHeader>
+            <Column id="name" isRowHeader isEditable>Name</Column>
+            <Column id="type">Type</Column>
+          </TableHeader>
+          <TableBody>
+            <Row id="games">
+              <Cell onEditCommit={onEditCommit}>
+                {({isEditing}) => isEditing ? <TextField aria-label="Name" defaultValue="Games"><Input /></TextField> : 'Games'}
+              </Cell>
+              <Cell>File folder</Cell>
+            </Row>
+          </TableBody>
+        </Table>
+      );
+
+      await user.dblClick(getByText('File folder'));
+      expect(getByText('File folder')).not.toHaveAttribute('data-editing');
+
+      await user.dblClick(getByText('Games'));
+      expect(document.activeElement).toBe(getByRole('textbox'));
+      await user.keyboard('{Enter}');
+      expect(onEditCommit).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('drag and drop', () => {
     it('should support drag button slot', () => {
       let {getAllByRole} = render(<DraggableTable />);
@@ -1410,6 +1801,197 @@ describe('Table', () => {
     });
   });
 
+  describe('column reordering', () => {
+    function ReorderableColumnsTable({onColumnReorder}) {
+      let [columns, setColumns] = useState([
+        {id: 'name', name: 'Name'},
+        {id: 'type', name: 'Type'},
+        {id: 'date', name: 'Date Modified'}
+      ]);
+      let items = [
+        {id: 1, name: 'Games', type: 'File folder', date: '6/7/2020'},
+        {id: 2, name: 'bootmgr', type: 'System file', date: '11/20/2010'}
+      ];
+
+      let onReorder = e => {
+        onColumnReorder(e);
+        setColumns(columns => {
+          let key = [...e.keys][0];
+          let column = columns.find(column => column.id === key);
+          let rest = columns.filter(column => column.id !== key);
+          let index = rest.findIndex(column => column.id === e.target.key);
+          rest.splice(e.target.dropPosition === 'after' ? index + 1 : index, 0, column);
+          return rest;
+        });
+      };
+
+      return (
+        <Table aria-label="Files" onColumnReorder={onReorder}>
+          <TableHeader columns={columns}>
+            {column => (
+              <Column isRowHeader={column.id === 'name'} textValue={column.name}>
+                {column.name}
+                <Button slot="drag">≡</Button>
+              </Column>
+            )}
+          </TableHeader>
+          <TableBody items={items}>
+            {item => (
+              <Row columns={columns}>
+                {column => <Cell>{item[column.id]}</Cell>}
+              </Row>
+            )}
+          </TableBody>
+        </Table>
+      );
+    }
+
+    it('should reorder columns with the mouse', () => {
+      let onColumnReorder = jest.fn();
+      let {getAllByRole} = render(<ReorderableColumnsTable onColumnReorder={onColumnReorder} />);
+      let headers = getAllByRole('columnheader');
+      expect(headers[0]).toHaveAttribute('draggable', 'true');
+
+      let dataTransfer = new DataTransfer();
+      fireEvent.pointerDown(headers[0], {pointerType: 'mouse', button: 0, pointerId: 1, clientX: 0, clientY: 0});
+      fireEvent(headers[0], new DragEvent('dragstart', {dataTransfer, clientX: 0, clientY: 0}));
+      act(() => jest.runAllTimers());
+      expect(headers[0]).toHaveAttribute('data-dragging', 'true');
+
+      fireEvent(headers[2], new DragEvent('dragenter', {dataTransfer, clientX: 1, clientY: 1}));
+      fireEvent(headers[2], new DragEvent('dragover', {dataTransfer, clientX: 1, clientY: 1}));
+      expect(headers[2]).toHaveAttribute('data-drop-position', 'after');
+      expect(headers[1]).not.toHaveAttribute('data-drop-position');
+
+      fireEvent.pointerUp(headers[0], {pointerType: 'mouse', button: 0, pointerId: 1, clientX: 1, clientY: 1});
+      fireEvent(headers[2], new DragEvent('drop', {dataTransfer, clientX: 1, clientY: 1}));
+      fireEvent(headers[0], new DragEvent('dragend', {dataTransfer, clientX: 1, clientY: 1}));
+      act(() => jest.runAllTimers());
+
+      expect(onColumnReorder).toHaveBeenCalledTimes(1);
+      expect(onColumnReorder).toHaveBeenCalledWith({
+        keys: new Set(['name']),
+        dropOperation: 'move',
+        target: {type: 'item', key: 'date', dropPosition: 'after'}
+      });
+
+      headers = getAllByRole('columnheader');
+      expect(headers.map(header => header.textContent)).toEqual(['Type≡', 'Date Modified≡', 'Name≡']);
+      let cells = [...getAllByRole('row')[1].children];
+      expect(cells.map(cell => cell.textContent)).toEqual(['File folder', '6/7/2020', 'Games']);
+    });
+
+    it('should reorder columns with the keyboard', async () => {
+      let onColumnReorder = jest.fn();
+      let {getAllByRole} = render(<ReorderableColumnsTable onColumnReorder={onColumnReorder} />);
+      let headers = getAllByRole('columnheader');
+      let dragButton = within(headers[2]).getByRole('button');
+      expect(dragButton).toHaveAttribute('aria-label', 'Drag Date Modified');
+
+      await user.tab();
+      await user.keyboard('{ArrowUp}');
+      await user.keyboard('{ArrowRight}');
+      await user.keyboard('{ArrowRight}');
+      expect(document.activeElement).toBe(dragButton);
+
+      await user.keyboard('{Enter}');
+      act(() => jest.runAllTimers());
+      expect(headers[0]).toHaveAttribute('data-drop-position', 'before');
+
+      await user.keyboard('{Enter}');
+      act(() => jest.runAllTimers());
+
+      expect(onColumnReorder).toHaveBeenCalledWith({
+        keys: new Set(['date']),
+        dropOperation: 'move',
+        target: {type: 'item', key: 'name', dropPosition: 'before'}
+      });
+
+      headers = getAllByRole('columnheader');
+      expect(headers.map(header => header.textContent)).toEqual(['Date Modified≡', 'Name≡', 'Type≡']);
+    });
+
+    it('should support a controlled column order', () => {
+      let onColumnOrderChange = jest.fn();
+      function ControlledColumnOrderTable() {
+        let [columnOrder, setColumnOrder] = useState(['type', 'name', 'date']);
+        return (
+          <Table
+            aria-label="Files"
+            columnOrder={columnOrder}
+            onColumnOrderChange={order => {
+              onColumnOrderChange(order);
+              setColumnOrder(order);
+            }}>
+            <TableHeader>
+              <Column id="name" isRowHeader>Name</Column>
+              <Column id="type">Type</Column>
+              <Column id="date">Date Modified</Column>
+            </TableHeader>
+            <TableBody>
+              <Row id="games">
+                <Cell>Games</Cell>
+                <Cell>File folder</Cell>
+                <Cell>6/7/2020</Cell>
+              </Row>
+            </TableBody>
+          </Table>
+        );
+      }
+
+      let {getAllByRole} = render(<ControlledColumnOrderTable />);
+      let headers = getAllByRole('columnheader');
+      expect(headers.map(header => header.textContent)).toEqual(['Type', 'Name', 'Date Modified']);
+      let cells = [...getAllByRole('row')[1].children];
+      expect(cells.map(cell => cell.textContent)).toEqual(['File folder', 'Games', '6/7/2020']);
+      expect(cells[1]).toHaveAttribute('role', 'rowheader');
+
+      let dataTransfer = new DataTransfer();
+      fireEvent.pointerDown(headers[2], {pointerType: 'mouse', button: 0, pointerId: 1, clientX: 0, clientY: 0});
+      fireEvent(headers[2], new DragEvent('dragstart', {dataTransfer, clientX: 0, clientY: 0}));
+      act(() => jest.runAllTimers());
+      fireEvent(headers[0], new DragEvent('dragenter', {dataTransfer, clientX: 1, clientY: 1}));
+      fireEvent(headers[0], new DragEvent('dragover', {dataTransfer, clientX: 1, clientY: 1}));
+      expect(headers[0]).toHaveAttribute('data-drop-position', 'before');
+
+      fireEvent.pointerUp(headers[2], {pointerType: 'mouse', button: 0, pointerId: 1, clientX: 1, clientY: 1});
+      fireEvent(headers[0], new DragEvent('drop', {dataTransfer, clientX: 1, clientY: 1}));
+      fireEvent(headers[2], new DragEvent('dragend', {dataTransfer, clientX: 1, clientY: 1}));
+      act(() => jest.runAllTimers());
+
+      expect(onColumnOrderChange).toHaveBeenCalledTimes(1);
+      expect(onColumnOrderChange).toHaveBeenCalledWith(['date', 'type', 'name']);
+      headers = getAllByRole('columnheader');
+      expect(headers.map(header => header.textContent)).toEqual(['Date Modified', 'Type', 'Name']);
+      cells = [...getAllByRole('row')[1].children];
+      expect(cells.map(cell => cell.textContent)).toEqual(['6/7/2020', 'File folder', 'Games']);
+    });
+
+    it('should keep the ButtonContext of buttons within column headers', () => {
+      let renderTable = (props) => (
+        <ButtonContext.Provider value={{'aria-label': 'Sort'}}>
+          <Table aria-label="Files" {...props}>
+            <TableHeader>
+              <Column id="name" isRowHeader>Name <Button>↑</Button></Column>
+              <Column id="type">Type</Column>
+            </TableHeader>
+            <TableBody>
+              <Row id="1"><Cell>Games</Cell><Cell>File folder</Cell></Row>
+            </TableBody>
+          </Table>
+        </ButtonContext.Provider>
+      );
+
+      let {getByRole, getAllByRole, rerender} = render(renderTable());
+      expect(getByRole('button')).toHaveAttribute('aria-label', 'Sort');
+      expect(getAllByRole('columnheader')[0]).not.toHaveAttribute('draggable');
+
+      rerender(renderTable({onColumnOrderChange: jest.fn()}));
+      expect(getByRole('button')).toHaveAttribute('aria-label', 'Sort');
+      expect(getAllByRole('columnheader')[0]).toHaveAttribute('draggable', 'true');
+    });
+  });
+
   it('should support overriding table style', () => {
     let {getByRole} = render(
       <Table aria-label="Table" style={{width: 200}}>
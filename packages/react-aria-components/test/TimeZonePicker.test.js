@@ -0,0 +1,116 @@
+/*
+ * Copyright 2025 Adobe. All rights reserved.
+ * This file is licensed to you under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License. You may obtain a copy
+ * of the License at http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software distributed under
+ * the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR REPRESENTATIONS
+ * OF ANY KIND, either express or implied. See the License for the specific language
+ * governing permissions and limitations under the License.
+ */
+
+import {act} from '@testing-library/react';
+import {Button, Collection, Header, Input, Label, ListBox, ListBoxItem, ListBoxSection, Popover, TimeZonePicker} from '../';
+import {pointerMap, render, within} from '@react-spectrum/test-utils-internal';
+import React from 'react';
+import userEvent from '@testing-library/user-event';
+
+let timeZones = ['America/Los_Angeles', 'America/New_York', 'Europe/Berlin', 'Asia/Tokyo', 'UTC'];
+let referenceDate = new Date('2024-01-15T12:00:00Z');
+
+let TestTimeZonePicker = (props) => (
+  <TimeZonePicker timeZones={timeZones} referenceDate={referenceDate} {...props}>
+    <Label>Time zone</Label>
+    <Input />
+    <Button />
+    <Popover>
+      <ListBox>
+        {region => (
+          <ListBoxSection id={region.id}>
+            <Header>{region.name}</Header>
+            <Collection items={region.timeZones}>
+              {timeZone => <ListBoxItem id={timeZone.id} textValue={timeZone.textValue}>{timeZone.city} {timeZone.formattedOffset}</ListBoxItem>}
+            </Collection>
+          </ListBoxSection>
+        )}
+      </ListBox>
+    </Popover>
+  </TimeZonePicker>
+);
+
+describe('TimeZonePicker', () => {
+  let user;
+  beforeAll(() => {
+    jest.useFakeTimers();
+    user = userEvent.setup({delay: null, pointerMap});
+  });
+
+  afterEach(() => {
+    act(() => jest.runAllTimers());
+  });
+
+  it('should list time zones grouped by region with offsets', async () => {
+    let {getByRole} = render(<TestTimeZonePicker />);
+
+    let input = getByRole('combobox');
+    expect(input.closest('.react-aria-TimeZonePicker')).toBeInTheDocument();
+
+    await user.click(getByRole('button'));
+    let listbox = getByRole('listbox');
+    let headers = [...listbox.querySelectorAll('.react-aria-Header')];
+    expect(headers.map(header => header.textContent)).toEqual(['UTC', 'Americas', 'Asia', 'Europe']);
+
+    let options = within(listbox).getAllByRole('option');
+    expect(options.map(option => option.textContent)).toEqual([
+      'UTC UTC+00:00',
+      'Los Angeles UTC-08:00',
+      'New York UTC-05:00',
+      'Tokyo UTC+09:00',
+      'Berlin UTC+01:00'
+    ]);
+  });
+
+  it('should list Australia and the Pacific as separate regions', async () => {
+    let {getByRole} = render(<TestTimeZonePicker timeZones={['Australia/Sydney', 'Pacific/Auckland', 'UTC']} />);
+
+    await user.click(getByRole('button'));
+    let listbox = getByRole('listbox');
+    let headers = [...listbox.querySelectorAll('.react-aria-Header')];
+    expect(headers.map(header => header.textContent)).toEqual(['UTC', 'Australia', 'Oceania']);
+    expect(within(listbox).getAllByRole('option').map(option => option.textContent)).toEqual([
+      'UTC UTC+00:00',
+      'Sydney UTC+11:00',
+      'Auckland UTC+13:00'
+    ]);
+  });
+
+  it('should search by city and time zone name', async () => {
+    let {getByRole} = render(<TestTimeZonePicker />);
+
+    let input = getByRole('combobox');
+    await user.type(input, 'tok');
+    let options = within(getByRole('listbox')).getAllByRole('option');
+    expect(options.map(option => option.textContent)).toEqual(['Tokyo UTC+09:00']);
+
+    await user.clear(input);
+    await user.type(input, 'pacific');
+    options = within(getByRole('listbox')).getAllByRole('option');
+    expect(options.map(option => option.textContent)).toEqual(['Los Angeles UTC-08:00']);
+  });
+
+  it('should select a time zone', async () => {
+    let onChange = jest.fn();
+    let {getByRole} = render(<TestTimeZonePicker defaultValue="Europe/Berlin" onChange={onChange} />);
+
+    let input = getByRole('combobox');
+    expect(input.value).toMatch(/^Berlin \(/);
+
+    await user.click(getByRole('button'));
+    let option = within(getByRole('listbox')).getAllByRole('option').find(option => option.textContent.startsWith('Tokyo'));
+    await user.click(option);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith('Asia/Tokyo');
+    expect(input.value).toMatch(/^Tokyo \(/);
+  });
+});